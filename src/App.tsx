@@ -1,5 +1,69 @@
+import type { PermissionMode } from "@anthropic-ai/claude-agent-sdk";
+import { useKeyboard } from "@opentui/react";
 import { ChatContainer } from "./components/chat/ChatContainer";
+import { DiffMessageRenderer } from "./components/messages/DiffMessageRenderer";
+import { registerRenderer } from "./components/messages/MessageRenderer";
+import { SessionPicker } from "./components/session-picker";
+import { useSessionResume } from "./hooks/useSessionResume";
+import type { IAgentService } from "./types/services";
+import type { ISessionStore, SessionLaunch } from "./types/sessions";
 
-export function App() {
-	return <ChatContainer title="Aztec Agent - Claude Powered Chat" />;
+// Show file edits as unified diffs instead of plain tool cards
+registerRenderer(new DiffMessageRenderer());
+
+export type AppProps = {
+	launch?: SessionLaunch;
+	sessionStore: ISessionStore;
+	// Replaces the SDK-backed service (e.g. ReplayAgentService offline)
+	agentService?: IAgentService;
+	// JSONL file to record the conversation to
+	recordTranscript?: string;
+	permissionMode?: PermissionMode;
+};
+
+export function App({
+	launch = { mode: "new" },
+	sessionStore,
+	agentService,
+	recordTranscript,
+	permissionMode,
+}: AppProps) {
+	const sessions = useSessionResume(sessionStore, launch);
+	const isPickerOpen = sessions.pickerSessions !== null;
+
+	// Ctrl+R opens the session picker
+	useKeyboard((key) => {
+		if (key.ctrl && key.name === "r" && !isPickerOpen) sessions.openPicker();
+	});
+
+	return (
+		<box style={{ flexDirection: "column", height: "100%" }}>
+			{/* Keyed by session so reopening one starts a fresh chat + query */}
+			{sessions.activeSession && (
+				<box key={sessions.activeSession.key} style={{ flexGrow: 1 }}>
+					<ChatContainer
+						agentService={agentService}
+						focused={!isPickerOpen}
+						initialMessages={sessions.activeSession.transcript}
+						onClearConversation={sessions.startNew}
+						onOpenSessionPicker={sessions.openPicker}
+						onResumeSession={sessions.resume}
+						permissionMode={permissionMode}
+						recordTranscript={recordTranscript}
+						resumeSessionId={sessions.activeSession.sessionId ?? undefined}
+						sessionStore={sessionStore}
+						title="Aztec Agent - Claude Powered Chat"
+					/>
+				</box>
+			)}
+
+			{sessions.pickerSessions && (
+				<SessionPicker
+					onCancel={sessions.closePicker}
+					onSelect={(session) => sessions.resume(session.sessionId)}
+					sessions={sessions.pickerSessions}
+				/>
+			)}
+		</box>
+	);
 }
@@ -0,0 +1,138 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { PATHS } from "@/testing/config/paths";
+import type { SlashCommand, SlashCommandResult } from "@/types/commands";
+import { formatCost, formatElapsed, formatTokens } from "@/utils/formatMessage";
+import { computeStats, extractSessionInfo } from "@/utils/sessionStats";
+import { formatTranscript } from "@/utils/transcript";
+
+const output = (text: string): SlashCommandResult => ({ type: "output", text });
+const NOTHING: SlashCommandResult = { type: "none" };
+
+const clearCommand: SlashCommand = {
+	name: "clear",
+	description: "Start a new conversation",
+	source: "builtin",
+	run: ({ clearConversation }) => {
+		clearConversation();
+		return NOTHING;
+	},
+};
+
+const modelCommand: SlashCommand = {
+	name: "model",
+	description: "Show or switch the model",
+	argumentHint: "[model]",
+	source: "builtin",
+	run: async ({ args, agent, messages }) => {
+		if (!args) {
+			const model = agent.getModel() ?? extractSessionInfo(messages)?.model;
+			return output(`Model: ${model ?? "default"}`);
+		}
+		await agent.setModel(args);
+		return output(`Model set to ${args}`);
+	},
+};
+
+const costCommand: SlashCommand = {
+	name: "cost",
+	description: "Show cost and token usage of this conversation",
+	source: "builtin",
+	run: ({ messages, sessionStartedAt }) => {
+		const stats = computeStats(messages, sessionStartedAt);
+		return output(
+			[
+				`Total cost: ${formatCost(stats.cost)}`,
+				`Duration:   ${formatElapsed(stats.duration)}`,
+				`Turns:      ${stats.turns}`,
+				`Tokens:     ${formatTokens(stats.tokens)}`,
+			].join("\n")
+		);
+	},
+};
+
+const resumeCommand: SlashCommand = {
+	name: "resume",
+	description: "Reopen a past session",
+	argumentHint: "[session id]",
+	source: "builtin",
+	run: ({ args, openSessionPicker, resumeSession }) => {
+		if (args) {
+			resumeSession(args);
+		} else {
+			openSessionPicker();
+		}
+		return NOTHING;
+	},
+};
+
+const exportCommand: SlashCommand = {
+	name: "export",
+	description: "Save the conversation as markdown",
+	argumentHint: "[file]",
+	source: "builtin",
+	run: async ({ args, agent, messages }) => {
+		const sessionId = agent.getSessionId();
+		const file =
+			args ||
+			path.join(
+				PATHS.exports,
+				`${sessionId ?? "conversation"}-${Date.now()}.md`
+			);
+
+		await mkdir(path.dirname(file), { recursive: true });
+		await writeFile(
+			file,
+			formatTranscript(messages, sessionId ? `Session ${sessionId}` : undefined)
+		);
+		return output(`Conversation exported to ${file}`);
+	},
+};
+
+const helpCommand: SlashCommand = {
+	name: "help",
+	description: "List available commands",
+	source: "builtin",
+	run: ({ commands }) =>
+		output(
+			commands
+				.map((command) => {
+					const usage = [`/${command.name}`, command.argumentHint]
+						.filter(Boolean)
+						.join(" ");
+					const origin = command.source === "project" ? " (project)" : "";
+					return `${usage} - ${command.description}${origin}`;
+				})
+				.join("\n")
+		),
+};
+
+const toolsCommand: SlashCommand = {
+	name: "tools",
+	description: "List the tools the agent can use",
+	source: "builtin",
+	run: ({ messages }) => {
+		const info = extractSessionInfo(messages);
+		if (!info) return output("Tools are listed once the session starts");
+		return output(info.tools.join("\n") || "No tools available");
+	},
+};
+
+const cwdCommand: SlashCommand = {
+	name: "cwd",
+	description: "Show the agent's working directory",
+	source: "builtin",
+	run: ({ messages }) =>
+		output(extractSessionInfo(messages)?.cwd ?? process.cwd()),
+};
+
+export const BUILTIN_COMMANDS: SlashCommand[] = [
+	clearCommand,
+	modelCommand,
+	costCommand,
+	resumeCommand,
+	exportCommand,
+	helpCommand,
+	toolsCommand,
+	cwdCommand,
+];
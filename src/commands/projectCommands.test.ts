@@ -0,0 +1,54 @@
+import { describe, expect, test } from "bun:test";
+import type { SlashCommandContext } from "@/types/commands";
+import { expandCommandTemplate, parseCommandFile } from "./projectCommands";
+import { parseSlashCommand } from "./registry";
+
+describe("parseSlashCommand", () => {
+	test("splits the name from its arguments", () => {
+		expect(parseSlashCommand("/model  opus ")).toEqual({
+			name: "model",
+			args: "opus",
+		});
+	});
+
+	test("ignores input that isn't a command", () => {
+		expect(parseSlashCommand("/usr/bin is on the PATH")).toBeNull();
+		expect(parseSlashCommand("what does /help do?")).toBeNull();
+	});
+});
+
+describe("expandCommandTemplate", () => {
+	test("fills $ARGUMENTS and positional placeholders", () => {
+		expect(
+			expandCommandTemplate("Fix issue $1 ($ARGUMENTS)", "42 urgent")
+		).toBe("Fix issue 42 (42 urgent)");
+	});
+
+	test("appends arguments when the template has no placeholder", () => {
+		expect(expandCommandTemplate("Review the diff.\n", "focus on tests")).toBe(
+			"Review the diff.\n\nfocus on tests"
+		);
+	});
+});
+
+describe("parseCommandFile", () => {
+	test("reads frontmatter and expands the body into a prompt", async () => {
+		const command = parseCommandFile(
+			"fix-issue",
+			'---\ndescription: "Fix a GitHub issue"\nargument-hint: <number>\n---\nFix issue #$ARGUMENTS\n'
+		);
+
+		expect(command.description).toBe("Fix a GitHub issue");
+		expect(command.argumentHint).toBe("<number>");
+		expect(await command.run({ args: "7" } as SlashCommandContext)).toEqual({
+			type: "prompt",
+			prompt: "Fix issue #7",
+		});
+	});
+
+	test("falls back to the first line as description", () => {
+		expect(
+			parseCommandFile("review", "\nReview my changes\n").description
+		).toBe("Review my changes");
+	});
+});
@@ -0,0 +1,121 @@
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { logger } from "@/services/logger";
+import type { SlashCommand } from "@/types/commands";
+import { truncate } from "@/utils/formatMessage";
+
+/**
+ * Directory, relative to the project, holding user-defined commands
+ * Each <name>.md file becomes /name
+ */
+export const PROJECT_COMMANDS_DIR = ".claude/commands";
+
+const COMMAND_EXTENSION = ".md";
+const FRONTMATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+const FRONTMATTER_FIELD_REGEX = /^([\w-]+):\s*(.*)$/;
+const POSITIONAL_ARGUMENT_REGEX = /\$(\d)/g;
+const PLACEHOLDER_REGEX = /\$(?:ARGUMENTS|\d)/;
+const ARGUMENT_SPLIT_REGEX = /\s+/;
+const SURROUNDING_QUOTES_REGEX = /^(["'])(.*)\1$/;
+const MAX_DESCRIPTION_LENGTH = 60;
+
+/**
+ * Split optional "key: value" frontmatter from the markdown body
+ */
+function parseFrontmatter(content: string): {
+	fields: Record<string, string>;
+	body: string;
+} {
+	const match = content.match(FRONTMATTER_REGEX);
+	if (!match) return { fields: {}, body: content };
+
+	const fields: Record<string, string> = {};
+	for (const line of (match[1] ?? "").split("\n")) {
+		const field = line.trim().match(FRONTMATTER_FIELD_REGEX);
+		if (field?.[1]) {
+			fields[field[1]] = (field[2] ?? "").replace(
+				SURROUNDING_QUOTES_REGEX,
+				"$2"
+			);
+		}
+	}
+	return { fields, body: content.slice(match[0].length) };
+}
+
+/**
+ * Fill a command template with the arguments typed after its name
+ * $ARGUMENTS takes the whole string and $1..$9 single words; a template
+ * without placeholders gets the arguments appended
+ */
+export function expandCommandTemplate(template: string, args: string): string {
+	const words = args ? args.split(ARGUMENT_SPLIT_REGEX) : [];
+	const expanded = template
+		.replaceAll("$ARGUMENTS", args)
+		.replace(
+			POSITIONAL_ARGUMENT_REGEX,
+			(_, position: string) => words[Number(position) - 1] ?? ""
+		)
+		.trim();
+
+	if (PLACEHOLDER_REGEX.test(template) || !args) return expanded;
+	return `${expanded}\n\n${args}`;
+}
+
+/**
+ * Build a command from a markdown file's name and content
+ * Frontmatter may set description and argument-hint; otherwise the first
+ * line of the body describes the command
+ */
+export function parseCommandFile(name: string, content: string): SlashCommand {
+	const { fields, body } = parseFrontmatter(content);
+	const firstLine =
+		body
+			.split("\n")
+			.find((line) => line.trim())
+			?.trim() ?? "";
+
+	return {
+		name,
+		description:
+			fields.description ?? truncate(firstLine, MAX_DESCRIPTION_LENGTH),
+		argumentHint: fields["argument-hint"],
+		source: "project",
+		run: ({ args }) => ({
+			type: "prompt",
+			prompt: expandCommandTemplate(body, args),
+		}),
+	};
+}
+
+/**
+ * Read every <name>.md in a commands directory
+ * A missing directory just means the project defines no commands
+ */
+export async function loadProjectCommands(
+	dir: string
+): Promise<SlashCommand[]> {
+	let files: string[];
+	try {
+		files = await readdir(dir);
+	} catch {
+		return [];
+	}
+
+	const commands = await Promise.all(
+		files
+			.filter((file) => file.endsWith(COMMAND_EXTENSION))
+			.map(async (file) => {
+				try {
+					const content = await readFile(path.join(dir, file), "utf-8");
+					return [
+						parseCommandFile(path.basename(file, COMMAND_EXTENSION), content),
+					];
+				} catch (error) {
+					logger.warn(`Skipping unreadable command file ${file}:`, error);
+					return [];
+				}
+			})
+	);
+
+	return commands.flat();
+}
@@ -0,0 +1,45 @@
+import type { SlashCommand } from "@/types/commands";
+import { BUILTIN_COMMANDS } from "./builtinCommands";
+
+/**
+ * Slash command registry
+ * Open/Closed Principle: Add commands (e.g. project commands) without
+ * modifying this module
+ * Single Responsibility: Only looks commands up by name
+ */
+const commands = new Map<string, SlashCommand>(
+	BUILTIN_COMMANDS.map((command) => [command.name, command])
+);
+
+// "/name" followed by optional arguments
+const SLASH_COMMAND_REGEX = /^\/([\w:-]+)(?:\s+([\s\S]*))?$/;
+
+/**
+ * Register a command, replacing any command with the same name
+ */
+export function registerCommand(command: SlashCommand): void {
+	commands.set(command.name, command);
+}
+
+export function getCommand(name: string): SlashCommand | null {
+	return commands.get(name) ?? null;
+}
+
+/**
+ * All registered commands, sorted by name
+ */
+export function listCommands(): SlashCommand[] {
+	return [...commands.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Split "/name args" into its parts
+ * Returns null when the input isn't shaped like a slash command
+ */
+export function parseSlashCommand(
+	input: string
+): { name: string; args: string } | null {
+	const match = input.trim().match(SLASH_COMMAND_REGEX);
+	if (!match?.[1]) return null;
+	return { name: match[1], args: (match[2] ?? "").trim() };
+}
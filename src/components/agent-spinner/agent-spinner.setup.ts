@@ -1,3 +1,4 @@
+import type { CaptureSettings } from "@/testing/types";
 import type { AgentSpinnerProps } from "./index";
 
 // Type-safe scenario configuration
@@ -9,6 +10,12 @@ export type AgentSpinnerScenario = {
 };
 
 const config = {
+	// Frames through the spinner cycle and the bar's 400ms fill animation
+	capture: {
+		settleMs: 50,
+		frames: 6,
+		frameIntervalMs: 100,
+	},
 	scenarios: [
 		{
 			scenarioName: "low-usage",
@@ -71,6 +78,9 @@ const config = {
 			},
 		},
 	],
-} as const satisfies { scenarios: AgentSpinnerScenario[] };
+} as const satisfies {
+	capture: CaptureSettings;
+	scenarios: AgentSpinnerScenario[];
+};
 
 export default config;
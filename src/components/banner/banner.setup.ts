@@ -8,6 +8,7 @@ const config = {
 			params: {
 				message: "What will you build?",
 			},
+			tags: ["smoke"],
 		},
 	],
 } as const;
@@ -18,6 +19,7 @@ export type Senario = {
 	description: string;
 	expectation: string;
 	params: Record<string, unknown>;
+	tags?: readonly string[];
 };
 
 export default config;
@@ -1,10 +1,27 @@
-import { useEffect, useMemo } from "react";
+import type {
+	PermissionMode,
+	SDKMessage,
+} from "@anthropic-ai/claude-agent-sdk";
+import { useKeyboard, useRenderer } from "@opentui/react";
+import { useEffect, useMemo, useState } from "react";
 import { useAgentQuery } from "@/hooks/useAgentQuery";
+import { useFileSnapshots } from "@/hooks/useFileSnapshots";
+import { useInterruptKeys } from "@/hooks/useInterruptKeys";
+import { usePermissionPrompt } from "@/hooks/usePermissionPrompt";
+import { useSessionStart } from "@/hooks/useSessionStart";
+import { useSessionStats } from "@/hooks/useSessionStats";
+import { useSlashCommands } from "@/hooks/useSlashCommands";
 import { useStreamingInput } from "@/hooks/useStreamingInput";
 import { useTokenUsage } from "@/hooks/useTokenUsage";
 import { AgentService } from "@/services/AgentService";
 import { logger } from "@/services/logger";
+import { RecordingAgentService } from "@/services/RecordingAgentService";
+import { COLORS } from "@/types";
 import type { IAgentService } from "@/types/services";
+import type { ISessionStore } from "@/types/sessions";
+import { parseLocalCommandOutput } from "@/utils/messageParser";
+import { PermissionPrompt } from "../permission-prompt";
+import { StatusBar } from "../status-bar";
 import { InputField } from "../ui/InputField";
 import { MessageList } from "./MessageList";
 
@@ -16,27 +33,142 @@ import { MessageList } from "./MessageList";
 export type ChatContainerProps = {
 	agentService?: IAgentService;
 	title?: string;
+	permissionMode?: PermissionMode;
+	// False while an overlay (e.g. the session picker) owns the keyboard
+	focused?: boolean;
+	// Session to continue and its stored transcript
+	resumeSessionId?: string;
+	initialMessages?: SDKMessage[];
+	sessionStore?: ISessionStore;
+	// Record the conversation to this JSONL file for ReplayAgentService
+	recordTranscript?: string;
+	// Slash command actions owned by the app; without them /clear only
+	// empties the message list and /resume is unavailable
+	onClearConversation?: () => void;
+	onOpenSessionPicker?: () => void;
+	onResumeSession?: (sessionId: string) => void;
 };
 
-export function ChatContainer({ agentService }: ChatContainerProps) {
+const NO_MESSAGES: SDKMessage[] = [];
+
+const sessionsUnavailable = () => {
+	logger.warn("Session picker is not available in this chat");
+};
+
+type SessionStatusBarProps = {
+	messages: SDKMessage[];
+	startedAt: number | null;
+	model?: string;
+};
+
+/**
+ * Status bar fed from the messages; its clock ticks every second, which
+ * re-renders only it and not the message list
+ */
+function SessionStatusBar({
+	messages,
+	startedAt,
+	model,
+}: SessionStatusBarProps) {
+	const { info, stats } = useSessionStats(messages, startedAt);
+	return <StatusBar info={info} model={model} stats={stats} />;
+}
+
+export function ChatContainer({
+	agentService,
+	permissionMode = "default",
+	focused = true,
+	resumeSessionId,
+	initialMessages = NO_MESSAGES,
+	sessionStore,
+	recordTranscript,
+	onClearConversation,
+	onOpenSessionPicker = sessionsUnavailable,
+	onResumeSession = sessionsUnavailable,
+}: ChatContainerProps) {
+	// Tool calls that need approval are routed through the inline prompt
+	const permissions = usePermissionPrompt();
+
+	// Files as they were before each edit, for the diffs in the message list
+	const fileSnapshots = useFileSnapshots();
+
 	// Use provided service or create default
-	const service = useMemo(
-		() => agentService || new AgentService(),
-		[agentService]
-	);
+	const service = useMemo(() => {
+		const baseService =
+			agentService ||
+			new AgentService({
+				permissionMode,
+				canUseTool: permissions.canUseTool,
+				onFileSnapshot: fileSnapshots.onFileSnapshot,
+				resumeSessionId,
+				sessionStore,
+			});
+		return recordTranscript
+			? new RecordingAgentService(baseService, {
+					transcriptPath: recordTranscript,
+				})
+			: baseService;
+	}, [
+		agentService,
+		permissionMode,
+		permissions.canUseTool,
+		fileSnapshots.onFileSnapshot,
+		resumeSessionId,
+		sessionStore,
+		recordTranscript,
+	]);
 
 	// Initialize streaming input controller
 	const streamingInput = useStreamingInput();
 
 	// Initialize agent query hook
-	const { messages, isRunning, error, start } = useAgentQuery(
-		service,
-		streamingInput
+	const {
+		messages,
+		streamingText,
+		isTurnRunning,
+		error,
+		start,
+		send,
+		stop,
+		interrupt,
+		appendMessage,
+		clearMessages,
+	} = useAgentQuery(service, streamingInput, initialMessages);
+
+	// Slash command output is local - it doesn't mean the agent is busy
+	const agentMessages = useMemo(
+		() =>
+			messages.filter((message) => parseLocalCommandOutput(message) === null),
+		[messages]
 	);
 
 	// Track token usage from messages
 	const tokenUsage = useTokenUsage(messages);
 
+	// When the session started, for the status bar's clock and /cost
+	const sessionStartedAt = useSessionStart(messages);
+
+	// Ctrl+O toggles full tool output in the message list
+	const [expandToolOutput, setExpandToolOutput] = useState(false);
+	useKeyboard((key) => {
+		if (focused && key.ctrl && key.name === "o") {
+			setExpandToolOutput((prev) => !prev);
+		}
+	});
+
+	// Esc / Ctrl+C interrupt the current turn, a second Ctrl+C exits
+	const renderer = useRenderer();
+	const { exitPending } = useInterruptKeys({
+		canInterrupt: isTurnRunning,
+		escapeEnabled: focused && !permissions.pendingRequest,
+		onInterrupt: interrupt,
+		onExit: () => {
+			stop();
+			renderer.destroy();
+			process.exit(0);
+		},
+	});
+
 	if (error) logger.error(error);
 
 	// Auto-start the agent query on mount
@@ -45,27 +177,40 @@ export function ChatContainer({ agentService }: ChatContainerProps) {
 		start();
 	}, []);
 
-	// Handle user message submission
+	// Send a prompt to the agent
+	const sendPrompt = (message: string) => {
+		logger.info(
+			`Submitting message: ${message}, turn running: ${isTurnRunning}`
+		);
+		send(message);
+	};
+
+	const { suggestions, runCommand } = useSlashCommands({
+		agent: service,
+		messages,
+		sessionStartedAt,
+		appendMessage,
+		sendPrompt,
+		clearConversation: onClearConversation ?? clearMessages,
+		openSessionPicker: onOpenSessionPicker,
+		resumeSession: onResumeSession,
+	});
+
+	// Handle user message submission: slash commands first, then the agent
 	const handleSubmit = (message: string) => {
 		if (!message.trim()) return;
-		logger.info(`Submitting message: ${message}, isRunning: ${isRunning}`);
-		streamingInput.sendMessage(message);
-
-		// If the query isn't running (e.g., after it ended), restart it
-		if (!isRunning) {
-			logger.info("Query not running, restarting...");
-			start();
-		}
+		if (runCommand(message)) return;
+		sendPrompt(message);
 	};
 
 	// Check if agent is actively working
 	// Show spinner when agent is running and waiting for response
 	// But NOT when there are no messages (empty state)
-	const lastMessage = messages.at(-1);
+	const lastMessage = agentMessages.at(-1);
 	const isWaitingForResponse =
 		lastMessage?.type === "user" || lastMessage?.type === "system";
 	const isAgentWorking =
-		isRunning && messages.length > 0 && isWaitingForResponse;
+		isTurnRunning && agentMessages.length > 0 && isWaitingForResponse;
 
 	return (
 		<box
@@ -77,19 +222,47 @@ export function ChatContainer({ agentService }: ChatContainerProps) {
 			{/* Message list - fills screen */}
 			<box style={{ flexGrow: 1 }}>
 				<MessageList
+					expandToolOutput={expandToolOutput}
+					fileSnapshots={fileSnapshots.snapshots}
 					isAgentWorking={isAgentWorking}
 					messages={messages}
+					streamingText={streamingText}
 					tokensMax={tokenUsage?.tokensMax}
 					tokensUsed={tokenUsage?.tokensUsed}
 				/>
 			</box>
 
+			{/* Approval card - blocks the pending tool call until answered */}
+			{permissions.pendingRequest && (
+				<box key={permissions.pendingRequest.id}>
+					<PermissionPrompt
+						focused={focused}
+						onDecision={permissions.respond}
+						request={permissions.pendingRequest}
+					/>
+				</box>
+			)}
+
 			{/* Input field - only top/bottom borders */}
 			<InputField
+				commands={suggestions}
 				disabled={false} // Always allow input
+				focused={focused && !permissions.pendingRequest ? undefined : false}
 				onSubmit={handleSubmit}
 				placeholder="Type your message and press Enter..."
 			/>
+
+			<SessionStatusBar
+				messages={messages}
+				model={service.getModel()}
+				startedAt={sessionStartedAt}
+			/>
+
+			{exitPending && (
+				<text fg={COLORS.dim} style={{ paddingLeft: 1 }}>
+					Press Ctrl+C again to exit
+				</text>
+			)}
 		</box>
 	);
 }
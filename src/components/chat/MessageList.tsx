@@ -1,6 +1,10 @@
 import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import { useMemo } from "react";
+import { useToolCallStates } from "@/hooks/useToolCallStates";
 import { AgentSpinner } from "../agent-spinner";
 import { MessageRenderer } from "../messages/MessageRenderer";
+import { StreamingMessage } from "../messages/StreamingMessage";
+import { ToolCallContext } from "../messages/ToolCallContext";
 
 /**
  * Component to display list of messages
@@ -12,15 +16,36 @@ export type MessageListProps = {
 	isAgentWorking?: boolean;
 	tokensUsed?: number;
 	tokensMax?: number;
+	expandToolOutput?: boolean;
+	// Assistant text still streaming in, rendered after the last message
+	streamingText?: string;
+	// File content before each file-editing tool call, by tool_use_id
+	fileSnapshots?: Map<string, string | null>;
 };
 
+const NO_SNAPSHOTS = new Map<string, string | null>();
+
 export function MessageList({
 	messages,
 	height = "100%",
 	isAgentWorking = false,
 	tokensUsed,
 	tokensMax,
+	expandToolOutput = false,
+	streamingText = "",
+	fileSnapshots = NO_SNAPSHOTS,
 }: MessageListProps) {
+	// Pair tool calls with their results across messages
+	const toolCallStates = useToolCallStates(messages);
+	const toolCallContext = useMemo(
+		() => ({
+			states: toolCallStates,
+			expandOutput: expandToolOutput,
+			fileSnapshots,
+		}),
+		[toolCallStates, expandToolOutput, fileSnapshots]
+	);
+
 	if (messages.length === 0) {
 		return (
 			<box
@@ -61,16 +86,21 @@ export function MessageList({
 				},
 			}}
 		>
-			{messages.map((message, index) => (
-				<MessageRenderer
-					index={index}
-					key={`msg-${index}-${message.session_id}`}
-					message={message}
-				/>
-			))}
+			<ToolCallContext.Provider value={toolCallContext}>
+				{messages.map((message, index) => (
+					<MessageRenderer
+						index={index}
+						key={`msg-${index}-${message.session_id}`}
+						message={message}
+					/>
+				))}
+			</ToolCallContext.Provider>
+
+			{/* Text of the assistant message that is still being written */}
+			{streamingText && <StreamingMessage text={streamingText} />}
 
 			{/* Show spinner below the last message when agent is working */}
-			{isAgentWorking && (
+			{isAgentWorking && !streamingText && (
 				<box style={{ marginLeft: 2, marginTop: 1 }}>
 					<AgentSpinner tokensMax={tokensMax} tokensUsed={tokensUsed} />
 				</box>
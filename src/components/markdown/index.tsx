@@ -0,0 +1,286 @@
+import { TextAttributes } from "@opentui/core";
+import { type ReactNode, useMemo } from "react";
+import { COLORS } from "@/types";
+import type {
+	InlineToken,
+	ListItem,
+	MarkdownBlock,
+	SyntaxTokenKind,
+	TableAlign,
+} from "@/types/markdown";
+import { inlineText, parseMarkdown } from "@/utils/markdown";
+import { highlightCode } from "@/utils/syntaxHighlight";
+
+export type MarkdownProps = {
+	content: string;
+};
+
+const SYNTAX_COLORS: Record<SyntaxTokenKind, string | undefined> = {
+	plain: undefined,
+	keyword: COLORS.tool,
+	string: COLORS.assistant,
+	number: COLORS.system,
+	comment: COLORS.dim,
+	function: COLORS.user,
+	type: COLORS.system,
+};
+
+const INLINE_CODE_COLOR = COLORS.system;
+const LINK_COLOR = COLORS.user;
+const HEADING_COLOR = COLORS.user;
+
+// Headings at or above this level get the accent color
+const ACCENT_HEADING_LEVEL = 2;
+// Spaces of indentation per list nesting level
+const LIST_INDENT = 2;
+const TABLE_COLUMN_GAP = " │ ";
+
+const combineAttributes = (...flags: number[]): number =>
+	// biome-ignore lint/suspicious/noBitwiseOperators: TextAttributes are bit flags
+	flags.reduce((all, flag) => all | flag, TextAttributes.NONE);
+
+const flagIf = (enabled: unknown, flag: number): number =>
+	enabled ? flag : TextAttributes.NONE;
+
+/**
+ * Combine inline styles into a TextAttributes bitmask
+ */
+const inlineAttributes = (token: InlineToken): number =>
+	combineAttributes(
+		flagIf(token.bold, TextAttributes.BOLD),
+		flagIf(token.italic, TextAttributes.ITALIC),
+		flagIf(token.strikethrough, TextAttributes.STRIKETHROUGH),
+		flagIf(token.href, TextAttributes.UNDERLINE)
+	);
+
+const inlineColor = (token: InlineToken): string | undefined => {
+	if (token.code) return INLINE_CODE_COLOR;
+	if (token.href) return LINK_COLOR;
+	return;
+};
+
+/**
+ * Render styled runs as spans inside a <text> node
+ */
+function renderInline(tokens: InlineToken[], keyPrefix: string): ReactNode[] {
+	return tokens.flatMap((token, tokenIndex) => {
+		const key = `${keyPrefix}-${tokenIndex}`;
+		const span = (
+			<span
+				attributes={inlineAttributes(token)}
+				fg={inlineColor(token)}
+				key={key}
+			>
+				{token.text}
+			</span>
+		);
+
+		// Show the target of links whose text isn't the URL itself
+		if (token.href && token.href !== token.text) {
+			return [
+				span,
+				<span fg={COLORS.dim} key={`${key}-href`}>
+					{` (${token.href})`}
+				</span>,
+			];
+		}
+		return [span];
+	});
+}
+
+function Heading({
+	level,
+	content,
+}: {
+	level: number;
+	content: InlineToken[];
+}) {
+	const attributes = combineAttributes(
+		TextAttributes.BOLD,
+		flagIf(level === 1, TextAttributes.UNDERLINE)
+	);
+
+	return (
+		<text
+			attributes={attributes}
+			fg={level <= ACCENT_HEADING_LEVEL ? HEADING_COLOR : undefined}
+		>
+			{renderInline(content, "heading")}
+		</text>
+	);
+}
+
+function ListItemRow({ item }: { item: ListItem }) {
+	let marker = item.marker;
+	if (item.checked !== undefined) marker = item.checked ? "☑" : "☐";
+
+	return (
+		<box
+			style={{ flexDirection: "row", paddingLeft: item.depth * LIST_INDENT }}
+		>
+			<text fg={COLORS.dim}>{`${marker} `}</text>
+			<text>{renderInline(item.content, "item")}</text>
+		</box>
+	);
+}
+
+function CodeBlock({ language, code }: { language: string; code: string }) {
+	const lines = useMemo(() => highlightCode(code, language), [code, language]);
+
+	return (
+		<box
+			borderColor={COLORS.border}
+			borderStyle="rounded"
+			style={{ flexDirection: "column", paddingLeft: 1, paddingRight: 1 }}
+			title={language ? ` ${language} ` : undefined}
+		>
+			{lines.map((tokens, lineIndex) => {
+				const lineKey = `code-${lineIndex}`;
+				return (
+					<text key={lineKey}>
+						{tokens.map((token, tokenIndex) => {
+							const tokenKey = `${lineKey}-${tokenIndex}`;
+							return (
+								<span fg={SYNTAX_COLORS[token.kind]} key={tokenKey}>
+									{token.text}
+								</span>
+							);
+						})}
+					</text>
+				);
+			})}
+		</box>
+	);
+}
+
+/**
+ * Spaces needed on each side to align a cell within its column
+ */
+const cellPadding = (
+	width: number,
+	textLength: number,
+	align: TableAlign | undefined
+): [left: number, right: number] => {
+	const space = Math.max(0, width - textLength);
+	if (align === "right") return [space, 0];
+	if (align === "center") {
+		const left = Math.floor(space / 2);
+		return [left, space - left];
+	}
+	return [0, space];
+};
+
+type TableProps = {
+	align: TableAlign[];
+	header: InlineToken[][];
+	rows: InlineToken[][][];
+};
+
+function Table({ align, header, rows }: TableProps) {
+	const widths = header.map((cell, column) =>
+		Math.max(
+			inlineText(cell).length,
+			...rows.map((row) => inlineText(row[column] ?? []).length)
+		)
+	);
+
+	const renderRow = (cells: InlineToken[][], rowKey: string, bold = false) => (
+		<text attributes={bold ? TextAttributes.BOLD : undefined} key={rowKey}>
+			{cells.flatMap((cell, column) => {
+				const [left, right] = cellPadding(
+					widths[column] ?? 0,
+					inlineText(cell).length,
+					align[column]
+				);
+				const cellKey = `${rowKey}-${column}`;
+				return [
+					<span key={`${cellKey}-left`}>
+						{`${column === 0 ? "" : TABLE_COLUMN_GAP}${" ".repeat(left)}`}
+					</span>,
+					...renderInline(cell, cellKey),
+					<span key={`${cellKey}-right`}>{" ".repeat(right)}</span>,
+				];
+			})}
+		</text>
+	);
+
+	return (
+		<box style={{ flexDirection: "column" }}>
+			{renderRow(header, "table-header", true)}
+			<text fg={COLORS.border}>
+				{widths.map((width) => "─".repeat(width)).join("─┼─")}
+			</text>
+			{rows.map((row, rowIndex) => renderRow(row, `table-row-${rowIndex}`))}
+		</box>
+	);
+}
+
+function Block({ block }: { block: MarkdownBlock }) {
+	switch (block.type) {
+		case "heading":
+			return <Heading content={block.content} level={block.level} />;
+		case "paragraph":
+			return <text>{renderInline(block.content, "paragraph")}</text>;
+		case "list":
+			return (
+				<box style={{ flexDirection: "column" }}>
+					{block.items.map((item, itemIndex) => {
+						const itemKey = `item-${itemIndex}`;
+						return (
+							<box key={itemKey}>
+								<ListItemRow item={item} />
+							</box>
+						);
+					})}
+				</box>
+			);
+		case "blockquote":
+			return (
+				<box
+					border={["left"]}
+					borderColor={COLORS.dim}
+					style={{ flexDirection: "column", paddingLeft: 1 }}
+				>
+					<BlockList blocks={block.children} />
+				</box>
+			);
+		case "code":
+			return <CodeBlock code={block.code} language={block.language} />;
+		case "table":
+			return (
+				<Table align={block.align} header={block.header} rows={block.rows} />
+			);
+		case "rule":
+			return <box border={["top"]} borderColor={COLORS.border} />;
+		default:
+			return null;
+	}
+}
+
+function BlockList({ blocks }: { blocks: MarkdownBlock[] }) {
+	return (
+		<box style={{ flexDirection: "column" }}>
+			{blocks.map((block, blockIndex) => {
+				const blockKey = `block-${blockIndex}`;
+				return (
+					<box
+						key={blockKey}
+						style={{ marginBottom: blockIndex < blocks.length - 1 ? 1 : 0 }}
+					>
+						<Block block={block} />
+					</box>
+				);
+			})}
+		</box>
+	);
+}
+
+/**
+ * Terminal markdown renderer for assistant text
+ * Headings, emphasis, lists, block quotes, tables and fenced code with
+ * syntax highlighting, all colored from the COLORS palette
+ */
+export function Markdown({ content }: MarkdownProps) {
+	const blocks = useMemo(() => parseMarkdown(content), [content]);
+	return <BlockList blocks={blocks} />;
+}
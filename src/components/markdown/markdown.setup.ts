@@ -0,0 +1,57 @@
+import type { MarkdownProps } from "./index";
+
+// Type-safe scenario configuration
+export type MarkdownScenario = {
+	scenarioName: string;
+	description: string;
+	expectation: string;
+	params: MarkdownProps;
+};
+
+const config = {
+	scenarios: [
+		{
+			scenarioName: "prose",
+			description: "Headings, emphasis, lists and a block quote",
+			expectation:
+				"Shows 'Release notes' in bold underlined blue, then 'Highlights' in bold blue. Below, a line where 'faster' is bold, 'diff view' is italic, 'bun test' is yellow and 'docs' is underlined blue followed by ' (https://example.com/docs)' in gray. Then a bullet list with '•' markers, a nested item marked '◦' indented by two spaces, and '☑ Ship it' / '☐ Write docs' task items. Last, a block quote with a gray vertical bar on its left.",
+			params: {
+				content: [
+					"# Release notes",
+					"",
+					"## Highlights",
+					"",
+					"Tool calls are **faster**, the *diff view* is new and `bun test` passes. See [docs](https://example.com/docs).",
+					"",
+					"- Markdown rendering",
+					"  - Syntax highlighting",
+					"- [x] Ship it",
+					"- [ ] Write docs",
+					"",
+					"> Breaking changes are listed below.",
+				].join("\n"),
+			},
+		},
+		{
+			scenarioName: "code-and-table",
+			description: "Fenced TypeScript block and an aligned table",
+			expectation:
+				"Shows a rounded gray box titled ' ts ' containing two lines of code: '// Load the config' in gray, then 'const' and 'await' in purple, 'loadConfig' in blue, '\"app.json\"' in green and '3' in yellow. Below it a table with bold headers 'Tool' and 'Calls' separated by '│', a '─┼─' rule under the header, and the numbers right-aligned in the 'Calls' column.",
+			params: {
+				content: [
+					"```ts",
+					"// Load the config",
+					'const config = await loadConfig("app.json", 3);',
+					"```",
+					"",
+					"| Tool | Calls |",
+					"|------|------:|",
+					"| Bash | 12 |",
+					"| Edit | 3 |",
+				].join("\n"),
+			},
+		},
+	],
+} as const satisfies { scenarios: MarkdownScenario[] };
+
+export default config;
@@ -0,0 +1,95 @@
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import { type ReactNode, useMemo } from "react";
+import { COLORS } from "@/types";
+import type { ToolCallContent } from "@/types/messages";
+import {
+	buildFileEditDiff,
+	type FileEditToolName,
+	isFileEditTool,
+} from "@/utils/fileEdits";
+import { DiffView } from "./DiffView";
+import { ToolCallCard } from "./ToolCallCard";
+import { useToolCallContext } from "./ToolCallContext";
+import { ToolCallMessageRenderer } from "./ToolCallMessageRenderer";
+
+type FileEditCardProps = {
+	toolCall: ToolCallContent & { name: FileEditToolName };
+};
+
+/**
+ * Tool call card followed by the diff of the file change
+ * The diff needs the file as it was before the call, which the agent
+ * service reads just before the tool runs. Without it (e.g. a resumed
+ * session's calls) an edit shows only its own snippets, and a write
+ * nothing beyond a note
+ */
+function FileEditCard({ toolCall }: FileEditCardProps) {
+	const { expandOutput, states, fileSnapshots } = useToolCallContext();
+	const input = (toolCall.input ?? {}) as Record<string, unknown>;
+	const known = fileSnapshots.has(toolCall.id);
+	const original = fileSnapshots.get(toolCall.id) ?? null;
+	// A running call's snapshot may still be on its way
+	const pending = !known && states.get(toolCall.id)?.status === "running";
+
+	const preview = useMemo(
+		() =>
+			known || toolCall.name !== "Write"
+				? buildFileEditDiff(toolCall.name, input, original)
+				: null,
+		[known, toolCall.name, input, original]
+	);
+
+	if (pending) return <ToolCallCard toolCall={toolCall} />;
+
+	return (
+		<box style={{ flexDirection: "column" }}>
+			<ToolCallCard toolCall={toolCall} />
+			<box style={{ flexDirection: "column", paddingLeft: 2, marginBottom: 1 }}>
+				<text>
+					<span fg={COLORS.dim}>
+						{preview?.isNewFile ? "Create " : "Update "}
+					</span>
+					<span>{String(input.file_path ?? "")}</span>
+					{preview && (
+						<span fg={COLORS.assistant}>{`  +${preview.diff.additions}`}</span>
+					)}
+					{preview && (
+						<span fg={COLORS.error}>{` -${preview.diff.deletions}`}</span>
+					)}
+					{!known && <span fg={COLORS.dim}> (previous content unknown)</span>}
+				</text>
+				{preview && <DiffView diff={preview.diff} expanded={expandOutput} />}
+			</box>
+		</box>
+	);
+}
+
+/**
+ * Renderer for messages that edit files (Edit, MultiEdit, Write)
+ * Open/Closed: Extends the tool call renderer, only replacing how
+ * file-editing tool calls are displayed
+ */
+export class DiffMessageRenderer extends ToolCallMessageRenderer {
+	override canRender(message: SDKMessage): boolean {
+		if (!super.canRender(message) || message.type !== "assistant") {
+			return false;
+		}
+
+		return message.message.content.some(
+			(block: { type: string; name?: string }) =>
+				block.type === "tool_use" && isFileEditTool(block.name ?? "")
+		);
+	}
+
+	protected override renderToolCall(toolCall: ToolCallContent): ReactNode {
+		if (!isFileEditTool(toolCall.name)) {
+			return super.renderToolCall(toolCall);
+		}
+
+		return (
+			<FileEditCard
+				toolCall={toolCall as ToolCallContent & { name: FileEditToolName }}
+			/>
+		);
+	}
+}
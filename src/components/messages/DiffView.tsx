@@ -0,0 +1,86 @@
+import { COLORS } from "@/types";
+import type { DiffLine, UnifiedDiff } from "@/types/diff";
+import { formatHunkHeader } from "@/utils/diff";
+
+// Lines shown before the diff collapses (hunk headers included)
+const COLLAPSED_LINE_LIMIT = 20;
+
+const DIFF_COLORS = {
+	add: { fg: COLORS.assistant, bg: "#1B3324" },
+	remove: { fg: COLORS.error, bg: "#3A1D1D" },
+	context: { fg: COLORS.dim, bg: undefined },
+	hunk: COLORS.tool,
+} as const;
+
+const SIGNS: Record<DiffLine["type"], string> = {
+	add: "+",
+	remove: "-",
+	context: " ",
+};
+
+type DiffRow =
+	| { kind: "hunk"; text: string }
+	| { kind: "line"; line: DiffLine };
+
+export type DiffViewProps = {
+	diff: UnifiedDiff;
+	expanded?: boolean;
+};
+
+/**
+ * Colored unified diff with line numbers and hunk headers
+ * Large diffs are collapsed unless expanded is set
+ */
+export function DiffView({ diff, expanded = false }: DiffViewProps) {
+	if (diff.hunks.length === 0) {
+		return <text fg={COLORS.dim}>(no changes)</text>;
+	}
+
+	const rows: DiffRow[] = diff.hunks.flatMap((hunk) => [
+		{ kind: "hunk" as const, text: formatHunkHeader(hunk) },
+		...hunk.lines.map((line) => ({ kind: "line" as const, line })),
+	]);
+
+	const visibleRows = expanded ? rows : rows.slice(0, COLLAPSED_LINE_LIMIT);
+	const hiddenCount = rows.length - visibleRows.length;
+
+	// Pad line numbers to the widest one in the diff
+	const gutterWidth = String(
+		Math.max(
+			...diff.hunks.map((hunk) =>
+				Math.max(hunk.oldStart + hunk.oldLines, hunk.newStart + hunk.newLines)
+			)
+		)
+	).length;
+
+	return (
+		<box style={{ flexDirection: "column" }}>
+			{visibleRows.map((row, rowIndex) => {
+				const rowKey = `diff-row-${rowIndex}`;
+
+				if (row.kind === "hunk") {
+					return (
+						<text fg={DIFF_COLORS.hunk} key={rowKey}>
+							{row.text}
+						</text>
+					);
+				}
+
+				const { line } = row;
+				const lineNumber = line.type === "remove" ? line.oldLine : line.newLine;
+				const colors = DIFF_COLORS[line.type];
+
+				return (
+					<text bg={colors.bg} fg={colors.fg} key={rowKey}>
+						{`${String(lineNumber ?? "").padStart(gutterWidth)} ${SIGNS[line.type]} ${line.text}`}
+					</text>
+				);
+			})}
+			{hiddenCount > 0 && (
+				<text fg={COLORS.dim}>
+					{`… +${hiddenCount} lines (ctrl+o to expand)`}
+				</text>
+			)}
+		</box>
+	);
+}
@@ -0,0 +1,27 @@
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import type { ReactNode } from "react";
+import { COLORS } from "@/types";
+import type { IMessageRenderer } from "@/types/messages";
+import { isInterruptMarker } from "@/utils/messageParser";
+
+/**
+ * Renderer for the marker left behind when a turn is interrupted
+ * Single Responsibility: Show where the user cut the agent off instead
+ * of echoing the raw "[Request interrupted by user]" text
+ */
+export class InterruptMarkerRenderer implements IMessageRenderer {
+	canRender(message: SDKMessage): boolean {
+		return isInterruptMarker(message);
+	}
+
+	render(_message: SDKMessage, index: number): ReactNode {
+		return (
+			<box key={`msg-${index}`} style={{ marginBottom: 1, paddingLeft: 2 }}>
+				<text>
+					<span fg={COLORS.error}>⎿ Interrupted</span>
+					<span fg={COLORS.dim}> · Type a follow-up to continue</span>
+				</text>
+			</box>
+		);
+	}
+}
@@ -0,0 +1,38 @@
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import type { ReactNode } from "react";
+import { COLORS } from "@/types";
+import type { IMessageRenderer } from "@/types/messages";
+import { parseLocalCommandOutput } from "@/utils/messageParser";
+
+/**
+ * Renderer for slash commands that ran locally (/cost, /help...)
+ * Single Responsibility: Show the command and its output instead of the
+ * raw tagged text
+ */
+export class LocalCommandRenderer implements IMessageRenderer {
+	canRender(message: SDKMessage): boolean {
+		return parseLocalCommandOutput(message) !== null;
+	}
+
+	render(message: SDKMessage, index: number): ReactNode {
+		const { commandLine, output } = parseLocalCommandOutput(message) ?? {
+			commandLine: "",
+			output: "",
+		};
+
+		return (
+			<box
+				key={`msg-${index}`}
+				style={{ flexDirection: "column", marginBottom: 1 }}
+			>
+				<text fg={COLORS.dim}>{`> ${commandLine}`}</text>
+				{output && (
+					<box style={{ flexDirection: "row", paddingLeft: 2 }}>
+						<text fg={COLORS.dim}>⎿ </text>
+						<text>{output}</text>
+					</box>
+				)}
+			</box>
+		);
+	}
+}
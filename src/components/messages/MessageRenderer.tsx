@@ -1,8 +1,11 @@
 import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
 import type { IMessageRenderer } from "@/types/messages";
+import { InterruptMarkerRenderer } from "./InterruptMarkerRenderer";
+import { LocalCommandRenderer } from "./LocalCommandRenderer";
 import { SystemMessageRenderer } from "./SystemMessageRenderer";
 import { TextMessageRenderer } from "./TextMessageRenderer";
 import { ToolCallMessageRenderer } from "./ToolCallMessageRenderer";
+import { ToolResultMessageRenderer } from "./ToolResultMessageRenderer";
 
 /**
  * Message renderer registry using Chain of Responsibility pattern
@@ -10,7 +13,10 @@ import { ToolCallMessageRenderer } from "./ToolCallMessageRenderer";
  * Single Responsibility: Only responsible for delegating to appropriate renderer
  */
 const renderers: IMessageRenderer[] = [
+	new InterruptMarkerRenderer(),
+	new LocalCommandRenderer(),
 	new ToolCallMessageRenderer(),
+	new ToolResultMessageRenderer(),
 	new TextMessageRenderer(),
 	new SystemMessageRenderer(),
 ];
@@ -0,0 +1,22 @@
+import { Markdown } from "@/components/markdown";
+import { COLORS } from "@/types";
+
+// Shown at the end of the text while tokens are still arriving
+const STREAMING_CURSOR = "▋";
+
+export type StreamingMessageProps = {
+	text: string;
+};
+
+/**
+ * Assistant text that is still being streamed
+ * Rendered like a finished text message, followed by a cursor glyph
+ */
+export function StreamingMessage({ text }: StreamingMessageProps) {
+	return (
+		<box style={{ marginBottom: 1, flexDirection: "column" }}>
+			<text fg={COLORS.dim}>Assistant:</text>
+			<Markdown content={`${text}${STREAMING_CURSOR}`} />
+		</box>
+	);
+}
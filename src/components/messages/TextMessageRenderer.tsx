@@ -1,5 +1,6 @@
 import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
 import type { ReactNode } from "react";
+import { Markdown } from "@/components/markdown";
 import type { IMessageRenderer } from "@/types/messages";
 
 /**
@@ -54,7 +55,12 @@ export class TextMessageRenderer implements IMessageRenderer {
 				}}
 			>
 				<text fg="#999999">{role}:</text>
-				<text>{text || "(empty message)"}</text>
+				{/* Assistant text is markdown; user input is shown as typed */}
+				{role === "Assistant" && text ? (
+					<Markdown content={text} />
+				) : (
+					<text>{text || "(empty message)"}</text>
+				)}
 			</box>
 		);
 	}
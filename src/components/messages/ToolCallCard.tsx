@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { COLORS } from "@/types";
+import type { ToolCallContent, ToolCallStatus } from "@/types/messages";
+import { formatDuration, summarizeToolInput } from "@/utils/formatMessage";
+import { useToolCallContext } from "./ToolCallContext";
+
+// Output preview
+const PREVIEW_LINES = 4;
+const INPUT_SUMMARY_LENGTH = 100;
+
+const TRAILING_WHITESPACE_REGEX = /\s+$/;
+
+// Elapsed time refresh while a tool is running
+const ELAPSED_TICK_MS = 1000;
+
+const STATUS_STYLE: Record<
+	ToolCallStatus,
+	{ glyph: string; label: string; color: string }
+> = {
+	running: { glyph: "○", label: "running", color: COLORS.system },
+	succeeded: { glyph: "✓", label: "done", color: COLORS.assistant },
+	errored: { glyph: "✗", label: "error", color: COLORS.error },
+	interrupted: { glyph: "◌", label: "interrupted", color: COLORS.dim },
+};
+
+/**
+ * Milliseconds since startedAt, ticking until finishedAt is known
+ */
+const useElapsed = (startedAt?: number, finishedAt?: number): number => {
+	const [now, setNow] = useState(() => Date.now());
+
+	useEffect(() => {
+		if (finishedAt !== undefined) return;
+		const interval = setInterval(() => setNow(Date.now()), ELAPSED_TICK_MS);
+		return () => clearInterval(interval);
+	}, [finishedAt]);
+
+	if (startedAt === undefined) return 0;
+	return Math.max(0, (finishedAt ?? now) - startedAt);
+};
+
+const buildPreview = (
+	output: string,
+	expanded: boolean
+): { lines: string[]; hiddenCount: number } => {
+	const trimmed = output.replace(TRAILING_WHITESPACE_REGEX, "");
+	if (!trimmed) return { lines: ["(no output)"], hiddenCount: 0 };
+
+	const lines = trimmed.split("\n");
+	if (expanded || lines.length <= PREVIEW_LINES) {
+		return { lines, hiddenCount: 0 };
+	}
+	return {
+		lines: lines.slice(0, PREVIEW_LINES),
+		hiddenCount: lines.length - PREVIEW_LINES,
+	};
+};
+
+export type ToolCallCardProps = {
+	toolCall: ToolCallContent;
+};
+
+/**
+ * One tool call and its result rendered as a single card
+ * Single Responsibility: Show input summary, status, timing and output preview
+ */
+export function ToolCallCard({ toolCall }: ToolCallCardProps) {
+	const { states, expandOutput } = useToolCallContext();
+	const state = states.get(toolCall.id);
+	const status = state?.status ?? "running";
+	const style = STATUS_STYLE[status];
+	const elapsed = useElapsed(state?.startedAt, state?.finishedAt);
+
+	const preview =
+		state?.output === undefined
+			? null
+			: buildPreview(state.output, expandOutput);
+
+	return (
+		<box style={{ flexDirection: "column", marginBottom: 1 }}>
+			<text>
+				<span fg={style.color}>{style.glyph} </span>
+				<span fg={COLORS.tool}>{toolCall.name}</span>
+				<span fg={COLORS.dim}>
+					{`  ${summarizeToolInput(toolCall.input, INPUT_SUMMARY_LENGTH)}`}
+				</span>
+			</text>
+			<text fg={style.color}>
+				{`  ${style.label} · ${formatDuration(elapsed)}`}
+			</text>
+
+			{preview && (
+				<box style={{ flexDirection: "column", paddingLeft: 2 }}>
+					{preview.lines.map((line, lineIndex) => (
+						<text
+							fg={status === "errored" ? COLORS.error : COLORS.dim}
+							key={`${toolCall.id}-line-${lineIndex}`}
+						>
+							{`${lineIndex === 0 ? "⎿ " : "  "}${line || " "}`}
+						</text>
+					))}
+					{preview.hiddenCount > 0 && (
+						<text fg={COLORS.dim}>
+							{`  … +${preview.hiddenCount} lines (ctrl+o to expand)`}
+						</text>
+					)}
+				</box>
+			)}
+		</box>
+	);
+}
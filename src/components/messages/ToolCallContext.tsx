@@ -0,0 +1,24 @@
+import { createContext, useContext } from "react";
+import type { ToolCallState } from "@/types/messages";
+
+/**
+ * Shared tool call state for renderers
+ * Renderers only see one message at a time; results arrive in later
+ * messages, so pairing is provided from the list through context
+ */
+export type ToolCallContextValue = {
+	states: Map<string, ToolCallState>;
+	expandOutput: boolean;
+	// File content before each file-editing call, by tool_use_id; absent
+	// when it wasn't read (e.g. a resumed session's calls)
+	fileSnapshots: Map<string, string | null>;
+};
+
+export const ToolCallContext = createContext<ToolCallContextValue>({
+	states: new Map(),
+	expandOutput: false,
+	fileSnapshots: new Map(),
+});
+
+export const useToolCallContext = (): ToolCallContextValue =>
+	useContext(ToolCallContext);
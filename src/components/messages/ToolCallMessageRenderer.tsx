@@ -1,6 +1,8 @@
 import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
 import type { ReactNode } from "react";
-import type { IMessageRenderer } from "@/types/messages";
+import { Markdown } from "@/components/markdown";
+import type { IMessageRenderer, ToolCallContent } from "@/types/messages";
+import { ToolCallCard } from "./ToolCallCard";
 
 /**
  * Renderer for messages containing tool calls
@@ -24,29 +26,50 @@ export class ToolCallMessageRenderer implements IMessageRenderer {
 			return <box />;
 		}
 
-		const toolCalls = message.message.content.filter(
-			(block: { type: string }) => block.type === "tool_use"
-		);
-
 		return (
 			<box
 				key={`msg-${index}`}
 				style={{
-					marginBottom: 2,
+					marginBottom: 1,
 					flexDirection: "column",
 				}}
 			>
 				<text fg="#999999">Assistant:</text>
 
-				{/* Render each tool call simply */}
-				{toolCalls.map((toolCall: { type: string; name: string }) => {
-					if (toolCall.type !== "tool_use") return null;
+				{/* Text and tool calls in the order the assistant produced them */}
+				{message.message.content.map(
+					(block: { type: string; text?: string }, blockIndex: number) => {
+						const blockKey = `msg-${index}-block-${blockIndex}`;
+
+						if (block.type === "text" && block.text?.trim()) {
+							return (
+								<box key={blockKey} style={{ marginBottom: 1 }}>
+									<Markdown content={block.text} />
+								</box>
+							);
+						}
 
-					return (
-						<text key={`tool-${toolCall.name}`}>[Using {toolCall.name}]</text>
-					);
-				})}
+						if (block.type === "tool_use") {
+							// Raw tool_use blocks share the ToolCallContent shape
+							return (
+								<box key={blockKey}>
+									{this.renderToolCall(block as ToolCallContent)}
+								</box>
+							);
+						}
+
+						return null;
+					}
+				)}
 			</box>
 		);
 	}
+
+	/**
+	 * Render a single tool call
+	 * Subclasses override this to specialise how particular tools are shown
+	 */
+	protected renderToolCall(toolCall: ToolCallContent): ReactNode {
+		return <ToolCallCard toolCall={toolCall} />;
+	}
 }
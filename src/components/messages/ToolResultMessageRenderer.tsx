@@ -0,0 +1,19 @@
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import type { ReactNode } from "react";
+import type { IMessageRenderer } from "@/types/messages";
+import { isToolResultMessage } from "@/utils/messageParser";
+
+/**
+ * Renderer for user messages that only carry tool results
+ * Single Responsibility: Keep tool results out of the "You:" transcript
+ * Results are displayed by ToolCallCard next to the call they answer
+ */
+export class ToolResultMessageRenderer implements IMessageRenderer {
+	canRender(message: SDKMessage): boolean {
+		return isToolResultMessage(message);
+	}
+
+	render(_message: SDKMessage, index: number): ReactNode {
+		return <box key={`msg-${index}`} />;
+	}
+}
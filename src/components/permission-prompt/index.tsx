@@ -0,0 +1,119 @@
+import type { SelectOption } from "@opentui/core";
+import { useKeyboard } from "@opentui/react";
+import { useState } from "react";
+import { COLORS } from "@/types";
+import type {
+	PermissionDecision,
+	PermissionRequest,
+} from "@/types/permissions";
+import { summarizeToolInput } from "@/utils/formatMessage";
+
+export type PermissionPromptProps = {
+	request: PermissionRequest;
+	onDecision: (decision: PermissionDecision) => void;
+	focused?: boolean;
+};
+
+type PromptChoice = "once" | "session" | "deny";
+
+const OPTIONS: SelectOption[] = [
+	{ name: "[y] Allow once", description: "", value: "once" },
+	{
+		name: "[a] Allow always for this session",
+		description: "",
+		value: "session",
+	},
+	{ name: "[n] Deny with reason", description: "", value: "deny" },
+];
+
+const SHORTCUTS: Record<string, PromptChoice> = {
+	y: "once",
+	a: "session",
+	n: "deny",
+};
+
+// Layout
+const INPUT_SUMMARY_LENGTH = 120;
+const REASON_INPUT_HEIGHT = 1;
+
+/**
+ * Inline approval card shown while a tool call waits for permission
+ * Single Responsibility: Collect one allow/deny decision from the user
+ */
+export function PermissionPrompt({
+	request,
+	onDecision,
+	focused = true,
+}: PermissionPromptProps) {
+	const [isEnteringReason, setIsEnteringReason] = useState(false);
+
+	const choose = (choice: PromptChoice) => {
+		if (choice === "deny") {
+			setIsEnteringReason(true);
+			return;
+		}
+		onDecision({ behavior: "allow", scope: choice });
+	};
+
+	useKeyboard((key) => {
+		if (!focused) return;
+
+		if (isEnteringReason) {
+			if (key.name === "escape") setIsEnteringReason(false);
+			return;
+		}
+
+		const choice = SHORTCUTS[key.name];
+		if (choice) choose(choice);
+	});
+
+	const handleReasonSubmit = (reason: string) => {
+		setIsEnteringReason(false);
+		onDecision({ behavior: "deny", reason });
+	};
+
+	return (
+		<box
+			style={{
+				border: true,
+				borderColor: COLORS.system,
+				flexDirection: "column",
+				paddingLeft: 1,
+				paddingRight: 1,
+			}}
+			title=" Permission required "
+		>
+			<text>
+				<span fg={COLORS.tool}>{request.toolName}</span>
+				<span fg={COLORS.dim}> wants to run:</span>
+			</text>
+			<text fg={COLORS.dim}>
+				{summarizeToolInput(request.input, INPUT_SUMMARY_LENGTH)}
+			</text>
+
+			{isEnteringReason ? (
+				<box style={{ flexDirection: "column", marginTop: 1 }}>
+					<text fg={COLORS.error}>
+						Why deny? (Enter to send, Esc to go back)
+					</text>
+					<input
+						focused={focused}
+						onSubmit={handleReasonSubmit}
+						placeholder="Reason (optional)..."
+						style={{ height: REASON_INPUT_HEIGHT }}
+					/>
+				</box>
+			) : (
+				<select
+					focused={focused}
+					onSelect={(_index, option) => {
+						if (option) choose(option.value as PromptChoice);
+					}}
+					options={OPTIONS}
+					showDescription={false}
+					style={{ height: OPTIONS.length, marginTop: 1 }}
+				/>
+			)}
+		</box>
+	);
+}
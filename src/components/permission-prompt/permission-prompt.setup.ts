@@ -0,0 +1,56 @@
+import type { PermissionPromptProps } from "./index";
+
+// Type-safe scenario configuration
+export type PermissionPromptScenario = {
+	scenarioName: string;
+	description: string;
+	expectation: string;
+	params: PermissionPromptProps;
+};
+
+// No-op function for test scenarios
+// biome-ignore lint/suspicious/noEmptyBlockStatements: Test setup requires no-op callback
+const noop = () => {};
+
+const config = {
+	scenarios: [
+		{
+			scenarioName: "bash-command",
+			description: "Approval card for a Bash tool call",
+			expectation:
+				"Shows a yellow bordered box titled 'Permission required'. Inside, 'Bash' in purple followed by ' wants to run:' in gray, then the command 'rm -rf build && bun run build' in gray. Below are three options stacked vertically: '[y] Allow once' (highlighted as selected), '[a] Allow always for this session' and '[n] Deny with reason'.",
+			params: {
+				request: {
+					id: "permission-0",
+					toolName: "Bash",
+					input: {
+						command: "rm -rf build && bun run build",
+						description: "Rebuild the project",
+					},
+				},
+				onDecision: noop,
+				focused: true,
+			},
+		},
+		{
+			scenarioName: "write-file",
+			description: "Approval card for a Write tool call",
+			expectation:
+				"Shows a yellow bordered box titled 'Permission required'. Inside, 'Write' in purple followed by ' wants to run:' in gray, then the path 'src/components/banner/index.tsx' in gray (not the file content). Below are the three options '[y] Allow once', '[a] Allow always for this session' and '[n] Deny with reason'.",
+			params: {
+				request: {
+					id: "permission-1",
+					toolName: "Write",
+					input: {
+						file_path: "src/components/banner/index.tsx",
+						content: "export const Banner = () => null;\n",
+					},
+				},
+				onDecision: noop,
+				focused: true,
+			},
+		},
+	],
+} as const satisfies { scenarios: PermissionPromptScenario[] };
+
+export default config;
@@ -0,0 +1,86 @@
+import type { SelectOption } from "@opentui/core";
+import { useKeyboard } from "@opentui/react";
+import { COLORS } from "@/types";
+import type { SessionRecord } from "@/types/sessions";
+import {
+	formatCost,
+	formatRelativeTime,
+	truncate,
+} from "@/utils/formatMessage";
+
+export type SessionPickerProps = {
+	sessions: SessionRecord[];
+	onSelect: (session: SessionRecord) => void;
+	onCancel: () => void;
+	focused?: boolean;
+};
+
+// Layout
+const PROMPT_PREVIEW_LENGTH = 72;
+// Each option takes a name line and a description line
+const LINES_PER_OPTION = 2;
+const MAX_VISIBLE_SESSIONS = 8;
+
+const toOption = (session: SessionRecord): SelectOption => ({
+	name: truncate(
+		session.firstPrompt.replaceAll("\n", " "),
+		PROMPT_PREVIEW_LENGTH
+	),
+	description: [
+		formatRelativeTime(session.updatedAt),
+		formatCost(session.costUsd),
+		session.model,
+		session.cwd,
+	].join(" · "),
+	value: session.sessionId,
+});
+
+/**
+ * List of past sessions to reopen, most recent first
+ * Single Responsibility: Let the user pick one session (or cancel)
+ */
+export function SessionPicker({
+	sessions,
+	onSelect,
+	onCancel,
+	focused = true,
+}: SessionPickerProps) {
+	useKeyboard((key) => {
+		if (focused && key.name === "escape") onCancel();
+	});
+
+	return (
+		<box
+			style={{
+				border: true,
+				borderColor: COLORS.user,
+				flexDirection: "column",
+				paddingLeft: 1,
+				paddingRight: 1,
+			}}
+			title=" Resume a session "
+		>
+			{sessions.length === 0 ? (
+				<text fg={COLORS.dim}>No saved sessions yet (Esc to close)</text>
+			) : (
+				<>
+					<text fg={COLORS.dim}>Enter to reopen, Esc to cancel</text>
+					<select
+						focused={focused}
+						onSelect={(index) => {
+							const session = sessions[index];
+							if (session) onSelect(session);
+						}}
+						options={sessions.map(toOption)}
+						style={{
+							height:
+								Math.min(sessions.length, MAX_VISIBLE_SESSIONS) *
+								LINES_PER_OPTION,
+							marginTop: 1,
+						}}
+					/>
+				</>
+			)}
+		</box>
+	);
+}
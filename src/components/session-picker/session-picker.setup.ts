@@ -0,0 +1,68 @@
+import type { SessionPickerProps } from "./index";
+
+// Type-safe scenario configuration
+export type SessionPickerScenario = {
+	scenarioName: string;
+	description: string;
+	expectation: string;
+	params: SessionPickerProps;
+};
+
+// No-op function for test scenarios
+// biome-ignore lint/suspicious/noEmptyBlockStatements: Test setup requires no-op callback
+const noop = () => {};
+
+const TWO_HOURS_MS = 7_200_000;
+const ONE_DAY_MS = 86_400_000;
+const twoHoursAgo = Date.now() - TWO_HOURS_MS;
+const yesterday = twoHoursAgo - ONE_DAY_MS;
+
+const config = {
+	scenarios: [
+		{
+			scenarioName: "past-sessions",
+			description: "Picker listing two saved sessions",
+			expectation:
+				"Shows a blue bordered box titled 'Resume a session' with the gray hint 'Enter to reopen, Esc to cancel'. Below, two options: 'Add markdown rendering to the chat' (selected, with a '▶' marker) with '2h ago · $0.4210 · claude-sonnet-4-5-20250929 · /home/dev/aztec-agent' underneath, then 'Why does the spinner flicker?' with '1d ago · $0.0870 · claude-sonnet-4-5-20250929 · /home/dev/aztec-agent'.",
+			params: {
+				sessions: [
+					{
+						sessionId: "session-1",
+						cwd: "/home/dev/aztec-agent",
+						model: "claude-sonnet-4-5-20250929",
+						firstPrompt: "Add markdown rendering to the chat",
+						createdAt: twoHoursAgo,
+						updatedAt: twoHoursAgo,
+						costUsd: 0.421,
+					},
+					{
+						sessionId: "session-2",
+						cwd: "/home/dev/aztec-agent",
+						model: "claude-sonnet-4-5-20250929",
+						firstPrompt: "Why does the spinner flicker?",
+						createdAt: yesterday,
+						updatedAt: yesterday,
+						costUsd: 0.087,
+					},
+				],
+				onSelect: noop,
+				onCancel: noop,
+				focused: true,
+			},
+		},
+		{
+			scenarioName: "empty",
+			description: "Picker with no saved sessions",
+			expectation:
+				"Shows a blue bordered box titled 'Resume a session' containing only the gray text 'No saved sessions yet (Esc to close)'.",
+			params: {
+				sessions: [],
+				onSelect: noop,
+				onCancel: noop,
+				focused: true,
+			},
+		},
+	],
+} as const satisfies { scenarios: SessionPickerScenario[] };
+
+export default config;
@@ -0,0 +1,59 @@
+import path from "node:path";
+import { COLORS, type SessionInfo, type Stats } from "@/types";
+import { formatCost, formatElapsed } from "@/utils/formatMessage";
+
+/**
+ * One-line summary of the session below the input
+ * Single Responsibility: Display session details and totals, nothing else
+ */
+export type StatusBarProps = {
+	// null until the session has started
+	info: SessionInfo | null;
+	stats: Stats;
+	// Model for the next turn when it differs from the one the session
+	// started with (e.g. after /model)
+	model?: string;
+	// Home directory shown as "~" in the cwd
+	homeDir?: string;
+};
+
+const SHORT_SESSION_ID_LENGTH = 8;
+const SEPARATOR = " · ";
+
+// Only the home directory itself or a path inside it: /home/alice2 isn't
+// under /home/alice
+const shortenPath = (cwd: string, homeDir: string | undefined): string =>
+	homeDir && (cwd === homeDir || cwd.startsWith(homeDir + path.sep))
+		? `~${cwd.slice(homeDir.length)}`
+		: cwd;
+
+export function StatusBar({
+	info,
+	stats,
+	model,
+	homeDir = process.env.HOME,
+}: StatusBarProps) {
+	if (!info) {
+		return (
+			<text fg={COLORS.dim} style={{ paddingLeft: 1 }}>
+				Starting session…
+			</text>
+		);
+	}
+
+	const turns = `${stats.turns} ${stats.turns === 1 ? "turn" : "turns"}`;
+	const details = [
+		info.sessionId.slice(0, SHORT_SESSION_ID_LENGTH),
+		shortenPath(info.cwd, homeDir),
+		formatCost(stats.cost),
+		turns,
+		formatElapsed(stats.duration),
+	];
+
+	return (
+		<text style={{ paddingLeft: 1 }}>
+			<span fg={COLORS.assistant}>{model ?? info.model}</span>
+			<span fg={COLORS.dim}>{`${SEPARATOR}${details.join(SEPARATOR)}`}</span>
+		</text>
+	);
+}
@@ -0,0 +1,55 @@
+import type { StatusBarProps } from "./index";
+
+// Type-safe scenario configuration
+export type StatusBarScenario = {
+	scenarioName: string;
+	description: string;
+	expectation: string;
+	params: StatusBarProps;
+};
+
+const sessionInfo = {
+	sessionId: "3f9c2a7e-41b8-4d0e-9a55-0c1e7b2d8f61",
+	model: "claude-sonnet-4-5-20250929",
+	permissionMode: "default",
+	cwd: "/home/dev/aztec-agent",
+	tools: ["Read", "Edit", "Bash"],
+};
+
+const config = {
+	scenarios: [
+		{
+			scenarioName: "active-session",
+			description: "Status bar after a few completed turns",
+			expectation:
+				"A single line: 'claude-sonnet-4-5-20250929' in green, followed in gray by ' · 3f9c2a7e · ~/aztec-agent · $0.0421 · 7 turns · 12m 05s'.",
+			params: {
+				info: sessionInfo,
+				stats: { tokens: 18_250, cost: 0.0421, duration: 725_300, turns: 7 },
+				homeDir: "/home/dev",
+			},
+		},
+		{
+			scenarioName: "model-switched",
+			description: "Status bar after /model switched to another model",
+			expectation:
+				"A single line: 'claude-opus-4-1' in green, followed in gray by ' · 3f9c2a7e · /home/dev/aztec-agent · $0.0000 · 0 turns · 0s'.",
+			params: {
+				info: sessionInfo,
+				stats: { tokens: 0, cost: 0, duration: 0, turns: 0 },
+				model: "claude-opus-4-1",
+			},
+		},
+		{
+			scenarioName: "starting",
+			description: "Status bar before the session has started",
+			expectation: "A single gray line reading 'Starting session…'.",
+			params: {
+				info: null,
+				stats: { tokens: 0, cost: 0, duration: 0, turns: 0 },
+			},
+		},
+	],
+} as const satisfies { scenarios: StatusBarScenario[] };
+
+export default config;
@@ -1,3 +1,4 @@
+import type { InteractionStep } from "@/testing/types";
 import type { InputFieldProps } from "./InputField";
 
 // Type-safe scenario configuration
@@ -6,12 +7,24 @@ export type InputFieldScenario = {
 	description: string;
 	expectation: string;
 	params: InputFieldProps;
+	// Typed into the uncontrolled field, screenshotting each "capture" step
+	interactions?: InteractionStep[];
 };
 
 // No-op function for test scenarios
 // biome-ignore lint/suspicious/noEmptyBlockStatements: Test setup requires no-op callback
 const noop = (_value: string) => {};
 
+const commands = [
+	{ name: "clear", description: "Start a new conversation" },
+	{
+		name: "cost",
+		description: "Show cost and token usage of this conversation",
+	},
+	{ name: "cwd", description: "Show the agent's working directory" },
+	{ name: "help", description: "List available commands" },
+];
+
 const config = {
 	scenarios: [
 		{
@@ -85,6 +98,100 @@ const config = {
 				error: "Invalid input",
 			},
 		},
+		{
+			scenarioName: "command-suggestions",
+			description: "Slash command autocomplete while typing a command",
+			expectation:
+				"Displays the input with blue horizontal lines above and below containing '/c'. Below the bottom line, a list of commands starting with 'c': '/clear' highlighted in blue with its description 'Start a new conversation', then '/cost' and '/cwd' in white, each followed by a gray description aligned in one column.",
+			params: {
+				value: "/c",
+				onChange: noop,
+				onSubmit: noop,
+				focused: true,
+				commands,
+			},
+		},
+		{
+			scenarioName: "typing-and-submit",
+			description: "Typing a message into the focused field and submitting it",
+			expectation:
+				"Displays a full-width horizontal line in blue at the top and bottom with the input between them.",
+			params: {
+				placeholder: "Type a message...",
+				onSubmit: noop,
+				focused: true,
+			},
+			interactions: [
+				{
+					action: "capture",
+					name: "focused",
+					expectation:
+						"Displays full-width blue horizontal lines above and below the text 'Type a message...' in gray, with the cursor at the start of the input.",
+				},
+				{ action: "type", text: "hello world" },
+				{
+					action: "capture",
+					name: "typed",
+					expectation:
+						"Displays full-width blue horizontal lines above and below the text 'hello world' in white. The placeholder is no longer visible.",
+				},
+				{ action: "press", key: "enter" },
+				{
+					action: "capture",
+					name: "submitted",
+					expectation:
+						"The input has been cleared: full-width blue horizontal lines above and below the placeholder 'Type a message...' in gray. 'hello world' is no longer visible.",
+				},
+			],
+		},
+		{
+			scenarioName: "command-completion",
+			description:
+				"Picking a slash command from the suggestions with the keyboard",
+			expectation:
+				"Displays the input with blue horizontal lines above and below it.",
+			params: {
+				onSubmit: noop,
+				focused: true,
+				commands,
+			},
+			interactions: [
+				{ action: "type", text: "/c" },
+				{
+					action: "capture",
+					name: "suggestions",
+					expectation:
+						"The input contains '/c'. Below the bottom line, '/clear' is highlighted in blue, then '/cost' and '/cwd' in white, each followed by a gray description.",
+				},
+				{ action: "press", key: "down" },
+				{
+					action: "capture",
+					name: "next-suggestion",
+					expectation:
+						"The input still contains '/c'. Below the bottom line, '/cost' and its description are now highlighted in blue, while '/clear' and '/cwd' are white with gray descriptions.",
+				},
+				{ action: "press", key: "tab" },
+				{
+					action: "capture",
+					name: "completed",
+					expectation:
+						"The input contains '/cost ' between blue horizontal lines and the suggestion list below it has disappeared.",
+				},
+			],
+		},
+		{
+			scenarioName: "typing-with-error",
+			description: "Typing into a field that is showing an error",
+			expectation:
+				"Displays full-width red horizontal lines above and below the text 'oops' in white. The red lines still indicate the error state while typing, with no error message text below.",
+			params: {
+				placeholder: "Type a message...",
+				onSubmit: noop,
+				focused: true,
+				error: "Invalid input",
+			},
+			interactions: [{ action: "type", text: "oops" }],
+		},
 	],
 } as const satisfies { scenarios: InputFieldScenario[] };
 
@@ -1,4 +1,6 @@
+import { useKeyboard } from "@opentui/react";
 import { useState } from "react";
+import type { CommandSuggestion } from "@/types/commands";
 import { INPUT_FIELD_TOKENS } from "./tokens";
 
 /**
@@ -14,8 +16,63 @@ export type InputFieldProps = {
 	onChange?: (value: string) => void;
 	focused?: boolean;
 	error?: string;
+	// Slash commands offered in a popup while the input starts with "/"
+	commands?: CommandSuggestion[];
 };
 
+const NO_COMMANDS: CommandSuggestion[] = [];
+const WHITESPACE_REGEX = /\s/;
+
+/**
+ * Commands matching a "/partial" input, or none once arguments are typed
+ */
+const matchCommands = (
+	value: string,
+	commands: CommandSuggestion[]
+): CommandSuggestion[] => {
+	if (!value.startsWith("/") || WHITESPACE_REGEX.test(value)) return [];
+	const prefix = value.slice(1);
+	return commands
+		.filter((command) => command.name.startsWith(prefix))
+		.slice(0, INPUT_FIELD_TOKENS.layout.maxSuggestions);
+};
+
+const commandUsage = (command: CommandSuggestion): string =>
+	command.argumentHint
+		? `/${command.name} ${command.argumentHint}`
+		: `/${command.name}`;
+
+function SuggestionList({
+	suggestions,
+	selected,
+}: {
+	suggestions: CommandSuggestion[];
+	selected: CommandSuggestion | undefined;
+}) {
+	const usageWidth =
+		Math.max(...suggestions.map((command) => commandUsage(command).length)) +
+		INPUT_FIELD_TOKENS.layout.suggestionGap;
+	const { suggestion: colors } = INPUT_FIELD_TOKENS.colors;
+
+	return (
+		<box style={{ flexDirection: "column", paddingLeft: 1 }}>
+			{suggestions.map((command) => {
+				const isSelected = command === selected;
+				return (
+					<text key={command.name}>
+						<span fg={isSelected ? colors.selected : colors.name}>
+							{commandUsage(command).padEnd(usageWidth)}
+						</span>
+						<span fg={isSelected ? colors.selected : colors.description}>
+							{command.description}
+						</span>
+					</text>
+				);
+			})}
+		</box>
+	);
+}
+
 export function InputField({
 	placeholder = INPUT_FIELD_TOKENS.messages.defaultPlaceholder,
 	onSubmit,
@@ -24,14 +81,17 @@ export function InputField({
 	onChange,
 	focused: focusedProp,
 	error,
+	commands = NO_COMMANDS,
 }: InputFieldProps) {
 	const [internalValue, setInternalValue] = useState("");
+	const [selectedIndex, setSelectedIndex] = useState(0);
 
 	// Use controlled value if provided, otherwise use internal state
 	const value = controlledValue ?? internalValue;
 	const isControlled = controlledValue !== undefined;
 
 	const handleInput = (newValue: string) => {
+		setSelectedIndex(0);
 		if (isControlled && onChange) {
 			onChange(newValue);
 		} else {
@@ -39,10 +99,33 @@ export function InputField({
 		}
 	};
 
+	// Determine focus state
+	const shouldFocus = focusedProp ?? !disabled;
+
+	const suggestions = shouldFocus ? matchCommands(value, commands) : [];
+	const selected = suggestions[selectedIndex % (suggestions.length || 1)];
+
+	// Up/Down pick a suggestion, Tab completes it
+	useKeyboard((key) => {
+		if (!selected) return;
+		if (key.name === "up" || key.name === "down") {
+			const step = key.name === "up" ? suggestions.length - 1 : 1;
+			setSelectedIndex((prev) => (prev + step) % suggestions.length);
+		} else if (key.name === "tab") {
+			handleInput(`/${selected.name} `);
+		}
+	});
+
 	const handleSubmit = (submittedValue: string) => {
 		if (!submittedValue.trim() || disabled) return;
 
-		onSubmit(submittedValue.trim());
+		// Enter on a partial command runs the highlighted suggestion, but a
+		// full command name runs as typed
+		const typed = submittedValue.trim();
+		const isCommandName = suggestions.some(
+			(command) => `/${command.name}` === typed
+		);
+		onSubmit(selected && !isCommandName ? `/${selected.name}` : typed);
 
 		// Clear input after submit only if uncontrolled
 		if (!isControlled) {
@@ -60,27 +143,30 @@ export function InputField({
 		borderColor = INPUT_FIELD_TOKENS.colors.border.focused;
 	}
 
-	// Determine focus state
-	const shouldFocus = focusedProp ?? !disabled;
-
 	return (
-		<box
-			style={{
-				border: ["top", "bottom"],
-				borderColor,
-				height: INPUT_FIELD_TOKENS.layout.height,
-				padding: INPUT_FIELD_TOKENS.layout.padding,
-			}}
-		>
-			<input
-				focused={shouldFocus}
-				onInput={handleInput}
-				onSubmit={handleSubmit}
-				placeholder={
-					disabled ? INPUT_FIELD_TOKENS.messages.disabled : placeholder
-				}
-				value={value}
-			/>
+		<box style={{ flexDirection: "column", flexShrink: 0 }}>
+			<box
+				style={{
+					border: ["top", "bottom"],
+					borderColor,
+					height: INPUT_FIELD_TOKENS.layout.height,
+					padding: INPUT_FIELD_TOKENS.layout.padding,
+				}}
+			>
+				<input
+					focused={shouldFocus}
+					onInput={handleInput}
+					onSubmit={handleSubmit}
+					placeholder={
+						disabled ? INPUT_FIELD_TOKENS.messages.disabled : placeholder
+					}
+					value={value}
+				/>
+			</box>
+
+			{selected && (
+				<SuggestionList selected={selected} suggestions={suggestions} />
+			)}
 		</box>
 	);
 }
@@ -17,10 +17,18 @@ export const INPUT_FIELD_TOKENS = {
 			default: "#FFFFFF",
 			placeholder: "#999999",
 		},
+		suggestion: {
+			name: "#FFFFFF",
+			selected: "#4A90E2",
+			description: "#999999",
+		},
 	},
 	layout: {
 		height: 3,
 		padding: 0,
+		// Slash command suggestions shown at once
+		maxSuggestions: 6,
+		suggestionGap: 2,
 	},
 	messages: {
 		disabled: "Processing...",
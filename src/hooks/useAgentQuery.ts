@@ -4,7 +4,15 @@ import type {
 } from "@anthropic-ai/claude-agent-sdk";
 import { useCallback, useEffect, useRef, useState } from "react";
 import { logger } from "@/services/logger";
+import type { StreamingDraft } from "@/types/messages";
 import type { IAgentService } from "@/types/services";
+import { INTERRUPT_MARKER_PREFIX } from "@/utils/messageParser";
+import {
+	applyStreamEvent,
+	completeBlocks,
+	draftText,
+	EMPTY_DRAFT,
+} from "@/utils/streamingDraft";
 import type { StreamingInputController } from "./useStreamingInput";
 
 /**
@@ -13,30 +21,106 @@ import type { StreamingInputController } from "./useStreamingInput";
  */
 export type UseAgentQueryResult = {
 	messages: SDKMessage[];
-	isRunning: boolean;
+	// Assistant text received through stream events but not yet part of a
+	// complete message ("" when nothing is streaming)
+	streamingText: string;
+	// A prompt was sent and its turn hasn't ended; the query itself stays
+	// alive between turns
+	isTurnRunning: boolean;
 	error: Error | null;
+	// Start the query, unless it is still alive
 	start: () => void;
+	// Send a prompt, restarting the query if it has ended
+	send: (prompt: string) => void;
 	stop: () => void;
+	interrupt: () => Promise<void>;
+	// Add a message produced locally (e.g. slash command output)
+	appendMessage: (message: SDKMessage) => void;
+	// Empty the message list; the session itself carries on
+	clearMessages: () => void;
 };
 
+/**
+ * Marker appended to the message list when the user interrupts a turn
+ * Uses the text the CLI records, so it renders like the SDK's own marker
+ */
+const createInterruptMarker = (sessionId: string | null): SDKUserMessage => ({
+	type: "user",
+	session_id: sessionId ?? "",
+	message: {
+		role: "user",
+		content: [{ type: "text", text: `${INTERRUPT_MARKER_PREFIX}]` }],
+	},
+	parent_tool_use_id: null,
+});
+
+/**
+ * @param initialMessages - Transcript of a resumed session, shown before
+ * anything the new query produces
+ */
 export function useAgentQuery(
 	agentService: IAgentService,
-	streamingInput: StreamingInputController
+	streamingInput: StreamingInputController,
+	initialMessages: SDKMessage[] = []
 ): UseAgentQueryResult {
-	const [messages, setMessages] = useState<SDKMessage[]>([]);
-	const [isRunning, setIsRunning] = useState(false);
+	const [messages, setMessages] = useState<SDKMessage[]>(initialMessages);
+	const [streamingDraft, setStreamingDraft] = useState<StreamingDraft | null>(
+		null
+	);
+	const [isTurnRunning, setIsTurnRunning] = useState(false);
 	const [error, setError] = useState<Error | null>(null);
-	const isRunningRef = useRef(false);
+	const isTurnRunningRef = useRef(false);
+	// True from start() until the query's message loop has ended; the SDK
+	// holds one query per service, so a live one must never be restarted
+	const isQueryAliveRef = useRef(false);
 	const messageIteratorRef = useRef<AsyncIterable<SDKUserMessage> | null>(null);
+	// Set after a local interrupt until that turn's result arrives; the
+	// interrupted turn's late output (including the SDK's own interrupt
+	// marker) is dropped so it can't rebuild the draft or end a newer turn
+	const isDrainingInterruptedTurnRef = useRef(false);
+
+	// Ref for immediate checks, state for rendering
+	const setTurnRunning = useCallback((running: boolean) => {
+		isTurnRunningRef.current = running;
+		setIsTurnRunning(running);
+	}, []);
 
 	const handleMessage = useCallback((message: SDKMessage) => {
+		if (isDrainingInterruptedTurnRef.current) {
+			// The result is still kept for its usage and cost
+			if (message.type === "result") {
+				isDrainingInterruptedTurnRef.current = false;
+				setMessages((prev) => [...prev, message]);
+			}
+			return;
+		}
+
+		// Partial events only grow the draft, they never enter the message list
+		// Subagent output (parent_tool_use_id set) isn't streamed inline
+		if (message.type === "stream_event") {
+			if (message.parent_tool_use_id === null) {
+				setStreamingDraft((prev) =>
+					applyStreamEvent(prev ?? EMPTY_DRAFT, message.event)
+				);
+			}
+			return;
+		}
+
 		setMessages((prev) => [...prev, message]);
 
+		// The complete message replaces the blocks streamed so far
+		if (message.type === "assistant" && message.parent_tool_use_id === null) {
+			setStreamingDraft(
+				(prev) => prev && completeBlocks(prev, message.message.content.length)
+			);
+		}
+
 		// Handle result messages
 		if (message.type === "result") {
-			isRunningRef.current = false;
-			setIsRunning(false);
-			logger.info("Query completed. Session can be resumed for next message.");
+			setStreamingDraft(null);
+			isTurnRunningRef.current = false;
+			setIsTurnRunning(false);
+			logger.info("Turn completed. The query waits for the next message.");
 		}
 	}, []);
 
@@ -58,21 +142,23 @@ export function useAgentQuery(
 		} catch (err) {
 			logger.error("Agent query error:", err);
 			setError(err instanceof Error ? err : new Error(String(err)));
-			isRunningRef.current = false;
-			setIsRunning(false);
+		} finally {
+			isQueryAliveRef.current = false;
+			setTurnRunning(false);
+			setStreamingDraft(null);
 		}
-	}, [agentService, handleMessage]);
+	}, [agentService, handleMessage, setTurnRunning]);
 
 	const start = useCallback(() => {
 		// Use ref for immediate check (no race condition)
-		if (isRunningRef.current) {
+		if (isQueryAliveRef.current) {
 			logger.info("Query already running, ignoring start");
 			return;
 		}
 
-		isRunningRef.current = true;
-		setIsRunning(true);
+		isQueryAliveRef.current = true;
 		setError(null);
+		isDrainingInterruptedTurnRef.current = false;
 
 		// Log session state
 		const hasSession = agentService.hasActiveSession();
@@ -88,11 +174,58 @@ export function useAgentQuery(
 		processQuery();
 	}, [agentService, streamingInput, processQuery]);
 
+	const send = useCallback(
+		(prompt: string) => {
+			streamingInput.sendMessage(prompt);
+			setTurnRunning(true);
+
+			// The query idles between turns; only one that has ended (e.g. on
+			// an error) is started again, and it picks up the queued prompt
+			if (!isQueryAliveRef.current) {
+				logger.info("Query not running, restarting...");
+				start();
+			}
+		},
+		[streamingInput, setTurnRunning, start]
+	);
+
+	// The query counts as alive until its message loop has wound down, so
+	// a start() right after can't overlap it
 	const stop = useCallback(() => {
 		agentService.stop();
-		isRunningRef.current = false;
-		setIsRunning(false);
-	}, [agentService]);
+		setTurnRunning(false);
+	}, [agentService, setTurnRunning]);
+
+	const interrupt = useCallback(async () => {
+		if (!isTurnRunningRef.current) {
+			return;
+		}
+
+		// Only the turn ends - the query and its input stream stay open, so the
+		// next message continues the same session
+		setTurnRunning(false);
+		isDrainingInterruptedTurnRef.current = true;
+		setStreamingDraft(null);
+		setMessages((prev) => [
+			...prev,
+			createInterruptMarker(agentService.getSessionId()),
+		]);
+
+		try {
+			await agentService.interrupt();
+		} catch (err) {
+			logger.error("Failed to interrupt agent turn:", err);
+		}
+	}, [agentService, setTurnRunning]);
+
+	const appendMessage = useCallback((message: SDKMessage) => {
+		setMessages((prev) => [...prev, message]);
+	}, []);
+
+	const clearMessages = useCallback(() => {
+		setMessages([]);
+		setStreamingDraft(null);
+	}, []);
 
 	// Cleanup on unmount
 	// biome-ignore lint/correctness/useExhaustiveDependencies: <cleanup on unmount>
@@ -105,9 +238,14 @@ export function useAgentQuery(
 
 	return {
 		messages,
-		isRunning,
+		streamingText: draftText(streamingDraft),
+		isTurnRunning,
 		error,
 		start,
+		send,
 		stop,
+		interrupt,
+		appendMessage,
+		clearMessages,
 	};
 }
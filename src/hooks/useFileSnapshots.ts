@@ -0,0 +1,27 @@
+import { useCallback, useState } from "react";
+
+export type FileSnapshotsController = {
+	/** File content before each file-editing tool call, by tool_use_id */
+	snapshots: Map<string, string | null>;
+	/** Stable callback to hand to the agent service */
+	onFileSnapshot: (toolUseId: string, content: string | null) => void;
+};
+
+/**
+ * Hook that keeps the file snapshots the agent service takes before each
+ * edit, re-rendering the diffs as they arrive
+ */
+export function useFileSnapshots(): FileSnapshotsController {
+	const [snapshots, setSnapshots] = useState(
+		() => new Map<string, string | null>()
+	);
+
+	const onFileSnapshot = useCallback(
+		(toolUseId: string, content: string | null) => {
+			setSnapshots((prev) => new Map(prev).set(toolUseId, content));
+		},
+		[]
+	);
+
+	return { snapshots, onFileSnapshot };
+}
@@ -0,0 +1,67 @@
+import { useKeyboard } from "@opentui/react";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// A second Ctrl+C within this window exits the app
+const EXIT_CONFIRM_WINDOW_MS = 2000;
+
+export type UseInterruptKeysOptions = {
+	// Whether there is an agent turn to interrupt
+	canInterrupt: boolean;
+	// Esc is left to other components (e.g. the permission prompt) when false
+	escapeEnabled?: boolean;
+	onInterrupt: () => void;
+	onExit: () => void;
+};
+
+export type UseInterruptKeysResult = {
+	// True between the first and second Ctrl+C
+	exitPending: boolean;
+};
+
+/**
+ * Hook wiring the interrupt shortcuts
+ * - Esc interrupts the running turn
+ * - Ctrl+C interrupts the running turn, a second Ctrl+C exits
+ */
+export function useInterruptKeys({
+	canInterrupt,
+	escapeEnabled = true,
+	onInterrupt,
+	onExit,
+}: UseInterruptKeysOptions): UseInterruptKeysResult {
+	const [exitPending, setExitPending] = useState(false);
+	const exitTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+	const clearExitTimer = useCallback(() => {
+		if (exitTimerRef.current) clearTimeout(exitTimerRef.current);
+		exitTimerRef.current = null;
+	}, []);
+
+	// Cleanup on unmount
+	useEffect(() => clearExitTimer, [clearExitTimer]);
+
+	useKeyboard((key) => {
+		if (key.name === "escape") {
+			if (escapeEnabled && canInterrupt) onInterrupt();
+			return;
+		}
+
+		if (!(key.ctrl && key.name === "c")) return;
+
+		if (exitTimerRef.current) {
+			clearExitTimer();
+			onExit();
+			return;
+		}
+
+		if (canInterrupt) onInterrupt();
+
+		setExitPending(true);
+		exitTimerRef.current = setTimeout(() => {
+			exitTimerRef.current = null;
+			setExitPending(false);
+		}, EXIT_CONFIRM_WINDOW_MS);
+	});
+
+	return { exitPending };
+}
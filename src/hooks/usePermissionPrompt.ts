@@ -0,0 +1,122 @@
+import type {
+	CanUseTool,
+	PermissionResult,
+} from "@anthropic-ai/claude-agent-sdk";
+import { useCallback, useRef, useState } from "react";
+import { logger } from "@/services/logger";
+import type {
+	PermissionDecision,
+	PermissionRequest,
+} from "@/types/permissions";
+
+const DEFAULT_DENY_MESSAGE = "The user denied this tool call";
+const ABORTED_DENY_MESSAGE = "Tool call was cancelled before approval";
+
+type PendingPermission = {
+	request: PermissionRequest;
+	settle: (result: PermissionResult) => void;
+};
+
+export type PermissionPromptController = {
+	/** The request currently shown to the user, or null when nothing is waiting */
+	pendingRequest: PermissionRequest | null;
+	/** Stable callback to hand to the agent service */
+	canUseTool: CanUseTool;
+	/** Answer the current request */
+	respond: (decision: PermissionDecision) => void;
+};
+
+/**
+ * Hook that bridges the SDK's canUseTool callback to an interactive prompt.
+ *
+ * Each tool call that needs approval is queued and blocks until the user
+ * answers. Tools approved for the session are remembered and skip the prompt.
+ */
+export function usePermissionPrompt(): PermissionPromptController {
+	const [queue, setQueue] = useState<PendingPermission[]>([]);
+	const queueRef = useRef<PendingPermission[]>([]);
+	const sessionAllowedRef = useRef(new Set<string>());
+	const requestCounterRef = useRef(0);
+
+	const updateQueue = useCallback(
+		(update: (prev: PendingPermission[]) => PendingPermission[]) => {
+			queueRef.current = update(queueRef.current);
+			setQueue(queueRef.current);
+		},
+		[]
+	);
+
+	const canUseTool = useCallback<CanUseTool>(
+		(toolName, input, { signal }) => {
+			if (sessionAllowedRef.current.has(toolName)) {
+				logger.info(`Tool ${toolName} already approved for this session`);
+				return Promise.resolve({ behavior: "allow", updatedInput: input });
+			}
+
+			return new Promise<PermissionResult>((resolve) => {
+				const id = `permission-${requestCounterRef.current++}`;
+				let settled = false;
+
+				const settle = (result: PermissionResult) => {
+					if (settled) return;
+					settled = true;
+					updateQueue((prev) => prev.filter((p) => p.request.id !== id));
+					resolve(result);
+				};
+
+				signal.addEventListener(
+					"abort",
+					() => settle({ behavior: "deny", message: ABORTED_DENY_MESSAGE }),
+					{ once: true }
+				);
+
+				logger.info(`Requesting permission for ${toolName} (${id})`);
+				updateQueue((prev) => [
+					...prev,
+					{ request: { id, toolName, input }, settle },
+				]);
+			});
+		},
+		[updateQueue]
+	);
+
+	const respond = useCallback((decision: PermissionDecision) => {
+		const current = queueRef.current[0];
+		if (!current) return;
+
+		const { request } = current;
+		logger.info(
+			`Permission ${decision.behavior} for ${request.toolName} (${request.id})`
+		);
+
+		if (decision.behavior === "deny") {
+			current.settle({
+				behavior: "deny",
+				message: decision.reason.trim() || DEFAULT_DENY_MESSAGE,
+			});
+			return;
+		}
+
+		current.settle({ behavior: "allow", updatedInput: request.input });
+
+		if (decision.scope === "session") {
+			sessionAllowedRef.current.add(request.toolName);
+
+			// Release any queued calls to the same tool
+			for (const pending of [...queueRef.current]) {
+				if (pending.request.toolName === request.toolName) {
+					pending.settle({
+						behavior: "allow",
+						updatedInput: pending.request.input,
+					});
+				}
+			}
+		}
+	}, []);
+
+	return {
+		pendingRequest: queue[0]?.request ?? null,
+		canUseTool,
+		respond,
+	};
+}
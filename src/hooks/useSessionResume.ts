@@ -0,0 +1,103 @@
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import { useCallback, useEffect, useState } from "react";
+import { logger } from "@/services/logger";
+import type {
+	ISessionStore,
+	SessionLaunch,
+	SessionRecord,
+} from "@/types/sessions";
+
+/**
+ * Session the chat is (re)opened on
+ * sessionId is null for a brand new session
+ */
+export type ActiveSession = {
+	sessionId: string | null;
+	transcript: SDKMessage[];
+	// Unique per opening, so starting over remounts the chat
+	key: string;
+};
+
+export type UseSessionResumeResult = {
+	// null while the launch session is still loading
+	activeSession: ActiveSession | null;
+	// Sessions listed in the picker, null while it is closed
+	pickerSessions: SessionRecord[] | null;
+	openPicker: () => void;
+	closePicker: () => void;
+	resume: (sessionId: string) => void;
+	// Leave the current session for a brand new one (/clear)
+	startNew: () => void;
+};
+
+let newSessionCount = 0;
+
+const newSession = (): ActiveSession => {
+	newSessionCount++;
+	return { sessionId: null, transcript: [], key: `new-${newSessionCount}` };
+};
+
+/**
+ * Hook managing which session the chat shows
+ * Single Responsibility: Load transcripts and drive the session picker
+ */
+export function useSessionResume(
+	store: ISessionStore,
+	launch: SessionLaunch
+): UseSessionResumeResult {
+	const [activeSession, setActiveSession] = useState<ActiveSession | null>(
+		() => (launch.mode === "resume" ? null : newSession())
+	);
+	const [pickerSessions, setPickerSessions] = useState<SessionRecord[] | null>(
+		null
+	);
+
+	const resume = useCallback(
+		(sessionId: string) => {
+			setPickerSessions(null);
+			store
+				.loadTranscript(sessionId)
+				.then((transcript) => {
+					logger.info(
+						`Resuming session ${sessionId} with ${transcript.length} messages`
+					);
+					setActiveSession({ sessionId, transcript, key: sessionId });
+				})
+				.catch((error) => {
+					logger.error(`Failed to load session ${sessionId}:`, error);
+					setActiveSession((prev) => prev ?? newSession());
+				});
+		},
+		[store]
+	);
+
+	const openPicker = useCallback(() => {
+		store
+			.list()
+			.then(setPickerSessions)
+			.catch((error) => {
+				logger.error("Failed to list sessions:", error);
+				setPickerSessions([]);
+			});
+	}, [store]);
+
+	const closePicker = useCallback(() => setPickerSessions(null), []);
+
+	const startNew = useCallback(() => setActiveSession(newSession()), []);
+
+	// Apply the launch mode once on mount
+	// biome-ignore lint/correctness/useExhaustiveDependencies: Only run once on mount
+	useEffect(() => {
+		if (launch.mode === "resume") resume(launch.sessionId);
+		if (launch.mode === "picker") openPicker();
+	}, []);
+
+	return {
+		activeSession,
+		pickerSessions,
+		openPicker,
+		closePicker,
+		resume,
+		startNew,
+	};
+}
@@ -0,0 +1,21 @@
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import { useEffect, useState } from "react";
+
+const isInit = (message: SDKMessage) =>
+	message.type === "system" && message.subtype === "init";
+
+/**
+ * Hook returning when the session started: the time its first init
+ * message was seen, as SDK messages carry no timestamps
+ * null before then, and again once the messages are cleared
+ */
+export const useSessionStart = (messages: SDKMessage[]): number | null => {
+	const started = messages.some(isInit);
+	const [startedAt, setStartedAt] = useState<number | null>(null);
+
+	useEffect(() => {
+		setStartedAt((previous) => (started ? (previous ?? Date.now()) : null));
+	}, [started]);
+
+	return startedAt;
+};
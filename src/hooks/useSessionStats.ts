@@ -0,0 +1,39 @@
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import { useEffect, useMemo, useState } from "react";
+import type { SessionInfo, Stats } from "@/types";
+import { computeStats, extractSessionInfo } from "@/utils/sessionStats";
+
+export type SessionStats = {
+	// null until the session's init message arrives
+	info: SessionInfo | null;
+	stats: Stats;
+};
+
+const CLOCK_TICK_MS = 1000;
+
+/**
+ * Hook deriving session details and running totals from SDK messages
+ * Recomputed as init and result messages arrive, and every second once
+ * the session has started so its duration ticks
+ */
+export const useSessionStats = (
+	messages: SDKMessage[],
+	startedAt: number | null
+): SessionStats => {
+	const [now, setNow] = useState(Date.now);
+
+	useEffect(() => {
+		if (startedAt === null) return;
+		setNow(Date.now());
+		const timer = setInterval(() => setNow(Date.now()), CLOCK_TICK_MS);
+		return () => clearInterval(timer);
+	}, [startedAt]);
+
+	return useMemo(
+		() => ({
+			info: extractSessionInfo(messages),
+			stats: computeStats(messages, startedAt, now),
+		}),
+		[messages, startedAt, now]
+	);
+};
@@ -0,0 +1,136 @@
+import type {
+	SDKMessage,
+	SDKUserMessage,
+} from "@anthropic-ai/claude-agent-sdk";
+import { useCallback, useMemo } from "react";
+import {
+	getCommand,
+	listCommands,
+	parseSlashCommand,
+} from "@/commands/registry";
+import { logger } from "@/services/logger";
+import type {
+	CommandSuggestion,
+	SlashCommandContext,
+	SlashCommandResult,
+} from "@/types/commands";
+import type { IAgentService } from "@/types/services";
+import { formatLocalCommandOutput } from "@/utils/messageParser";
+
+export type UseSlashCommandsOptions = Omit<
+	SlashCommandContext,
+	"args" | "commands"
+> & {
+	// Show a local message in the list (never sent to the agent)
+	appendMessage: (message: SDKMessage) => void;
+	// Queue a prompt to the agent
+	sendPrompt: (prompt: string) => void;
+};
+
+export type UseSlashCommandsResult = {
+	// Every registered command, for the input's autocomplete
+	suggestions: CommandSuggestion[];
+	/**
+	 * Run input as a slash command
+	 * @returns false when the input isn't a slash command and should be
+	 * sent as a normal prompt
+	 */
+	runCommand: (input: string) => boolean;
+};
+
+const createLocalOutput = (
+	agent: IAgentService,
+	commandLine: string,
+	output: string
+): SDKUserMessage => ({
+	type: "user",
+	session_id: agent.getSessionId() ?? "",
+	message: {
+		role: "user",
+		content: [
+			{ type: "text", text: formatLocalCommandOutput(commandLine, output) },
+		],
+	},
+	parent_tool_use_id: null,
+});
+
+/**
+ * Hook running slash commands typed in the input field
+ * Single Responsibility: Route "/name args" to the registry and apply the
+ * result (local output or a prompt for the agent)
+ */
+export function useSlashCommands(
+	options: UseSlashCommandsOptions
+): UseSlashCommandsResult {
+	const {
+		agent,
+		messages,
+		sessionStartedAt,
+		appendMessage,
+		sendPrompt,
+		clearConversation,
+		openSessionPicker,
+		resumeSession,
+	} = options;
+
+	const suggestions = useMemo(() => listCommands(), []);
+
+	const runCommand = useCallback(
+		(input: string) => {
+			const parsed = parseSlashCommand(input);
+			if (!parsed) return false;
+
+			const commandLine = input.trim();
+			const showOutput = (output: string) =>
+				appendMessage(createLocalOutput(agent, commandLine, output));
+
+			const command = getCommand(parsed.name);
+			if (!command) {
+				showOutput(
+					`Unknown command: /${parsed.name} · Type /help to list commands`
+				);
+				return true;
+			}
+
+			const applyResult = (result: SlashCommandResult) => {
+				if (result.type === "output") showOutput(result.text);
+				if (result.type === "prompt") sendPrompt(result.prompt);
+			};
+
+			logger.info(`Running slash command: ${commandLine}`);
+			Promise.resolve()
+				.then(() =>
+					command.run({
+						args: parsed.args,
+						messages,
+						sessionStartedAt,
+						agent,
+						commands: listCommands(),
+						clearConversation,
+						openSessionPicker,
+						resumeSession,
+					})
+				)
+				.then(applyResult)
+				.catch((error) => {
+					logger.error(`Slash command /${parsed.name} failed:`, error);
+					showOutput(
+						`/${parsed.name} failed: ${error instanceof Error ? error.message : String(error)}`
+					);
+				});
+			return true;
+		},
+		[
+			agent,
+			messages,
+			sessionStartedAt,
+			appendMessage,
+			sendPrompt,
+			clearConversation,
+			openSessionPicker,
+			resumeSession,
+		]
+	);
+
+	return { suggestions, runCommand };
+}
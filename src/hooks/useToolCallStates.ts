@@ -0,0 +1,23 @@
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import { useMemo, useRef } from "react";
+import type { ToolCallState } from "@/types/messages";
+import { type FirstSeenTimes, pairToolCalls } from "@/utils/toolCallStates";
+
+/**
+ * Hook that pairs every tool_use block with its tool_result by tool_use_id
+ * SDK messages carry no timestamps, so start/finish times are recorded the
+ * first time each block is seen
+ */
+export const useToolCallStates = (
+	messages: SDKMessage[]
+): Map<string, ToolCallState> => {
+	const timesRef = useRef<FirstSeenTimes>({
+		startedAt: new Map(),
+		finishedAt: new Map(),
+	});
+
+	return useMemo(
+		() => pairToolCalls(messages, timesRef.current, Date.now()),
+		[messages]
+	);
+};
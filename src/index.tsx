@@ -1,4 +1,59 @@
+import path from "node:path";
 import { render } from "@opentui/react";
 import { App } from "./App";
+import {
+	loadProjectCommands,
+	PROJECT_COMMANDS_DIR,
+} from "./commands/projectCommands";
+import { registerCommand } from "./commands/registry";
+import { ReplayAgentService } from "./services/ReplayAgentService";
+import { SessionStore } from "./services/SessionStore";
+import {
+	LAUNCH_USAGE,
+	type LaunchArgs,
+	parseLaunchArgs,
+	resolveLaunch,
+} from "./utils/launch";
 
-render(<App />);
+// A bad flag ends the process with usage help, before the TUI takes over
+// the terminal
+const readLaunchArgs = (): LaunchArgs => {
+	try {
+		return parseLaunchArgs(process.argv.slice(2));
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		process.stderr.write(`${message}\n\n${LAUNCH_USAGE}\n`);
+		process.exit(1);
+	}
+};
+
+const sessionStore = new SessionStore();
+const launchArgs = readLaunchArgs();
+const launch = await resolveLaunch(launchArgs, sessionStore, process.cwd());
+
+// --replay answers from a recorded transcript at its recorded pace
+const agentService = launchArgs.replay
+	? await ReplayAgentService.fromFile(launchArgs.replay, {
+			timing: { mode: "recorded" },
+		})
+	: undefined;
+
+// User-defined slash commands, one markdown file per command
+const projectCommands = await loadProjectCommands(
+	path.join(process.cwd(), PROJECT_COMMANDS_DIR)
+);
+for (const command of projectCommands) {
+	registerCommand(command);
+}
+
+// Ctrl+C is handled by the chat (interrupt first, exit on the second press)
+render(
+	<App
+		agentService={agentService}
+		launch={launch}
+		permissionMode={launchArgs.permissionMode}
+		recordTranscript={launchArgs.record}
+		sessionStore={sessionStore}
+	/>,
+	{ exitOnCtrlC: false }
+);
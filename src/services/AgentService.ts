@@ -1,27 +1,104 @@
 import {
+	type HookCallback,
+	type Query,
 	query,
 	type SDKMessage,
 	type SDKUserMessage,
 } from "@anthropic-ai/claude-agent-sdk";
 import type { AgentServiceConfig, IAgentService } from "@/types/services";
+import {
+	FILE_EDIT_TOOLS,
+	isFileEditTool,
+	readFileSnapshot,
+} from "@/utils/fileEdits";
 import { logger } from "./logger";
 
+// allowedTools skip canUseTool entirely, so only read-only tools are
+// approved up front unless every permission is bypassed anyway
+const READ_ONLY_TOOLS = ["Read", "Grep", "Glob"];
+const ALL_TOOLS = [...READ_ONLY_TOOLS, "Write", "Edit", "Bash"];
+
 /**
  * Concrete implementation of IAgentService using Claude Agent SDK
  * Single Responsibility: Only handles communication with Claude Agent SDK
  */
 export class AgentService implements IAgentService {
 	private abortController: AbortController | null = null;
+	private activeQuery: Query | null = null;
 	private readonly config: AgentServiceConfig;
 	private sessionId: string | null = null;
+	// Prompts sent before the session id is known, recorded once init arrives
+	private unrecordedPrompts: SDKUserMessage[] = [];
 
 	constructor(config: AgentServiceConfig = {}) {
+		const permissionMode = config.permissionMode ?? "bypassPermissions";
 		this.config = {
 			model: "claude-sonnet-4-5-20250929",
 			maxTurns: 10,
-			allowedTools: ["Read", "Write", "Edit", "Bash", "Grep", "Glob"],
+			allowedTools:
+				permissionMode === "bypassPermissions" ? ALL_TOOLS : READ_ONLY_TOOLS,
+			includePartialMessages: true,
 			...config,
+			permissionMode,
 		};
+		this.sessionId = this.config.resumeSessionId ?? null;
+	}
+
+	/**
+	 * Pass user prompts through to the SDK, recording each one
+	 * The SDK doesn't echo prompts back, so this is the only place to see them
+	 */
+	private async *recordPrompts(
+		messageIterator: AsyncIterable<SDKUserMessage>
+	): AsyncIterable<SDKUserMessage> {
+		for await (const message of messageIterator) {
+			if (this.sessionId) {
+				this.config.sessionStore?.record({
+					...message,
+					session_id: this.sessionId,
+				});
+			} else {
+				this.unrecordedPrompts.push(message);
+			}
+			yield message;
+		}
+	}
+
+	/**
+	 * PreToolUse hook: the SDK waits for it before running the tool, so the
+	 * file is read before the edit, relative to the agent's cwd
+	 */
+	private readonly snapshotFile: HookCallback = async (input, toolUseId) => {
+		const { onFileSnapshot } = this.config;
+		if (
+			onFileSnapshot &&
+			toolUseId &&
+			input.hook_event_name === "PreToolUse" &&
+			isFileEditTool(input.tool_name)
+		) {
+			const { file_path: filePath } = (input.tool_input ?? {}) as {
+				file_path?: unknown;
+			};
+			onFileSnapshot(
+				toolUseId,
+				await readFileSnapshot(String(filePath ?? ""), input.cwd)
+			);
+		}
+		return {};
+	};
+
+	private recordMessage(message: SDKMessage): void {
+		const store = this.config.sessionStore;
+		if (!store) return;
+
+		store.record(message);
+
+		if (message.type === "system" && message.subtype === "init") {
+			for (const prompt of this.unrecordedPrompts) {
+				store.record({ ...prompt, session_id: message.session_id });
+			}
+			this.unrecordedPrompts = [];
+		}
 	}
 
 	async *startQuery(
@@ -33,19 +110,35 @@ export class AgentService implements IAgentService {
 		try {
 			// Use Claude Agent SDK query function with streaming input
 			const queryIterator = query({
-				prompt: messageIterator,
+				prompt: this.config.sessionStore
+					? this.recordPrompts(messageIterator)
+					: messageIterator,
 				options: {
 					model: this.config.model,
 					maxTurns: this.config.maxTurns,
 					allowedTools: this.config.allowedTools,
 					cwd: this.config.cwd,
 					abortController: this.abortController,
-					permissionMode: "bypassPermissions",
+					permissionMode: this.config.permissionMode,
+					canUseTool: this.config.canUseTool,
+					includePartialMessages: this.config.includePartialMessages,
+					...(this.config.onFileSnapshot && {
+						hooks: {
+							PreToolUse: [
+								{
+									matcher: FILE_EDIT_TOOLS.join("|"),
+									hooks: [this.snapshotFile],
+								},
+							],
+						},
+					}),
 					// Auto-resume with captured session ID
 					...(this.sessionId && { resume: this.sessionId }),
 				},
 			});
 
+			this.activeQuery = queryIterator;
+
 			// Yield each message from the query
 			for await (const message of queryIterator) {
 				// Capture session ID from init messages
@@ -54,6 +147,8 @@ export class AgentService implements IAgentService {
 					logger.info(`Session captured by service: ${this.sessionId}`);
 				}
 
+				this.recordMessage(message);
+
 				yield message;
 			}
 		} catch (error) {
@@ -61,9 +156,20 @@ export class AgentService implements IAgentService {
 			throw error;
 		} finally {
 			this.abortController = null;
+			this.activeQuery = null;
 		}
 	}
 
+	getModel(): string | undefined {
+		return this.config.model;
+	}
+
+	async setModel(model: string): Promise<void> {
+		this.config.model = model;
+		logger.info(`Model set to ${model}`);
+		await this.activeQuery?.setModel(model);
+	}
+
 	getSessionId(): string | null {
 		return this.sessionId;
 	}
@@ -72,6 +178,15 @@ export class AgentService implements IAgentService {
 		return this.sessionId !== null;
 	}
 
+	async interrupt(): Promise<void> {
+		if (!this.activeQuery) {
+			return;
+		}
+
+		logger.info("Interrupting current turn");
+		await this.activeQuery.interrupt();
+	}
+
 	stop(): void {
 		const controller = this.abortController;
 		if (!controller) {
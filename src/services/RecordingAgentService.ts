@@ -0,0 +1,158 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import path from "node:path";
+import type {
+	SDKMessage,
+	SDKUserMessage,
+} from "@anthropic-ai/claude-agent-sdk";
+import type { IAgentService } from "@/types/services";
+import { toTranscriptLine } from "@/utils/transcript";
+import { logger } from "./logger";
+
+export type RecordingAgentServiceConfig = {
+	// JSONL file the transcript is appended to
+	transcriptPath: string;
+};
+
+/**
+ * Writes to one transcript, shared by a recorder and its forks
+ */
+type TranscriptWriter = {
+	// Writes are chained so turns land in the file one at a time
+	pending: Promise<void>;
+};
+
+/**
+ * The turn one query is recording
+ */
+type TurnRecord = {
+	// Prompt through everything the SDK has emitted for it so far
+	messages: SDKMessage[];
+	// Prompts that arrived before the turn's result
+	queued: SDKUserMessage[];
+	// A prompt has been recorded and its result hasn't
+	isOpen: boolean;
+};
+
+/**
+ * Decorator that records everything passing through another IAgentService
+ * Single Responsibility: Write prompts and SDK messages to a JSONL
+ * transcript that ReplayAgentService can play back offline
+ *
+ * Each turn (prompt through result) is buffered and written in one piece,
+ * so concurrent queries never interleave their turns in the file.
+ */
+export class RecordingAgentService implements IAgentService {
+	private readonly inner: IAgentService;
+	private readonly config: RecordingAgentServiceConfig;
+	private readonly writer: TranscriptWriter;
+
+	constructor(
+		inner: IAgentService,
+		config: RecordingAgentServiceConfig,
+		writer: TranscriptWriter = { pending: Promise.resolve() }
+	) {
+		this.inner = inner;
+		this.config = config;
+		this.writer = writer;
+	}
+
+	/**
+	 * Record another agent into the same transcript, e.g. one agent per
+	 * parallel evaluation; flush() on any of them waits for all
+	 */
+	fork(inner: IAgentService): RecordingAgentService {
+		return new RecordingAgentService(inner, this.config, this.writer);
+	}
+
+	private write(messages: SDKMessage[]): void {
+		if (messages.length === 0) return;
+
+		const content = messages.map(toTranscriptLine).join("");
+		this.writer.pending = this.writer.pending
+			.then(async () => {
+				await mkdir(path.dirname(this.config.transcriptPath), {
+					recursive: true,
+				});
+				await appendFile(this.config.transcriptPath, content);
+			})
+			.catch((error) => {
+				logger.error("Failed to record transcript:", error);
+			});
+	}
+
+	/**
+	 * Pass prompts through, adding each one to the turn being recorded
+	 * The SDK reads prompts sent mid-turn right away; those are held back to
+	 * open the next turns' records, after this turn's result
+	 */
+	private async *tapPrompts(
+		messageIterator: AsyncIterable<SDKUserMessage>,
+		turn: TurnRecord
+	): AsyncIterable<SDKUserMessage> {
+		for await (const message of messageIterator) {
+			if (turn.isOpen) {
+				turn.queued.push(message);
+			} else {
+				turn.messages.push(message);
+				turn.isOpen = true;
+			}
+			yield message;
+		}
+	}
+
+	async *startQuery(
+		messageIterator: AsyncIterable<SDKUserMessage>
+	): AsyncIterable<SDKMessage> {
+		const turn: TurnRecord = { messages: [], queued: [], isOpen: false };
+
+		try {
+			for await (const message of this.inner.startQuery(
+				this.tapPrompts(messageIterator, turn)
+			)) {
+				turn.messages.push(message);
+				if (message.type === "result") {
+					this.write(turn.messages.splice(0));
+					// Each queued prompt gets a turn, and result, of its own
+					const next = turn.queued.shift();
+					if (next) turn.messages.push(next);
+					turn.isOpen = next !== undefined;
+				}
+				yield message;
+			}
+		} finally {
+			// Whatever an interrupted or failed turn produced so far
+			this.write([...turn.messages.splice(0), ...turn.queued.splice(0)]);
+		}
+	}
+
+	/**
+	 * Resolves once everything recorded so far is on disk
+	 */
+	flush(): Promise<void> {
+		return this.writer.pending;
+	}
+
+	getModel(): string | undefined {
+		return this.inner.getModel();
+	}
+
+	setModel(model: string): Promise<void> {
+		return this.inner.setModel(model);
+	}
+
+	getSessionId(): string | null {
+		return this.inner.getSessionId();
+	}
+
+	hasActiveSession(): boolean {
+		return this.inner.hasActiveSession();
+	}
+
+	interrupt(): Promise<void> {
+		return this.inner.interrupt();
+	}
+
+	stop(): void {
+		this.inner.stop();
+	}
+}
@@ -0,0 +1,180 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type {
+	SDKMessage,
+	SDKUserMessage,
+} from "@anthropic-ai/claude-agent-sdk";
+import { parseTranscriptLines } from "@/utils/transcript";
+import { RecordingAgentService } from "./RecordingAgentService";
+import { ReplayAgentService } from "./ReplayAgentService";
+
+const prompt = (text: string): SDKUserMessage => ({
+	type: "user",
+	session_id: "",
+	parent_tool_use_id: null,
+	message: { role: "user", content: [{ type: "text", text }] },
+});
+
+const reply = (text: string) =>
+	({
+		type: "assistant",
+		session_id: "s1",
+		parent_tool_use_id: null,
+		message: { role: "assistant", content: [{ type: "text", text }] },
+	}) as unknown as SDKMessage;
+
+const result = {
+	type: "result",
+	subtype: "success",
+	session_id: "s1",
+	duration_ms: 0,
+} as unknown as SDKMessage;
+
+const init = {
+	type: "system",
+	subtype: "init",
+	session_id: "s1",
+} as unknown as SDKMessage;
+
+async function* prompts(...texts: string[]): AsyncIterable<SDKUserMessage> {
+	for await (const text of texts) yield prompt(text);
+}
+
+const replyTexts = async (messages: AsyncIterable<SDKMessage>) => {
+	const texts: string[] = [];
+	for await (const message of messages) {
+		if (message.type === "assistant") {
+			texts.push(message.message.content[0]?.text ?? "");
+		}
+	}
+	return texts;
+};
+
+const transcript = [
+	init,
+	prompt("hello"),
+	reply("hi there"),
+	result,
+	prompt("bye"),
+	reply("see you"),
+	result,
+];
+
+describe("ReplayAgentService", () => {
+	test("answers each prompt with the turn recorded for it", async () => {
+		const service = new ReplayAgentService({ transcript });
+
+		expect(
+			await replyTexts(service.startQuery(prompts("bye", "hello")))
+		).toEqual(["see you", "hi there"]);
+		expect(service.getSessionId()).toBe("s1");
+		expect(service.remainingTurns).toBe(0);
+	});
+
+	test("falls back to recording order unless strict", async () => {
+		const lenient = new ReplayAgentService({ transcript });
+		expect(await replyTexts(lenient.startQuery(prompts("other")))).toEqual([
+			"hi there",
+		]);
+
+		const strict = new ReplayAgentService({ transcript, strict: true });
+		await expect(
+			replyTexts(strict.startQuery(prompts("other")))
+		).rejects.toThrow("No turn was recorded");
+	});
+
+	test("forks share the turns, but not their queries or model", async () => {
+		const replay = new ReplayAgentService({ transcript, model: "haiku" });
+		const first = replay.fork();
+		const second = replay.fork();
+		await second.setModel("opus");
+		expect(first.getModel()).toBe("haiku");
+
+		const { promise: sent, resolve: send } = Promise.withResolvers<void>();
+		async function* later(): AsyncIterable<SDKUserMessage> {
+			yield prompt("hello");
+			await sent;
+			yield prompt("bye");
+		}
+		const replies = replyTexts(second.startQuery(later()));
+		// Stopping one evaluation leaves the other's query running
+		first.stop();
+		send();
+		expect(await replies).toEqual(["hi there", "see you"]);
+
+		await expect(
+			replyTexts(first.startQuery(prompts("hello")))
+		).rejects.toThrow("no turn left");
+	});
+
+	test("replays what RecordingAgentService wrote", async () => {
+		const dir = await mkdtemp(path.join(tmpdir(), "replay-"));
+		const transcriptPath = path.join(dir, "transcript.jsonl");
+
+		try {
+			const recorder = new RecordingAgentService(
+				new ReplayAgentService({ transcript }),
+				{ transcriptPath }
+			);
+			await replyTexts(recorder.startQuery(prompts("hello", "bye")));
+			await recorder.flush();
+
+			const replay = await ReplayAgentService.fromFile(transcriptPath, {
+				strict: true,
+			});
+			expect(
+				await replyTexts(replay.startQuery(prompts("hello", "bye")))
+			).toEqual(["hi there", "see you"]);
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	test("records a prompt sent mid-turn with the turn after it", async () => {
+		const dir = await mkdtemp(path.join(tmpdir(), "replay-"));
+		const transcriptPath = path.join(dir, "transcript.jsonl");
+
+		// Reads every prompt before answering, as the SDK does with prompts
+		// queued while a turn runs
+		class EagerReplay extends ReplayAgentService {
+			override async *startQuery(
+				messageIterator: AsyncIterable<SDKUserMessage>
+			): AsyncIterable<SDKMessage> {
+				const texts: string[] = [];
+				for await (const message of messageIterator) {
+					const [block] = message.message.content;
+					if (typeof block === "object" && block.type === "text") {
+						texts.push(block.text);
+					}
+				}
+				yield* super.startQuery(prompts(...texts));
+			}
+		}
+
+		try {
+			const recorder = new RecordingAgentService(
+				new EagerReplay({ transcript }),
+				{ transcriptPath }
+			);
+			await replyTexts(recorder.startQuery(prompts("hello", "bye")));
+			await recorder.flush();
+
+			const { messages } = parseTranscriptLines(
+				await readFile(transcriptPath, "utf8")
+			);
+			expect(messages).toEqual([
+				prompt("hello"),
+				init,
+				reply("hi there"),
+				result,
+				prompt("bye"),
+				reply("see you"),
+				result,
+			]);
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,272 @@
+import { readFile } from "node:fs/promises";
+import type {
+	SDKMessage,
+	SDKUserMessage,
+} from "@anthropic-ai/claude-agent-sdk";
+import type { IAgentService } from "@/types/services";
+import { truncate } from "@/utils/formatMessage";
+import {
+	extractPromptText,
+	INTERRUPT_MARKER_PREFIX,
+} from "@/utils/messageParser";
+import { findTurn, type ReplayTurn, splitTurns } from "@/utils/replayTurns";
+import { parseTranscriptLines } from "@/utils/transcript";
+import { logger } from "./logger";
+
+/**
+ * How fast recorded messages are played back
+ * - instant: as fast as the consumer reads them
+ * - fixed: the same pause before every message
+ * - recorded: each turn spread over the duration_ms of its result,
+ *   divided by speed (2 = twice as fast)
+ */
+export type ReplayTiming =
+	| { mode: "instant" }
+	| { mode: "fixed"; delayMs: number }
+	| { mode: "recorded"; speed?: number };
+
+export type ReplayAgentServiceConfig = {
+	transcript: SDKMessage[];
+	timing: ReplayTiming;
+	// Fail on a prompt no turn was recorded for, instead of replaying the
+	// next unplayed turn
+	strict: boolean;
+	model?: string;
+};
+
+const DEFAULT_CONFIG: Omit<ReplayAgentServiceConfig, "transcript"> = {
+	timing: { mode: "instant" },
+	strict: false,
+};
+
+const PROMPT_PREVIEW_LENGTH = 60;
+
+/**
+ * The transcript's turns and which have been played, shared by a replay
+ * and its forks
+ */
+type ReplayTurns = {
+	turns: ReplayTurn[];
+	played: Set<number>;
+};
+
+/**
+ * State of one startQuery() call
+ */
+type ReplayQuery = {
+	stopped: boolean;
+	// Resolves when stop() is called, to stop waiting for input
+	stopSignal: Promise<void>;
+	onStop: () => void;
+	// Aborts the turn being played (interrupt or stop)
+	turn: AbortController | null;
+};
+
+/**
+ * Wait, returning early if the signal aborts
+ */
+const sleep = (ms: number, signal: AbortSignal): Promise<void> =>
+	new Promise((resolve) => {
+		if (signal.aborted) {
+			resolve();
+			return;
+		}
+		const done = () => {
+			clearTimeout(timer);
+			signal.removeEventListener("abort", done);
+			resolve();
+		};
+		const timer = setTimeout(done, ms);
+		signal.addEventListener("abort", done, { once: true });
+	});
+
+const createQuery = (): ReplayQuery => {
+	const { promise, resolve } = Promise.withResolvers<void>();
+	return { stopped: false, stopSignal: promise, onStop: resolve, turn: null };
+};
+
+/**
+ * Marker the SDK emits when a turn is interrupted
+ */
+const createInterruptMarker = (sessionId: string | null): SDKUserMessage => ({
+	type: "user",
+	session_id: sessionId ?? "",
+	message: {
+		role: "user",
+		content: [{ type: "text", text: `${INTERRUPT_MARKER_PREFIX}]` }],
+	},
+	parent_tool_use_id: null,
+});
+
+/**
+ * Offline IAgentService that replays a recorded transcript
+ * Single Responsibility: Answer each incoming prompt with the SDK messages
+ * recorded for it - no SDK, no network, deterministic output
+ *
+ * Turns are matched to prompts by text, falling back to recording order,
+ * so concurrent queries (e.g. batch evaluation) each get their own turn.
+ */
+export class ReplayAgentService implements IAgentService {
+	private readonly config: ReplayAgentServiceConfig;
+	private readonly turns: ReplayTurn[];
+	private readonly played: Set<number>;
+	private readonly queries = new Set<ReplayQuery>();
+	private sessionId: string | null = null;
+
+	constructor(
+		config: Partial<ReplayAgentServiceConfig> & { transcript: SDKMessage[] },
+		shared?: ReplayTurns
+	) {
+		this.config = { ...DEFAULT_CONFIG, ...config };
+		this.turns = shared?.turns ?? splitTurns(this.config.transcript);
+		this.played = shared?.played ?? new Set();
+	}
+
+	/**
+	 * Load a JSONL transcript (as written by RecordingAgentService or
+	 * SessionStore)
+	 */
+	static async fromFile(
+		transcriptPath: string,
+		config?: Partial<Omit<ReplayAgentServiceConfig, "transcript">>
+	): Promise<ReplayAgentService> {
+		const content = await readFile(transcriptPath, "utf-8");
+		const { messages, skipped } = parseTranscriptLines(content);
+		if (skipped > 0) {
+			logger.warn(
+				`Skipped ${skipped} unreadable lines in transcript ${transcriptPath}`
+			);
+		}
+		return new ReplayAgentService({ ...config, transcript: messages });
+	}
+
+	/**
+	 * Another replay of the same transcript, e.g. one per parallel
+	 * evaluation: no turn is played by both, but each has its own model,
+	 * session, and queries that stop() and interrupt() act on
+	 */
+	fork(): ReplayAgentService {
+		return new ReplayAgentService(
+			{ ...this.config },
+			{ turns: this.turns, played: this.played }
+		);
+	}
+
+	/**
+	 * Turns not yet replayed
+	 */
+	get remainingTurns(): number {
+		return this.turns.length - this.played.size;
+	}
+
+	private takeTurn(message: SDKUserMessage): ReplayTurn {
+		const prompt = extractPromptText(message);
+		const preview = truncate(prompt ?? "(no text)", PROMPT_PREVIEW_LENGTH);
+		const index = findTurn(this.turns, this.played, prompt);
+		const turn = this.turns[index];
+
+		if (!turn) {
+			throw new Error(`Transcript has no turn left to answer "${preview}"`);
+		}
+		if (turn.prompt !== prompt) {
+			if (this.config.strict) {
+				throw new Error(`No turn was recorded for "${preview}"`);
+			}
+			logger.warn(`Replaying a turn recorded for another prompt: "${preview}"`);
+		}
+
+		this.played.add(index);
+		return turn;
+	}
+
+	private messageDelay(turn: ReplayTurn): number {
+		const { timing } = this.config;
+		if (timing.mode === "fixed") return timing.delayMs;
+		if (timing.mode === "instant" || turn.messages.length === 0) return 0;
+
+		const result = turn.messages.findLast(
+			(message) => message.type === "result"
+		);
+		const duration = result?.type === "result" ? result.duration_ms : 0;
+		return duration / (timing.speed ?? 1) / turn.messages.length;
+	}
+
+	private async *playTurn(
+		turn: ReplayTurn,
+		query: ReplayQuery
+	): AsyncIterable<SDKMessage> {
+		const controller = new AbortController();
+		query.turn = controller;
+		const delay = this.messageDelay(turn);
+
+		try {
+			for (const message of turn.messages) {
+				await sleep(delay, controller.signal);
+				if (controller.signal.aborted) break;
+
+				if (message.type === "system" && message.subtype === "init") {
+					this.sessionId = message.session_id;
+				}
+				yield message;
+			}
+
+			if (controller.signal.aborted && !query.stopped) {
+				yield createInterruptMarker(this.sessionId);
+			}
+		} finally {
+			query.turn = null;
+		}
+	}
+
+	async *startQuery(
+		messageIterator: AsyncIterable<SDKUserMessage>
+	): AsyncIterable<SDKMessage> {
+		const query = createQuery();
+		this.queries.add(query);
+		const input = messageIterator[Symbol.asyncIterator]();
+
+		try {
+			while (!query.stopped) {
+				// Stop ends the query even while it waits for the next prompt
+				const next = await Promise.race([input.next(), query.stopSignal]);
+				if (!next || next.done) break;
+
+				yield* this.playTurn(this.takeTurn(next.value), query);
+			}
+		} finally {
+			this.queries.delete(query);
+		}
+	}
+
+	getModel(): string | undefined {
+		return this.config.model;
+	}
+
+	setModel(model: string): Promise<void> {
+		this.config.model = model;
+		return Promise.resolve();
+	}
+
+	getSessionId(): string | null {
+		return this.sessionId;
+	}
+
+	hasActiveSession(): boolean {
+		return this.sessionId !== null;
+	}
+
+	interrupt(): Promise<void> {
+		for (const query of this.queries) {
+			query.turn?.abort();
+		}
+		return Promise.resolve();
+	}
+
+	stop(): void {
+		for (const query of this.queries) {
+			query.stopped = true;
+			query.turn?.abort();
+			query.onStop();
+		}
+	}
+}
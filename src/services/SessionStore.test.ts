@@ -0,0 +1,135 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import { FILES } from "@/testing/config/paths";
+import { SessionStore } from "./SessionStore";
+
+const STARTED_AT = new Date("2026-01-01T10:00:00Z");
+const LATER = new Date("2026-01-01T11:00:00Z");
+
+const FIRST_QUERY_COST = 0.03;
+const RESUMED_QUERY_COST = 0.02;
+const TOTAL_COST = 0.05;
+
+const init = (sessionId: string, cwd = "/work") =>
+	({
+		type: "system",
+		subtype: "init",
+		session_id: sessionId,
+		cwd,
+		model: "sonnet",
+	}) as unknown as SDKMessage;
+
+const prompt = (sessionId: string, text: string) =>
+	({
+		type: "user",
+		session_id: sessionId,
+		parent_tool_use_id: null,
+		message: { role: "user", content: [{ type: "text", text }] },
+	}) as unknown as SDKMessage;
+
+const reply = (sessionId: string) =>
+	({
+		type: "assistant",
+		session_id: sessionId,
+		parent_tool_use_id: null,
+		message: { role: "assistant", content: [{ type: "text", text: "Hi" }] },
+	}) as unknown as SDKMessage;
+
+// The SDK reports each query's cost so far, not the session's
+const result = (sessionId: string, costUsd: number) =>
+	({
+		type: "result",
+		subtype: "success",
+		session_id: sessionId,
+		total_cost_usd: costUsd,
+	}) as unknown as SDKMessage;
+
+const tempDirs: string[] = [];
+
+const storeIn = async () => {
+	const baseDir = await mkdtemp(path.join(tmpdir(), "sessions-"));
+	tempDirs.push(baseDir);
+	return { baseDir, store: new SessionStore({ baseDir }) };
+};
+
+afterEach(async () => {
+	setSystemTime();
+	await Promise.all(
+		tempDirs.splice(0).map((dir) => rm(dir, { recursive: true, force: true }))
+	);
+});
+
+describe("SessionStore", () => {
+	test("adds the cost of every query in a session", async () => {
+		const { store } = await storeIn();
+		await store.record(init("s1"));
+		await store.record(prompt("s1", "Fix the build"));
+		await store.record(result("s1", FIRST_QUERY_COST / 2));
+		await store.record(result("s1", FIRST_QUERY_COST));
+		// Resumed: a new query, counting from zero again
+		await store.record(init("s1"));
+		await store.record(result("s1", RESUMED_QUERY_COST));
+
+		const [session] = await store.list();
+		expect(session?.costUsd).toBeCloseTo(TOTAL_COST);
+	});
+
+	test("titles a session with the first prompt typed", async () => {
+		const { store } = await storeIn();
+		const messages = [
+			init("s1"),
+			reply("s1"),
+			prompt("s1", "Fix the build"),
+			prompt("s1", "Now the tests"),
+		];
+		for (const message of messages) await store.record(message);
+
+		const [session] = await store.list();
+		expect(session?.firstPrompt).toBe("Fix the build");
+		expect(await store.loadTranscript("s1")).toEqual(messages);
+	});
+
+	test("lists sessions with a prompt, most recently used first", async () => {
+		const { store } = await storeIn();
+		setSystemTime(STARTED_AT);
+		await store.record(init("older", "/work"));
+		await store.record(prompt("older", "First"));
+		await store.record(init("newer", "/work"));
+		await store.record(prompt("newer", "Second"));
+		await store.record(init("empty", "/work"));
+		await store.record(init("elsewhere", "/other"));
+		await store.record(prompt("elsewhere", "Third"));
+		setSystemTime(LATER);
+		await store.record(result("newer", FIRST_QUERY_COST));
+		// Never started in this store, so not kept
+		await store.record(prompt("unknown", "Lost"));
+
+		const sessions = await store.list();
+		expect(sessions.map((session) => session.sessionId)).toEqual([
+			"newer",
+			"older",
+			"elsewhere",
+		]);
+		expect((await store.latest("/work"))?.sessionId).toBe("newer");
+		expect(await store.loadTranscript("unknown")).toEqual([]);
+	});
+
+	test("writes the index only when a session's record changes", async () => {
+		const { baseDir, store } = await storeIn();
+		const indexPath = path.join(baseDir, FILES.sessionIndex);
+		await store.record(init("s1"));
+		await store.record(prompt("s1", "Fix the build"));
+
+		await writeFile(indexPath, "untouched");
+		await store.record(reply("s1"));
+		await store.record(prompt("s1", "Now the tests"));
+		expect(await readFile(indexPath, "utf-8")).toBe("untouched");
+
+		await store.record(result("s1", FIRST_QUERY_COST));
+		const [session] = JSON.parse(await readFile(indexPath, "utf-8"));
+		expect(session.costUsd).toBe(FIRST_QUERY_COST);
+	});
+});
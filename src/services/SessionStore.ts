@@ -0,0 +1,197 @@
+import { appendFile, mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import { FILES, PATHS } from "@/testing/config/paths";
+import type { ISessionStore, SessionRecord } from "@/types/sessions";
+import { extractPromptText } from "@/utils/messageParser";
+import { parseTranscriptLines, toTranscriptLine } from "@/utils/transcript";
+import { logger } from "./logger";
+
+export type SessionStoreConfig = {
+	baseDir: string; // Directory holding the index and transcripts
+};
+
+const DEFAULT_CONFIG: SessionStoreConfig = {
+	baseDir: PATHS.sessions,
+};
+
+const TRANSCRIPT_EXTENSION = ".jsonl";
+
+/**
+ * What a message does to its session's record
+ * - unknown: it belongs to no session that was started, so isn't kept
+ * - unchanged / changed: whether the index has to be written again
+ */
+type RecordUpdate = "unknown" | "unchanged" | "changed";
+
+/**
+ * Persists sessions so they can be resumed after a restart
+ * Single Responsibility: Only reads and writes session files
+ *
+ * Layout under baseDir:
+ * - sessions.json: SessionRecord[] index
+ * - <sessionId>.jsonl: one SDKMessage per line (stream events excluded)
+ */
+export class SessionStore implements ISessionStore {
+	private readonly config: SessionStoreConfig;
+	private records: Map<string, SessionRecord> | null = null;
+	// Cost of a session before the current query started; the SDK reports
+	// cumulative cost per query
+	private readonly baseCosts = new Map<string, number>();
+	// Writes are chained so index updates never interleave
+	private pending: Promise<void> = Promise.resolve();
+
+	constructor(config?: Partial<SessionStoreConfig>) {
+		this.config = { ...DEFAULT_CONFIG, ...config };
+	}
+
+	private get indexPath(): string {
+		return path.join(this.config.baseDir, FILES.sessionIndex);
+	}
+
+	private transcriptPath(sessionId: string): string {
+		return path.join(
+			this.config.baseDir,
+			`${sessionId}${TRANSCRIPT_EXTENSION}`
+		);
+	}
+
+	private async loadIndex(): Promise<Map<string, SessionRecord>> {
+		if (this.records) return this.records;
+
+		try {
+			const content = await readFile(this.indexPath, "utf-8");
+			const records = JSON.parse(content) as SessionRecord[];
+			this.records = new Map(records.map((r) => [r.sessionId, r]));
+		} catch {
+			this.records = new Map();
+		}
+		return this.records;
+	}
+
+	private async saveIndex(records: Map<string, SessionRecord>): Promise<void> {
+		await mkdir(this.config.baseDir, { recursive: true });
+		await writeFile(
+			this.indexPath,
+			JSON.stringify([...records.values()], null, 2)
+		);
+	}
+
+	/**
+	 * Apply a message to its session's record, creating it on init
+	 * Only init, result and the first prompt change the record; updatedAt
+	 * moves with them, so it is when the session was last used
+	 */
+	private updateRecord(
+		records: Map<string, SessionRecord>,
+		message: SDKMessage
+	): RecordUpdate {
+		const sessionId = message.session_id;
+		const now = Date.now();
+
+		if (message.type === "system" && message.subtype === "init") {
+			const existing = records.get(sessionId);
+			records.set(sessionId, {
+				sessionId,
+				cwd: message.cwd,
+				model: message.model,
+				firstPrompt: existing?.firstPrompt ?? "",
+				createdAt: existing?.createdAt ?? now,
+				updatedAt: now,
+				costUsd: existing?.costUsd ?? 0,
+			});
+			this.baseCosts.set(sessionId, existing?.costUsd ?? 0);
+			return "changed";
+		}
+
+		const record = records.get(sessionId);
+		if (!record) return "unknown";
+
+		if (message.type === "result") {
+			record.costUsd =
+				(this.baseCosts.get(sessionId) ?? 0) + message.total_cost_usd;
+			record.updatedAt = now;
+			return "changed";
+		}
+
+		const prompt = record.firstPrompt ? null : extractPromptText(message);
+		if (!prompt) return "unchanged";
+
+		record.firstPrompt = prompt;
+		record.updatedAt = now;
+		return "changed";
+	}
+
+	private async write(message: SDKMessage): Promise<void> {
+		const records = await this.loadIndex();
+		const update = this.updateRecord(records, message);
+		if (update === "unknown") return;
+
+		if (update === "changed") await this.saveIndex(records);
+		await appendFile(
+			this.transcriptPath(message.session_id),
+			toTranscriptLine(message)
+		);
+	}
+
+	/**
+	 * Record one SDK message: update the session index and append it to
+	 * the transcript. Partial stream events are not persisted.
+	 */
+	record(message: SDKMessage): Promise<void> {
+		if (message.type === "stream_event" || !message.session_id) {
+			return this.pending;
+		}
+
+		this.pending = this.pending
+			.then(() => this.write(message))
+			.catch((error) => {
+				logger.error("Failed to record session message:", error);
+			});
+		return this.pending;
+	}
+
+	/**
+	 * All sessions, most recently used first
+	 * Sessions that never received a prompt have nothing to resume and are
+	 * left out
+	 */
+	async list(): Promise<SessionRecord[]> {
+		await this.pending;
+		const records = await this.loadIndex();
+		return [...records.values()]
+			.filter((record) => record.firstPrompt)
+			.sort((a, b) => b.updatedAt - a.updatedAt);
+	}
+
+	/**
+	 * Most recently used session started in a directory (for --continue)
+	 */
+	async latest(cwd: string): Promise<SessionRecord | null> {
+		const sessions = await this.list();
+		return sessions.find((session) => session.cwd === cwd) ?? null;
+	}
+
+	/**
+	 * Messages recorded for a session, in order
+	 * Unreadable lines (e.g. a write cut short) are skipped
+	 */
+	async loadTranscript(sessionId: string): Promise<SDKMessage[]> {
+		await this.pending;
+
+		let content: string;
+		try {
+			content = await readFile(this.transcriptPath(sessionId), "utf-8");
+		} catch {
+			return [];
+		}
+
+		const { messages, skipped } = parseTranscriptLines(content);
+		if (skipped > 0) {
+			logger.warn(
+				`Skipped ${skipped} unreadable transcript lines in ${sessionId}`
+			);
+		}
+		return messages;
+	}
+}
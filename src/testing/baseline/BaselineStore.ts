@@ -0,0 +1,119 @@
+/**
+ * Baseline Store - Approved screenshots and verdicts, per component/scenario
+ * Single Responsibility: Keep the files and verdict each scenario was
+ * approved with - promoting a run copies them in, the diff stage reads them
+ */
+
+import { copyFile, mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { DIRS, FILES, PATHS } from "@/testing/config/paths";
+import { logger } from "@/testing/logger";
+import { resultStatus } from "../evaluation/Collector";
+import type { EvaluationResult } from "../evaluation/types";
+import type { ScreenshotMetadata } from "../types";
+
+export type BaselineEntry = {
+	runId: string; // Run the baseline was promoted from
+	promotedAt: number;
+	metadata: ScreenshotMetadata; // Files are looked up in the store by name
+	result: EvaluationResult; // The verdict it was approved with
+};
+
+/**
+ * Key a baseline is stored under
+ */
+export function baselineKey({
+	componentName,
+	scenarioName,
+}: {
+	componentName: string;
+	scenarioName: string;
+}): string {
+	return `${componentName}/${scenarioName}`;
+}
+
+/**
+ * Every file captured for a scenario: screenshot, frames and snapshots
+ */
+const capturedFiles = (metadata: ScreenshotMetadata): string[] => {
+	const files = [
+		metadata.filePath,
+		...Object.values(metadata.snapshots ?? {}),
+		...(metadata.frames ?? []).flatMap((frame) => [
+			frame.filePath,
+			...Object.values(frame.snapshots ?? {}),
+		]),
+	];
+	return [...new Set(files.map((file) => path.basename(file)))];
+};
+
+export class BaselineStore {
+	private readonly dir: string;
+
+	constructor(dir = path.join(PATHS.reports, DIRS.baselines)) {
+		this.dir = dir;
+	}
+
+	/**
+	 * Where a baseline's copy of a captured file lives
+	 */
+	resolve(file: string): string {
+		return path.join(this.dir, path.basename(file));
+	}
+
+	/**
+	 * Every baseline by key; empty until a run has been promoted
+	 */
+	async load(): Promise<Map<string, BaselineEntry>> {
+		try {
+			const content = await readFile(
+				path.join(this.dir, FILES.baselinesManifest),
+				"utf-8"
+			);
+			return new Map(Object.entries(JSON.parse(content)));
+		} catch {
+			return new Map();
+		}
+	}
+
+	/**
+	 * Make a run's passing scenarios the baselines for their keys, replacing
+	 * older ones - failing scenarios are never approved
+	 */
+	async promote(
+		runId: string,
+		screenshotDir: string,
+		screenshots: ScreenshotMetadata[],
+		results: EvaluationResult[]
+	): Promise<BaselineEntry[]> {
+		const baselines = await this.load();
+		const verdicts = new Map(
+			results.map((result) => [baselineKey(result), result])
+		);
+		const promoted: BaselineEntry[] = [];
+
+		await mkdir(this.dir, { recursive: true });
+		for (const metadata of screenshots) {
+			const key = baselineKey(metadata);
+			const result = verdicts.get(key);
+			if (!result || resultStatus(result) !== "passed") {
+				logger.indent(`Not promoting ${key}: it did not pass in ${runId}`);
+				continue;
+			}
+
+			for (const file of capturedFiles(metadata)) {
+				await copyFile(path.join(screenshotDir, file), this.resolve(file));
+			}
+			const entry = { runId, promotedAt: Date.now(), metadata, result };
+			baselines.set(key, entry);
+			promoted.push(entry);
+		}
+
+		await writeFile(
+			path.join(this.dir, FILES.baselinesManifest),
+			JSON.stringify(Object.fromEntries(baselines), null, 2),
+			"utf-8"
+		);
+		return promoted;
+	}
+}
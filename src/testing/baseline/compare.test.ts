@@ -0,0 +1,102 @@
+import { describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { IAgentService } from "@/types/services";
+import { decodePng, encodePng, type RgbImage } from "../capture/raster";
+import { Evaluator } from "../evaluation";
+import { evaluationResult } from "../fixtures";
+import type { ScreenshotMetadata } from "../types";
+import { BaselineStore } from "./BaselineStore";
+import { compareWithBaselines } from "./compare";
+
+const SIZE = 4;
+const CHANNELS = 3;
+const GRAY = 100;
+const MAX_CHANNEL = 255;
+const RED = [MAX_CHANNEL, 0, 0];
+
+const image = (): RgbImage => ({
+	width: SIZE,
+	height: SIZE,
+	pixels: new Uint8Array(SIZE * SIZE * CHANNELS).fill(GRAY),
+});
+
+const metadata = (scenarioName: string): ScreenshotMetadata => ({
+	componentName: "banner",
+	scenarioName,
+	description: "",
+	expectation: `Shows ${scenarioName}`,
+	params: {},
+	filePath: `${scenarioName}.png`,
+	timestamp: 0,
+	dimensions: { width: SIZE, height: SIZE },
+});
+
+const verdict = (scenarioName: string, passed: boolean) =>
+	evaluationResult(scenarioName, {
+		passed,
+		reasoning: `${scenarioName} looks right`,
+	});
+
+// Fails the test if anything reaches the model
+const offlineAgent = {
+	getSessionId: () => null,
+	startQuery: () => {
+		throw new Error("Unchanged scenarios must not be sent to the AI");
+	},
+} as unknown as IAgentService;
+
+describe("baselines", () => {
+	test("auto-pass unchanged scenarios and mask changed pixels", async () => {
+		const dir = await mkdtemp(path.join(tmpdir(), "baselines-"));
+		const screenshotDir = path.join(dir, "screenshots");
+		const store = new BaselineStore(path.join(dir, "baselines"));
+		const screenshots = ["same", "moved", "broken"].map(metadata);
+
+		await mkdir(screenshotDir);
+		for (const { filePath } of screenshots) {
+			await writeFile(path.join(screenshotDir, filePath), encodePng(image()));
+		}
+
+		const promoted = await store.promote("run-1", screenshotDir, screenshots, [
+			verdict("same", true),
+			verdict("moved", true),
+			verdict("broken", false),
+		]);
+		expect(promoted.map((entry) => entry.metadata.scenarioName)).toEqual([
+			"same",
+			"moved",
+		]);
+
+		const changed = image();
+		changed.pixels.set([0, 0, 0], 0);
+		await writeFile(path.join(screenshotDir, "moved.png"), encodePng(changed));
+
+		const comparisons = await compareWithBaselines(
+			screenshots,
+			screenshotDir,
+			store
+		);
+		expect(comparisons.has("banner/broken")).toBe(false);
+		expect(comparisons.get("banner/same")?.unchanged).toBe(true);
+
+		const moved = comparisons.get("banner/moved");
+		expect(moved?.unchanged).toBe(false);
+		expect(moved?.changedPixels).toBe(1);
+		const mask = decodePng(await readFile(moved?.diffPath ?? ""));
+		expect(Array.from(mask?.pixels.subarray(0, CHANNELS) ?? [])).toEqual(RED);
+
+		const same = comparisons.get("banner/same");
+		if (!same) throw new Error("same was not compared");
+		const evaluator = new Evaluator(() => offlineAgent);
+		const result = await evaluator.evaluateAgainstBaseline(
+			metadata("same"),
+			path.join(screenshotDir, "same.png"),
+			same
+		);
+		expect(result.passed).toBe(true);
+		expect(result.reasoning).toBe("same looks right");
+		expect(result.baseline).toMatchObject({ runId: "run-1", unchanged: true });
+	});
+});
@@ -0,0 +1,176 @@
+/**
+ * Baseline comparison stage
+ * Single Responsibility: Diff every captured scenario against its baseline
+ * before evaluation, so only new and changed scenarios cost an AI call
+ */
+
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { logger } from "@/testing/logger";
+import { decodePng, encodePng, readPngSize } from "../capture/raster";
+import type { FrameSnapshot } from "../capture/snapshot";
+import type { FrameMetadata, ScreenshotMetadata } from "../types";
+import {
+	type BaselineEntry,
+	type BaselineStore,
+	baselineKey,
+} from "./BaselineStore";
+import { diffCells, diffImages, type ImageDiff } from "./diff";
+
+export type BaselineComparison = {
+	entry: BaselineEntry;
+	baselinePath: string; // Baseline screenshot, in the store
+	// Same pixels, same cells and the same expectation: the verdict stands
+	unchanged: boolean;
+	expectationChanged: boolean;
+	changedPixels: number;
+	changedCells?: number; // When both captures have cell snapshots
+	diffPath?: string; // Written next to the screenshot when pixels changed
+};
+
+type FrameDiff = ImageDiff & { changedCells?: number };
+
+const DIFF_SUFFIX = ".diff.png";
+const PNG_EXTENSION = /\.png$/;
+
+const framesOf = (metadata: ScreenshotMetadata): FrameMetadata[] =>
+	metadata.frames ?? [
+		{ filePath: metadata.filePath, offsetMs: 0, snapshots: metadata.snapshots },
+	];
+
+const readCells = async (file?: string): Promise<FrameSnapshot | null> => {
+	if (!file) return null;
+	try {
+		return JSON.parse(await readFile(file, "utf-8"));
+	} catch {
+		return null;
+	}
+};
+
+/**
+ * Pixels compared exactly only when both images decode; otherwise the
+ * files are either identical or entirely changed
+ */
+const diffPngs = (baseline: Buffer, current: Buffer): ImageDiff => {
+	const [before, after] = [decodePng(baseline), decodePng(current)];
+	if (before && after) return diffImages(before, after);
+
+	const size = readPngSize(current);
+	return {
+		changedPixels: baseline.equals(current)
+			? 0
+			: (size?.width ?? 1) * (size?.height ?? 1),
+		mask: null,
+	};
+};
+
+async function diffFrame(
+	baseline: FrameMetadata,
+	current: FrameMetadata,
+	store: BaselineStore,
+	screenshotDir: string
+): Promise<FrameDiff> {
+	const beside = (file: string) =>
+		path.join(screenshotDir, path.basename(file));
+
+	const [baselinePng, currentPng, baselineCells, currentCells] =
+		await Promise.all([
+			readFile(store.resolve(baseline.filePath)),
+			readFile(beside(current.filePath)),
+			readCells(
+				baseline.snapshots?.cells && store.resolve(baseline.snapshots.cells)
+			),
+			readCells(current.snapshots?.cells && beside(current.snapshots.cells)),
+		]);
+
+	const diff: FrameDiff = diffPngs(baselinePng, currentPng);
+	if (baselineCells && currentCells) {
+		diff.changedCells = diffCells(baselineCells, currentCells);
+	}
+	return diff;
+}
+
+/**
+ * Diff one scenario, frame by frame, against its baseline, writing a mask
+ * of the first frame that changed
+ */
+export async function compareWithBaseline(
+	metadata: ScreenshotMetadata,
+	entry: BaselineEntry,
+	store: BaselineStore,
+	screenshotDir: string
+): Promise<BaselineComparison> {
+	const baselineFrames = framesOf(entry.metadata);
+	const currentFrames = framesOf(metadata);
+	const diffs: FrameDiff[] = [];
+	for (const [index, current] of currentFrames.entries()) {
+		const baseline = baselineFrames[index];
+		if (baseline) {
+			diffs.push(await diffFrame(baseline, current, store, screenshotDir));
+		}
+	}
+
+	const changedPixels = diffs.reduce(
+		(sum, diff) => sum + diff.changedPixels,
+		0
+	);
+	const changedCells = diffs.every((diff) => diff.changedCells !== undefined)
+		? diffs.reduce((sum, diff) => sum + (diff.changedCells ?? 0), 0)
+		: undefined;
+	const expectationChanged =
+		entry.metadata.expectation !== metadata.expectation;
+
+	const comparison: BaselineComparison = {
+		entry,
+		baselinePath: store.resolve(entry.metadata.filePath),
+		unchanged:
+			!expectationChanged &&
+			baselineFrames.length === currentFrames.length &&
+			changedPixels === 0 &&
+			!changedCells,
+		expectationChanged,
+		changedPixels,
+		changedCells,
+	};
+
+	const mask = diffs.find((diff) => diff.changedPixels > 0)?.mask;
+	if (mask) {
+		comparison.diffPath = path.join(
+			screenshotDir,
+			path.basename(metadata.filePath).replace(PNG_EXTENSION, DIFF_SUFFIX)
+		);
+		await writeFile(comparison.diffPath, encodePng(mask));
+	}
+	return comparison;
+}
+
+/**
+ * Compare every scenario that has a baseline, keyed like the baselines
+ * Scenarios whose baseline can't be read are left out, so they are
+ * evaluated from scratch
+ */
+export async function compareWithBaselines(
+	screenshots: ScreenshotMetadata[],
+	screenshotDir: string,
+	store: BaselineStore
+): Promise<Map<string, BaselineComparison>> {
+	const baselines = await store.load();
+	const comparisons = new Map<string, BaselineComparison>();
+
+	// One at a time: every comparison decodes full-size images
+	for (const metadata of screenshots) {
+		const key = baselineKey(metadata);
+		const entry = baselines.get(key);
+		if (!entry) continue;
+
+		try {
+			comparisons.set(
+				key,
+				await compareWithBaseline(metadata, entry, store, screenshotDir)
+			);
+		} catch (error) {
+			logger.warn(`Could not compare ${key} with its baseline:`, error);
+		}
+	}
+	return comparisons;
+}
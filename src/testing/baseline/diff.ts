@@ -0,0 +1,102 @@
+/**
+ * Screenshot diffing
+ * Single Responsibility: Count what changed between two captures - cell by
+ * cell from snapshots, pixel by pixel from images - and draw the changed
+ * pixels over the current image
+ */
+
+import type { Rgb, RgbImage } from "../capture/raster";
+import type { FrameSnapshot } from "../capture/snapshot";
+
+export type ImageDiff = {
+	changedPixels: number;
+	// Current image dimmed, changed pixels highlighted; null if sizes differ
+	mask: RgbImage | null;
+};
+
+const CHANNELS = 3;
+const MAX_CHANNEL = 255;
+// Channel levels two pixels may differ by and still count as the same,
+// which absorbs anti-aliasing noise in browser captures
+const PIXEL_TOLERANCE = 8;
+// How much of the current image shows through around the highlights
+const MASK_BRIGHTNESS = 0.3;
+const HIGHLIGHT: Rgb = [MAX_CHANNEL, 0, 0];
+
+const pixelDiffers = (
+	baseline: Uint8Array,
+	current: Uint8Array,
+	offset: number
+): boolean => {
+	for (let channel = offset; channel < offset + CHANNELS; channel++) {
+		const delta = Math.abs((baseline[channel] ?? 0) - (current[channel] ?? 0));
+		if (delta > PIXEL_TOLERANCE) return true;
+	}
+	return false;
+};
+
+const dimmed = (pixels: Uint8Array, offset: number): Rgb => {
+	let sum = 0;
+	for (let channel = offset; channel < offset + CHANNELS; channel++) {
+		sum += pixels[channel] ?? 0;
+	}
+	const level = Math.round((sum / CHANNELS) * MASK_BRIGHTNESS);
+	return [level, level, level];
+};
+
+/**
+ * Pixels that changed between two images, and a mask showing where
+ * Images of different sizes count as changed all over
+ */
+export function diffImages(baseline: RgbImage, current: RgbImage): ImageDiff {
+	if (baseline.width !== current.width || baseline.height !== current.height) {
+		return {
+			changedPixels: Math.max(
+				baseline.width * baseline.height,
+				current.width * current.height
+			),
+			mask: null,
+		};
+	}
+
+	const mask: RgbImage = {
+		width: current.width,
+		height: current.height,
+		pixels: new Uint8Array(current.pixels.length),
+	};
+	let changedPixels = 0;
+	for (let offset = 0; offset < current.pixels.length; offset += CHANNELS) {
+		if (pixelDiffers(baseline.pixels, current.pixels, offset)) {
+			changedPixels++;
+			mask.pixels.set(HIGHLIGHT, offset);
+		} else {
+			mask.pixels.set(dimmed(current.pixels, offset), offset);
+		}
+	}
+	return { changedPixels, mask };
+}
+
+/**
+ * Cells whose character, colors or attributes changed between two
+ * snapshots; grids of different sizes count as changed all over
+ */
+export function diffCells(
+	baseline: FrameSnapshot,
+	current: FrameSnapshot
+): number {
+	if (baseline.width !== current.width || baseline.height !== current.height) {
+		return Math.max(
+			baseline.width * baseline.height,
+			current.width * current.height
+		);
+	}
+
+	let changedCells = 0;
+	for (const [row, cells] of current.rows.entries()) {
+		for (const [column, cell] of cells.entries()) {
+			const before = baseline.rows[row]?.[column];
+			if (JSON.stringify(before) !== JSON.stringify(cell)) changedCells++;
+		}
+	}
+	return changedCells;
+}
@@ -0,0 +1,10 @@
+/**
+ * Baseline module - Approved screenshots and the diff stage against them
+ */
+
+export type { BaselineEntry } from "./BaselineStore";
+export { BaselineStore, baselineKey } from "./BaselineStore";
+export type { BaselineComparison } from "./compare";
+export { compareWithBaseline, compareWithBaselines } from "./compare";
+export type { ImageDiff } from "./diff";
+export { diffCells, diffImages } from "./diff";
@@ -3,6 +3,9 @@ import { dirname, join } from "node:path";
 import { fileURLToPath, pathToFileURL } from "node:url";
 import { type Browser, chromium, type Page } from "playwright";
 import { logger } from "@/services/logger";
+import type { FrameMetadata } from "../../types";
+import { captureFrames } from "../frames";
+import { rejectInteractions } from "../interactions";
 import type { RunCommandResult } from "./pty-helper";
 import { runCommand } from "./pty-helper";
 import type { TerminalCaptureAdapter, TerminalCaptureOptions } from "./types";
@@ -159,8 +162,9 @@ export class BrowserTerminalAdapter implements TerminalCaptureAdapter {
 		return "Browser Terminal (Playwright)";
 	}
 
-	async capture(options: TerminalCaptureOptions): Promise<void> {
+	async capture(options: TerminalCaptureOptions): Promise<FrameMetadata[]> {
 		const { cmd, out, width = 900, height = 600, settleMs = 2500 } = options;
+		rejectInteractions(options, this.getName());
 
 		logger.info(`Capturing terminal: ${cmd}`);
 
@@ -170,11 +174,17 @@ export class BrowserTerminalAdapter implements TerminalCaptureAdapter {
 
 		try {
 			browser = await launchBrowser();
-			page = await openTerminalPage(browser, width, height);
+			const openPage = await openTerminalPage(browser, width, height);
+			page = openPage;
 			const dimensions = await prepareTerminal(page);
 			const result = await streamCommandOutput(page, cmd, dimensions);
 
-			await captureScreenshotImage(page, out, settleMs);
+			await page.waitForTimeout(settleMs);
+			const frames = await captureFrames(options, async (target) => {
+				// Already settled; captureFrames paces the frames after the first
+				await captureScreenshotImage(openPage, target.out, 0);
+				return {};
+			});
 			screenshotSaved = true;
 
 			if (result.exitCode !== 0) {
@@ -184,6 +194,8 @@ export class BrowserTerminalAdapter implements TerminalCaptureAdapter {
 			}
 
 			logger.info(`Screenshot saved: ${out}`);
+			// Cells live in xterm.js inside the page; only pixels come back
+			return frames;
 		} catch (error) {
 			if (page && !screenshotSaved) {
 				try {
@@ -0,0 +1,240 @@
+import { describe, expect, test } from "bun:test";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { writeAnimation } from "../frames";
+import { resolveKey } from "../interactions";
+import {
+	CELL_HEIGHT,
+	CELL_WIDTH,
+	type CellFrame,
+	rasterizeFrame,
+	readPngSize,
+} from "../raster";
+import {
+	type FrameSnapshot,
+	toFrameSnapshot,
+	toTextSnapshot,
+} from "../snapshot";
+import { HeadlessTerminalAdapter, parseSpecCommand } from "./headless";
+
+const SPEC_FILE = "src/components/status-bar/status-bar.spec.tsx";
+const SPINNER_SPEC_FILE = "src/components/agent-spinner/agent-spinner.spec.tsx";
+const SPINNER_ONLY_SCENARIO = 5;
+const INPUT_SPEC_FILE = "src/components/ui/InputField.spec.tsx";
+const UNCONTROLLED_INPUT_SCENARIO = 6;
+const RESIZED_COLS = 20;
+const RESIZED_ROWS = 5;
+const FRAME_COUNT = 3;
+const FRAME_INTERVAL_MS = 100;
+const WIDTH = 400;
+const HEIGHT = 120;
+const SETTLE_MS = 100;
+const RGBA_CHANNELS = 4;
+const MAX_CHANNEL = 255;
+const FULL_BLOCK = 0x25_88;
+const BOLD = 1;
+
+const createTempPath = async (filename: string): Promise<string> => {
+	const dir = await fs.mkdtemp(path.join(os.tmpdir(), "headless-adapter-"));
+	return path.join(dir, filename);
+};
+
+/**
+ * One cell holding `char` in opaque white on black
+ */
+const singleCell = (char: number): CellFrame => ({
+	width: 1,
+	height: 1,
+	char: Uint32Array.of(char),
+	fg: new Float32Array(RGBA_CHANNELS).fill(1),
+	bg: Float32Array.of(0, 0, 0, 1),
+	attributes: Uint8Array.of(0),
+});
+
+describe("HeadlessTerminalAdapter", () => {
+	test("is supported under Bun for spec commands and names itself", () => {
+		const adapter = new HeadlessTerminalAdapter();
+		expect(
+			adapter.isSupported({ cmd: `bun ${SPEC_FILE}`, out: "unused.png" })
+		).toBe(true);
+		expect(adapter.getName()).toBe("Headless OpenTUI");
+	});
+
+	test("parses the commands the capture runner issues", () => {
+		expect(parseSpecCommand(`SCENARIO_INDEX=2 bun ${SPEC_FILE}`)).toEqual({
+			specFile: SPEC_FILE,
+			env: { SCENARIO_INDEX: "2" },
+		});
+		expect(parseSpecCommand("echo hello")).toBeNull();
+	});
+
+	test("rasterizes cells with the bundled font", () => {
+		const block = rasterizeFrame(singleCell(FULL_BLOCK));
+		expect(block.width).toBe(CELL_WIDTH);
+		expect(block.height).toBe(CELL_HEIGHT);
+		expect(block.pixels.every((value) => value === MAX_CHANNEL)).toBe(true);
+
+		const space = rasterizeFrame(singleCell(" ".charCodeAt(0)));
+		expect(space.pixels.every((value) => value === 0)).toBe(true);
+
+		const letter = rasterizeFrame(singleCell("A".charCodeAt(0)));
+		const lit = letter.pixels.filter((value) => value === MAX_CHANNEL);
+		expect(lit.length).toBeGreaterThan(0);
+		expect(lit.length).toBeLessThan(letter.pixels.length);
+	});
+
+	test("snapshots cell text and styles", () => {
+		const frame = {
+			...singleCell("A".charCodeAt(0)),
+			attributes: Uint8Array.of(BOLD),
+		};
+		expect(toTextSnapshot(frame)).toBe("A\n");
+		expect(toTextSnapshot(singleCell(" ".charCodeAt(0)))).toBe("\n");
+		expect(toFrameSnapshot(frame).rows).toEqual([
+			[{ char: "A", fg: "#ffffff", bg: "#000000", bold: true }],
+		]);
+	});
+
+	test("captures a component spec scenario without a terminal", async () => {
+		const adapter = new HeadlessTerminalAdapter();
+		const out = await createTempPath("status-bar.png");
+		const snapshots = {
+			text: out.replace(".png", ".txt"),
+			cells: out.replace(".png", ".cells.json"),
+		};
+
+		const written = await adapter.capture({
+			cmd: `SCENARIO_INDEX=0 bun ${SPEC_FILE}`,
+			out,
+			width: WIDTH,
+			height: HEIGHT,
+			settleMs: SETTLE_MS,
+			snapshots,
+		});
+
+		const png = await fs.readFile(out);
+		expect(readPngSize(png)).toEqual({ width: WIDTH, height: HEIGHT });
+		expect(process.env.SCENARIO_INDEX).toBeUndefined();
+
+		expect(written).toEqual([
+			{ filePath: out, offsetMs: expect.any(Number), snapshots },
+		]);
+		const text = await fs.readFile(snapshots.text, "utf-8");
+		expect(text.trim().length).toBeGreaterThan(0);
+		const cells: FrameSnapshot = JSON.parse(
+			await fs.readFile(snapshots.cells, "utf-8")
+		);
+		expect(cells.rows).toHaveLength(cells.height);
+		expect(
+			cells.rows.map((row) =>
+				row
+					.map((cell) => cell.char)
+					.join("")
+					.trimEnd()
+			)
+		).toEqual(expect.arrayContaining(text.trimEnd().split("\n")));
+	});
+
+	test("captures animation frames with their own snapshots", async () => {
+		const adapter = new HeadlessTerminalAdapter();
+		const out = await createTempPath("spinner.png");
+
+		const frames = await adapter.capture({
+			cmd: `SCENARIO_INDEX=${SPINNER_ONLY_SCENARIO} bun ${SPINNER_SPEC_FILE}`,
+			out,
+			width: WIDTH,
+			height: HEIGHT,
+			settleMs: SETTLE_MS,
+			frames: FRAME_COUNT,
+			frameIntervalMs: FRAME_INTERVAL_MS,
+			snapshots: { text: out.replace(".png", ".txt") },
+		});
+
+		expect(frames.map((frame) => path.basename(frame.filePath))).toEqual([
+			"spinner.png",
+			"spinner.frame-1.png",
+			"spinner.frame-2.png",
+		]);
+		// Paced by timers, so allow a millisecond either way
+		expect(frames.at(-1)?.offsetMs).toBeGreaterThan(
+			FRAME_INTERVAL_MS * (FRAME_COUNT - 1) - 2
+		);
+
+		// The spinner turns between frames
+		const texts = await Promise.all(
+			frames.map((frame) => fs.readFile(frame.snapshots?.text ?? "", "utf-8"))
+		);
+		expect(new Set(texts).size).toBeGreaterThan(1);
+
+		const animation = await writeAnimation(
+			frames,
+			out.replace(".png", ".animated.png")
+		);
+		const apng = await fs.readFile(animation ?? "");
+		expect(readPngSize(apng)).toEqual({ width: WIDTH, height: HEIGHT });
+		expect(apng.includes("acTL")).toBe(true);
+	});
+
+	test("resolves key names to the bytes a terminal sends", () => {
+		expect(resolveKey("a")).toBe("a");
+		expect(resolveKey("enter")).toBe("\r");
+		expect(resolveKey("up")).toBe("\u001b[A");
+		expect(resolveKey("ctrl+c")).toBe("\u0003");
+		expect(() => resolveKey("hyper")).toThrow('Unknown key "hyper"');
+	});
+
+	test("replays interactions and captures each checkpoint", async () => {
+		const adapter = new HeadlessTerminalAdapter();
+		const out = await createTempPath("input.png");
+
+		const frames = await adapter.capture({
+			cmd: `SCENARIO_INDEX=${UNCONTROLLED_INPUT_SCENARIO} bun ${INPUT_SPEC_FILE}`,
+			out,
+			width: WIDTH,
+			height: HEIGHT,
+			settleMs: SETTLE_MS,
+			snapshots: { text: out.replace(".png", ".txt") },
+			interactions: [
+				{ action: "type", text: "hi" },
+				{ action: "capture", name: "Typed" },
+				{ action: "press", key: "enter" },
+				{ action: "capture", name: "Submitted" },
+				{ action: "resize", cols: RESIZED_COLS, rows: RESIZED_ROWS },
+				{ action: "capture", name: "Resized" },
+			],
+		});
+
+		expect(frames.map((frame) => path.basename(frame.filePath))).toEqual([
+			"input-typed.png",
+			"input-submitted.png",
+			"input-resized.png",
+		]);
+		expect(frames.map((frame) => frame.checkpoint)).toEqual([
+			"Typed",
+			"Submitted",
+			"Resized",
+		]);
+
+		const [typed, submitted] = await Promise.all(
+			frames.map((frame) => fs.readFile(frame.snapshots?.text ?? "", "utf-8"))
+		);
+		expect(typed).toContain("hi");
+		expect(submitted).not.toContain("hi");
+		expect(submitted).toContain("Type a message...");
+
+		// Frames after a resize are drawn at the terminal's new size
+		const resized = await fs.readFile(frames[2]?.filePath ?? "");
+		expect(readPngSize(resized)).toEqual({
+			width: RESIZED_COLS * CELL_WIDTH,
+			height: RESIZED_ROWS * CELL_HEIGHT,
+		});
+	});
+
+	test("leaves commands that need a real shell to other adapters", () => {
+		const adapter = new HeadlessTerminalAdapter();
+		expect(adapter.isSupported({ cmd: "echo hello", out: "unused.png" })).toBe(
+			false
+		);
+	});
+});
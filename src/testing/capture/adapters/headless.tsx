@@ -0,0 +1,380 @@
+/**
+ * Headless OpenTUI adapter for terminal screenshot capture
+ */
+
+import fs from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { PassThrough } from "node:stream";
+import {
+	type CliRenderer,
+	type OptimizedBuffer,
+	resolveRenderLib,
+} from "@opentui/core";
+import { render, useRenderer } from "@opentui/react";
+import { type ReactNode, useEffect, useState } from "react";
+import { logger } from "@/services/logger";
+import type { FrameMetadata, SnapshotPaths } from "../../types";
+import { captureFrames, type FrameTarget, wait } from "../frames";
+import { replayInteractions } from "../interactions";
+import {
+	type CellFrame,
+	cellsForSize,
+	encodePng,
+	rasterizeFrame,
+} from "../raster";
+import { interceptScenarios, type RenderScenario } from "../renderer";
+import { toFrameSnapshot, toTextSnapshot } from "../snapshot";
+import type { TerminalCaptureAdapter, TerminalCaptureOptions } from "./types";
+
+/**
+ * A component spec run the way runner.ts runs it:
+ * `SCENARIO_INDEX=2 bun path/to/name.spec.tsx`
+ */
+export type SpecCommand = {
+	specFile: string;
+	env: Record<string, string>;
+};
+
+const SPEC_COMMAND = /^((?:\w+=\S*\s+)*)bun\s+(?:run\s+)?(\S+\.spec\.tsx)$/;
+const ENV_ASSIGNMENT = /^(\w+)=(\S*)$/;
+const WHITESPACE = /\s+/;
+const RENDERER_TIMEOUT_MS = 10_000;
+// Cells a wide character spills into are flagged like this
+const CONTINUATION_FLAG = 0xc0_00_00_00;
+const decoder = new TextDecoder();
+const segmenter = new Intl.Segmenter();
+
+/**
+ * Recognise a spec command, or null for anything that needs a real shell
+ */
+export function parseSpecCommand(cmd: string): SpecCommand | null {
+	const match = SPEC_COMMAND.exec(cmd.trim());
+	if (!match) return null;
+
+	const [, assignments = "", specFile = ""] = match;
+	const env: Record<string, string> = {};
+	for (const assignment of assignments.split(WHITESPACE)) {
+		const [, name, value] = ENV_ASSIGNMENT.exec(assignment) ?? [];
+		if (name) env[name] = value ?? "";
+	}
+	return { specFile, env };
+}
+
+// Each capture imports the spec afresh so its top-level code runs again
+let importCount = 0;
+
+/**
+ * Import a spec file in-process with the command's environment, and take
+ * the scenario it hands to renderComponent() instead of letting it mount
+ */
+async function loadScenario({
+	specFile,
+	env,
+}: SpecCommand): Promise<RenderScenario> {
+	const saved = Object.fromEntries(
+		Object.keys(env).map((name) => [name, process.env[name]])
+	);
+	let scenario: RenderScenario | null = null;
+	const release = interceptScenarios((rendered) => {
+		scenario = rendered;
+	});
+
+	try {
+		Object.assign(process.env, env);
+		importCount++;
+		await import(`${resolve(specFile)}?capture=${importCount}`);
+	} finally {
+		release();
+		for (const [name, value] of Object.entries(saved)) {
+			if (value === undefined) delete process.env[name];
+			else process.env[name] = value;
+		}
+	}
+
+	if (!scenario) {
+		throw new Error(`${specFile} did not call renderComponent()`);
+	}
+	return scenario;
+}
+
+/**
+ * Streams standing in for the terminal: output is discarded, input only
+ * comes from scripted interactions, and the size is whatever the capture
+ * asks for
+ */
+const createOffscreenStreams = (cols: number, rows: number) => {
+	const stdout = Object.assign(new PassThrough(), {
+		columns: cols,
+		rows,
+		isTTY: true,
+	});
+	stdout.resume();
+	const stdin = Object.assign(new PassThrough(), {
+		isTTY: true,
+		setRawMode: () => stdin,
+	});
+	return { stdout, stdin };
+};
+
+type OffscreenStreams = ReturnType<typeof createOffscreenStreams>;
+
+/**
+ * The terminal a scenario runs in: what's on screen, and the keyboard and
+ * window size a user would change
+ */
+type OffscreenTerminal = {
+	readFrame: () => CellFrame;
+	write: (data: string) => void;
+	resize: (cols: number, rows: number) => void;
+};
+
+/**
+ * A mounted scenario: its renderer, and a way to unmount the tree - which
+ * render() doesn't offer, and without which timers and intervals in the
+ * scenario outlive the renderer and keep the process alive
+ * Resolves once React has committed the unmount, so renderables that touch
+ * the renderer as they go (a focused input hiding the cursor) go first
+ */
+type OffscreenMount = {
+	renderer: CliRenderer;
+	unmount: () => Promise<void>;
+};
+
+/**
+ * Hands the renderer React mounted into back to the adapter
+ */
+function RendererProbe({
+	onReady,
+	children,
+}: {
+	onReady: (mount: OffscreenMount) => void;
+	children: ReactNode;
+}) {
+	const renderer = useRenderer();
+	const [unmounted, setUnmounted] = useState<(() => void) | null>(null);
+	useEffect(() => {
+		onReady({
+			renderer,
+			unmount: () =>
+				new Promise((done) => {
+					setUnmounted(() => done);
+				}),
+		});
+	}, [renderer, onReady]);
+	// Effects run after the commit that removed the children
+	useEffect(() => unmounted?.(), [unmounted]);
+	return unmounted ? null : children;
+}
+
+/**
+ * Code point of every cell, 0 for cells a wide character spills into
+ * Anything beyond ASCII is stored as an id into OpenTUI's grapheme pool,
+ * so the text comes from the buffer's resolved characters instead
+ */
+const resolveChars = (buffer: OptimizedBuffer): Uint32Array => {
+	const { char } = buffer.buffers;
+	const text = decoder.decode(buffer.getRealCharBytes(true));
+	const lines = text.split("\n");
+	const resolved = new Uint32Array(char.length);
+
+	for (let row = 0; row < buffer.height; row++) {
+		const graphemes = segmenter.segment(lines[row] ?? "")[Symbol.iterator]();
+		for (let column = 0; column < buffer.width; column++) {
+			const index = row * buffer.width + column;
+			if ((char[index] ?? 0) >= CONTINUATION_FLAG) continue;
+			const grapheme = graphemes.next().value?.segment ?? " ";
+			resolved[index] = grapheme.codePointAt(0) ?? 0;
+		}
+	}
+	return resolved;
+};
+
+const copyFrame = (buffer: OptimizedBuffer): CellFrame => {
+	const { fg, bg, attributes } = buffer.buffers;
+	return {
+		width: buffer.width,
+		height: buffer.height,
+		char: resolveChars(buffer),
+		fg: fg.slice(),
+		bg: bg.slice(),
+		attributes: attributes.slice(),
+	};
+};
+
+/**
+ * Mount a node in a renderer created in OpenTUI's testing mode, whose
+ * native layer never writes to the process's real stdout - render() has
+ * no option for it, so the flag is forced while the renderer is created
+ */
+async function mountOffscreen(
+	node: ReactNode,
+	streams: OffscreenStreams
+): Promise<OffscreenMount> {
+	const {
+		promise,
+		resolve: onReady,
+		reject,
+	} = Promise.withResolvers<OffscreenMount>();
+	const timeout = setTimeout(() => {
+		reject(new Error("Renderer never mounted"));
+	}, RENDERER_TIMEOUT_MS);
+
+	const lib = resolveRenderLib();
+	const createRenderer = lib.createRenderer;
+	lib.createRenderer = (width, height) =>
+		createRenderer.call(lib, width, height, { testing: true });
+
+	try {
+		await render(<RendererProbe onReady={onReady}>{node}</RendererProbe>, {
+			stdout: streams.stdout as unknown as NodeJS.WriteStream,
+			stdin: streams.stdin as unknown as NodeJS.ReadStream,
+			exitOnCtrlC: false,
+			useAlternateScreen: false,
+			useConsole: false,
+			useMouse: false,
+		});
+		return await promise;
+	} finally {
+		lib.createRenderer = createRenderer;
+		clearTimeout(timeout);
+	}
+}
+
+/**
+ * Mount a scenario against an offscreen renderer, let it settle, then hand
+ * the terminal it runs in to `use` - the renderer keeps running, so
+ * animations and input change the screen between reads
+ */
+async function renderOffscreen<T>(
+	node: ReactNode,
+	{ cols, rows }: { cols: number; rows: number },
+	settleMs: number,
+	use: (terminal: OffscreenTerminal) => Promise<T>
+): Promise<T> {
+	// Renderers capture the global console and don't hand it back on
+	// destroy, which would swallow the runner's logs from here on
+	const { console: runnerConsole } = globalThis;
+
+	try {
+		const streams = createOffscreenStreams(cols, rows);
+		const { renderer, unmount } = await mountOffscreen(node, streams);
+		try {
+			await wait(settleMs);
+			return await use({
+				readFrame: () => copyFrame(renderer.currentRenderBuffer),
+				write: (data) => streams.stdin.write(data),
+				resize: (size, height) => {
+					// Renderers re-read the size on SIGWINCH, as after a real resize
+					Object.assign(streams.stdout, { columns: size, rows: height });
+					process.emit("SIGWINCH", "SIGWINCH");
+				},
+			});
+		} finally {
+			await unmount();
+			renderer.destroy();
+		}
+	} finally {
+		globalThis.console = runnerConsole;
+	}
+}
+
+/**
+ * Write whichever snapshots were asked for, returning their paths
+ */
+async function writeSnapshots(
+	frame: CellFrame,
+	{ text, cells }: SnapshotPaths
+): Promise<SnapshotPaths> {
+	const written: SnapshotPaths = {};
+	if (text) {
+		await fs.mkdir(dirname(text), { recursive: true });
+		await fs.writeFile(text, toTextSnapshot(frame));
+		written.text = text;
+	}
+	if (cells) {
+		await fs.mkdir(dirname(cells), { recursive: true });
+		await fs.writeFile(cells, JSON.stringify(toFrameSnapshot(frame)));
+		written.cells = cells;
+	}
+	return written;
+}
+
+/**
+ * Headless OpenTUI adapter
+ * Renders component spec scenarios in-process against an offscreen
+ * renderer and rasterizes the cell buffer with a bundled bitmap font -
+ * no browser, pseudo-terminal or Terminal.app required
+ */
+export class HeadlessTerminalAdapter implements TerminalCaptureAdapter {
+	isSupported({ cmd }: TerminalCaptureOptions): boolean {
+		// Spec files are TSX imported at runtime, which needs Bun; any other
+		// command needs a real shell, so is left to the next adapter
+		return Boolean(process.versions.bun) && parseSpecCommand(cmd) !== null;
+	}
+
+	getName(): string {
+		return "Headless OpenTUI";
+	}
+
+	async capture(options: TerminalCaptureOptions): Promise<FrameMetadata[]> {
+		const { cmd, width = 900, height = 600, settleMs = 500 } = options;
+
+		const spec = parseSpecCommand(cmd);
+		if (!spec) {
+			throw new Error(
+				`Headless capture only runs component specs ("bun <name>.spec.tsx"), got: ${cmd}`
+			);
+		}
+
+		logger.info(`Capturing headless: ${cmd}`);
+
+		try {
+			const scenario = await loadScenario(spec);
+
+			const size = cellsForSize(width, height);
+
+			// Copying cells is quick; rasterizing waits until every frame is
+			// taken so it doesn't hold up the ones after it
+			const cells = new Map<string, CellFrame>();
+			const frames = await renderOffscreen(
+				scenario.render(),
+				size,
+				settleMs,
+				(terminal) => {
+					const take = ({ out, snapshots }: FrameTarget) => {
+						cells.set(out, terminal.readFrame());
+						return Promise.resolve(snapshots);
+					};
+					return options.interactions?.length
+						? replayInteractions(
+								options.interactions,
+								{ ...terminal, capture: take },
+								options
+							)
+						: captureFrames(options, take);
+				}
+			);
+
+			for (const { filePath, snapshots = {} } of frames) {
+				const frame = cells.get(filePath);
+				if (!frame) continue;
+				// Frames taken after a resize are drawn at their own size
+				const resized = frame.width !== size.cols || frame.height !== size.rows;
+				const png = encodePng(
+					rasterizeFrame(frame, resized ? {} : { width, height })
+				);
+
+				await fs.mkdir(dirname(filePath), { recursive: true });
+				await fs.writeFile(filePath, png);
+				logger.info(`Screenshot saved: ${filePath}`);
+
+				await writeSnapshots(frame, snapshots);
+			}
+			return frames;
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			logger.error(`Failed to capture: ${message}`);
+			throw new Error(`Headless terminal capture failed: ${message}`);
+		}
+	}
+}
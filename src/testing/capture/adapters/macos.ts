@@ -5,6 +5,9 @@
 import { execFile } from "node:child_process";
 import { promisify } from "node:util";
 import { logger } from "@/services/logger";
+import type { FrameMetadata } from "../../types";
+import { captureFrames } from "../frames";
+import { rejectInteractions } from "../interactions";
 import type { TerminalCaptureAdapter, TerminalCaptureOptions } from "./types";
 
 const execFileP = promisify(execFile);
@@ -30,8 +33,9 @@ export class MacOSTerminalAdapter implements TerminalCaptureAdapter {
 		return "macOS Terminal.app";
 	}
 
-	async capture(options: TerminalCaptureOptions): Promise<void> {
-		const { cmd, out, width = 900, height = 600, settleMs = 2500 } = options;
+	async capture(options: TerminalCaptureOptions): Promise<FrameMetadata[]> {
+		const { cmd, width = 900, height = 600, settleMs = 2500 } = options;
+		rejectInteractions(options, this.getName());
 
 		const x = 40;
 		const y = 40;
@@ -87,14 +91,18 @@ export class MacOSTerminalAdapter implements TerminalCaptureAdapter {
 				throw new Error("Failed to get window bounds");
 			}
 
-			await execFileP("/usr/sbin/screencapture", [
-				"-x",
-				"-R",
-				`${x1},${y1},${x2 - x1},${y2 - y1}`,
-				out,
-			]);
+			return await captureFrames(options, async ({ out }) => {
+				await execFileP("/usr/sbin/screencapture", [
+					"-x",
+					"-R",
+					`${x1},${y1},${x2 - x1},${y2 - y1}`,
+					out,
+				]);
 
-			logger.info(`Saved ${out}`);
+				logger.info(`Saved ${out}`);
+				// Only pixels come back from screencapture
+				return {};
+			});
 		} finally {
 			// 3) Force close the window we opened (best-effort)
 			const osaClose = dedent(`
@@ -2,6 +2,12 @@
  * Terminal capture adapter interface
  */
 
+import type {
+	FrameMetadata,
+	InteractionStep,
+	SnapshotPaths,
+} from "../../types";
+
 export type TerminalCaptureOptions = {
 	/** The command to run in the terminal */
 	cmd: string;
@@ -13,6 +19,17 @@ export type TerminalCaptureOptions = {
 	height?: number;
 	/** Time to wait for rendering in milliseconds */
 	settleMs?: number;
+	/** Number of frames to capture (default 1); frame 0 is written to `out` */
+	frames?: number;
+	/** Time between frames in milliseconds */
+	frameIntervalMs?: number;
+	/** Where to write text and cell snapshots, if the adapter can */
+	snapshots?: SnapshotPaths;
+	/**
+	 * Steps to replay once settled; each "capture" step writes a checkpoint
+	 * next to `out` (see checkpointPath) and `frames` is ignored
+	 */
+	interactions?: InteractionStep[];
 };
 
 /**
@@ -22,13 +39,16 @@ export type TerminalCaptureOptions = {
 export type TerminalCaptureAdapter = {
 	/**
 	 * Captures a terminal screenshot by running a command
+	 * Resolves with every frame written, in order; frames only carry
+	 * snapshots from adapters that can read the terminal's cells back
 	 */
-	capture(options: TerminalCaptureOptions): Promise<void>;
+	capture(options: TerminalCaptureOptions): Promise<FrameMetadata[]>;
 
 	/**
-	 * Returns true if this adapter is supported on current platform
+	 * Returns true if this adapter can run this capture on the current
+	 * platform; most only check the platform, not the command
 	 */
-	isSupported(): boolean;
+	isSupported(options: TerminalCaptureOptions): boolean;
 
 	/**
 	 * Returns the adapter name for logging
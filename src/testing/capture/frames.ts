@@ -0,0 +1,151 @@
+/**
+ * Multi-frame capture
+ * Single Responsibility: Name, pace and animate the frames and checkpoints
+ * of a capture - adapters only know how to take one frame
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { FrameMetadata, SnapshotPaths } from "../types";
+import type { TerminalCaptureOptions } from "./adapters/types";
+import { assembleApng } from "./raster";
+
+/**
+ * Where one frame goes: its PNG and the snapshots to write with it
+ */
+export type FrameTarget = {
+	index: number;
+	out: string;
+	snapshots: SnapshotPaths;
+};
+
+const FRAME_INFIX = ".frame-";
+const WHITESPACE = /\s+/g;
+export const DEFAULT_FRAME_INTERVAL_MS = 250;
+
+export const wait = (ms: number) =>
+	new Promise<void>((done) => {
+		setTimeout(done, Math.max(0, ms));
+	});
+
+/**
+ * `file` with `suffix` added to its name, before the extensions - so
+ * `spinner.cells.json` becomes `spinner<suffix>.cells.json`
+ */
+const withSuffix = (file: string, suffix: string): string => {
+	const [name, ...extensions] = path.basename(file).split(".");
+	return path.join(
+		path.dirname(file),
+		[`${name}${suffix}`, ...extensions].join(".")
+	);
+};
+
+const mapSnapshots = (
+	snapshots: SnapshotPaths,
+	toPath: (file: string) => string
+): SnapshotPaths =>
+	Object.fromEntries(
+		Object.entries(snapshots).map(([kind, file]) => [kind, toPath(file)])
+	);
+
+/**
+ * Path of frame `index` of a capture written to `file`
+ * Frame 0 is the file itself; later frames get `.frame-N`, so
+ * `spinner.cells.json` becomes `spinner.frame-2.cells.json`
+ */
+export function framePath(file: string, index: number): string {
+	return index === 0 ? file : withSuffix(file, `${FRAME_INFIX}${index}`);
+}
+
+/**
+ * Path of a named checkpoint of a capture written to `file`, named the
+ * way the runner names scenarios: `input-typing.png` at checkpoint
+ * "After Enter" becomes `input-typing-after-enter.png`
+ */
+export function checkpointPath(file: string, checkpoint: string): string {
+	return withSuffix(
+		file,
+		`-${checkpoint.toLowerCase().replace(WHITESPACE, "-")}`
+	);
+}
+
+/**
+ * Where a checkpoint and its snapshots go
+ */
+export function checkpointTarget(
+	options: TerminalCaptureOptions,
+	checkpoint: string,
+	index: number
+): FrameTarget {
+	return {
+		index,
+		out: checkpointPath(options.out, checkpoint),
+		snapshots: mapSnapshots(options.snapshots ?? {}, (file) =>
+			checkpointPath(file, checkpoint)
+		),
+	};
+}
+
+/**
+ * Take `frames` frames, `frameIntervalMs` apart, starting now
+ * Frames are paced from the first one so slow writes don't add drift
+ */
+export async function captureFrames(
+	options: TerminalCaptureOptions,
+	takeFrame: (target: FrameTarget) => Promise<SnapshotPaths>
+): Promise<FrameMetadata[]> {
+	const {
+		out,
+		frames = 1,
+		frameIntervalMs = DEFAULT_FRAME_INTERVAL_MS,
+		snapshots = {},
+	} = options;
+
+	const captured: FrameMetadata[] = [];
+	const start = performance.now();
+	for (let index = 0; index < Math.max(1, frames); index++) {
+		await wait(start + index * frameIntervalMs - performance.now());
+		const offsetMs = Math.round(performance.now() - start);
+		const target: FrameTarget = {
+			index,
+			out: framePath(out, index),
+			snapshots: mapSnapshots(snapshots, (file) => framePath(file, index)),
+		};
+
+		const written = await takeFrame(target);
+		const frame: FrameMetadata = { filePath: target.out, offsetMs };
+		if (Object.keys(written).length > 0) frame.snapshots = written;
+		captured.push(frame);
+	}
+	return captured;
+}
+
+/**
+ * Combine captured frames into an animated PNG that plays them at the
+ * pace they were taken, looping
+ * Resolves with the file written, or null if the frames differ in size or
+ * format and can't share one image
+ */
+export async function writeAnimation(
+	frames: FrameMetadata[],
+	out: string
+): Promise<string | null> {
+	const pngs = await Promise.all(
+		frames.map((frame) => fs.readFile(frame.filePath))
+	);
+	const delaysMs = frames.map((frame, index) => {
+		const next = frames[index + 1] ?? frame;
+		const previous = frames[index - 1] ?? frame;
+		// The last frame holds as long as the one before it
+		return next === frame
+			? frame.offsetMs - previous.offsetMs
+			: next.offsetMs - frame.offsetMs;
+	});
+
+	const apng = assembleApng(pngs, delaysMs);
+	if (!apng) return null;
+
+	await fs.mkdir(path.dirname(out), { recursive: true });
+	await fs.writeFile(out, apng);
+	return out;
+}
@@ -2,9 +2,10 @@
  * Capture module - Screenshot capture functionality
  */
 
-export type { RenderScenario } from "./renderer";
-export { renderComponent } from "./renderer";
-export { runCapture } from "./runner";
+export type { RenderScenario, ScenarioHandler } from "./renderer";
+export { interceptScenarios, renderComponent } from "./renderer";
+export type { ScenarioPick, ScenarioSelector } from "./runner";
+export { CHECKPOINT_SEPARATOR, runCapture, runCaptureFresh } from "./runner";
 export type {
 	TerminalCaptureAdapter,
 	TerminalCaptureOptions,
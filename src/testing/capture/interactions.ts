@@ -0,0 +1,147 @@
+/**
+ * Scripted interactions
+ * Single Responsibility: Replay a scenario's interaction steps - adapters
+ * supply the terminal's input, resize and capture
+ */
+
+import { KeyCodes } from "@opentui/core/testing";
+import type { FrameMetadata, InteractionStep, SnapshotPaths } from "../types";
+import type { TerminalCaptureOptions } from "./adapters/types";
+import { checkpointTarget, type FrameTarget, wait } from "./frames";
+
+/**
+ * The running terminal, as far as a script needs it
+ */
+export type InteractionDriver = {
+	/** Send raw input, as a keyboard would */
+	write(data: string): void;
+	/** Resize the terminal, in cells */
+	resize(cols: number, rows: number): void;
+	/** Screenshot the terminal as it is now */
+	capture(target: FrameTarget): Promise<SnapshotPaths>;
+};
+
+type KeyName = keyof typeof KeyCodes;
+
+// Friendlier names for keys whose KeyCodes name is long-winded
+const KEY_ALIASES: Record<string, KeyName> = {
+	up: "ARROW_UP",
+	down: "ARROW_DOWN",
+	left: "ARROW_LEFT",
+	right: "ARROW_RIGHT",
+	esc: "ESCAPE",
+	return: "ENTER",
+};
+
+const KEY_SEPARATORS = /[+\s-]/g;
+
+// Time for input to be parsed and React to commit before the next step
+const INPUT_SETTLE_MS = 50;
+// Renderers debounce resizes by 100ms
+const RESIZE_SETTLE_MS = 150;
+
+/**
+ * Bytes a terminal sends for a key: a single character is itself,
+ * anything else a KeyCodes name ("ENTER", "ctrl+c") or alias ("up")
+ */
+export function resolveKey(key: string): string {
+	if ([...key].length === 1) return key;
+
+	const name =
+		KEY_ALIASES[key.toLowerCase()] ??
+		key.toUpperCase().replace(KEY_SEPARATORS, "_");
+	if (!(name in KeyCodes)) {
+		throw new Error(`Unknown key "${key}" in interaction`);
+	}
+	return KeyCodes[name as KeyName];
+}
+
+/**
+ * Fail fast in adapters that can't script a terminal, rather than take a
+ * screenshot that silently skips the interactions
+ */
+export function rejectInteractions(
+	options: TerminalCaptureOptions,
+	adapter: string
+): void {
+	if (options.interactions?.length) {
+		throw new Error(
+			`${adapter} can't replay scripted interactions - capture with the headless adapter`
+		);
+	}
+}
+
+/**
+ * Checkpoints a script captures, in order
+ */
+export function checkpointsOf(
+	steps: InteractionStep[]
+): Extract<InteractionStep, { action: "capture" }>[] {
+	return steps.filter(
+		(step): step is Extract<InteractionStep, { action: "capture" }> =>
+			step.action === "capture"
+	);
+}
+
+const performStep = async (
+	step: Exclude<InteractionStep, { action: "capture" }>,
+	driver: InteractionDriver
+): Promise<void> => {
+	switch (step.action) {
+		case "press":
+			driver.write(resolveKey(step.key));
+			await wait(INPUT_SETTLE_MS);
+			break;
+		case "type":
+			for (const char of step.text) driver.write(char);
+			await wait(INPUT_SETTLE_MS);
+			break;
+		case "wait":
+			await wait(step.ms);
+			break;
+		case "resize":
+			driver.resize(step.cols, step.rows);
+			await wait(RESIZE_SETTLE_MS);
+			break;
+		default:
+			throw new Error(
+				`Unknown interaction: ${JSON.stringify(step satisfies never)}`
+			);
+	}
+};
+
+/**
+ * Replay `steps`, screenshotting at each "capture" step
+ * A script without any capture step is captured once, at the end
+ */
+export async function replayInteractions(
+	steps: InteractionStep[],
+	driver: InteractionDriver,
+	options: TerminalCaptureOptions
+): Promise<FrameMetadata[]> {
+	const script: InteractionStep[] =
+		checkpointsOf(steps).length > 0
+			? steps
+			: [...steps, { action: "capture", name: "end" }];
+
+	const captured: FrameMetadata[] = [];
+	const start = performance.now();
+	for (const step of script) {
+		if (step.action !== "capture") {
+			await performStep(step, driver);
+			continue;
+		}
+
+		const target = checkpointTarget(options, step.name, captured.length);
+		const offsetMs = Math.round(performance.now() - start);
+		const written = await driver.capture(target);
+		const frame: FrameMetadata = {
+			filePath: target.out,
+			offsetMs,
+			checkpoint: step.name,
+		};
+		if (Object.keys(written).length > 0) frame.snapshots = written;
+		captured.push(frame);
+	}
+	return captured;
+}
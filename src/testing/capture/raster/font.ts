@@ -0,0 +1,434 @@
+/**
+ * Bundled monospace bitmap font for rasterizing terminal cells
+ * Single Responsibility: Turn a code point into a coverage mask the size
+ * of one terminal cell
+ *
+ * Printable ASCII comes from the public domain font8x8 set (8x8 glyphs,
+ * doubled vertically to fill an 8x16 cell). Box drawing, block elements
+ * and braille - what TUI borders, bars and spinners are made of - are
+ * drawn procedurally so they join up across cells. Anything else renders
+ * as a hollow box.
+ */
+
+export const CELL_WIDTH = 8;
+export const CELL_HEIGHT = 16;
+
+/** Coverage of one cell, row by row: 0 (background) to 255 (foreground) */
+export type GlyphMask = Uint8Array;
+
+const FULL = 255;
+const GLYPH_ROWS = 8;
+const ROW_SCALE = CELL_HEIGHT / GLYPH_ROWS;
+const HEX_BYTE = 2;
+const HEX_RADIX = 16;
+
+// Each glyph is 8 rows of one byte, least significant bit leftmost
+const ASCII_FIRST = 0x20;
+const ASCII_GLYPHS = [
+	"0000000000000000", // space
+	"183c3c1818001800", // !
+	"3636000000000000", // "
+	"36367f367f363600", // #
+	"0c3e031e301f0c00", // $
+	"006333180c666300", // %
+	"1c361c6e3b336e00", // &
+	"0606030000000000", // '
+	"180c0606060c1800", // (
+	"060c1818180c0600", // )
+	"00663cff3c660000", // *
+	"000c0c3f0c0c0000", // +
+	"00000000000c0c06", // ,
+	"0000003f00000000", // -
+	"00000000000c0c00", // .
+	"6030180c06030100", // /
+	"3e63737b6f673e00", // 0
+	"0c0e0c0c0c0c3f00", // 1
+	"1e33301c06333f00", // 2
+	"1e33301c30331e00", // 3
+	"383c36337f307800", // 4
+	"3f031f3030331e00", // 5
+	"1c06031f33331e00", // 6
+	"3f3330180c0c0c00", // 7
+	"1e33331e33331e00", // 8
+	"1e33333e30180e00", // 9
+	"000c0c00000c0c00", // :
+	"000c0c00000c0c06", // ;
+	"180c0603060c1800", // <
+	"00003f00003f0000", // =
+	"060c1830180c0600", // >
+	"1e3330180c000c00", // ?
+	"3e637b7b7b031e00", // @
+	"0c1e33333f333300", // A
+	"3f66663e66663f00", // B
+	"3c66030303663c00", // C
+	"1f36666666361f00", // D
+	"7f46161e16467f00", // E
+	"7f46161e16060f00", // F
+	"3c66030373667c00", // G
+	"3333333f33333300", // H
+	"1e0c0c0c0c0c1e00", // I
+	"7830303033331e00", // J
+	"6766361e36666700", // K
+	"0f06060646667f00", // L
+	"63777f7f6b636300", // M
+	"63676f7b73636300", // N
+	"1c36636363361c00", // O
+	"3f66663e06060f00", // P
+	"1e3333333b1e3800", // Q
+	"3f66663e36666700", // R
+	"1e33070e38331e00", // S
+	"3f2d0c0c0c0c1e00", // T
+	"3333333333333f00", // U
+	"33333333331e0c00", // V
+	"6363636b7f776300", // W
+	"6363361c1c366300", // X
+	"3333331e0c0c1e00", // Y
+	"7f6331184c667f00", // Z
+	"1e06060606061e00", // [
+	"03060c1830604000", // \
+	"1e18181818181e00", // ]
+	"081c366300000000", // ^
+	"00000000000000ff", // _
+	"0c0c180000000000", // `
+	"00001e303e336e00", // a
+	"0706063e66663b00", // b
+	"00001e3303331e00", // c
+	"3830303e33336e00", // d
+	"00001e333f031e00", // e
+	"1c36060f06060f00", // f
+	"00006e33333e301f", // g
+	"0706366e66666700", // h
+	"0c000e0c0c0c1e00", // i
+	"300030303033331e", // j
+	"070666361e366700", // k
+	"0e0c0c0c0c0c1e00", // l
+	"0000337f7f6b6300", // m
+	"00001f3333333300", // n
+	"00001e3333331e00", // o
+	"00003b66663e060f", // p
+	"00006e33333e3078", // q
+	"00003b6e66060f00", // r
+	"00003e031e301f00", // s
+	"080c3e0c0c2c1800", // t
+	"0000333333336e00", // u
+	"00003333331e0c00", // v
+	"0000636b7f7f3600", // w
+	"000063361c366300", // x
+	"00003333333e301f", // y
+	"00003f190c263f00", // z
+	"380c0c070c0c3800", // {
+	"1818181818181800", // |
+	"070c0c380c0c0700", // }
+	"6e3b000000000000", // ~
+];
+
+// Symbols the components use that aren't covered procedurally
+const SYMBOL_GLYPHS: Record<string, string> = {
+	"·": "0000001818000000",
+	"•": "0000183c3c180000",
+	"◦": "0000182424180000",
+	"○": "003c424242423c00",
+	"●": "003c7e7e7e7e3c00",
+	"…": "0000000000004900",
+	"⎿": "06060606060606fe",
+	"☐": "007e424242427e00",
+	"☑": "007e426256427e00",
+	"✓": "004060301b0e0400",
+	"✗": "0063361c1c366300",
+	"✔": "004060301b0e0400",
+	"✘": "0063361c1c366300",
+	"▶": "020e3e7e3e0e0200",
+	"❯": "060c1830180c0600",
+	"›": "00060c180c060000",
+	"←": "0004067f06040000",
+	"→": "0010307f30100000",
+	"↑": "081c3e0808080800",
+	"↓": "080808083e1c0800",
+};
+
+const TOFU = "7e42424242427e00";
+
+/**
+ * Whether bit `bit` of `value` is set, without bitwise operators
+ */
+export const hasBit = (value: number, bit: number): boolean =>
+	Math.floor(value / 2 ** bit) % 2 === 1;
+
+const createMask = (): GlyphMask => new Uint8Array(CELL_WIDTH * CELL_HEIGHT);
+
+const fillRect = (
+	mask: GlyphMask,
+	x: number,
+	y: number,
+	width: number,
+	height: number,
+	coverage = FULL
+): void => {
+	const right = Math.min(CELL_WIDTH, x + width);
+	const bottom = Math.min(CELL_HEIGHT, y + height);
+	for (let row = Math.max(0, y); row < bottom; row++) {
+		mask.fill(
+			coverage,
+			row * CELL_WIDTH + Math.max(0, x),
+			row * CELL_WIDTH + right
+		);
+	}
+};
+
+const bitmapMask = (hex: string): GlyphMask => {
+	const mask = createMask();
+	for (let row = 0; row < GLYPH_ROWS; row++) {
+		const bits = Number.parseInt(
+			hex.slice(row * HEX_BYTE, (row + 1) * HEX_BYTE),
+			HEX_RADIX
+		);
+		for (let x = 0; x < CELL_WIDTH; x++) {
+			if (hasBit(bits, x)) fillRect(mask, x, row * ROW_SCALE, 1, ROW_SCALE);
+		}
+	}
+	return mask;
+};
+
+// --- Box drawing (U+2500-U+257F) ---
+
+// Line weight of each arm, in the order up, right, down, left:
+// 0 none, 1 light, 2 heavy, 3 double
+const BOX_ARMS: Record<string, string> = {
+	"─": "0101",
+	"━": "0202",
+	"│": "1010",
+	"┃": "2020",
+	"┄": "0101",
+	"┅": "0202",
+	"┆": "1010",
+	"┇": "2020",
+	"┈": "0101",
+	"┉": "0202",
+	"┊": "1010",
+	"┋": "2020",
+	"┌": "0110",
+	"┏": "0220",
+	"┐": "0011",
+	"┓": "0022",
+	"└": "1100",
+	"┗": "2200",
+	"┘": "1001",
+	"┛": "2002",
+	"├": "1110",
+	"┣": "2220",
+	"┤": "1011",
+	"┫": "2022",
+	"┬": "0111",
+	"┳": "0222",
+	"┴": "1101",
+	"┻": "2202",
+	"┼": "1111",
+	"╋": "2222",
+	"═": "0303",
+	"║": "3030",
+	"╔": "0330",
+	"╗": "0033",
+	"╚": "3300",
+	"╝": "3003",
+	"╠": "3330",
+	"╣": "3033",
+	"╦": "0333",
+	"╩": "3303",
+	"╬": "3333",
+	"╌": "0101",
+	"╍": "0202",
+	"╎": "1010",
+	"╏": "2020",
+	"╭": "0110",
+	"╮": "0011",
+	"╯": "1001",
+	"╰": "1100",
+	"╴": "0001",
+	"╵": "1000",
+	"╶": "0100",
+	"╷": "0010",
+	"╸": "0002",
+	"╹": "2000",
+	"╺": "0200",
+	"╻": "0020",
+};
+
+const LIGHT = 1;
+const HEAVY = 2;
+const DOUBLE = 3;
+const CENTER_X = 3;
+const CENTER_Y = 7;
+// Offsets of the strokes drawn for each weight, relative to the center line
+const STROKES: Record<number, number[]> = {
+	[LIGHT]: [0],
+	[HEAVY]: [0, 1],
+	[DOUBLE]: [-1, 2],
+};
+
+const drawVerticalArm = (
+	mask: GlyphMask,
+	weight: number,
+	top: number,
+	bottom: number
+): void => {
+	for (const offset of STROKES[weight] ?? []) {
+		fillRect(mask, CENTER_X + offset, top, 1, bottom - top);
+	}
+};
+
+const drawHorizontalArm = (
+	mask: GlyphMask,
+	weight: number,
+	left: number,
+	right: number
+): void => {
+	for (const offset of STROKES[weight] ?? []) {
+		fillRect(mask, left, CENTER_Y + offset, right - left, 1);
+	}
+};
+
+// Furthest stroke offsets of the lines crossing an arm, so arms run
+// exactly up to the far side of the line they meet
+const crossing = (weights: number[]): { start: number; end: number } => {
+	const offsets = weights.flatMap((weight) => STROKES[weight] ?? []);
+	return { start: Math.min(0, ...offsets), end: Math.max(0, ...offsets) + 1 };
+};
+
+const boxMask = (arms: string): GlyphMask => {
+	const [up = 0, right = 0, down = 0, left = 0] = [...arms].map(Number);
+	const mask = createMask();
+	const horizontal = crossing([left, right]);
+	const vertical = crossing([up, down]);
+
+	drawVerticalArm(mask, up, 0, CENTER_Y + horizontal.end);
+	drawVerticalArm(mask, down, CENTER_Y + horizontal.start, CELL_HEIGHT);
+	drawHorizontalArm(mask, left, 0, CENTER_X + vertical.end);
+	drawHorizontalArm(mask, right, CENTER_X + vertical.start, CELL_WIDTH);
+	return mask;
+};
+
+// --- Block elements (U+2580-U+259F) ---
+
+const BLOCK_FIRST = 0x25_80;
+const BLOCK_LAST = 0x25_9f;
+const EIGHTHS = 8;
+const LOWER_EIGHTHS_LAST = 0x25_88;
+const LEFT_EIGHTHS_LAST = 0x25_8f;
+const RIGHT_HALF = 0x25_90;
+const SHADE_FIRST = 0x25_91;
+const SHADE_LAST = 0x25_93;
+const SHADE_STEPS = 4;
+const UPPER_EIGHTH = 0x25_94;
+const RIGHT_EIGHTH = 0x25_95;
+const QUADRANT_FIRST = 0x25_96;
+const HALF_WIDTH = CELL_WIDTH / 2;
+const HALF_HEIGHT = CELL_HEIGHT / 2;
+// Quadrants filled by U+2596-U+259F, one hex digit each: 1 upper left,
+// 2 upper right, 4 lower left, 8 lower right
+const QUADRANT_BITS = "481d97b26e";
+const QUADRANT_ORIGINS = [
+	[0, 0],
+	[HALF_WIDTH, 0],
+	[0, HALF_HEIGHT],
+	[HALF_WIDTH, HALF_HEIGHT],
+];
+
+const eighths = (size: number, count: number): number =>
+	Math.round((size * count) / EIGHTHS);
+
+const quadrantMask = (bits: number): GlyphMask => {
+	const mask = createMask();
+	for (const [index, origin] of QUADRANT_ORIGINS.entries()) {
+		const [x = 0, y = 0] = origin;
+		if (hasBit(bits, index)) fillRect(mask, x, y, HALF_WIDTH, HALF_HEIGHT);
+	}
+	return mask;
+};
+
+const blockMask = (codePoint: number): GlyphMask => {
+	const mask = createMask();
+
+	if (codePoint === BLOCK_FIRST) {
+		fillRect(mask, 0, 0, CELL_WIDTH, HALF_HEIGHT);
+	} else if (codePoint <= LOWER_EIGHTHS_LAST) {
+		const height = eighths(CELL_HEIGHT, codePoint - BLOCK_FIRST);
+		fillRect(mask, 0, CELL_HEIGHT - height, CELL_WIDTH, height);
+	} else if (codePoint <= LEFT_EIGHTHS_LAST) {
+		const width = eighths(CELL_WIDTH, LEFT_EIGHTHS_LAST + 1 - codePoint);
+		fillRect(mask, 0, 0, width, CELL_HEIGHT);
+	} else if (codePoint === RIGHT_HALF) {
+		fillRect(mask, HALF_WIDTH, 0, HALF_WIDTH, CELL_HEIGHT);
+	} else if (codePoint <= SHADE_LAST) {
+		const coverage = ((codePoint - SHADE_FIRST + 1) * FULL) / SHADE_STEPS;
+		fillRect(mask, 0, 0, CELL_WIDTH, CELL_HEIGHT, Math.round(coverage));
+	} else if (codePoint === UPPER_EIGHTH) {
+		fillRect(mask, 0, 0, CELL_WIDTH, eighths(CELL_HEIGHT, 1));
+	} else if (codePoint === RIGHT_EIGHTH) {
+		const width = eighths(CELL_WIDTH, 1);
+		fillRect(mask, CELL_WIDTH - width, 0, width, CELL_HEIGHT);
+	} else {
+		const bits = QUADRANT_BITS[codePoint - QUADRANT_FIRST] ?? "0";
+		return quadrantMask(Number.parseInt(bits, HEX_RADIX));
+	}
+
+	return mask;
+};
+
+// --- Braille patterns (U+2800-U+28FF) ---
+
+const BRAILLE_FIRST = 0x28_00;
+const BRAILLE_LAST = 0x28_ff;
+const DOT_SIZE = 2;
+const DOT_ROWS = 4;
+const DOT_ROW_PITCH = CELL_HEIGHT / DOT_ROWS;
+// Dots sit one pixel in from the top left of their slot in the 2x4 grid
+const DOT_INSET = 1;
+// Column and row of each dot, in bit order (dots 1-8)
+const BRAILLE_DOTS = ["00", "01", "02", "10", "11", "12", "03", "13"];
+
+const brailleMask = (codePoint: number): GlyphMask => {
+	const mask = createMask();
+	const bits = codePoint - BRAILLE_FIRST;
+	for (const [bit, [column = "0", row = "0"]] of BRAILLE_DOTS.entries()) {
+		if (!hasBit(bits, bit)) continue;
+		const x = DOT_INSET + Number(column) * HALF_WIDTH;
+		const y = DOT_INSET + Number(row) * DOT_ROW_PITCH;
+		fillRect(mask, x, y, DOT_SIZE, DOT_SIZE);
+	}
+	return mask;
+};
+
+const buildMask = (codePoint: number): GlyphMask => {
+	const char = String.fromCodePoint(codePoint);
+	const ascii = ASCII_GLYPHS[codePoint - ASCII_FIRST];
+	const symbol = SYMBOL_GLYPHS[char];
+	const arms = BOX_ARMS[char];
+
+	if (ascii) return bitmapMask(ascii);
+	if (symbol) return bitmapMask(symbol);
+	if (arms) return boxMask(arms);
+	if (codePoint >= BLOCK_FIRST && codePoint <= BLOCK_LAST) {
+		return blockMask(codePoint);
+	}
+	if (codePoint >= BRAILLE_FIRST && codePoint <= BRAILLE_LAST) {
+		return brailleMask(codePoint);
+	}
+	return bitmapMask(TOFU);
+};
+
+const NBSP = 0xa0;
+const glyphCache = new Map<number, GlyphMask | null>();
+
+/**
+ * Coverage mask for a code point, or null when nothing is drawn
+ * (spaces and control characters)
+ */
+export function getGlyph(codePoint: number): GlyphMask | null {
+	const cached = glyphCache.get(codePoint);
+	if (cached !== undefined) return cached;
+
+	const blank = codePoint <= ASCII_FIRST || codePoint === NBSP;
+	const mask = blank ? null : buildMask(codePoint);
+	glyphCache.set(codePoint, mask);
+	return mask;
+}
@@ -0,0 +1,9 @@
+/**
+ * Raster module - Turn terminal cell buffers into PNG screenshots
+ */
+
+export { CELL_HEIGHT, CELL_WIDTH, getGlyph } from "./font";
+export type { RgbImage } from "./png";
+export { assembleApng, decodePng, encodePng, readPngSize } from "./png";
+export type { CellFrame, RasterizeOptions, Rgb } from "./rasterize";
+export { ATTRIBUTE_BITS, cellsForSize, rasterizeFrame } from "./rasterize";
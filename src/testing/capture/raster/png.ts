@@ -0,0 +1,318 @@
+import { crc32, deflateSync, inflateSync } from "node:zlib";
+
+/**
+ * 8-bit RGB pixels, row by row
+ */
+export type RgbImage = {
+	width: number;
+	height: number;
+	pixels: Uint8Array;
+};
+
+const SIGNATURE = Buffer.from("\x89PNG\r\n\x1a\n", "latin1");
+const BYTES_PER_PIXEL = 3;
+const BIT_DEPTH = 8;
+const COLOR_TYPE_RGB = 2;
+const IHDR_LENGTH = 13;
+const UINT32_BYTES = 4;
+const IHDR_OFFSETS = {
+	width: 0,
+	height: 4,
+	depth: 8,
+	colorType: 9,
+	interlace: 12,
+};
+// Channels per pixel of the 8-bit color types decodePng reads
+const COLOR_TYPE_CHANNELS: Record<number, number> = {
+	0: 1, // grayscale
+	2: 3, // RGB
+	4: 2, // grayscale + alpha
+	6: 4, // RGBA
+};
+const FILTERS = { sub: 1, up: 2, average: 3, paeth: 4 };
+const BYTE_VALUES = 256;
+const CHUNK_TYPE_BYTES = 4;
+// Chunk length, type and CRC around each chunk's data
+const CHUNK_OVERHEAD = UINT32_BYTES * 2 + CHUNK_TYPE_BYTES;
+const FCTL_LENGTH = 26;
+const FCTL_OFFSETS = {
+	sequence: 0,
+	width: 4,
+	height: 8,
+	delayNumerator: 20,
+	delayDenominator: 22,
+};
+const MS_PER_SECOND = 1000;
+const MAX_DELAY_MS = 65_535;
+
+type Chunk = { type: string; data: Buffer };
+
+const chunk = (type: string, data: Buffer): Buffer => {
+	const length = Buffer.alloc(UINT32_BYTES);
+	length.writeUInt32BE(data.length);
+	const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+	const crc = Buffer.alloc(UINT32_BYTES);
+	crc.writeUInt32BE(crc32(body));
+	return Buffer.concat([length, body, crc]);
+};
+
+/**
+ * Split a PNG into its chunks
+ */
+const readChunks = (png: Uint8Array): Chunk[] => {
+	const buffer = Buffer.from(png);
+	const chunks: Chunk[] = [];
+	let offset = SIGNATURE.length;
+	while (offset + CHUNK_OVERHEAD <= buffer.length) {
+		const length = buffer.readUInt32BE(offset);
+		const typeStart = offset + UINT32_BYTES;
+		const dataStart = typeStart + CHUNK_TYPE_BYTES;
+		chunks.push({
+			type: buffer.toString("ascii", typeStart, dataStart),
+			data: buffer.subarray(dataStart, dataStart + length),
+		});
+		offset += length + CHUNK_OVERHEAD;
+	}
+	return chunks;
+};
+
+/**
+ * Encode an RGB image as PNG
+ * Single Responsibility: PNG container and compression only - no filtering,
+ * no palette, no alpha, which is all a terminal screenshot needs
+ */
+export function encodePng({ width, height, pixels }: RgbImage): Buffer {
+	const header = Buffer.alloc(IHDR_LENGTH);
+	header.writeUInt32BE(width, IHDR_OFFSETS.width);
+	header.writeUInt32BE(height, IHDR_OFFSETS.height);
+	header.writeUInt8(BIT_DEPTH, IHDR_OFFSETS.depth);
+	header.writeUInt8(COLOR_TYPE_RGB, IHDR_OFFSETS.colorType);
+	// Compression, filter and interlace methods are all 0
+
+	// Every scanline starts with its filter type (0 = none)
+	const stride = width * BYTES_PER_PIXEL;
+	const scanlines = Buffer.alloc((stride + 1) * height);
+	for (let y = 0; y < height; y++) {
+		scanlines.set(
+			pixels.subarray(y * stride, (y + 1) * stride),
+			y * (stride + 1) + 1
+		);
+	}
+
+	return Buffer.concat([
+		SIGNATURE,
+		chunk("IHDR", header),
+		chunk("IDAT", deflateSync(scanlines)),
+		chunk("IEND", Buffer.alloc(0)),
+	]);
+}
+
+const paeth = (left: number, up: number, upLeft: number): number => {
+	const estimate = left + up - upLeft;
+	const toLeft = Math.abs(estimate - left);
+	const toUp = Math.abs(estimate - up);
+	const toUpLeft = Math.abs(estimate - upLeft);
+	if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+	return toUp <= toUpLeft ? up : upLeft;
+};
+
+const predict = (
+	filter: number,
+	left: number,
+	up: number,
+	upLeft: number
+): number => {
+	switch (filter) {
+		case FILTERS.sub:
+			return left;
+		case FILTERS.up:
+			return up;
+		case FILTERS.average:
+			return Math.floor((left + up) / 2);
+		case FILTERS.paeth:
+			return paeth(left, up, upLeft);
+		default:
+			return 0;
+	}
+};
+
+/**
+ * Undo the filter each scanline was written with, or null for a filter
+ * that doesn't exist
+ * Bytes before the first row or left of the first pixel read as 0
+ */
+const unfilter = (
+	data: Uint8Array,
+	stride: number,
+	height: number,
+	channels: number
+): Uint8Array | null => {
+	const raw = new Uint8Array(stride * height);
+	const at = (index: number, inRange: boolean) =>
+		inRange ? (raw[index] ?? 0) : 0;
+
+	for (let y = 0; y < height; y++) {
+		const filter = data[y * (stride + 1)] ?? 0;
+		if (filter > FILTERS.paeth) return null;
+
+		const source = y * (stride + 1) + 1;
+		const row = y * stride;
+		for (let x = 0; x < stride; x++) {
+			const prediction = predict(
+				filter,
+				at(row + x - channels, x >= channels),
+				at(row - stride + x, y > 0),
+				at(row - stride + x - channels, y > 0 && x >= channels)
+			);
+			raw[row + x] = ((data[source + x] ?? 0) + prediction) % BYTE_VALUES;
+		}
+	}
+	return raw;
+};
+
+/**
+ * Decode a PNG back to RGB pixels
+ * Single Responsibility: Read what capture adapters write - 8-bit
+ * grayscale or RGB, with or without alpha, not interlaced - dropping
+ * alpha, since screenshots are opaque; null for anything else
+ */
+export function decodePng(png: Uint8Array): RgbImage | null {
+	if (!Buffer.from(png).subarray(0, SIGNATURE.length).equals(SIGNATURE)) {
+		return null;
+	}
+	const chunks = readChunks(png);
+	const header = chunks.find(({ type }) => type === "IHDR")?.data;
+	if (!header) return null;
+
+	const width = header.readUInt32BE(IHDR_OFFSETS.width);
+	const height = header.readUInt32BE(IHDR_OFFSETS.height);
+	const channels = COLOR_TYPE_CHANNELS[header[IHDR_OFFSETS.colorType] ?? -1];
+	if (
+		!channels ||
+		header[IHDR_OFFSETS.depth] !== BIT_DEPTH ||
+		header[IHDR_OFFSETS.interlace] !== 0
+	) {
+		return null;
+	}
+
+	const compressed = Buffer.concat(
+		chunks.filter(({ type }) => type === "IDAT").map(({ data }) => data)
+	);
+	const raw = unfilter(
+		inflateSync(compressed),
+		width * channels,
+		height,
+		channels
+	);
+	if (!raw) return null;
+
+	// Gray channels spread over R, G and B; alpha is left behind
+	const color = channels < BYTES_PER_PIXEL ? 1 : BYTES_PER_PIXEL;
+	const pixels = new Uint8Array(width * height * BYTES_PER_PIXEL);
+	for (let pixel = 0; pixel < width * height; pixel++) {
+		for (let channel = 0; channel < BYTES_PER_PIXEL; channel++) {
+			pixels[pixel * BYTES_PER_PIXEL + channel] =
+				raw[pixel * channels + (color === 1 ? 0 : channel)] ?? 0;
+		}
+	}
+	return { width, height, pixels };
+}
+
+/**
+ * Width and height from a PNG's header, or null if it isn't a PNG
+ */
+export function readPngSize(
+	png: Uint8Array
+): { width: number; height: number } | null {
+	const buffer = Buffer.from(png);
+	if (!buffer.subarray(0, SIGNATURE.length).equals(SIGNATURE)) return null;
+
+	// Signature, then the IHDR chunk's length and type
+	const headerStart = SIGNATURE.length + UINT32_BYTES * 2;
+	return {
+		width: buffer.readUInt32BE(headerStart + IHDR_OFFSETS.width),
+		height: buffer.readUInt32BE(headerStart + IHDR_OFFSETS.height),
+	};
+}
+
+const uint32 = (value: number): Buffer => {
+	const buffer = Buffer.alloc(UINT32_BYTES);
+	buffer.writeUInt32BE(value);
+	return buffer;
+};
+
+const frameControl = (
+	sequence: number,
+	header: Buffer,
+	delayMs: number
+): Buffer => {
+	const control = Buffer.alloc(FCTL_LENGTH);
+	control.writeUInt32BE(sequence, FCTL_OFFSETS.sequence);
+	header.copy(
+		control,
+		FCTL_OFFSETS.width,
+		IHDR_OFFSETS.width,
+		IHDR_OFFSETS.height + UINT32_BYTES
+	);
+	// Offsets, dispose and blend ops stay 0: every frame replaces the last
+	control.writeUInt16BE(
+		Math.min(MAX_DELAY_MS, Math.max(0, Math.round(delayMs))),
+		FCTL_OFFSETS.delayNumerator
+	);
+	control.writeUInt16BE(MS_PER_SECOND, FCTL_OFFSETS.delayDenominator);
+	return control;
+};
+
+/**
+ * Combine PNGs into one looping animated PNG, showing frame i for
+ * delaysMs[i]
+ * Single Responsibility: Re-wrap each frame's compressed data in APNG
+ * chunks - nothing is decoded, so any PNGs work as long as they share a
+ * header; returns null when they don't
+ */
+export function assembleApng(
+	pngs: Uint8Array[],
+	delaysMs: number[]
+): Buffer | null {
+	const frames = pngs.map(readChunks);
+	const first = frames[0];
+	const header = first?.find(({ type }) => type === "IHDR")?.data;
+	if (!(first && header)) return null;
+	const sameHeader = frames.every((chunks) =>
+		chunks.find(({ type }) => type === "IHDR")?.data.equals(header)
+	);
+	if (!sameHeader) return null;
+
+	// Palette, color space and the like come from the first frame
+	const firstData = first.findIndex(({ type }) => type === "IDAT");
+	const ancillary = first
+		.slice(0, firstData)
+		.filter(({ type }) => type !== "IHDR")
+		.map(({ type, data }) => chunk(type, data));
+
+	let sequence = 0;
+	const animation = frames.flatMap((chunks, index) => {
+		const control = chunk(
+			"fcTL",
+			frameControl(sequence++, header, delaysMs[index] ?? 0)
+		);
+		const data = chunks
+			.filter(({ type }) => type === "IDAT")
+			.map(({ data: frameData }) =>
+				index === 0
+					? chunk("IDAT", frameData)
+					: chunk("fdAT", Buffer.concat([uint32(sequence++), frameData]))
+			);
+		return [control, ...data];
+	});
+
+	return Buffer.concat([
+		SIGNATURE,
+		chunk("IHDR", header),
+		// Frame count, then 0 plays = loop forever
+		chunk("acTL", Buffer.concat([uint32(frames.length), uint32(0)])),
+		...ancillary,
+		...animation,
+		chunk("IEND", Buffer.alloc(0)),
+	]);
+}
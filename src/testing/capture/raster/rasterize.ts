@@ -0,0 +1,202 @@
+import {
+	CELL_HEIGHT,
+	CELL_WIDTH,
+	type GlyphMask,
+	getGlyph,
+	hasBit,
+} from "./font";
+import type { RgbImage } from "./png";
+
+/**
+ * A terminal frame laid out like OpenTUI's cell buffer: one code point
+ * (0 for cells a wide character spills into), foreground, background
+ * (RGBA floats 0-1) and attribute flags per cell
+ */
+export type CellFrame = {
+	width: number;
+	height: number;
+	char: Uint32Array;
+	fg: Float32Array;
+	bg: Float32Array;
+	attributes: Uint8Array;
+};
+
+/** RGB color, 0-255 per channel */
+export type Rgb = [number, number, number];
+
+export type RasterizeOptions = {
+	/** Image width in pixels (defaults to exactly fit the cells) */
+	width?: number;
+	/** Image height in pixels (defaults to exactly fit the cells) */
+	height?: number;
+	/** Color behind transparent cells and around the grid */
+	background?: Rgb;
+};
+
+// What OpenTUI paints cells nothing else draws on
+const DEFAULT_BACKGROUND: Rgb = [0, 0, 0];
+
+const CHANNELS = 4;
+const RGB_CHANNELS = 3;
+const MAX_CHANNEL = 255;
+const ALPHA = 3;
+const DIM_FACTOR = 0.5;
+
+/** Bit of each OpenTUI TextAttributes flag */
+export const ATTRIBUTE_BITS = {
+	bold: 0,
+	dim: 1,
+	italic: 2,
+	underline: 3,
+	inverse: 5,
+	hidden: 6,
+	strikethrough: 7,
+};
+
+const UNDERLINE_ROW = CELL_HEIGHT - 2;
+const STRIKETHROUGH_ROW = CELL_HEIGHT / 2;
+// Italic glyphs lean right by shifting the top half one pixel
+const ITALIC_ROWS = CELL_HEIGHT / 2;
+
+type CellStyle = {
+	fg: Rgb;
+	bg: Rgb;
+	attributes: number;
+};
+
+const blend = (from: Rgb, to: Rgb, amount: number): Rgb => [
+	Math.round(from[0] + (to[0] - from[0]) * amount),
+	Math.round(from[1] + (to[1] - from[1]) * amount),
+	Math.round(from[2] + (to[2] - from[2]) * amount),
+];
+
+/**
+ * RGBA floats of cell `index`, composited over `base`
+ */
+const readColor = (colors: Float32Array, index: number, base: Rgb): Rgb => {
+	const offset = index * CHANNELS;
+	const color: Rgb = [
+		(colors[offset] ?? 0) * MAX_CHANNEL,
+		(colors[offset + 1] ?? 0) * MAX_CHANNEL,
+		(colors[offset + 2] ?? 0) * MAX_CHANNEL,
+	];
+	return blend(base, color, colors[offset + ALPHA] ?? 1);
+};
+
+const readStyle = (
+	frame: CellFrame,
+	index: number,
+	background: Rgb
+): CellStyle => {
+	const attributes = frame.attributes[index] ?? 0;
+	const bg = readColor(frame.bg, index, background);
+	let fg = readColor(frame.fg, index, bg);
+
+	if (hasBit(attributes, ATTRIBUTE_BITS.dim)) fg = blend(bg, fg, DIM_FACTOR);
+	if (hasBit(attributes, ATTRIBUTE_BITS.inverse))
+		return { fg: bg, bg: fg, attributes };
+	return { fg, bg, attributes };
+};
+
+const readGlyph = (char: number, attributes: number): GlyphMask | null => {
+	if (hasBit(attributes, ATTRIBUTE_BITS.hidden)) return null;
+	return getGlyph(char);
+};
+
+/**
+ * Coverage of one pixel of a cell once attributes are applied
+ */
+const coverageAt = (
+	glyph: GlyphMask | null,
+	attributes: number,
+	x: number,
+	y: number
+): number => {
+	if (hasBit(attributes, ATTRIBUTE_BITS.underline) && y === UNDERLINE_ROW) {
+		return MAX_CHANNEL;
+	}
+	if (
+		hasBit(attributes, ATTRIBUTE_BITS.strikethrough) &&
+		y === STRIKETHROUGH_ROW
+	) {
+		return MAX_CHANNEL;
+	}
+	if (!glyph) return 0;
+
+	const italic = hasBit(attributes, ATTRIBUTE_BITS.italic) && y < ITALIC_ROWS;
+	const sourceX = italic ? x - 1 : x;
+	const at = (column: number) =>
+		column >= 0 ? (glyph[y * CELL_WIDTH + column] ?? 0) : 0;
+
+	// Bold smears each glyph one pixel to the right
+	return hasBit(attributes, ATTRIBUTE_BITS.bold)
+		? Math.max(at(sourceX), at(sourceX - 1))
+		: at(sourceX);
+};
+
+const paintCell = (
+	image: RgbImage,
+	frame: CellFrame,
+	column: number,
+	row: number,
+	background: Rgb
+): void => {
+	const index = row * frame.width + column;
+	const { fg, bg, attributes } = readStyle(frame, index, background);
+	const glyph = readGlyph(frame.char[index] ?? 0, attributes);
+	const left = column * CELL_WIDTH;
+	const top = row * CELL_HEIGHT;
+
+	for (let y = 0; y < CELL_HEIGHT && top + y < image.height; y++) {
+		for (let x = 0; x < CELL_WIDTH && left + x < image.width; x++) {
+			const coverage = coverageAt(glyph, attributes, x, y) / MAX_CHANNEL;
+			const offset = ((top + y) * image.width + left + x) * RGB_CHANNELS;
+			image.pixels.set(blend(bg, fg, coverage), offset);
+		}
+	}
+};
+
+/**
+ * Rasterize a cell frame with the bundled bitmap font
+ * Single Responsibility: Cells in, pixels out - each cell becomes an
+ * 8x16 block, anything outside the grid is filled with the background
+ */
+export function rasterizeFrame(
+	frame: CellFrame,
+	options: RasterizeOptions = {}
+): RgbImage {
+	const {
+		width = frame.width * CELL_WIDTH,
+		height = frame.height * CELL_HEIGHT,
+		background = DEFAULT_BACKGROUND,
+	} = options;
+
+	const image: RgbImage = {
+		width,
+		height,
+		pixels: new Uint8Array(width * height * RGB_CHANNELS),
+	};
+	for (let offset = 0; offset < image.pixels.length; offset += RGB_CHANNELS) {
+		image.pixels.set(background, offset);
+	}
+
+	for (let row = 0; row < frame.height; row++) {
+		for (let column = 0; column < frame.width; column++) {
+			paintCell(image, frame, column, row, background);
+		}
+	}
+	return image;
+}
+
+/**
+ * How many cells fit in an image of the given size
+ */
+export function cellsForSize(
+	width: number,
+	height: number
+): { cols: number; rows: number } {
+	return {
+		cols: Math.max(1, Math.floor(width / CELL_WIDTH)),
+		rows: Math.max(1, Math.floor(height / CELL_HEIGHT)),
+	};
+}
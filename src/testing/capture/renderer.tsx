@@ -8,19 +8,40 @@ export type RenderScenario = {
 	render: () => ReactNode;
 };
 
+/**
+ * Takes over mounting a scenario, e.g. to render it offscreen
+ */
+export type ScenarioHandler = (scenario: RenderScenario) => void;
+
+let scenarioHandler: ScenarioHandler | null = null;
+
+/**
+ * Route renderComponent() calls to `handler` instead of the terminal,
+ * until the returned function is called
+ * Lets a capture adapter import a spec file in-process and render its
+ * scenario wherever it needs to
+ */
+export function interceptScenarios(handler: ScenarioHandler): () => void {
+	scenarioHandler = handler;
+	return () => {
+		if (scenarioHandler === handler) scenarioHandler = null;
+	};
+}
+
 /**
  * Minimal renderer to display a single scenario at a time.
  * Logs instructions then mounts the provided React element using @opentui/react.
  */
-export function renderComponent({
-	scenarioName,
-	description,
-	render: mount,
-}: RenderScenario) {
+export function renderComponent(scenario: RenderScenario) {
+	const { scenarioName, description, render: mount } = scenario;
 	const logger = testLogger.child({ name: scenarioName });
 
 	logger.info({ Scenario: scenarioName });
 	logger.info({ Expectation: description });
 
+	if (scenarioHandler) {
+		scenarioHandler(scenario);
+		return;
+	}
 	render(mount());
 }
@@ -2,23 +2,93 @@
 
 import fs from "node:fs/promises";
 import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { spawn } from "bun";
 import { glob } from "glob";
 import { logger } from "@/services/logger";
 import { FILES, PATHS } from "@/testing/config/paths";
-import type { CaptureResult, ScreenshotMetadata } from "../types";
+import type {
+	CaptureResult,
+	CaptureSettings,
+	FrameMetadata,
+	InteractionStep,
+	ScreenshotMetadata,
+} from "../types";
+import { DEFAULT_FRAME_INTERVAL_MS, writeAnimation } from "./frames";
+import { checkpointsOf } from "./interactions";
 import { captureTerminal } from "./terminal";
 
 const SCREENSHOTS_DIR = PATHS.screenshots;
 
+// Snapshots are written next to each screenshot, named after it
+const SNAPSHOT_SUFFIXES = { text: ".txt", cells: ".cells.json" } as const;
+const ANIMATION_SUFFIX = ".animated.png";
+const DEFAULT_SETTLE_MS = 2000;
+// Between a scripted scenario's name and each checkpoint's
+export const CHECKPOINT_SEPARATOR = " › ";
+
+/**
+ * Scenarios to capture, by component, scenario name (without a checkpoint)
+ * and tags; the rest keep their earlier screenshots
+ */
+export type ScenarioSelector = (
+	componentName: string,
+	scenarioName: string,
+	tags: string[]
+) => boolean;
+
+/**
+ * A scenario to capture in a fresh process; without a scenario name, every
+ * scenario of the component
+ */
+export type ScenarioPick = {
+	componentName: string;
+	scenarioName?: string;
+};
+
+type SetupScenario = {
+	scenarioName: string;
+	description: string;
+	expectation: string;
+	params: Record<string, unknown>;
+	interactions?: InteractionStep[];
+	tags?: readonly string[];
+};
+
 type ComponentSetup = {
-	scenarios: Array<{
-		scenarioName: string;
-		description: string;
-		expectation: string;
-		params: Record<string, unknown>;
-	}>;
+	capture?: CaptureSettings;
+	scenarios: SetupScenario[];
 };
 
+/** What every screenshot of a scenario has in common */
+type ScenarioMetadata = Omit<ScreenshotMetadata, "filePath" | "timestamp">;
+
+/**
+ * Metadata of every scenario the selector didn't pick, from the last
+ * capture, so capturing a few scenarios keeps the others
+ */
+async function unselectedMetadata(
+	select: ScenarioSelector,
+	outputDir: string
+): Promise<ScreenshotMetadata[]> {
+	let previous: ScreenshotMetadata[] = [];
+	try {
+		previous = JSON.parse(
+			await fs.readFile(path.join(outputDir, FILES.metadata), "utf-8")
+		);
+	} catch {
+		// Nothing captured yet
+	}
+	return previous.filter(
+		({ componentName, scenarioName, tags }) =>
+			!select(
+				componentName,
+				scenarioName.split(CHECKPOINT_SEPARATOR)[0] ?? "",
+				tags ?? []
+			)
+	);
+}
+
 /**
  * Saves screenshot metadata to a JSON file
  */
@@ -30,6 +100,65 @@ async function saveMetadata(
 	await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2));
 }
 
+const readEnvNumber = (name: string): number | undefined => {
+	const value = process.env[name];
+	return value ? Number.parseInt(value, 10) : undefined;
+};
+
+/**
+ * Capture timing for a component: environment overrides, then its setup
+ * file, then defaults
+ */
+function resolveCaptureSettings(
+	settings: CaptureSettings = {}
+): Required<CaptureSettings> {
+	return {
+		settleMs:
+			readEnvNumber("SCREENSHOT_DELAY") ??
+			settings.settleMs ??
+			DEFAULT_SETTLE_MS,
+		frames: readEnvNumber("SCREENSHOT_FRAMES") ?? settings.frames ?? 1,
+		frameIntervalMs:
+			readEnvNumber("SCREENSHOT_FRAME_INTERVAL") ??
+			settings.frameIntervalMs ??
+			DEFAULT_FRAME_INTERVAL_MS,
+	};
+}
+
+/**
+ * One metadata entry per checkpoint of a scripted scenario, each judged
+ * against its own expectation, with the steps that led up to it
+ */
+function checkpointMetadata(
+	scenario: SetupScenario,
+	metadata: ScenarioMetadata,
+	frames: FrameMetadata[]
+): Promise<ScreenshotMetadata[]> {
+	const steps = scenario.interactions ?? [];
+	const captures = checkpointsOf(steps);
+
+	return Promise.all(
+		frames.map(async ({ filePath, snapshots, checkpoint = "end" }, index) => {
+			// A script without capture steps was captured once, after every step
+			const capture = captures[index];
+			const stepsBefore = capture
+				? steps.slice(0, steps.indexOf(capture))
+				: steps;
+			const stats = await fs.stat(filePath);
+			return {
+				...metadata,
+				scenarioName: `${scenario.scenarioName}${CHECKPOINT_SEPARATOR}${checkpoint}`,
+				expectation: capture?.expectation ?? scenario.expectation,
+				filePath,
+				timestamp: stats.mtime.getTime(),
+				snapshots,
+				checkpoint,
+				interactions: stepsBefore,
+			};
+		})
+	);
+}
+
 /**
  * Test runner that discovers component setup files,
  * runs each scenario in a new Terminal window, and captures screenshots.
@@ -38,6 +167,7 @@ async function saveMetadata(
 // biome-ignore lint/complexity/noExcessiveCognitiveComplexity: needed for claude
 async function runCapture(options?: {
 	pattern?: string;
+	select?: ScenarioSelector;
 }): Promise<CaptureResult> {
 	const runnerLogger = logger.child({ name: "CaptureRunner" });
 
@@ -102,6 +232,7 @@ async function runCapture(options?: {
 		runnerLogger.info(
 			`Testing ${componentName} (${config.scenarios.length} scenarios)`
 		);
+		const captureSettings = resolveCaptureSettings(config.capture);
 
 		// Run each scenario
 		for (let i = 0; i < config.scenarios.length; i++) {
@@ -110,49 +241,91 @@ async function runCapture(options?: {
 				runnerLogger.error(`No scenario found for ${componentName}`);
 				continue;
 			}
+			const tags = scenario.tags ? [...scenario.tags] : undefined;
+			if (
+				options?.select &&
+				!options.select(componentName, scenario.scenarioName, tags ?? [])
+			) {
+				continue;
+			}
 			totalScenarios++;
 
 			// Generate screenshot filename
-			const screenshotName = `${componentName}-${scenario.scenarioName
+			const baseName = `${componentName}-${scenario.scenarioName
 				.toLowerCase()
-				.replace(/\s+/g, "-")}.png`;
+				.replace(/\s+/g, "-")}`;
+			const screenshotName = `${baseName}.png`;
 			const screenshotPath = path.join(SCREENSHOTS_DIR, screenshotName);
+			const basePath = path.join(SCREENSHOTS_DIR, baseName);
 
 			runnerLogger.info(`  Running: ${scenario.scenarioName}`);
 
 			try {
 				// Run the spec file with the scenario index
-				await captureTerminal({
+				const frames = await captureTerminal({
 					cmd: `SCENARIO_INDEX=${i} bun ${specFile}`,
 					out: screenshotPath,
 					width: Number.parseInt(process.env.TERMINAL_WIDTH || "900", 10),
 					height: Number.parseInt(process.env.TERMINAL_HEIGHT || "600", 10),
-					settleMs: Number.parseInt(process.env.SCREENSHOT_DELAY || "2000", 10),
+					...captureSettings,
+					snapshots: {
+						text: `${basePath}${SNAPSHOT_SUFFIXES.text}`,
+						cells: `${basePath}${SNAPSHOT_SUFFIXES.cells}`,
+					},
+					interactions: scenario.interactions,
 				});
 
 				// Get screenshot dimensions
-				const stats = await fs.stat(screenshotPath);
 				const width = Number.parseInt(process.env.TERMINAL_WIDTH || "900", 10);
 				const height = Number.parseInt(
 					process.env.TERMINAL_HEIGHT || "600",
 					10
 				);
-
-				// Create metadata entry
-				const metadata: ScreenshotMetadata = {
+				const metadata: ScenarioMetadata = {
 					componentName,
 					scenarioName: scenario.scenarioName,
 					description: scenario.description,
 					expectation: scenario.expectation,
 					params: scenario.params,
-					filePath: screenshotPath,
-					timestamp: stats.mtime.getTime(),
 					dimensions: { width, height },
+					tags,
 				};
 
-				allMetadata.push(metadata);
+				if (scenario.interactions?.length) {
+					allMetadata.push(
+						...(await checkpointMetadata(scenario, metadata, frames))
+					);
+					runnerLogger.info(
+						`  ✓ ${frames.length} checkpoints saved: ${frames
+							.map((frame) => path.basename(frame.filePath))
+							.join(", ")}`
+					);
+					successCount++;
+					continue;
+				}
+
+				const animation =
+					frames.length > 1
+						? await writeAnimation(frames, `${basePath}${ANIMATION_SUFFIX}`)
+						: null;
+				const stats = await fs.stat(screenshotPath);
+
+				// Create metadata entry
+				allMetadata.push({
+					...metadata,
+					filePath: screenshotPath,
+					timestamp: stats.mtime.getTime(),
+					// Only adapters that read cells back write snapshots
+					snapshots: frames[0]?.snapshots,
+					frames: frames.length > 1 ? frames : undefined,
+					animation: animation ?? undefined,
+				});
 
-				runnerLogger.info(`  ✓ Screenshot saved: ${screenshotName}`);
+				runnerLogger.info(
+					frames.length > 1
+						? `  ✓ ${frames.length} frames saved: ${screenshotName}`
+						: `  ✓ Screenshot saved: ${screenshotName}`
+				);
 				successCount++;
 			} catch (error) {
 				runnerLogger.error(`  ✗ Failed: ${scenario.scenarioName}`, error);
@@ -162,6 +335,11 @@ async function runCapture(options?: {
 	}
 
 	// Save metadata
+	if (options?.select) {
+		allMetadata.unshift(
+			...(await unselectedMetadata(options.select, SCREENSHOTS_DIR))
+		);
+	}
 	await saveMetadata(allMetadata, SCREENSHOTS_DIR);
 
 	// Summary
@@ -179,7 +357,9 @@ async function runCapture(options?: {
 	runnerLogger.info("─".repeat(REPEAT_COUNT));
 
 	if (failureCount > 0) {
-		process.exit(1);
+		throw new Error(
+			`${failureCount} of ${totalScenarios} scenarios failed to capture`
+		);
 	}
 
 	// Return capture result
@@ -193,16 +373,55 @@ async function runCapture(options?: {
 	};
 }
 
+/**
+ * Selector for picked scenarios
+ */
+const pickSelector =
+	(picks: ScenarioPick[]): ScenarioSelector =>
+	(componentName, scenarioName) =>
+		picks.some(
+			(pick) =>
+				pick.componentName === componentName &&
+				(pick.scenarioName === undefined || pick.scenarioName === scenarioName)
+		);
+
+/**
+ * Captures some scenarios in a new process, so every module they import -
+ * the component's, not only the spec - is loaded from disk again; an
+ * in-process capture would render whatever an earlier one imported
+ */
+async function runCaptureFresh(picks: ScenarioPick[]): Promise<void> {
+	const child = spawn(
+		[
+			process.execPath,
+			fileURLToPath(import.meta.url),
+			"--select",
+			JSON.stringify(picks),
+		],
+		{ stdio: ["ignore", "inherit", "inherit"] }
+	);
+	const exitCode = await child.exited;
+	if (exitCode !== 0) {
+		throw new Error(`Capture exited with code ${exitCode}`);
+	}
+}
+
 // CLI execution
 if (import.meta.url === `file://${process.argv[1]}`) {
 	const args = process.argv.slice(2);
 	const patternIndex = args.indexOf("--pattern");
 	const pattern = patternIndex >= 0 ? args[patternIndex + 1] : undefined;
+	// Scenarios as JSON, from runCaptureFresh
+	const selectIndex = args.indexOf("--select");
+	const picks = selectIndex >= 0 ? args[selectIndex + 1] : undefined;
 
-	runCapture({ pattern }).catch((err) => {
+	runCapture({
+		pattern,
+		select: picks ? pickSelector(JSON.parse(picks)) : undefined,
+	}).catch((err) => {
 		logger.error("Test runner failed", err);
 		process.exit(1);
 	});
 }
 
-export { runCapture };
+export { runCapture, runCaptureFresh };
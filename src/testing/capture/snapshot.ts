@@ -0,0 +1,120 @@
+/**
+ * Text and cell snapshots of a captured terminal frame
+ * Single Responsibility: Serialize a cell frame into artifacts that can be
+ * compared exactly - no pixels, no OCR
+ */
+
+import { hasBit } from "./raster/font";
+import { ATTRIBUTE_BITS, type CellFrame } from "./raster/rasterize";
+
+/**
+ * One cell of a styled snapshot
+ * Colors are #rrggbb, or #rrggbbaa when not fully opaque; attribute flags
+ * are only present when set, to keep snapshots small and diffs readable
+ */
+export type CellSnapshot = {
+	char: string;
+	fg: string;
+	bg: string;
+	bold?: true;
+	dim?: true;
+	italic?: true;
+	underline?: true;
+	inverse?: true;
+	strikethrough?: true;
+};
+
+/**
+ * Styled snapshot of a whole frame, row by row
+ */
+export type FrameSnapshot = {
+	width: number;
+	height: number;
+	rows: CellSnapshot[][];
+};
+
+const CHANNELS = 4;
+const ALPHA = 3;
+const MAX_CHANNEL = 255;
+const HEX_RADIX = 16;
+const HEX_WIDTH = 2;
+const FIRST_PRINTABLE = 0x20;
+
+const SNAPSHOT_ATTRIBUTES = [
+	"bold",
+	"dim",
+	"italic",
+	"underline",
+	"inverse",
+	"strikethrough",
+] as const;
+
+const toHex = (value: number) =>
+	Math.round(value * MAX_CHANNEL)
+		.toString(HEX_RADIX)
+		.padStart(HEX_WIDTH, "0");
+
+const readColor = (colors: Float32Array, index: number): string => {
+	const offset = index * CHANNELS;
+	const channels = Array.from(colors.subarray(offset, offset + ALPHA));
+	const alpha = colors[offset + ALPHA] ?? 1;
+	if (alpha < 1) channels.push(alpha);
+	return `#${channels.map(toHex).join("")}`;
+};
+
+/**
+ * Text of one cell: "" for cells a wide character spills into, a space
+ * for control characters
+ */
+const readChar = (frame: CellFrame, index: number): string => {
+	const codePoint = frame.char[index] ?? 0;
+	if (codePoint === 0) return "";
+	return codePoint < FIRST_PRINTABLE ? " " : String.fromCodePoint(codePoint);
+};
+
+const readCell = (frame: CellFrame, index: number): CellSnapshot => {
+	const cell: CellSnapshot = {
+		char: readChar(frame, index),
+		fg: readColor(frame.fg, index),
+		bg: readColor(frame.bg, index),
+	};
+	const attributes = frame.attributes[index] ?? 0;
+	for (const name of SNAPSHOT_ATTRIBUTES) {
+		if (hasBit(attributes, ATTRIBUTE_BITS[name])) cell[name] = true;
+	}
+	return cell;
+};
+
+/**
+ * Plain text of a frame, one line per row
+ * Trailing spaces and trailing blank rows are dropped, so snapshots of the
+ * same content compare equal whatever the terminal size
+ */
+export function toTextSnapshot(frame: CellFrame): string {
+	const lines: string[] = [];
+	for (let row = 0; row < frame.height; row++) {
+		let line = "";
+		for (let column = 0; column < frame.width; column++) {
+			line += readChar(frame, row * frame.width + column);
+		}
+		lines.push(line.trimEnd());
+	}
+
+	while (lines.at(-1) === "") lines.pop();
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Character, colors and attributes of every cell
+ */
+export function toFrameSnapshot(frame: CellFrame): FrameSnapshot {
+	const rows: CellSnapshot[][] = [];
+	for (let row = 0; row < frame.height; row++) {
+		const cells: CellSnapshot[] = [];
+		for (let column = 0; column < frame.width; column++) {
+			cells.push(readCell(frame, row * frame.width + column));
+		}
+		rows.push(cells);
+	}
+	return { width: frame.width, height: frame.height, rows };
+}
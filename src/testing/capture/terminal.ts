@@ -4,22 +4,32 @@
  */
 
 import { logger } from "@/services/logger";
+import type { FrameMetadata } from "../types";
 import { BrowserTerminalAdapter } from "./adapters/browser";
+import { HeadlessTerminalAdapter } from "./adapters/headless";
 import { MacOSTerminalAdapter } from "./adapters/macos";
 import type {
 	TerminalCaptureAdapter,
 	TerminalCaptureOptions,
 } from "./adapters/types";
 
+const headlessAdapter = new HeadlessTerminalAdapter();
+
 /**
- * Factory function to get the appropriate terminal capture adapter
+ * Factory function to get the platform's terminal capture adapter, for
+ * commands the headless adapter doesn't run
  */
-function getAdapter(): TerminalCaptureAdapter {
+function getPlatformAdapter(
+	options: TerminalCaptureOptions
+): TerminalCaptureAdapter {
 	// Try adapters in order of preference
-	const adapters = [new MacOSTerminalAdapter(), new BrowserTerminalAdapter()];
+	const adapters: TerminalCaptureAdapter[] = [
+		new MacOSTerminalAdapter(),
+		new BrowserTerminalAdapter(),
+	];
 
 	for (const adapter of adapters) {
-		if (adapter.isSupported()) {
+		if (adapter.isSupported(options)) {
 			logger.info(`Using terminal adapter: ${adapter.getName()}`);
 			return adapter;
 		}
@@ -30,11 +40,14 @@ function getAdapter(): TerminalCaptureAdapter {
 	);
 }
 
-// Singleton instance
+// Singleton instance of the platform adapter; which one doesn't depend on
+// the command
 let adapterInstance: TerminalCaptureAdapter | null = null;
 
 /**
  * Captures a terminal screenshot using platform-appropriate adapter
+ * Resolves with every frame captured, with the text/cell snapshots the
+ * adapter wrote for each, if any
  *
  * @example
  * await captureTerminal({
@@ -46,9 +59,14 @@ let adapterInstance: TerminalCaptureAdapter | null = null;
  */
 export function captureTerminal(
 	options: TerminalCaptureOptions
-): Promise<void> {
+): Promise<FrameMetadata[]> {
+	// Component specs render headless; anything else needs a real terminal
+	if (headlessAdapter.isSupported(options)) {
+		return headlessAdapter.capture(options);
+	}
+
 	if (!adapterInstance) {
-		adapterInstance = getAdapter();
+		adapterInstance = getPlatformAdapter(options);
 	}
 
 	return adapterInstance.capture(options);
@@ -4,16 +4,150 @@
  * CLI Entry Point for Test Pipeline
  */
 
+import { PATHS } from "@/testing/config/paths";
 import { logger } from "@/testing/logger";
+import {
+	type EvaluationResult,
+	type ReviewDecision,
+	resultStatus,
+	type VoteMethod,
+} from "./evaluation";
 import type { PipelineConfig } from "./pipeline";
-import { runPipeline } from "./pipeline";
+import {
+	promoteScenario,
+	rerunComponents,
+	rerunScenario,
+	reviewScenario,
+	runComparison,
+	runPipeline,
+} from "./pipeline";
+import {
+	isOutputFormat,
+	OUTPUT_FORMATS,
+	type OutputFormat,
+	ReportManager,
+} from "./reporting";
+import { openInBrowser, ReportServer, type ScenarioActions } from "./server";
+import type { ScenarioRef } from "./types";
+import { ComponentWatcher } from "./watch";
+
+const MILLISECONDS_PER_SECOND = 1000;
+
+type CliConfig = PipelineConfig & {
+	promoteBaseline?: string; // Promote this run to baselines instead of testing
+	compare?: { before: string; after?: string }; // Compare two runs instead of testing
+	serve?: boolean; // Serve the reports instead of testing
+	port?: number;
+	watch?: boolean; // Re-run components as they change instead of testing once
+	// Record a review instead of testing
+	review?: { scenario: ScenarioRef; decision: ReviewDecision };
+	reviewRun?: string; // Run to review (default: the newest)
+	reviewer?: string;
+	note?: string;
+};
+
+const REVIEW_FLAGS: Record<string, ReviewDecision> = {
+	"--accept": "accepted",
+	"--override-pass": "overridden-pass",
+	"--override-fail": "overridden-fail",
+};
+
+// Details of a review, and where they go in the config
+const REVIEW_OPTIONS = {
+	"--run": "reviewRun",
+	"--reviewer": "reviewer",
+	"--note": "note",
+} as const;
+
+/**
+ * A scenario given as component/scenario; the scenario may contain slashes
+ */
+const parseScenarioKey = (value = ""): ScenarioRef => {
+	const slash = value.indexOf("/");
+	return slash === -1
+		? { componentName: value, scenarioName: "" }
+		: {
+				componentName: value.slice(0, slash),
+				scenarioName: value.slice(slash + 1),
+			};
+};
+
+/**
+ * "passed/total passed", counting review overrides
+ */
+const passedOf = (results: EvaluationResult[]): string =>
+	`${results.filter((result) => resultStatus(result) === "passed").length}/${results.length} passed`;
+
+/**
+ * Numeric option value, times scale (e.g. seconds to milliseconds)
+ * Throws on anything but a finite, non-negative number - NaN would make
+ * retries and timeouts loop forever
+ */
+const parseNumber = (
+	flag: string,
+	value: string | undefined,
+	scale = 1
+): number | undefined => {
+	if (value === undefined) return;
+
+	const number = Number(value);
+	if (value.trim() === "" || !Number.isFinite(number) || number < 0) {
+		throw new Error(`${flag} expects a non-negative number, got "${value}"`);
+	}
+	return number * scale;
+};
+
+/**
+ * Output formats from a comma-separated list, warning about unknown ones
+ */
+const parseFormats = (value: string | undefined): OutputFormat[] => {
+	const names = (value ?? "").split(",").filter(Boolean);
+	for (const name of names.filter((format) => !isOutputFormat(format))) {
+		logger.warn(
+			`Unknown format: ${name} (expected ${Object.keys(OUTPUT_FORMATS).join(", ")})`
+		);
+	}
+	return names.filter(isOutputFormat);
+};
+
+/**
+ * Values from a comma-separated list, after those of earlier uses of the
+ * option
+ */
+const parseList = (
+	earlier: string[] | undefined,
+	value: string | undefined
+): string[] => [
+	...(earlier ?? []),
+	...(value ?? "").split(",").filter(Boolean),
+];
+
+/**
+ * The runs after --compare at index; the second is optional, and taken
+ * only when it isn't another option
+ */
+const parseCompare = (
+	args: string[],
+	index: number,
+	processedIndices: Set<number>
+): CliConfig["compare"] => {
+	const beforeIndex = index + 1;
+	const afterIndex = beforeIndex + 1;
+	const before = args[beforeIndex] ?? "";
+	const after = args[afterIndex];
+	processedIndices.add(beforeIndex);
+	if (after === undefined || after.startsWith("-")) return { before };
+
+	processedIndices.add(afterIndex);
+	return { before, after };
+};
 
 /**
  * Parse command-line arguments
  */
-function parseArgs(): PipelineConfig {
+function parseArgs(): CliConfig {
 	const args = process.argv.slice(2);
-	const config: PipelineConfig = {};
+	const config: CliConfig = {};
 	const processedIndices = new Set<number>();
 
 	for (const [i, arg] of args.entries()) {
@@ -24,6 +158,37 @@ function parseArgs(): PipelineConfig {
 				config.skipScreenshots = true;
 				break;
 
+			case "--component": {
+				const nextIndex = i + 1;
+				processedIndices.add(nextIndex);
+				config.filter = {
+					...config.filter,
+					components: parseList(config.filter?.components, args[nextIndex]),
+				};
+				break;
+			}
+
+			case "--scenario": {
+				const nextIndex = i + 1;
+				processedIndices.add(nextIndex);
+				config.filter = { ...config.filter, scenario: args[nextIndex] };
+				break;
+			}
+
+			case "--tag": {
+				const nextIndex = i + 1;
+				processedIndices.add(nextIndex);
+				config.filter = {
+					...config.filter,
+					tags: parseList(config.filter?.tags, args[nextIndex]),
+				};
+				break;
+			}
+
+			case "--only-failed":
+				config.filter = { ...config.filter, onlyFailed: true };
+				break;
+
 			case "--output":
 			case "-o": {
 				const nextIndex = i + 1;
@@ -79,6 +244,24 @@ function parseArgs(): PipelineConfig {
 				break;
 			}
 
+			case "--format":
+			case "-f": {
+				const nextIndex = i + 1;
+				processedIndices.add(nextIndex);
+				config.formats = [
+					...(config.formats ?? []),
+					...parseFormats(args[nextIndex]),
+				];
+				break;
+			}
+
+			case "--contact-sheet":
+				config.reportConfig = {
+					...config.reportConfig,
+					frameDisplay: "contact-sheet",
+				};
+				break;
+
 			case "--keep-history": {
 				const nextIndex = i + 1;
 				processedIndices.add(nextIndex);
@@ -104,6 +287,144 @@ function parseArgs(): PipelineConfig {
 				config.skipCleanup = true;
 				break;
 
+			case "--no-baselines":
+				config.skipBaselines = true;
+				break;
+
+			case "--promote-baseline": {
+				const nextIndex = i + 1;
+				processedIndices.add(nextIndex);
+				config.promoteBaseline = args[nextIndex];
+				break;
+			}
+
+			case "--compare":
+				config.compare = parseCompare(args, i, processedIndices);
+				break;
+
+			case "--accept":
+			case "--override-pass":
+			case "--override-fail": {
+				const nextIndex = i + 1;
+				processedIndices.add(nextIndex);
+				config.review = {
+					scenario: parseScenarioKey(args[nextIndex]),
+					decision: REVIEW_FLAGS[arg] as ReviewDecision,
+				};
+				break;
+			}
+
+			case "--run":
+			case "--reviewer":
+			case "--note": {
+				const nextIndex = i + 1;
+				processedIndices.add(nextIndex);
+				config[REVIEW_OPTIONS[arg]] = args[nextIndex];
+				break;
+			}
+
+			case "--serve":
+				config.serve = true;
+				break;
+
+			case "--watch":
+				config.watch = true;
+				break;
+
+			case "--port": {
+				const nextIndex = i + 1;
+				processedIndices.add(nextIndex);
+				config.port = parseNumber(arg, args[nextIndex]);
+				break;
+			}
+
+			case "--no-cache":
+				config.skipCache = true;
+				break;
+
+			case "--clear-cache":
+				config.clearCache = true;
+				break;
+
+			case "--concurrency": {
+				const nextIndex = i + 1;
+				processedIndices.add(nextIndex);
+				config.concurrency = parseNumber(arg, args[nextIndex]);
+				break;
+			}
+
+			case "--retries": {
+				const nextIndex = i + 1;
+				processedIndices.add(nextIndex);
+				config.retries = parseNumber(arg, args[nextIndex]);
+				break;
+			}
+
+			case "--timeout": {
+				const nextIndex = i + 1;
+				processedIndices.add(nextIndex);
+				config.timeoutMs = parseNumber(
+					arg,
+					args[nextIndex],
+					MILLISECONDS_PER_SECOND
+				);
+				break;
+			}
+
+			case "--samples": {
+				const nextIndex = i + 1;
+				processedIndices.add(nextIndex);
+				config.consensus = {
+					...config.consensus,
+					samples: parseNumber(arg, args[nextIndex]),
+				};
+				break;
+			}
+
+			case "--models": {
+				const nextIndex = i + 1;
+				processedIndices.add(nextIndex);
+				config.consensus = {
+					...config.consensus,
+					models: args[nextIndex]?.split(","),
+				};
+				break;
+			}
+
+			case "--vote": {
+				const nextIndex = i + 1;
+				processedIndices.add(nextIndex);
+				config.consensus = {
+					...config.consensus,
+					vote: args[nextIndex] as VoteMethod,
+				};
+				break;
+			}
+
+			case "--min-agreement": {
+				const nextIndex = i + 1;
+				processedIndices.add(nextIndex);
+				config.consensus = {
+					...config.consensus,
+					minAgreement: parseNumber(arg, args[nextIndex]),
+				};
+				break;
+			}
+
+			case "--replay": {
+				const nextIndex = i + 1;
+				processedIndices.add(nextIndex);
+				config.replayTranscript = args[nextIndex];
+				break;
+			}
+
+			case "--record": {
+				const nextIndex = i + 1;
+				processedIndices.add(nextIndex);
+				config.recordTranscript = args[nextIndex];
+				break;
+			}
+
 			case "--help":
 			case "-h":
 				printHelp();
@@ -133,6 +454,10 @@ Usage:
 
 Options:
   --skip-capture          Use existing screenshots from .dev/reports/screenshots/
+  --component <list>      Only these components (comma-separated, repeatable)
+  --scenario <name|regex> Only scenarios with this name, or matching this regex
+  --tag <list>            Only scenarios with any of these tags (comma-separated, repeatable)
+  --only-failed           Only scenarios that didn't pass in the newest run
   -o, --output <dir>      Output directory for reports (default: .dev/reports)
   -s, --screenshot-dir <dir>  Screenshot directory (default: .dev/reports/screenshots)
                           Note: Screenshots are automatically archived with each test run
@@ -140,9 +465,34 @@ Options:
   --moderate              Use moderate evaluation criteria (checks text, layout)
   --lenient               Use lenient evaluation criteria (checks text only)
   -t, --theme <theme>     Report theme: light or dark (default: dark)
+  -f, --format <list>     Also write junit, markdown and/or tap (comma-separated, repeatable)
+  --contact-sheet         Show animated scenarios frame by frame instead of animated
   --keep-history <n>      Number of test runs to keep (default: 10)
   -n, --run-name <name>   Named run (preserved indefinitely)
   --skip-cleanup          Skip cleanup of old runs
+  --promote-baseline <run>  Approve a run's passing scenarios as baselines, then exit
+  --compare <run> [run]   Compare two runs (default: against the newest), then exit
+  --accept <component/scenario>         Mark the AI's verdict as right, then exit
+  --override-pass <component/scenario>  Pass a scenario the AI failed, then exit
+  --override-fail <component/scenario>  Fail a scenario the AI passed, then exit
+  --note <text>           Why, for --accept/--override-*
+  --reviewer <name>       Who is reviewing (default: $USER)
+  --run <run>             Run to review (default: the newest)
+  --serve                 Serve the reports with live reload and scenario actions
+  --port <n>              Port for --serve (default: 4173)
+  --watch                 Re-capture and re-evaluate components as src/components changes
+  --no-baselines          Evaluate every scenario, even ones unchanged since their baseline
+  --no-cache              Evaluate everything again, without reading or writing the cache
+  --clear-cache           Forget every cached verdict before evaluating
+  --concurrency <n>       Evaluations in flight at once (default: 4)
+  --retries <n>           Retries of rate limits, timeouts and API errors (default: 2)
+  --timeout <seconds>     Time limit per evaluation attempt (default: 120)
+  --samples <n>           Evaluate each screenshot n times and vote (default: 1)
+  --models <a,b,...>      Models to sample in turn (samples default to one per model)
+  --vote <method>         Combine samples by majority or weighted (by confidence) vote
+  --min-agreement <0-1>   Share of samples a verdict needs, or it is uncertain (default: 0.6)
+  --replay <file>         Evaluate offline from a recorded JSONL transcript
+  --record <file>         Record evaluator traffic to a JSONL transcript
   -h, --help              Show this help message
 
 Examples:
@@ -152,22 +502,118 @@ Examples:
   # Skip capture and evaluate existing screenshots
   bun test --skip-capture
 
+  # One component's long-title scenarios, then whatever still fails
+  bun test --component banner --scenario "^Long title"
+  bun test --only-failed
+
+  # Scenarios tagged smoke in their setup files
+  bun test --tag smoke
+
   # Use strict evaluation with custom output
   bun test --strict --output ./.dev/my-reports
 
   # Evaluate with light theme
   bun test --theme light
 
+  # CI: JUnit XML for the dashboard, Markdown for the PR comment
+  bun test --format junit,markdown
+
   # Named run that won't be cleaned up
   bun test --run-name "before-refactor"
 
+  # Approve a named run; later runs only send changed scenarios to the AI
+  bun test --promote-baseline "before-refactor"
+
+  # What flipped since a named run, with the pass-rate trend
+  bun test --compare "before-refactor"
+
+  # The AI failed a correct screenshot; later runs keep this while it is unchanged
+  bun test --override-pass "banner/long title" --note "Ellipsis is intended"
+
+  # Browse reports live; runs from another terminal reload the page
+  bun test --serve
+
+  # Build a component against the AI: each save re-runs what it affects
+  bun test --watch --serve
+
   # Keep last 20 runs instead of default 10
   bun test --keep-history 20
+
+  # Re-evaluate after changing prompts outside the repo (e.g. a new model alias)
+  bun test --skip-capture --clear-cache
+
+  # Vote over five samples on flaky scenarios, weighing each by its confidence
+  bun test --skip-capture --samples 5 --vote weighted
+
+  # One sample per model
+  bun test --skip-capture --models sonnet,opus,haiku
+
+  # Record evaluations once, then re-run them offline (e.g. in CI)
+  bun test --skip-capture --record .dev/evaluations.jsonl
+  bun test --skip-capture --replay .dev/evaluations.jsonl
 `;
 
 	logger.info(helpText);
 }
 
+/**
+ * Serves the reports; the latest report's buttons re-capture, re-evaluate,
+ * promote or review one scenario with this config
+ */
+async function serveReports(config: CliConfig): Promise<ReportServer> {
+	const label = ({ componentName, scenarioName }: ScenarioRef) =>
+		`${componentName} / ${scenarioName}`;
+	const rerun = async (scenario: ScenarioRef, recapture: boolean) => {
+		const results = await rerunScenario(scenario, { recapture }, config);
+		return `${label(scenario)}: ${passedOf(results)}`;
+	};
+	const actions: ScenarioActions = {
+		recapture: (scenario) => rerun(scenario, true),
+		reevaluate: (scenario) => rerun(scenario, false),
+		promote: async (scenario) => {
+			const promoted = await promoteScenario(scenario, config);
+			return promoted.length > 0
+				? `${label(scenario)} promoted to baseline`
+				: `${label(scenario)} did not pass, so it was not promoted`;
+		},
+		review: async (scenario, call) => {
+			const review = await reviewScenario(scenario, call, undefined, config);
+			return `${label(scenario)}: ${review.decision} by ${review.reviewer}`;
+		},
+	};
+
+	const server = new ReportServer({
+		baseDir: config.outputDir || PATHS.reports,
+		port: config.port,
+		actions,
+	});
+	const url = await server.start();
+	await openInBrowser(url);
+	return server;
+}
+
+/**
+ * Re-captures and re-evaluates the components each change under
+ * src/components affects, updating the latest report in place; runs the
+ * whole pipeline first if there is no latest report yet
+ */
+async function watchComponents(config: CliConfig): Promise<ComponentWatcher> {
+	const reportManager = new ReportManager({
+		baseDir: config.outputDir || PATHS.reports,
+	});
+	const latest = await reportManager.loadResults().catch(() => null);
+	if (!latest) await runPipeline(config);
+
+	const watcher = new ComponentWatcher({
+		onChange: async (componentNames) => {
+			const results = await rerunComponents(componentNames, config);
+			logger.success(`${componentNames.join(", ")}: ${passedOf(results)}`);
+		},
+	});
+	await watcher.start();
+	return watcher;
+}
+
 /**
  * Main CLI function
  */
@@ -175,6 +621,61 @@ async function main(): Promise<void> {
 	try {
 		const config = parseArgs();
 
+		if (config.promoteBaseline) {
+			const reportManager = new ReportManager({
+				baseDir: config.outputDir || PATHS.reports,
+			});
+			const promoted = await reportManager.promoteBaseline(
+				config.promoteBaseline
+			);
+			logger.success(
+				`\n✅ Promoted ${promoted.length} scenarios from "${config.promoteBaseline}" to baselines`
+			);
+			process.exit(0);
+		}
+
+		if (config.review) {
+			const { scenario, decision } = config.review;
+			const review = await reviewScenario(
+				scenario,
+				{
+					decision,
+					reviewer: config.reviewer ?? process.env.USER ?? "anonymous",
+					note: config.note,
+				},
+				config.reviewRun,
+				config
+			);
+			logger.success(
+				`\n✅ ${scenario.componentName} / ${scenario.scenarioName}: ${decision} in ${review.runId}`
+			);
+			process.exit(0);
+		}
+
+		if (config.serve || config.watch) {
+			// The server first, so a first pipeline run leaves the browser to it
+			const server = config.serve ? await serveReports(config) : null;
+			const watcher = config.watch ? await watchComponents(config) : null;
+			const shutdown = async () => {
+				watcher?.stop();
+				await server?.stop();
+				process.exit(0);
+			};
+			process.on("SIGINT", shutdown);
+			process.on("SIGTERM", shutdown);
+			return;
+		}
+
+		if (config.compare) {
+			const reportPath = await runComparison(
+				config.compare.before,
+				config.compare.after,
+				config
+			);
+			logger.success(`\n✅ Comparison written to: ${reportPath}`);
+			process.exit(0);
+		}
+
 		const result = await runPipeline(config);
 
 		if (result.success) {
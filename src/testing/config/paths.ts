@@ -4,6 +4,9 @@ export const PATHS = {
 	screenshots: `${DEV_ROOT}/reports/screenshots`,
 	reports: `${DEV_ROOT}/reports`,
 	logs: `${DEV_ROOT}/logs`,
+	exports: `${DEV_ROOT}/exports`,
+	sessions: `${DEV_ROOT}/sessions`,
+	evaluationCache: `${DEV_ROOT}/cache/evaluations`,
 } as const;
 
 export type PathKey = keyof typeof PATHS;
@@ -12,11 +15,20 @@ export type PathKey = keyof typeof PATHS;
 export const FILES = {
 	metadata: "metadata.json",
 	reportIndex: "index.html",
+	comparisonReport: "compare.html",
 	reportResults: "results.json",
+	junitReport: "junit.xml",
+	markdownSummary: "summary.md",
+	tapReport: "results.tap",
 	runsManifest: "runs.json",
+	serverLock: "server.json",
+	baselinesManifest: "baselines.json",
+	reviews: "reviews.json",
+	sessionIndex: "sessions.json",
 } as const;
 
 export const DIRS = {
 	runs: "runs",
 	screenshots: "screenshots",
+	baselines: "baselines",
 } as const;
@@ -4,10 +4,35 @@
 
 import type { EvaluationResult } from "./types";
 
+/**
+ * Where a result is counted: errored and uncertain results have no
+ * verdict to count as passed or failed, unless a reviewer overrode it
+ */
+export type ResultStatus = "passed" | "failed" | "errored" | "uncertain";
+
+export function resultStatus(result: EvaluationResult): ResultStatus {
+	if (result.review?.decision === "overridden-pass") return "passed";
+	if (result.review?.decision === "overridden-fail") return "failed";
+	if (result.error) return "errored";
+	if (result.consensus?.uncertain) return "uncertain";
+	return result.passed ? "passed" : "failed";
+}
+
+const countStatus = (results: EvaluationResult[], status: ResultStatus) =>
+	results.filter((result) => resultStatus(result) === status).length;
+
+const isOverridden = (result: EvaluationResult): boolean =>
+	result.review !== undefined && result.review.decision !== "accepted";
+
 export type TestSummary = {
 	totalTests: number;
 	passed: number;
-	failed: number;
+	failed: number; // Judged to fail; excludes errored and uncertain
+	errored: number; // No verdict reached
+	uncertain: number; // Samples disagreed too much to call it
+	// Reviewed by a person; overridden ones count under the reviewer's call
+	overridden: number;
+	accepted: number;
 	passRate: number;
 	averageConfidence: number;
 	duration: number;
@@ -19,6 +44,8 @@ export type ComponentSummary = {
 	scenarios: number;
 	passed: number;
 	failed: number;
+	errored: number;
+	uncertain: number;
 	results: EvaluationResult[];
 };
 
@@ -70,8 +97,10 @@ export class Collector implements ITestResultCollector {
 		return {
 			componentName,
 			scenarios: results.length,
-			passed: results.filter((r) => r.passed).length,
-			failed: results.filter((r) => !r.passed).length,
+			passed: countStatus(results, "passed"),
+			failed: countStatus(results, "failed"),
+			errored: countStatus(results, "errored"),
+			uncertain: countStatus(results, "uncertain"),
 			results,
 		};
 	}
@@ -79,8 +108,7 @@ export class Collector implements ITestResultCollector {
 	getSummary(): TestSummary {
 		const allResults = Array.from(this.resultsByComponent.values()).flat();
 		const totalTests = allResults.length;
-		const passed = allResults.filter((r) => r.passed).length;
-		const failed = totalTests - passed;
+		const passed = countStatus(allResults, "passed");
 		const passRate = totalTests > 0 ? passed / totalTests : 0;
 		const averageConfidence =
 			totalTests > 0
@@ -90,7 +118,13 @@ export class Collector implements ITestResultCollector {
 		return {
 			totalTests,
 			passed,
-			failed,
+			failed: countStatus(allResults, "failed"),
+			errored: countStatus(allResults, "errored"),
+			uncertain: countStatus(allResults, "uncertain"),
+			overridden: allResults.filter(isOverridden).length,
+			accepted: allResults.filter(
+				(result) => result.review?.decision === "accepted"
+			).length,
 			passRate,
 			averageConfidence,
 			duration: Date.now() - this.startTime,
@@ -0,0 +1,99 @@
+/**
+ * Evaluation Cache - Verdicts stored by what produced them
+ * Single Responsibility: Remember each verdict under a hash of the images,
+ * prompt, criteria and model it was reached with, so re-evaluating the same
+ * screenshot the same way returns it without an AI call
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { PATHS } from "@/testing/config/paths";
+import { logger } from "@/testing/logger";
+import type { ConsensusConfig } from "./consensus";
+import type { EvaluationCriteria, EvaluationResult } from "./types";
+
+/**
+ * Everything that decides a verdict; any change is a different key
+ */
+export type EvaluationCacheInputs = {
+	images: string[]; // Paths of the images sent, in order
+	prompt: string;
+	criteria: EvaluationCriteria;
+	model?: string;
+	consensus?: ConsensusConfig; // Sampled verdicts are cached apart from single ones
+};
+
+type CacheEntry = {
+	cachedAt: number;
+	result: EvaluationResult;
+};
+
+export class EvaluationCache {
+	private readonly dir: string;
+
+	constructor(dir: string = PATHS.evaluationCache) {
+		this.dir = dir;
+	}
+
+	private entryPath(key: string): string {
+		return path.join(this.dir, `${key}.json`);
+	}
+
+	/**
+	 * Content address of an evaluation: image bytes are hashed, not paths,
+	 * so a screenshot captured again identically still hits
+	 */
+	async keyOf(inputs: EvaluationCacheInputs): Promise<string> {
+		const hash = createHash("sha256");
+		for (const image of inputs.images) {
+			hash.update(
+				createHash("sha256")
+					.update(await readFile(image))
+					.digest()
+			);
+		}
+		hash.update(
+			JSON.stringify({
+				prompt: inputs.prompt,
+				criteria: inputs.criteria,
+				model: inputs.model ?? null,
+				// Only when sampling, so single verdicts keep their keys
+				...(inputs.consensus && { consensus: inputs.consensus }),
+			})
+		);
+		return hash.digest("hex");
+	}
+
+	/**
+	 * The stored verdict, marked with when it was cached; null on a miss
+	 */
+	async get(key: string): Promise<EvaluationResult | null> {
+		try {
+			const entry: CacheEntry = JSON.parse(
+				await readFile(this.entryPath(key), "utf-8")
+			);
+			return { ...entry.result, cachedAt: entry.cachedAt };
+		} catch {
+			return null;
+		}
+	}
+
+	async set(key: string, result: EvaluationResult): Promise<void> {
+		const entry: CacheEntry = { cachedAt: Date.now(), result };
+		try {
+			await mkdir(this.dir, { recursive: true });
+			await writeFile(this.entryPath(key), JSON.stringify(entry), "utf-8");
+		} catch (error) {
+			// A verdict that isn't cached is only re-evaluated next time
+			logger.warn("Could not cache evaluation:", error);
+		}
+	}
+
+	/**
+	 * Forget every cached verdict
+	 */
+	async clear(): Promise<void> {
+		await rm(this.dir, { recursive: true, force: true });
+	}
+}
@@ -0,0 +1,287 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import type { IAgentService } from "@/types/services";
+import type { ScreenshotMetadata } from "../types";
+import { resultStatus } from "./Collector";
+import { EvaluationCache } from "./EvaluationCache";
+import { Evaluator } from "./Evaluator";
+
+const SCENARIOS = ["idle", "focused", "typing", "rate-limited", "hung", "bad"];
+const CONCURRENCY = 2;
+const TIMEOUT_MS = 50;
+
+const metadata = (scenarioName: string): ScreenshotMetadata => ({
+	componentName: "field",
+	scenarioName,
+	description: "",
+	expectation: `Shows ${scenarioName}`,
+	params: {},
+	filePath: `${scenarioName}.png`,
+	timestamp: 0,
+	dimensions: { width: 1, height: 1 },
+});
+
+const verdict = (passed: boolean) => ({
+	passed,
+	confidence: 0.9,
+	reasoning: passed ? "Looks right" : "Caret is missing",
+	observations: {
+		elementsFound: [],
+		textContent: [],
+		layoutDescription: "",
+		colorScheme: [],
+	},
+});
+
+const reply = (text: string): SDKMessage[] =>
+	[
+		{ type: "assistant", message: { content: [{ type: "text", text }] } },
+		{ type: "result", subtype: "success", is_error: false, result: "" },
+	] as unknown as SDKMessage[];
+
+const answer = (passed: boolean): SDKMessage[] =>
+	reply(JSON.stringify(verdict(passed)));
+
+const rateLimited = [
+	{
+		type: "result",
+		subtype: "success",
+		is_error: true,
+		result: "API Error: 429 rate_limit_error",
+	},
+] as unknown as SDKMessage[];
+
+describe("Evaluator", () => {
+	test("evaluates in a bounded pool, retrying transient failures", async () => {
+		const dir = await mkdtemp(path.join(tmpdir(), "evaluator-"));
+		const screenshots = SCENARIOS.map(metadata);
+		await writeFile(
+			path.join(dir, "metadata.json"),
+			JSON.stringify(screenshots)
+		);
+		for (const { filePath } of screenshots) {
+			await writeFile(path.join(dir, filePath), "");
+		}
+
+		const queries = new Map<string, number>();
+		let inFlight = 0;
+		let maxInFlight = 0;
+		let agents = 0;
+
+		// One stub per attempt, answering by the scenario named in the prompt
+		const createAgent = (): IAgentService => {
+			agents++;
+			let release: (() => void) | null = null;
+			const agent: Pick<IAgentService, "getSessionId" | "stop" | "startQuery"> =
+				{
+					getSessionId: () => null,
+					stop: () => release?.(),
+					async *startQuery(messages) {
+						inFlight++;
+						maxInFlight = Math.max(maxInFlight, inFlight);
+						try {
+							for await (const message of messages) {
+								const prompt = JSON.stringify(message.message.content);
+								const scenario =
+									SCENARIOS.find((name) => prompt.includes(`Shows ${name}`)) ??
+									"";
+								const attempt = (queries.get(scenario) ?? 0) + 1;
+								queries.set(scenario, attempt);
+
+								if (scenario === "hung") {
+									// Answers nothing until the timeout stops it
+									await new Promise<void>((resolve) => {
+										release = resolve;
+									});
+									return;
+								}
+								if (scenario === "rate-limited" && attempt === 1) {
+									yield* rateLimited;
+									continue;
+								}
+								yield* answer(scenario !== "bad");
+							}
+						} finally {
+							inFlight--;
+						}
+					},
+				};
+			return agent as IAgentService;
+		};
+
+		const evaluator = new Evaluator(createAgent, {
+			concurrency: CONCURRENCY,
+			retries: 1,
+			retryDelayMs: 1,
+			timeoutMs: TIMEOUT_MS,
+		});
+		const results = await evaluator.evaluateBatch(
+			path.join(dir, "metadata.json"),
+			dir
+		);
+		const byScenario = new Map(results.map((r) => [r.scenarioName, r]));
+
+		expect(results.map((r) => r.scenarioName)).toEqual(SCENARIOS);
+		expect(maxInFlight).toBeLessThanOrEqual(CONCURRENCY);
+		expect(agents).toBe([...queries.values()].reduce((a, b) => a + b, 0));
+
+		expect(queries.get("rate-limited")).toBe(2);
+		expect(byScenario.get("rate-limited")?.passed).toBe(true);
+
+		// Timed out on both attempts: errored, not failed
+		expect(queries.get("hung")).toBe(2);
+		expect(byScenario.get("hung")?.passed).toBe(false);
+		expect(byScenario.get("hung")?.error).toContain("Timed out");
+
+		expect(byScenario.get("bad")?.passed).toBe(false);
+		expect(byScenario.get("bad")?.error).toBeUndefined();
+	});
+
+	test("reuses cached verdicts until the screenshot or criteria change", async () => {
+		const dir = await mkdtemp(path.join(tmpdir(), "evaluator-cache-"));
+		const screenshot = path.join(dir, "idle.png");
+		await writeFile(screenshot, "before");
+
+		let queries = 0;
+		const agent: Pick<
+			IAgentService,
+			"getModel" | "getSessionId" | "startQuery"
+		> = {
+			getModel: () => "sonnet",
+			getSessionId: () => null,
+			async *startQuery(messages) {
+				for await (const _ of messages) {
+					queries++;
+					yield* answer(true);
+				}
+			},
+		};
+		const cache = new EvaluationCache(path.join(dir, "cache"));
+		const evaluator = new Evaluator(() => agent as IAgentService, { cache });
+		// Whether evaluating asked the model, and what it returned
+		const evaluate = async () => {
+			const before = queries;
+			const result = await evaluator.evaluateScreenshot(
+				metadata("idle"),
+				screenshot
+			);
+			return { queried: queries > before, result };
+		};
+
+		const first = await evaluate();
+		const second = await evaluate();
+		expect(first.queried).toBe(true);
+		expect(first.result.cachedAt).toBeUndefined();
+		expect(second.queried).toBe(false);
+		expect(second.result.cachedAt).toBeNumber();
+		expect(second.result.reasoning).toBe(first.result.reasoning);
+
+		await writeFile(screenshot, "after");
+		expect((await evaluate()).queried).toBe(true);
+
+		evaluator.setEvaluationCriteria({
+			strictness: "strict",
+			checkTextContent: true,
+			checkLayout: true,
+			checkColors: true,
+		});
+		expect((await evaluate()).queried).toBe(true);
+		expect((await evaluate()).queried).toBe(false);
+
+		await cache.clear();
+		expect((await evaluate()).queried).toBe(true);
+	});
+
+	test("repairs unusable answers in the same session", async () => {
+		const dir = await mkdtemp(path.join(tmpdir(), "evaluator-repair-"));
+		const screenshot = path.join(dir, "idle.png");
+		await writeFile(screenshot, "");
+
+		// Answers each prompt with the next reply, in one session
+		const converse = (replies: string[]) => {
+			const sessions: string[] = [];
+			const agent: Pick<IAgentService, "getSessionId" | "startQuery"> = {
+				getSessionId: () => (sessions.length > 0 ? "session-1" : null),
+				async *startQuery(messages) {
+					for await (const message of messages) {
+						sessions.push(message.session_id);
+						yield* reply(replies.shift() ?? "");
+					}
+				},
+			};
+			return { agent: agent as IAgentService, sessions };
+		};
+
+		const repaired = converse([
+			`Here you go: ${JSON.stringify({ ...verdict(true), observations: undefined })}`,
+			JSON.stringify({ ...verdict(true), confidence: 1.7 }),
+		]);
+		const result = await new Evaluator(() => repaired.agent).evaluateScreenshot(
+			metadata("idle"),
+			screenshot
+		);
+		expect(repaired.sessions).toEqual(["", "session-1"]);
+		expect(result.passed).toBe(true);
+		expect(result.error).toBeUndefined();
+		expect(result.confidence).toBe(1);
+		expect(result.rawResponse).toContain("Here you go");
+		expect(result.rawResponse).toContain("--- repair ---");
+
+		const unusable = converse(["Looks fine to me", '{"passed": "yes"}']);
+		const errored = await new Evaluator(
+			() => unusable.agent
+		).evaluateScreenshot(metadata("idle"), screenshot);
+		expect(errored.passed).toBe(false);
+		expect(errored.error).toContain("passed: expected boolean");
+		expect(errored.rawResponse).toContain("Looks fine to me");
+	});
+
+	test("samples each model in turn and records the vote", async () => {
+		const dir = await mkdtemp(path.join(tmpdir(), "evaluator-consensus-"));
+		const screenshot = path.join(dir, "idle.png");
+		await writeFile(screenshot, "");
+
+		const sampled: string[] = [];
+		const createAgent = (): IAgentService => {
+			let model = "";
+			const agent: Pick<
+				IAgentService,
+				"getSessionId" | "setModel" | "startQuery"
+			> = {
+				getSessionId: () => null,
+				setModel: (name) => {
+					model = name;
+					return Promise.resolve();
+				},
+				async *startQuery(messages) {
+					for await (const _ of messages) {
+						sampled.push(model);
+						yield* answer(model !== "haiku");
+					}
+				},
+			};
+			return agent as IAgentService;
+		};
+
+		const evaluator = new Evaluator(createAgent, {
+			consensus: { models: ["sonnet", "opus", "haiku"], minAgreement: 0.8 },
+		});
+		const result = await evaluator.evaluateScreenshot(
+			metadata("idle"),
+			screenshot
+		);
+
+		expect(sampled).toEqual(["sonnet", "opus", "haiku"]);
+		expect(result.passed).toBe(true);
+		expect(result.consensus?.samples.map((s) => s.passed)).toEqual([
+			true,
+			true,
+			false,
+		]);
+		expect(result.consensus?.uncertain).toBe(true);
+		expect(resultStatus(result)).toBe("uncertain");
+	});
+});
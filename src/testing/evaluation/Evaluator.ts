@@ -4,12 +4,41 @@
 
 import fs from "node:fs/promises";
 import path from "node:path";
-import type { SDKUserMessage } from "@anthropic-ai/claude-agent-sdk";
+import type {
+	SDKResultMessage,
+	SDKUserMessage,
+} from "@anthropic-ai/claude-agent-sdk";
 import { logger } from "@/services/logger";
 import type { IAgentService } from "@/types/services";
+import { type BaselineComparison, baselineKey } from "../baseline";
 import type { ScreenshotMetadata } from "../types";
-import { PromptBuilder } from "./prompts/PromptBuilder";
+import {
+	type ConsensusConfig,
+	resolveConsensus,
+	type Sample,
+	tally,
+} from "./consensus";
+import type { EvaluationCache } from "./EvaluationCache";
+import { type EvaluationContext, PromptBuilder } from "./prompts/PromptBuilder";
+import {
+	backoffDelay,
+	isRateLimitError,
+	isTransientError,
+	mapWithConcurrency,
+	type RetryPolicy,
+	sleep,
+	withTimeout,
+} from "./scheduling";
+import {
+	COMPARISON_SCHEMA,
+	type EvaluationResponse,
+	type ObjectSchema,
+	parseResponse,
+	VERDICT_SCHEMA,
+} from "./schema";
 import type {
+	AgentFactory,
+	BaselineVerdict,
 	EvaluationConfig,
 	EvaluationCriteria,
 	EvaluationResult,
@@ -23,7 +52,70 @@ const DEFAULT_CRITERIA: EvaluationCriteria = {
 	checkColors: true,
 };
 
-const JSON_EXTRACTION_REGEX = /\{[\s\S]*\}/;
+const DEFAULT_CONCURRENCY = 4;
+const PERCENTAGE_MULTIPLIER = 100;
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	retries: 2,
+	retryDelayMs: 1000,
+	timeoutMs: 120_000,
+};
+
+/**
+ * Builds the result from a verdict, for either kind of evaluation
+ */
+type ToResult = (response: EvaluationResponse) => EvaluationResult;
+
+// Between an answer and its repair in the stored raw response
+const REPAIR_SEPARATOR = "\n\n--- repair ---\n\n";
+
+/**
+ * What came back for an evaluation: the raw text, and the verdict it holds
+ * if it fit the schema (after one repair, at most)
+ */
+type Answer = {
+	rawResponse: string;
+	response: EvaluationResponse | null;
+	issues: string[];
+};
+
+const clamp = (value: number, min: number, max: number): number =>
+	Math.min(max, Math.max(min, value));
+
+const errorMessage = (error: unknown): string =>
+	error instanceof Error ? error.message : String(error);
+
+/**
+ * Result messages that end a query without an answer, e.g. an API error
+ * such as a rate limit, or running out of turns
+ */
+const resultError = (message: SDKResultMessage): string | null => {
+	if (message.subtype !== "success") return message.subtype;
+	return message.is_error ? message.result : null;
+};
+
+/**
+ * Files captured with a screenshot live next to it, wherever the
+ * screenshot directory has been moved
+ */
+const besideScreenshot = (screenshotPath: string, file: string): string =>
+	path.join(path.dirname(screenshotPath), path.basename(file));
+
+/**
+ * What the report shows of a baseline comparison
+ */
+const toBaselineVerdict = ({
+	entry,
+	unchanged,
+	changedPixels,
+	changedCells,
+	diffPath,
+}: BaselineComparison): BaselineVerdict => ({
+	runId: entry.runId,
+	unchanged,
+	changedPixels,
+	changedCells,
+	diffPath,
+});
 
 export class Evaluator implements IVisualTestEvaluator {
 	private criteria: EvaluationCriteria;
@@ -31,11 +123,28 @@ export class Evaluator implements IVisualTestEvaluator {
 	private readonly evaluatorLogger = logger.child({
 		name: "Evaluator",
 	});
-	private readonly agentService: IAgentService;
+	private readonly createAgent: AgentFactory;
+	private readonly concurrency: number;
+	private readonly retryPolicy: RetryPolicy;
+	private readonly cache?: EvaluationCache;
+	private readonly consensus?: ConsensusConfig;
+	// A rate limit holds back every worker until then, not just the one
+	// that hit it
+	private pausedUntil = 0;
+	// Model the agents answer with, part of every cache key; looked up once
+	private model?: { name?: string };
 
-	constructor(agentService: IAgentService, config?: EvaluationConfig) {
-		this.agentService = agentService;
+	constructor(createAgent: AgentFactory, config?: EvaluationConfig) {
+		this.createAgent = createAgent;
 		this.criteria = config?.criteria ?? DEFAULT_CRITERIA;
+		this.concurrency = config?.concurrency ?? DEFAULT_CONCURRENCY;
+		this.retryPolicy = {
+			retries: config?.retries ?? DEFAULT_RETRY_POLICY.retries,
+			retryDelayMs: config?.retryDelayMs ?? DEFAULT_RETRY_POLICY.retryDelayMs,
+			timeoutMs: config?.timeoutMs ?? DEFAULT_RETRY_POLICY.timeoutMs,
+		};
+		this.cache = config?.cache;
+		this.consensus = resolveConsensus(config?.consensus);
 		this.promptBuilder = new PromptBuilder();
 	}
 
@@ -44,12 +153,15 @@ export class Evaluator implements IVisualTestEvaluator {
 	}
 
 	private async collectResponseText(
+		agent: IAgentService,
 		messageIterator: AsyncIterable<SDKUserMessage>
 	): Promise<string> {
 		let responseText = "";
-		for await (const response of this.agentService.startQuery(
-			messageIterator
-		)) {
+		for await (const response of agent.startQuery(messageIterator)) {
+			if (response.type === "result") {
+				const error = resultError(response);
+				if (error) throw new Error(`Agent query failed: ${error}`);
+			}
 			if (response.type === "assistant") {
 				for (const content of response.message.content) {
 					if (content.type === "text") {
@@ -61,39 +173,373 @@ export class Evaluator implements IVisualTestEvaluator {
 		return responseText;
 	}
 
-	private parseEvaluationResult(
+	private toEvaluationResult(
 		metadata: ScreenshotMetadata,
-		responseText: string
+		result: EvaluationResponse
 	): EvaluationResult {
-		// Parse JSON response
-		const jsonMatch = responseText.match(JSON_EXTRACTION_REGEX);
-		if (!jsonMatch) {
-			throw new Error("No JSON found in response");
+		return {
+			componentName: metadata.componentName,
+			scenarioName: metadata.scenarioName,
+			filePath: metadata.filePath,
+			passed: result.passed,
+			confidence: clamp(result.confidence, 0, 1),
+			reasoning: result.reasoning,
+			observations: result.observations,
+			suggestions: result.suggestions,
+			timestamp: Date.now(),
+			frames: metadata.frames,
+			animation: metadata.animation,
+		};
+	}
+
+	/**
+	 * Text snapshot captured with a screenshot, looked up next to it like
+	 * the screenshot itself; undefined if there is none
+	 */
+	private async readTextSnapshot(
+		textPath: string | undefined,
+		screenshotPath: string
+	): Promise<string | undefined> {
+		if (!textPath) return;
+
+		try {
+			return await fs.readFile(
+				besideScreenshot(screenshotPath, textPath),
+				"utf-8"
+			);
+		} catch {
+			this.evaluatorLogger.warn(`Text snapshot not found: ${textPath}`);
+			return;
 		}
+	}
 
-		const result = JSON.parse(jsonMatch[0]) as {
-			passed: boolean;
-			confidence: number;
-			reasoning: string;
-			observations: {
-				elementsFound: string[];
-				textContent: string[];
-				layoutDescription: string;
-				colorScheme: string[];
+	/**
+	 * Frames to show the model - every frame of an animated capture, or
+	 * just the screenshot - and what the prompt needs to know about them
+	 */
+	private async loadFrames(
+		metadata: ScreenshotMetadata,
+		screenshotPath: string
+	): Promise<{ images: string[]; context: EvaluationContext }> {
+		if (!metadata.frames || metadata.frames.length < 2) {
+			return {
+				images: [screenshotPath],
+				context: {
+					textSnapshot: await this.readTextSnapshot(
+						metadata.snapshots?.text,
+						screenshotPath
+					),
+				},
+			};
+		}
+
+		const frames = await Promise.all(
+			metadata.frames.map(async (frame) => ({
+				offsetMs: frame.offsetMs,
+				textSnapshot: await this.readTextSnapshot(
+					frame.snapshots?.text,
+					screenshotPath
+				),
+			}))
+		);
+		return {
+			images: metadata.frames.map((frame) =>
+				besideScreenshot(screenshotPath, frame.filePath)
+			),
+			context: { frames },
+		};
+	}
+
+	/**
+	 * Send images and a prompt as one message and collect the answer
+	 */
+	private async query(
+		agent: IAgentService,
+		images: string[],
+		prompt: string
+	): Promise<string> {
+		const imageContent = await Promise.all(
+			images.map(async (imagePath) => ({
+				type: "image" as const,
+				source: {
+					type: "base64" as const,
+					media_type: "image/png" as const,
+					data: (await fs.readFile(imagePath)).toString("base64"),
+				},
+			}))
+		);
+
+		// Create message with image
+		const sessionId = agent.getSessionId();
+		const message: SDKUserMessage = {
+			type: "user",
+			session_id: sessionId || "",
+			parent_tool_use_id: null,
+			message: {
+				role: "user",
+				content: [
+					...imageContent,
+					{
+						type: "text",
+						text: prompt,
+					},
+				],
+			},
+		};
+
+		// Create async iterator for message
+		const messageIterator = {
+			[Symbol.asyncIterator]() {
+				let yielded = false;
+				return {
+					next() {
+						if (yielded) {
+							return Promise.resolve({
+								done: true as const,
+								value: undefined,
+							});
+						}
+						yielded = true;
+						return Promise.resolve({ done: false as const, value: message });
+					},
+				};
+			},
+		};
+
+		// Send to agent and collect response
+		return await this.collectResponseText(agent, messageIterator);
+	}
+
+	/**
+	 * Ask once and check the answer against the schema; if it doesn't fit,
+	 * ask the same session once more to repair it
+	 */
+	private async converse(
+		agent: IAgentService,
+		images: string[],
+		prompt: string,
+		schema: ObjectSchema,
+		signal: AbortSignal
+	): Promise<Answer> {
+		const rawResponse = await this.query(agent, images, prompt);
+		const first = parseResponse(rawResponse, schema);
+		if (first.response) return { rawResponse, ...first };
+		// A timed out attempt is over; its (stopped) answer needs no repair
+		signal.throwIfAborted();
+
+		this.evaluatorLogger.warn(
+			`Unusable response (${first.issues.join("; ")}), asking for a repair`
+		);
+		const repair = await this.query(
+			agent,
+			[],
+			this.promptBuilder.buildRepairPrompt(first.issues)
+		);
+		return {
+			rawResponse: `${rawResponse}${REPAIR_SEPARATOR}${repair}`,
+			...parseResponse(repair, schema),
+		};
+	}
+
+	/**
+	 * Query a fresh agent per attempt (switched to the given model, if
+	 * any), each attempt with its own timeout, retrying transient failures
+	 * with exponential backoff
+	 */
+	private async ask(
+		key: string,
+		images: string[],
+		prompt: string,
+		schema: ObjectSchema,
+		model?: string
+	): Promise<Answer> {
+		const policy = this.retryPolicy;
+		for (let retry = 0; ; retry++) {
+			await sleep(this.pausedUntil - Date.now());
+			const agent = this.createAgent();
+			if (model) await agent.setModel(model);
+			const attempt = new AbortController();
+			try {
+				return await withTimeout(
+					this.converse(agent, images, prompt, schema, attempt.signal),
+					policy.timeoutMs,
+					() => {
+						attempt.abort();
+						agent.stop();
+					}
+				);
+			} catch (error) {
+				if (!isTransientError(error)) throw error;
+				if (retry >= policy.retries) {
+					throw new Error(
+						`${errorMessage(error)} (gave up after ${retry + 1} attempts)`
+					);
+				}
+
+				const delay = backoffDelay(retry, policy);
+				if (isRateLimitError(error)) {
+					this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+				}
+				this.evaluatorLogger.warn(
+					`${key}: ${errorMessage(error)}, retrying in ${delay}ms`
+				);
+				await sleep(delay);
+			}
+		}
+	}
+
+	/**
+	 * Cache key of an evaluation; undefined without a cache
+	 */
+	private async cacheKey(
+		images: string[],
+		prompt: string
+	): Promise<string | undefined> {
+		if (!this.cache) return;
+
+		this.model ??= { name: this.createAgent().getModel() };
+		return await this.cache.keyOf({
+			images,
+			prompt,
+			criteria: this.criteria,
+			model: this.model.name,
+			consensus: this.consensus,
+		});
+	}
+
+	/**
+	 * Verdict on images and a prompt: the cached one if they were evaluated
+	 * the same way before, otherwise the model's, cached for next time
+	 */
+	private async judge(
+		metadata: ScreenshotMetadata,
+		images: string[],
+		prompt: string,
+		schema: ObjectSchema,
+		toResult: ToResult
+	): Promise<EvaluationResult> {
+		const key = await this.cacheKey(images, prompt);
+		const cached = key ? await this.cache?.get(key) : null;
+		if (cached) {
+			this.evaluatorLogger.info(`Cached verdict: ${baselineKey(metadata)}`);
+			return {
+				...cached,
+				scenarioName: metadata.scenarioName,
+				filePath: metadata.filePath,
+				timestamp: Date.now(),
+				frames: metadata.frames,
+				animation: metadata.animation,
 			};
-			suggestions?: string[];
+		}
+
+		const result = this.consensus
+			? await this.vote(metadata, images, prompt, schema, toResult)
+			: this.decide(
+					metadata,
+					await this.ask(baselineKey(metadata), images, prompt, schema),
+					toResult
+				);
+		if (key && !result.error) await this.cache?.set(key, result);
+		return result;
+	}
+
+	/**
+	 * Result of a single answer; errored if it holds no verdict
+	 */
+	private decide(
+		metadata: ScreenshotMetadata,
+		{ rawResponse, response, issues }: Answer,
+		toResult: ToResult
+	): EvaluationResult {
+		if (!response) {
+			const error = new Error(`Unusable response: ${issues.join("; ")}`);
+			return { ...this.erroredEvaluation(metadata, error), rawResponse };
+		}
+		return { ...toResult(response), rawResponse };
+	}
+
+	/**
+	 * Sample independent evaluations, one after another (the pool already
+	 * bounds how many run at once), taking models in turn, and combine them
+	 * by vote; errored samples count against agreement
+	 */
+	private async vote(
+		metadata: ScreenshotMetadata,
+		images: string[],
+		prompt: string,
+		schema: ObjectSchema,
+		toResult: ToResult
+	): Promise<EvaluationResult> {
+		const consensus = this.consensus as ConsensusConfig;
+		const key = baselineKey(metadata);
+		const samples: Sample[] = [];
+		for (let index = 0; index < consensus.samples; index++) {
+			const model = consensus.models?.[index % consensus.models.length];
+			try {
+				const answer = await this.ask(key, images, prompt, schema, model);
+				samples.push({ model, ...answer });
+			} catch (error) {
+				samples.push({
+					model,
+					response: null,
+					rawResponse: "",
+					issues: [errorMessage(error)],
+				});
+			}
+		}
+
+		const votes = tally(samples, consensus);
+		if (!votes) {
+			const [first] = samples;
+			return this.decide(
+				metadata,
+				{ rawResponse: "", response: null, issues: first?.issues ?? [] },
+				toResult
+			);
+		}
+
+		this.evaluatorLogger.info(
+			`${key}: ${(votes.consensus.agreement * PERCENTAGE_MULTIPLIER).toFixed(0)}% agreement over ${samples.length} samples`
+		);
+		const { response, rawResponse } = votes.winner;
+		return {
+			...toResult({ ...response, confidence: votes.confidence }),
+			rawResponse,
+			consensus: votes.consensus,
 		};
+	}
+
+	/**
+	 * Result of an evaluation that never reached a verdict - reported as
+	 * errored, apart from scenarios the model judged to fail
+	 */
+	private erroredEvaluation(
+		metadata: ScreenshotMetadata,
+		error: unknown
+	): EvaluationResult {
+		this.evaluatorLogger.error(
+			`Evaluation errored for ${baselineKey(metadata)}`,
+			error
+		);
 
 		return {
 			componentName: metadata.componentName,
 			scenarioName: metadata.scenarioName,
 			filePath: metadata.filePath,
-			passed: result.passed,
-			confidence: result.confidence,
-			reasoning: result.reasoning,
-			observations: result.observations,
-			suggestions: result.suggestions,
+			passed: false,
+			confidence: 0,
+			reasoning: `Evaluation errored: ${errorMessage(error)}`,
+			observations: {
+				elementsFound: [],
+				textContent: [],
+				layoutDescription: "Error during evaluation",
+				colorScheme: [],
+			},
+			suggestions: ["Retry evaluation", "Check screenshot quality"],
 			timestamp: Date.now(),
+			frames: metadata.frames,
+			animation: metadata.animation,
+			error: errorMessage(error),
 		};
 	}
 
@@ -106,118 +552,134 @@ export class Evaluator implements IVisualTestEvaluator {
 		);
 
 		try {
-			// Read screenshot as base64
-			const screenshotBuffer = await fs.readFile(screenshotPath);
-			const screenshotBase64 = screenshotBuffer.toString("base64");
+			// Read screenshot (every frame, if animated)
+			const { images, context } = await this.loadFrames(
+				metadata,
+				screenshotPath
+			);
 
 			// Build evaluation prompt
 			const prompt = this.promptBuilder.buildEvaluationPrompt(
 				metadata,
-				this.criteria
+				this.criteria,
+				context
 			);
 
-			// Create message with image
-			const sessionId = this.agentService.getSessionId();
-			const message: SDKUserMessage = {
-				type: "user",
-				session_id: sessionId || "",
-				parent_tool_use_id: null,
-				message: {
-					role: "user",
-					content: [
-						{
-							type: "image",
-							source: {
-								type: "base64",
-								media_type: "image/png",
-								data: screenshotBase64,
-							},
-						},
-						{
-							type: "text",
-							text: prompt,
-						},
-					],
-				},
-			};
-
-			// Create async iterator for message
-			const messageIterator = {
-				[Symbol.asyncIterator]() {
-					let yielded = false;
-					return {
-						next() {
-							if (yielded) {
-								return Promise.resolve({
-									done: true as const,
-									value: undefined,
-								});
-							}
-							yielded = true;
-							return Promise.resolve({ done: false as const, value: message });
-						},
-					};
-				},
-			};
-
-			// Send to agent and collect response
-			const responseText = await this.collectResponseText(messageIterator);
-
-			// Parse and return result
-			return this.parseEvaluationResult(metadata, responseText);
-		} catch (error) {
-			this.evaluatorLogger.error(
-				`Evaluation failed for ${metadata.componentName}/${metadata.scenarioName}`,
-				error
+			return await this.judge(
+				metadata,
+				images,
+				prompt,
+				VERDICT_SCHEMA,
+				(response) => this.toEvaluationResult(metadata, response)
 			);
+		} catch (error) {
+			return this.erroredEvaluation(metadata, error);
+		}
+	}
 
-			// Return failed evaluation on error
+	async evaluateAgainstBaseline(
+		metadata: ScreenshotMetadata,
+		screenshotPath: string,
+		comparison: BaselineComparison
+	): Promise<EvaluationResult> {
+		const verdict = toBaselineVerdict(comparison);
+		if (comparison.unchanged) {
+			this.evaluatorLogger.info(
+				`Unchanged since baseline: ${metadata.componentName}/${metadata.scenarioName}`
+			);
 			return {
-				componentName: metadata.componentName,
+				...comparison.entry.result,
 				scenarioName: metadata.scenarioName,
 				filePath: metadata.filePath,
-				passed: false,
-				confidence: 0,
-				reasoning: `Evaluation failed: ${error instanceof Error ? error.message : String(error)}`,
-				observations: {
-					elementsFound: [],
-					textContent: [],
-					layoutDescription: "Error during evaluation",
-					colorScheme: [],
-				},
-				suggestions: ["Retry evaluation", "Check screenshot quality"],
 				timestamp: Date.now(),
+				frames: metadata.frames,
+				animation: metadata.animation,
+				baseline: verdict,
 			};
 		}
+
+		this.evaluatorLogger.info(
+			`Comparing ${metadata.componentName}/${metadata.scenarioName} with its baseline`
+		);
+
+		try {
+			const textSnapshot = await this.readTextSnapshot(
+				metadata.snapshots?.text,
+				screenshotPath
+			);
+			const images = [comparison.baselinePath, screenshotPath];
+			if (comparison.diffPath) images.push(comparison.diffPath);
+
+			const prompt = this.promptBuilder.buildComparisonPrompt(
+				comparison.entry.metadata,
+				metadata,
+				{
+					baselineReasoning: comparison.entry.result.reasoning,
+					changedPixels: comparison.changedPixels,
+					changedCells: comparison.changedCells,
+					expectationChanged: comparison.expectationChanged,
+					hasDiffMask: Boolean(comparison.diffPath),
+					textSnapshot,
+				}
+			);
+
+			const result = await this.judge(
+				metadata,
+				images,
+				prompt,
+				COMPARISON_SCHEMA,
+				(response) => ({
+					...this.toEvaluationResult(metadata, response),
+					baseline: {
+						...verdict,
+						isRegression: response.isRegression,
+						differences: response.differences,
+					},
+				})
+			);
+			// A cached verdict keeps its regression call, not its diff
+			return { ...result, baseline: { ...result.baseline, ...verdict } };
+		} catch (error) {
+			return { ...this.erroredEvaluation(metadata, error), baseline: verdict };
+		}
 	}
 
 	async evaluateBatch(
-		metadataPath: string,
-		screenshotDir: string
+		metadataSource: string | ScreenshotMetadata[],
+		screenshotDir: string,
+		baselines: Map<string, BaselineComparison> = new Map()
 	): Promise<EvaluationResult[]> {
 		this.evaluatorLogger.info("Starting batch evaluation");
 
-		// Load metadata
-		const metadataContent = await fs.readFile(metadataPath, "utf-8");
-		const metadata: ScreenshotMetadata[] = JSON.parse(metadataContent);
+		// Load metadata, unless the caller already has it
+		const metadata: ScreenshotMetadata[] =
+			typeof metadataSource === "string"
+				? JSON.parse(await fs.readFile(metadataSource, "utf-8"))
+				: metadataSource;
 
 		this.evaluatorLogger.info(
 			`Loaded ${metadata.length} screenshots to evaluate`
 		);
 
-		// Evaluate all screenshots in parallel
-		const results = await Promise.all(
-			metadata.map((meta) => {
+		// Evaluate in a bounded pool, each evaluation with its own agent
+		const results = await mapWithConcurrency(
+			metadata,
+			this.concurrency,
+			(meta) => {
 				const screenshotPath = path.join(
 					screenshotDir,
 					path.basename(meta.filePath)
 				);
-				return this.evaluateScreenshot(meta, screenshotPath);
-			})
+				const comparison = baselines.get(baselineKey(meta));
+				return comparison
+					? this.evaluateAgainstBaseline(meta, screenshotPath, comparison)
+					: this.evaluateScreenshot(meta, screenshotPath);
+			}
 		);
 
+		const errored = results.filter((result) => result.error).length;
 		this.evaluatorLogger.info(
-			`Batch evaluation complete: ${results.length} results`
+			`Batch evaluation complete: ${results.length} results, ${errored} errored`
 		);
 
 		return results;
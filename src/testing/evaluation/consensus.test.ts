@@ -0,0 +1,72 @@
+import { describe, expect, test } from "bun:test";
+import { resolveConsensus, type Sample, tally } from "./consensus";
+
+const HESITANT = 0.4;
+const CONFIDENT = 0.95;
+const SAMPLES = 3;
+const TWO_OF_THREE = 2 / SAMPLES;
+const ONE_OF_THREE = 1 / SAMPLES;
+
+const sample = (passed: boolean, confidence: number): Sample => ({
+	response: {
+		passed,
+		confidence,
+		reasoning: passed ? "Spinner is blue" : "Spinner is purple",
+		observations: {
+			elementsFound: [],
+			textContent: [],
+			layoutDescription: "",
+			colorScheme: [],
+		},
+	},
+	rawResponse: "",
+	issues: [],
+});
+
+const errored: Sample = {
+	response: null,
+	rawResponse: "",
+	issues: ["Timed out after 120000ms"],
+};
+
+describe("consensus", () => {
+	test("only votes when more than one sample is asked for", () => {
+		expect(resolveConsensus()).toBeUndefined();
+		expect(resolveConsensus({ samples: 1 })).toBeUndefined();
+		expect(resolveConsensus({ models: ["sonnet", "opus"] })).toMatchObject({
+			samples: 2,
+			vote: "majority",
+		});
+	});
+
+	test("majority and confidence-weighted votes can disagree", () => {
+		const samples = [
+			sample(true, HESITANT),
+			sample(true, HESITANT),
+			sample(false, CONFIDENT),
+		];
+		const majority = resolveConsensus({ samples: SAMPLES, vote: "majority" });
+		const weighted = resolveConsensus({ samples: SAMPLES, vote: "weighted" });
+		if (!(majority && weighted)) throw new Error("consensus not resolved");
+
+		const byCount = tally(samples, majority);
+		expect(byCount?.winner.response.passed).toBe(true);
+		expect(byCount?.consensus.agreement).toBeCloseTo(TWO_OF_THREE);
+		expect(byCount?.consensus.uncertain).toBe(false);
+
+		const byConfidence = tally(samples, weighted);
+		expect(byConfidence?.winner.response.passed).toBe(false);
+		expect(byConfidence?.consensus.uncertain).toBe(true);
+	});
+
+	test("errored samples count against agreement", () => {
+		const config = resolveConsensus({ samples: SAMPLES });
+		if (!config) throw new Error("consensus not resolved");
+
+		const result = tally([sample(true, CONFIDENT), errored, errored], config);
+		expect(result?.consensus.agreement).toBeCloseTo(ONE_OF_THREE);
+		expect(result?.consensus.uncertain).toBe(true);
+		expect(result?.consensus.samples[1]?.error).toContain("Timed out");
+		expect(tally([errored, errored], config)).toBeNull();
+	});
+});
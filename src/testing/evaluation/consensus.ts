@@ -0,0 +1,139 @@
+/**
+ * Consensus voting
+ * Single Responsibility: Combine independent evaluations of one screenshot
+ * into a single verdict, and say how much the samples agreed on it
+ */
+
+import type { EvaluationResponse } from "./schema";
+
+export type VoteMethod = "majority" | "weighted";
+
+export type ConsensusConfig = {
+	samples: number; // Independent evaluations per screenshot
+	models?: string[]; // Sampled in turn; default: the agent's own model
+	vote: VoteMethod; // weighted: each sample counts by its confidence
+	minAgreement: number; // Share of samples behind the verdict (0-1), below which it is uncertain
+};
+
+/**
+ * One sample as recorded on the result
+ */
+export type ConsensusSample = {
+	model?: string;
+	passed?: boolean; // Absent when the sample errored
+	confidence?: number;
+	reasoning?: string;
+	error?: string;
+};
+
+export type ConsensusVerdict = {
+	vote: VoteMethod;
+	agreement: number; // Share of all samples, errored ones included, behind the verdict
+	uncertain: boolean; // Agreement below minAgreement
+	samples: ConsensusSample[];
+};
+
+/**
+ * What one sample came back with; response is null if it has no verdict
+ */
+export type Sample = {
+	model?: string;
+	response: EvaluationResponse | null;
+	rawResponse: string;
+	issues: string[];
+};
+
+type Voted = Sample & { response: EvaluationResponse };
+
+export type Tally = {
+	winner: Voted; // Most confident sample behind the verdict
+	confidence: number; // Mean confidence of the samples behind the verdict
+	consensus: ConsensusVerdict;
+};
+
+const DEFAULT_MIN_AGREEMENT = 0.6;
+
+/**
+ * Consensus settings with defaults filled in; undefined unless more than
+ * one sample is asked for (samples default to one per model)
+ */
+export function resolveConsensus(
+	config?: Partial<ConsensusConfig>
+): ConsensusConfig | undefined {
+	const samples = config?.samples ?? config?.models?.length ?? 1;
+	if (samples < 2) return;
+
+	return {
+		samples,
+		models: config?.models,
+		vote: config?.vote ?? "majority",
+		minAgreement: config?.minAgreement ?? DEFAULT_MIN_AGREEMENT,
+	};
+}
+
+const support = (votes: Voted[], method: VoteMethod): number =>
+	method === "weighted"
+		? votes.reduce((sum, sample) => sum + sample.response.confidence, 0)
+		: votes.length;
+
+/**
+ * Whether the samples pass the screenshot: by count, or by total
+ * confidence when weighted; a tie is broken by the other method, and
+ * fails if that ties too
+ */
+const decide = (votes: Voted[], method: VoteMethod): boolean => {
+	const pass = votes.filter((sample) => sample.response.passed);
+	const fail = votes.filter((sample) => !sample.response.passed);
+	const methods: VoteMethod[] =
+		method === "weighted" ? ["weighted", "majority"] : ["majority", "weighted"];
+	for (const by of methods) {
+		const margin = support(pass, by) - support(fail, by);
+		if (margin !== 0) return margin > 0;
+	}
+	return false;
+};
+
+const toConsensusSample = ({
+	model,
+	response,
+	issues,
+}: Sample): ConsensusSample =>
+	response
+		? {
+				model,
+				passed: response.passed,
+				confidence: response.confidence,
+				reasoning: response.reasoning,
+			}
+		: { model, error: issues.join("; ") };
+
+/**
+ * Combine samples into one verdict; null if none of them has one
+ */
+export function tally(
+	samples: Sample[],
+	config: ConsensusConfig
+): Tally | null {
+	const votes = samples.filter((sample): sample is Voted =>
+		Boolean(sample.response)
+	);
+	if (votes.length === 0) return null;
+
+	const passed = decide(votes, config.vote);
+	const behind = votes
+		.filter((sample) => sample.response.passed === passed)
+		.sort((a, b) => b.response.confidence - a.response.confidence);
+	const [winner] = behind as [Voted, ...Voted[]];
+	const agreement = behind.length / samples.length;
+
+	return {
+		winner,
+		confidence: support(behind, "weighted") / behind.length,
+		consensus: {
+			vote: config.vote,
+			agreement,
+			uncertain: agreement < config.minAgreement,
+			samples: samples.map(toConsensusSample),
+		},
+	};
+}
@@ -5,13 +5,26 @@
 export type {
 	ComponentSummary,
 	ITestResultCollector,
+	ResultStatus,
 	TestSummary,
 } from "./Collector";
-export { Collector } from "./Collector";
+export { Collector, resultStatus } from "./Collector";
+export type {
+	ConsensusConfig,
+	ConsensusSample,
+	ConsensusVerdict,
+	VoteMethod,
+} from "./consensus";
+export type { EvaluationCacheInputs } from "./EvaluationCache";
+export { EvaluationCache } from "./EvaluationCache";
 export { Evaluator } from "./Evaluator";
 export type {
+	AgentFactory,
 	EvaluationConfig,
 	EvaluationCriteria,
 	EvaluationResult,
 	IVisualTestEvaluator,
+	Review,
+	ReviewCall,
+	ReviewDecision,
 } from "./types";
@@ -2,31 +2,67 @@
  * Prompt builder for AI evaluation
  */
 
-import type { ScreenshotMetadata } from "../../types";
+import type { InteractionStep, ScreenshotMetadata } from "../../types";
 import type { EvaluationCriteria, EvaluationResult } from "../types";
 import {
 	COMPARISON_PROMPT_TEMPLATE,
 	EVALUATION_PROMPT_TEMPLATE,
+	REPAIR_PROMPT_TEMPLATE,
 	SUMMARY_PROMPT_TEMPLATE,
 } from "./templates";
 
+/**
+ * What the evaluator read from disk to go with the screenshot
+ */
+export type EvaluationContext = {
+	/** Exact terminal text of the (first) frame */
+	textSnapshot?: string;
+	/** Frame sequence of an animated capture, in order */
+	frames?: Array<{ offsetMs: number; textSnapshot?: string }>;
+};
+
+/**
+ * What the diff stage found, for a comparison against a baseline
+ */
+export type ComparisonContext = {
+	/** Reasoning the baseline was approved with */
+	baselineReasoning?: string;
+	changedPixels: number;
+	changedCells?: number;
+	expectationChanged: boolean;
+	/** Whether a third image highlights the changed pixels */
+	hasDiffMask: boolean;
+	/** Exact terminal text of the current screenshot */
+	textSnapshot?: string;
+};
+
 export type IPromptBuilder = {
 	/**
-	 * Builds evaluation prompt for a screenshot
+	 * Builds evaluation prompt for a screenshot, quoting the exact terminal
+	 * text and describing the frame sequence when they were captured
 	 */
 	buildEvaluationPrompt(
 		metadata: ScreenshotMetadata,
-		criteria: EvaluationCriteria
+		criteria: EvaluationCriteria,
+		context?: EvaluationContext
 	): string;
 
 	/**
-	 * Builds comparison prompt for regression testing
+	 * Builds comparison prompt for regression testing, describing what the
+	 * diff stage found when it's given
 	 */
 	buildComparisonPrompt(
 		baseline: ScreenshotMetadata,
-		current: ScreenshotMetadata
+		current: ScreenshotMetadata,
+		comparison?: ComparisonContext
 	): string;
 
+	/**
+	 * Builds the follow-up asking the model to fix an answer that didn't
+	 * fit the response schema, listing what was wrong
+	 */
+	buildRepairPrompt(issues: string[]): string;
+
 	/**
 	 * Builds summary prompt for multiple results
 	 */
@@ -48,15 +84,101 @@ function interpolate(
 	return result;
 }
 
+const codeBlock = (text: string): string => `\`\`\`\n${text}\`\`\`\n`;
+
+const describeStep = (step: InteractionStep): string => {
+	switch (step.action) {
+		case "press":
+			return `Pressed ${step.key}`;
+		case "type":
+			return `Typed ${JSON.stringify(step.text)}`;
+		case "wait":
+			return `Waited ${step.ms}ms`;
+		case "resize":
+			return `Resized the terminal to ${step.cols}x${step.rows} cells`;
+		case "capture":
+			return `Took the "${step.name}" screenshot`;
+		default:
+			return JSON.stringify(step satisfies never);
+	}
+};
+
+/**
+ * Describes what a user did to the component before the screenshot, for
+ * checkpoints of a scripted scenario
+ */
+function describeInteractions(steps: InteractionStep[] = []): string {
+	if (steps.length === 0) return "";
+
+	const described = steps
+		.map((step, index) => `${index + 1}. ${describeStep(step)}`)
+		.join("\n");
+	return `\nThe screenshot was taken after these interactions, in order, so judge the state they leave the component in:\n${described}\n`;
+}
+
+/**
+ * Describes how a screenshot differs from its baseline, and the images
+ * that show it
+ */
+function describeComparison(comparison?: ComparisonContext): string {
+	if (!comparison) return "";
+
+	const changes = [`${comparison.changedPixels} pixels changed`];
+	if (comparison.changedCells !== undefined) {
+		changes.push(`${comparison.changedCells} terminal cells changed`);
+	}
+	if (comparison.expectationChanged) {
+		changes.push("the expectation changed since the baseline was approved");
+	}
+	const mask = comparison.hasDiffMask
+		? " The third image is the current screenshot dimmed, with every changed pixel highlighted in red."
+		: "";
+	const verdict = comparison.baselineReasoning
+		? `\nThe baseline was approved because: ${comparison.baselineReasoning}\n`
+		: "";
+	const text = comparison.textSnapshot
+		? `\nExact terminal text of the current screenshot:\n${codeBlock(comparison.textSnapshot)}`
+		: "";
+
+	return `\nThe first image is the approved baseline, the second the current screenshot.${mask}\nDiff: ${changes.join(", ")}.\n${verdict}${text}`;
+}
+
+/**
+ * Describes each frame of an animated capture, with its exact text
+ */
+function describeFrames(
+	frames: NonNullable<EvaluationContext["frames"]>
+): string {
+	if (frames.length < 2) return "";
+
+	const described = frames
+		.map(({ offsetMs, textSnapshot }, index) => {
+			const heading = `Frame ${index + 1} of ${frames.length} (+${offsetMs}ms)`;
+			return textSnapshot
+				? `${heading}, exact terminal text:\n${codeBlock(textSnapshot)}`
+				: heading;
+		})
+		.join("\n");
+
+	return `\nThis scenario is animated. The ${frames.length} images are consecutive frames in order, so check motion and changes over time as well as each frame:\n${described}\n`;
+}
+
 export class PromptBuilder implements IPromptBuilder {
 	buildEvaluationPrompt(
 		metadata: ScreenshotMetadata,
-		criteria: EvaluationCriteria
+		criteria: EvaluationCriteria,
+		context: EvaluationContext = {}
 	): string {
+		const { textSnapshot, frames = [] } = context;
 		const customRulesText =
 			criteria.customRules && criteria.customRules.length > 0
 				? `\nCustom Rules:\n${criteria.customRules.map((rule) => `- ${rule}`).join("\n")}`
 				: "";
+		// Animated captures quote each frame's text with the frame instead
+		const textSnapshotText =
+			textSnapshot && frames.length < 2
+				? `\nExact terminal text (read from the renderer, use it instead of reading text off the image):\n${codeBlock(textSnapshot)}`
+				: "";
 
 		return interpolate(EVALUATION_PROMPT_TEMPLATE, {
 			componentName: metadata.componentName,
@@ -68,20 +190,32 @@ export class PromptBuilder implements IPromptBuilder {
 			checkLayout: criteria.checkLayout,
 			checkColors: criteria.checkColors,
 			customRules: customRulesText,
+			interactions: describeInteractions(metadata.interactions),
+			textSnapshot: textSnapshotText,
+			frameSequence: describeFrames(frames),
 		});
 	}
 
 	buildComparisonPrompt(
 		baseline: ScreenshotMetadata,
-		current: ScreenshotMetadata
+		current: ScreenshotMetadata,
+		comparison?: ComparisonContext
 	): string {
 		return interpolate(COMPARISON_PROMPT_TEMPLATE, {
+			comparison: describeComparison(comparison),
 			baselineComponentName: baseline.componentName,
 			baselineScenarioName: baseline.scenarioName,
 			baselineExpectation: baseline.expectation,
 			currentComponentName: current.componentName,
 			currentScenarioName: current.scenarioName,
 			currentExpectation: current.expectation,
+			interactions: describeInteractions(current.interactions),
+		});
+	}
+
+	buildRepairPrompt(issues: string[]): string {
+		return interpolate(REPAIR_PROMPT_TEMPLATE, {
+			issues: issues.map((issue) => `- ${issue}`).join("\n"),
 		});
 	}
 
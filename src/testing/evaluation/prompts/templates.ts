@@ -8,7 +8,7 @@ Component: {componentName}
 Scenario: {scenarioName}
 Description: {description}
 Expected Outcome: {expectation}
-
+{interactions}{textSnapshot}{frameSequence}
 Please analyze the screenshot and provide:
 1. Whether it matches the expectation (pass/fail)
 2. Confidence level (0-1)
@@ -38,7 +38,7 @@ Respond in JSON format:
 }`;
 
 export const COMPARISON_PROMPT_TEMPLATE = `Compare these two terminal UI component screenshots for regression testing.
-
+{comparison}
 Baseline Component: {baselineComponentName}
 Baseline Scenario: {baselineScenarioName}
 Baseline Expectation: {baselineExpectation}
@@ -46,23 +46,37 @@ Baseline Expectation: {baselineExpectation}
 Current Component: {currentComponentName}
 Current Scenario: {currentScenarioName}
 Current Expectation: {currentExpectation}
-
+{interactions}
 Please analyze both screenshots and identify:
 1. Visual differences
 2. Layout changes
 3. Color scheme variations
 4. Text content changes
 5. Whether the changes are acceptable or represent regressions
+6. Whether the current screenshot matches the current expectation
 
 Respond in JSON format:
 {
+  "passed": boolean,
   "isRegression": boolean,
   "confidence": number,
   "differences": string[],
   "reasoning": string,
-  "impact": "none" | "minor" | "major" | "critical"
+  "impact": "none" | "minor" | "major" | "critical",
+  "observations": {
+    "elementsFound": string[],
+    "textContent": string[],
+    "layoutDescription": string,
+    "colorScheme": string[]
+  },
+  "suggestions": string[]
 }`;
 
+export const REPAIR_PROMPT_TEMPLATE = `Your previous answer could not be read:
+{issues}
+
+Reply again with only the JSON object, in exactly the format requested, fixing the problems above. Keep the same assessment; write nothing outside the JSON.`;
+
 export const SUMMARY_PROMPT_TEMPLATE = `Summarize these visual test evaluation results.
 
 Total Tests: {totalTests}
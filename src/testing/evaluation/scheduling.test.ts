@@ -0,0 +1,33 @@
+import { describe, expect, test } from "bun:test";
+import { isRateLimitError, isTransientError } from "./scheduling";
+
+describe("isTransientError", () => {
+	test("retries rate limits, server errors and dropped connections", () => {
+		for (const message of [
+			"API Error: 429 rate_limit_error",
+			"API Error: 529 overloaded_error",
+			"API Error: 500 Internal server error",
+			"Request failed with status code 503",
+			"HTTP/1.1 502 Bad Gateway",
+			"Timed out after 120000ms",
+			"read ECONNRESET",
+		]) {
+			expect(isTransientError(new Error(message))).toBe(true);
+		}
+	});
+
+	test("doesn't retry a number that only looks like a server error", () => {
+		for (const message of [
+			"Expected a 512px wide panel",
+			"Screenshot is 500 by 300",
+			"Invalid API key",
+		]) {
+			expect(isTransientError(new Error(message))).toBe(false);
+		}
+	});
+
+	test("tells rate limits apart", () => {
+		expect(isRateLimitError("API Error: 429 rate_limit_error")).toBe(true);
+		expect(isRateLimitError("API Error: 503")).toBe(false);
+	});
+});
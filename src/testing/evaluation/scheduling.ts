@@ -0,0 +1,89 @@
+/**
+ * Evaluation scheduling
+ * Single Responsibility: Decide when an evaluation runs - how many at once,
+ * how long one may take, and whether and when a failed one is tried again
+ */
+
+export type RetryPolicy = {
+	retries: number; // Attempts after the first
+	retryDelayMs: number; // Before the first retry, doubled for each one after
+	timeoutMs: number; // Per attempt
+};
+
+// Errors worth another attempt: rate limits, overload, server errors and
+// dropped connections - never a bad answer, which would come back the same
+// A 5xx only counts as a status ("API Error: 503", "status code 502"), not
+// as any number that happens to appear in the message
+const TRANSIENT_ERROR =
+	/rate.?limit|overloaded|\b429\b|(?:API Error|status(?: code)?|HTTP(?:\/[\d.]+)?)\s*:?\s*5\d\d\b|timed? ?out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|network/i;
+const RATE_LIMIT_ERROR = /rate.?limit|\b429\b/i;
+
+const messageOf = (error: unknown): string =>
+	error instanceof Error ? error.message : String(error);
+
+export const isTransientError = (error: unknown): boolean =>
+	TRANSIENT_ERROR.test(messageOf(error));
+
+export const isRateLimitError = (error: unknown): boolean =>
+	RATE_LIMIT_ERROR.test(messageOf(error));
+
+/**
+ * Delay before retry number `retry` (0 for the first): exponential, with
+ * up to half of it again as jitter so parallel retries spread out
+ */
+export const backoffDelay = (retry: number, policy: RetryPolicy): number => {
+	const delay = policy.retryDelayMs * 2 ** retry;
+	return delay + Math.round(Math.random() * (delay / 2));
+};
+
+export const sleep = (ms: number): Promise<void> =>
+	new Promise((resolve) => setTimeout(resolve, Math.max(0, ms)));
+
+/**
+ * Settle with the promise, or reject once `ms` have passed, calling
+ * onTimeout first so the work behind the promise can be stopped
+ */
+export async function withTimeout<T>(
+	promise: Promise<T>,
+	ms: number,
+	onTimeout: () => void
+): Promise<T> {
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<never>((_, reject) => {
+		timer = setTimeout(() => {
+			onTimeout();
+			reject(new Error(`Timed out after ${ms}ms`));
+		}, ms);
+	});
+
+	try {
+		return await Promise.race([promise, timeout]);
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+/**
+ * Map items through an async worker, at most `concurrency` at a time;
+ * results keep the order of the items
+ */
+export async function mapWithConcurrency<T, R>(
+	items: T[],
+	concurrency: number,
+	worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+	const results = new Array<R>(items.length);
+	let next = 0;
+
+	const run = async (): Promise<void> => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await worker(items[index] as T, index);
+		}
+	};
+
+	// At least one worker, even for a concurrency that isn't a number
+	const workers = Math.max(1, Math.min(concurrency, items.length) || 1);
+	await Promise.all(Array.from({ length: workers }, run));
+	return results;
+}
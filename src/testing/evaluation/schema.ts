@@ -0,0 +1,128 @@
+/**
+ * Evaluation response schema
+ * Single Responsibility: Say what a usable answer from the model looks like,
+ * and check an answer against it - field by field, so a repair request can
+ * name exactly what was wrong
+ */
+
+type FieldType = "boolean" | "number" | "string" | "string[]";
+
+type FieldSchema =
+	| { type: FieldType; optional?: boolean }
+	| { type: "object"; fields: ObjectSchema; optional?: boolean };
+
+export type ObjectSchema = Record<string, FieldSchema>;
+
+/**
+ * What the model answers with; comparisons against a baseline add the
+ * regression fields
+ */
+export type EvaluationResponse = {
+	passed: boolean;
+	confidence: number;
+	reasoning: string;
+	observations: {
+		elementsFound: string[];
+		textContent: string[];
+		layoutDescription: string;
+		colorScheme: string[];
+	};
+	suggestions?: string[];
+	isRegression?: boolean;
+	differences?: string[];
+};
+
+export const VERDICT_SCHEMA: ObjectSchema = {
+	passed: { type: "boolean" },
+	confidence: { type: "number" },
+	reasoning: { type: "string" },
+	observations: {
+		type: "object",
+		fields: {
+			elementsFound: { type: "string[]" },
+			textContent: { type: "string[]" },
+			layoutDescription: { type: "string" },
+			colorScheme: { type: "string[]" },
+		},
+	},
+	suggestions: { type: "string[]", optional: true },
+};
+
+export const COMPARISON_SCHEMA: ObjectSchema = {
+	...VERDICT_SCHEMA,
+	isRegression: { type: "boolean" },
+	differences: { type: "string[]", optional: true },
+};
+
+const JSON_EXTRACTION_REGEX = /\{[\s\S]*\}/;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+const matches = (value: unknown, type: FieldSchema["type"]): boolean => {
+	switch (type) {
+		case "object":
+			return isObject(value);
+		case "string[]":
+			return (
+				Array.isArray(value) && value.every((item) => typeof item === "string")
+			);
+		case "number":
+			return typeof value === "number" && Number.isFinite(value);
+		default:
+			return typeof value === type;
+	}
+};
+
+/**
+ * Everything wrong with a value, as "field: problem"; empty if it fits
+ * Null counts as missing, so optional fields may be null
+ */
+export function validate(
+	value: Record<string, unknown>,
+	schema: ObjectSchema,
+	prefix = ""
+): string[] {
+	const issues: string[] = [];
+	for (const [name, field] of Object.entries(schema)) {
+		const fieldName = `${prefix}${name}`;
+		const fieldValue = value[name];
+
+		if (fieldValue === undefined || fieldValue === null) {
+			if (!field.optional) issues.push(`${fieldName}: missing`);
+		} else if (!matches(fieldValue, field.type)) {
+			issues.push(`${fieldName}: expected ${field.type}`);
+		} else if (field.type === "object" && isObject(fieldValue)) {
+			issues.push(...validate(fieldValue, field.fields, `${fieldName}.`));
+		}
+	}
+	return issues;
+}
+
+/**
+ * The JSON object in a response, checked against the schema; response is
+ * null whenever there are issues
+ */
+export function parseResponse(
+	text: string,
+	schema: ObjectSchema
+): { response: EvaluationResponse | null; issues: string[] } {
+	const json = text.match(JSON_EXTRACTION_REGEX);
+	if (!json) return { response: null, issues: ["no JSON object found"] };
+
+	let value: unknown;
+	try {
+		value = JSON.parse(json[0]);
+	} catch (error) {
+		const reason = error instanceof Error ? error.message : String(error);
+		return { response: null, issues: [`invalid JSON: ${reason}`] };
+	}
+	if (!isObject(value)) {
+		return { response: null, issues: ["expected a JSON object"] };
+	}
+
+	const issues = validate(value, schema);
+	return issues.length > 0
+		? { response: null, issues }
+		: { response: value as EvaluationResponse, issues };
+}
@@ -2,7 +2,11 @@
  * Types for AI evaluation system
  */
 
-import type { ScreenshotMetadata } from "../types";
+import type { IAgentService } from "@/types/services";
+import type { BaselineComparison } from "../baseline";
+import type { FrameMetadata, ScreenshotMetadata } from "../types";
+import type { ConsensusConfig, ConsensusVerdict } from "./consensus";
+import type { EvaluationCache } from "./EvaluationCache";
 
 export type EvaluationCriteria = {
 	strictness: "lenient" | "moderate" | "strict";
@@ -12,6 +16,39 @@ export type EvaluationCriteria = {
 	customRules?: string[];
 };
 
+/**
+ * How a scenario compared with its baseline, the approved screenshot and
+ * verdict promoted from an earlier run
+ */
+export type BaselineVerdict = {
+	runId: string; // Run the baseline was promoted from
+	unchanged: boolean; // Verdict reused from the baseline, no AI call
+	changedPixels: number;
+	changedCells?: number; // When both captures have cell snapshots
+	diffPath?: string; // Current screenshot with the changes highlighted
+	isRegression?: boolean; // The AI's call on a changed scenario
+	differences?: string[];
+};
+
+/**
+ * A person's call on a verdict: accepted as is, or overridden either way
+ */
+export type ReviewDecision = "accepted" | "overridden-pass" | "overridden-fail";
+
+export type Review = {
+	decision: ReviewDecision;
+	reviewer: string;
+	note?: string;
+	reviewedAt: number;
+	runId: string; // Run the review was made in; later runs carry it forward
+	screenshotHash: string; // sha256 of the screenshot reviewed
+};
+
+/**
+ * What a reviewer decides; the rest of a review is filled in when recorded
+ */
+export type ReviewCall = Pick<Review, "decision" | "reviewer" | "note">;
+
 export type EvaluationResult = {
 	componentName: string;
 	scenarioName: string;
@@ -27,6 +64,16 @@ export type EvaluationResult = {
 	};
 	suggestions?: string[];
 	timestamp: number;
+	frames?: FrameMetadata[]; // Every frame, for animated scenarios
+	animation?: string; // Path to animated PNG of the frames
+	baseline?: BaselineVerdict;
+	// Set when no verdict was reached (API error, timeout, unreadable
+	// answer) - passed is false, but nothing was judged to fail
+	error?: string;
+	cachedAt?: number; // When the verdict was cached, if it came from the cache
+	rawResponse?: string; // The model's answer as sent, for debugging
+	consensus?: ConsensusVerdict; // How the samples voted, in consensus mode
+	review?: Review; // Overrides decide the status; passed stays the AI's call
 };
 
 export type IVisualTestEvaluator = {
@@ -40,11 +87,25 @@ export type IVisualTestEvaluator = {
 	): Promise<EvaluationResult>;
 
 	/**
-	 * Batch evaluates all screenshots in a directory
+	 * Evaluates a screenshot that has a baseline: an unchanged one keeps
+	 * the baseline's verdict, a changed one is sent to Claude with the
+	 * baseline and a diff mask
+	 */
+	evaluateAgainstBaseline(
+		metadata: ScreenshotMetadata,
+		screenshotPath: string,
+		comparison: BaselineComparison
+	): Promise<EvaluationResult>;
+
+	/**
+	 * Batch evaluates the screenshots in a metadata file (or list), against
+	 * their baselines where compared (keyed by baselineKey), a bounded number
+	 * at a time
 	 */
 	evaluateBatch(
-		metadataPath: string,
-		screenshotDir: string
+		metadataSource: string | ScreenshotMetadata[],
+		screenshotDir: string,
+		baselines?: Map<string, BaselineComparison>
 	): Promise<EvaluationResult[]>;
 
 	/**
@@ -53,6 +114,20 @@ export type IVisualTestEvaluator = {
 	setEvaluationCriteria(criteria: EvaluationCriteria): void;
 };
 
+/**
+ * Creates the agent for one evaluation attempt, so parallel evaluations
+ * never share a session or abort controller
+ */
+export type AgentFactory = () => IAgentService;
+
 export type EvaluationConfig = {
 	criteria?: EvaluationCriteria;
+	concurrency?: number; // Evaluations in flight at once (default: 4)
+	retries?: number; // Retries of transient failures (default: 2)
+	retryDelayMs?: number; // First retry delay, doubled after (default: 1000)
+	timeoutMs?: number; // Per attempt (default: 120000)
+	cache?: EvaluationCache; // Reuse verdicts on identical inputs; none by default
+	// Sample several evaluations per screenshot and vote; off for fewer
+	// than two samples
+	consensus?: Partial<ConsensusConfig>;
 };
@@ -0,0 +1,36 @@
+/**
+ * Test Fixtures - Verdicts for the harness's own tests
+ * Single Responsibility: Build an EvaluationResult with every required
+ * field filled in, so a test states only what it is about
+ */
+
+import type { EvaluationResult } from "./evaluation/types";
+
+const CONFIDENCE = 0.9;
+
+/**
+ * A banner verdict on one scenario, passing unless overridden; the
+ * reasoning follows from passed
+ */
+export const evaluationResult = (
+	scenarioName: string,
+	overrides: Partial<EvaluationResult> = {}
+): EvaluationResult => {
+	const passed = overrides.passed ?? true;
+	return {
+		componentName: "banner",
+		scenarioName,
+		filePath: `${scenarioName}.png`,
+		passed,
+		confidence: CONFIDENCE,
+		reasoning: passed ? "Title is centered" : "Title is cut off",
+		observations: {
+			elementsFound: [],
+			textContent: [],
+			layoutDescription: "",
+			colorScheme: [],
+		},
+		timestamp: 0,
+		...overrides,
+	};
+};
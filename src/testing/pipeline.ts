@@ -2,31 +2,87 @@
  * Test Pipeline - Orchestrates complete testing workflow
  */
 
-import { copyFile, mkdir, readdir, readFile } from "node:fs/promises";
+import {
+	copyFile,
+	mkdir,
+	readdir,
+	readFile,
+	writeFile,
+} from "node:fs/promises";
 import path from "node:path";
 import { AgentService } from "@/services/AgentService";
+import { RecordingAgentService } from "@/services/RecordingAgentService";
+import { ReplayAgentService } from "@/services/ReplayAgentService";
 import { DIRS, FILES, PATHS } from "@/testing/config/paths";
 import { logger } from "@/testing/logger";
-import { runCapture } from "./capture";
 import {
+	type BaselineComparison,
+	type BaselineEntry,
+	baselineKey,
+	compareWithBaselines,
+} from "./baseline";
+import {
+	CHECKPOINT_SEPARATOR,
+	runCapture,
+	runCaptureFresh,
+	type ScenarioSelector,
+} from "./capture";
+import {
+	type AgentFactory,
 	Collector,
+	type ConsensusConfig,
+	EvaluationCache,
 	type EvaluationCriteria,
+	type EvaluationResult,
 	Evaluator,
+	type Review,
+	type ReviewCall,
 	type TestSummary,
 } from "./evaluation";
-import { type ReportConfig, ReportGenerator, ReportManager } from "./reporting";
-import type { CaptureResult } from "./types";
+import {
+	compareRuns,
+	type FormatInput,
+	OUTPUT_FORMATS,
+	type OutputFormat,
+	type ReportConfig,
+	ReportGenerator,
+	ReportManager,
+} from "./reporting";
+import { carryForwardReviews, hashScreenshot, ReviewStore } from "./review";
+import {
+	resolveSelection,
+	type ScenarioFilter,
+	type ScenarioSelection,
+	selectsScreenshot,
+} from "./selection";
+import { findReportServer, openInBrowser } from "./server";
+import type { CaptureResult, ScenarioRef, ScreenshotMetadata } from "./types";
 
 export type PipelineConfig = {
 	screenshotDir?: string;
 	outputDir?: string;
 	evaluationCriteria?: EvaluationCriteria;
 	reportConfig?: Partial<ReportConfig>;
+	formats?: OutputFormat[]; // Written next to index.html and results.json
 	skipScreenshots?: boolean; // Use existing screenshots
+	filter?: ScenarioFilter; // Capture, evaluate and report only these scenarios
 	// History management
 	keepHistory?: number; // Number of runs to keep (default: 10)
 	runName?: string; // Optional named run (preserved indefinitely)
 	skipCleanup?: boolean; // Skip cleanup of old runs
+	// Baselines
+	skipBaselines?: boolean; // Evaluate everything, even scenarios unchanged since their baseline
+	// Evaluation scheduling
+	concurrency?: number; // Evaluations in flight at once (default: 4)
+	retries?: number; // Retries of transient failures (default: 2)
+	timeoutMs?: number; // Per evaluation attempt (default: 120000)
+	consensus?: Partial<ConsensusConfig>; // Vote over several samples per screenshot
+	// Evaluation cache
+	skipCache?: boolean; // Neither reuse nor store cached verdicts
+	clearCache?: boolean; // Forget every cached verdict before evaluating
+	// Offline evaluation
+	replayTranscript?: string; // Answer from a recorded transcript, no SDK calls
+	recordTranscript?: string; // Record evaluator traffic for later replay
 };
 
 export type PipelineResult = {
@@ -54,42 +110,84 @@ export async function runPipeline(
 	try {
 		logger.phase("🚀", "Starting Test Pipeline");
 
+		const outputDir = config?.outputDir || DEFAULT_OUTPUT_DIR;
+		const reportManager = new ReportManager({
+			baseDir: outputDir,
+			keepHistory: config?.keepHistory,
+		});
+		const selection = await resolveSelection(config?.filter, reportManager);
+
 		// Phase 1: Capture or load existing screenshots
 		logger.phase("📸", "Phase 1: Screenshot Capture");
-		const captureResult = await handleScreenshotPhase(config);
+		const { captureResult, unselected } = await handleScreenshotPhase(
+			config,
+			selection
+		);
 		logger.step(
 			`Captured ${captureResult.totalScenarios} screenshots from ${captureResult.totalComponents} components`,
 			{ completed: true }
 		);
 
-		// Phase 2: Initialize services
-		logger.phase("🔧", "Phase 2: Service Initialization");
-		const agentService = new AgentService();
-		const evaluator = new Evaluator(
-			agentService,
-			config?.evaluationCriteria
-				? { criteria: config.evaluationCriteria }
-				: undefined
+		// Phase 2: Diff against baselines
+		logger.phase("🔍", "Phase 2: Baseline Comparison");
+		const baselines = await handleBaselinePhase(
+			captureResult,
+			reportManager,
+			config
 		);
+
+		// Phase 3: Initialize services
+		logger.phase("🔧", "Phase 3: Service Initialization");
+		const agents = await createAgentFactory(config);
+		const evaluator = new Evaluator(agents.createAgent, {
+			criteria: config?.evaluationCriteria,
+			concurrency: config?.concurrency,
+			retries: config?.retries,
+			timeoutMs: config?.timeoutMs,
+			consensus: config?.consensus,
+			cache: await createEvaluationCache(config),
+		});
 		const collector = new Collector();
 		const generator = new ReportGenerator(config?.reportConfig);
 		logger.step("Services initialized", { completed: true });
 
-		// Phase 3: Evaluate all screenshots
-		logger.phase("🤖", "Phase 3: AI Evaluation");
-		const metadataPath = path.join(captureResult.outputDir, FILES.metadata);
+		// Phase 4: Evaluate all screenshots
+		logger.phase("🤖", "Phase 4: AI Evaluation");
 		logger.step(`Evaluating screenshots from: ${captureResult.outputDir}`);
 
-		const results = await evaluator.evaluateBatch(
-			metadataPath,
+		const evaluated = await evaluator.evaluateBatch(
+			captureResult.screenshots,
+			captureResult.outputDir,
+			baselines
+		);
+		const cached = evaluated.filter((result) => result.cachedAt).length;
+		logger.step(
+			`Evaluated ${evaluated.length} screenshots (${cached} from cache)`,
+			{ completed: true }
+		);
+		await agents.flush();
+
+		const carried = await carryForwardReviews(
+			evaluated,
+			await loadPreviousReviews(reportManager),
 			captureResult.outputDir
 		);
-		logger.step(`Evaluated ${results.length} screenshots`, {
-			completed: true,
-		});
+		const reviewed = carried.filter((result) => result.review).length;
+		if (reviewed > 0) {
+			logger.step(`${reviewed} reviews carried forward from the last run`, {
+				completed: true,
+			});
+		}
+		const kept = await loadUnselectedResults(reportManager, unselected);
+		if (kept.length > 0) {
+			logger.step(`${kept.length} unselected verdicts kept from the last run`, {
+				completed: true,
+			});
+		}
+		const results = [...carried, ...kept];
 
-		// Phase 4: Collect results
-		logger.phase("📊", "Phase 4: Result Collection");
+		// Phase 5: Collect results
+		logger.phase("📊", "Phase 5: Result Collection");
 		for (const result of results) {
 			collector.addResult(result);
 		}
@@ -102,9 +200,22 @@ export async function runPipeline(
 			`Average Confidence: ${(summary.averageConfidence * PERCENTAGE_MULTIPLIER).toFixed(1)}%`,
 			{ completed: true }
 		);
+		if (summary.errored > 0) {
+			logger.step(`${summary.errored} evaluations errored without a verdict`, {
+				failed: true,
+			});
+		}
+		if (summary.uncertain > 0) {
+			logger.step(
+				`${summary.uncertain} verdicts uncertain: samples disagreed`,
+				{
+					failed: true,
+				}
+			);
+		}
 
-		// Phase 5: Generate HTML report
-		logger.phase("📄", "Phase 5: Report Generation");
+		// Phase 6: Generate HTML report
+		logger.phase("📄", "Phase 6: Report Generation");
 		// Generate reports with screenshots at screenshots/ (co-located with reports)
 		const latestHtml = await generator.generateReport({
 			summary,
@@ -123,15 +234,8 @@ export async function runPipeline(
 			screenshotBasePath: "screenshots/",
 		});
 
-		// Phase 6: Save outputs (with versioning)
-		logger.phase("💾", "Phase 6: Save Outputs");
-		const outputDir = config?.outputDir || DEFAULT_OUTPUT_DIR;
-
-		// Initialize ReportManager
-		const reportManager = new ReportManager({
-			baseDir: outputDir,
-			keepHistory: config?.keepHistory,
-		});
+		// Phase 7: Save outputs (with versioning)
+		logger.phase("💾", "Phase 7: Save Outputs");
 
 		// Create new versioned run
 		const { runId, runDir, latestDir } = await reportManager.createRun(
@@ -148,7 +252,6 @@ export async function runPipeline(
 			completed: true,
 		});
 
-		const { writeFile } = await import("node:fs/promises");
 		await writeFile(latestJsonPath, collector.exportToJSON(), "utf-8");
 		logger.step(`Latest JSON saved to: ${latestJsonPath}`, {
 			completed: true,
@@ -164,6 +267,15 @@ export async function runPipeline(
 			completed: true,
 		});
 
+		await new ReviewStore(latestDir).save(results);
+		await new ReviewStore(runDir).save(results);
+
+		await saveOutputFormats(
+			config?.formats ?? [],
+			{ summary, componentResults: collector.getAllResults() },
+			[latestDir, runDir]
+		);
+
 		// Copy screenshots to versioned run directory
 		const versionedScreenshotsDir = path.join(runDir, DIRS.screenshots);
 		await copyDirectory(captureResult.outputDir, versionedScreenshotsDir);
@@ -176,10 +288,14 @@ export async function runPipeline(
 			runId,
 			timestamp: Date.now(),
 			name: config?.runName,
+			selection: selection?.description,
 			totalTests: summary.totalTests,
 			passed: summary.passed,
 			failed: summary.failed,
+			errored: summary.errored,
+			uncertain: summary.uncertain,
 			passRate: summary.passRate,
+			averageConfidence: summary.averageConfidence,
 			duration: summary.duration,
 		});
 		logger.step("Run metadata saved", { completed: true });
@@ -189,10 +305,17 @@ export async function runPipeline(
 			await reportManager.cleanupOldRuns();
 		}
 
-		// Open report in browser
-		logger.phase("🌐", "Phase 7: Opening Report");
-		await openReportInBrowser(latestReportPath);
-		logger.step("Report opened in browser", { completed: true });
+		// Open report in browser, unless a report server is showing it
+		logger.phase("🌐", "Phase 8: Opening Report");
+		const serverUrl = await findReportServer(outputDir);
+		if (serverUrl) {
+			logger.step(`Report server at ${serverUrl} reloads with this run`, {
+				completed: true,
+			});
+		} else {
+			await openInBrowser(latestReportPath);
+			logger.step("Report opened in browser", { completed: true });
+		}
 
 		// Final summary
 		const success = summary.passRate >= PASS_RATE_THRESHOLD;
@@ -202,6 +325,8 @@ export async function runPipeline(
 				: "⚠️  Pipeline completed with failures",
 			{
 				"Tests Passed": `${summary.passed}/${summary.totalTests}`,
+				Errored: `${summary.errored}`,
+				Uncertain: `${summary.uncertain}`,
 				Duration: `${(summary.duration / MILLISECONDS_TO_SECONDS).toFixed(2)}s`,
 			}
 		);
@@ -222,10 +347,473 @@ export async function runPipeline(
 }
 
 /**
- * Handles screenshot capture or loading existing screenshots
+ * Writes a page comparing two archived runs, with the trend across every
+ * kept run, and opens it; after defaults to the newest run
+ */
+export async function runComparison(
+	before: string,
+	after?: string,
+	config?: PipelineConfig
+): Promise<string> {
+	const outputDir = config?.outputDir || DEFAULT_OUTPUT_DIR;
+	const reportManager = new ReportManager({ baseDir: outputDir });
+
+	const [newest] = await reportManager.getRunHistory();
+	const afterRun = after ?? newest?.runId;
+	if (!afterRun) {
+		throw new Error("No runs in the runs manifest to compare");
+	}
+
+	const [beforeResults, afterResults] = await Promise.all([
+		reportManager.loadRun(before),
+		reportManager.loadRun(afterRun),
+	]);
+	const comparison = compareRuns(beforeResults, afterResults);
+	const screenshotsOf = (runId: string) =>
+		`${path.posix.join(DIRS.runs, runId, DIRS.screenshots)}/`;
+
+	const html = new ReportGenerator(
+		config?.reportConfig
+	).generateComparisonReport({
+		comparison,
+		trend: await reportManager.getTrend(),
+		config: config?.reportConfig,
+		screenshotBasePaths: {
+			before: screenshotsOf(comparison.before.runId),
+			after: screenshotsOf(comparison.after.runId),
+		},
+	});
+
+	const reportPath = path.join(outputDir, FILES.comparisonReport);
+	await writeFile(reportPath, html, "utf-8");
+	logger.step(
+		`Compared ${comparison.before.runId} with ${comparison.after.runId}: ${reportPath}`,
+		{ completed: true }
+	);
+
+	await openInBrowser(reportPath);
+	return reportPath;
+}
+
+/**
+ * Whether a screenshot or result belongs to a scenario; every checkpoint
+ * of a scripted scenario does
+ */
+const belongsTo =
+	(scenario: ScenarioRef) =>
+	({ componentName, scenarioName }: ScenarioRef): boolean =>
+		componentName === scenario.componentName &&
+		scenarioName.split(CHECKPOINT_SEPARATOR)[0] ===
+			scenario.scenarioName.split(CHECKPOINT_SEPARATOR)[0];
+
+/**
+ * Evaluates one scenario again, re-capturing it first if asked, and puts
+ * the new verdicts in the latest report in place of the old ones
+ * Always asks the AI: neither the cache nor baselines are consulted
+ */
+export async function rerunScenario(
+	scenario: ScenarioRef,
+	options: { recapture: boolean },
+	config?: PipelineConfig
+): Promise<EvaluationResult[]> {
+	const matches = belongsTo(scenario);
+	if (options.recapture) {
+		// In a new process, so components edited since the server started show
+		await runCaptureFresh([
+			{
+				componentName: scenario.componentName,
+				scenarioName: scenario.scenarioName.split(CHECKPOINT_SEPARATOR)[0],
+			},
+		]);
+	}
+	return await reevaluateLatest(
+		matches,
+		`${scenario.componentName} / ${scenario.scenarioName}`,
+		undefined,
+		config
+	);
+}
+
+/**
+ * Captures and evaluates every scenario of some components again, and puts
+ * them in the latest report in place of the old ones; scenarios added to
+ * or removed from their setup files since are added or removed
+ * Unchanged screenshots keep their cached verdicts
+ */
+export async function rerunComponents(
+	componentNames: string[],
+	config?: PipelineConfig
+): Promise<EvaluationResult[]> {
+	const names = new Set(componentNames);
+	// In a new process: the changed component modules are cached in this one
+	await runCaptureFresh(
+		componentNames.map((componentName) => ({ componentName }))
+	);
+	return await reevaluateLatest(
+		({ componentName }) => names.has(componentName),
+		componentNames.join(", "),
+		// Clearing the cache is for a full run, not every re-run
+		await createEvaluationCache({ ...config, clearCache: false }),
+		config
+	);
+}
+
+/**
+ * Evaluates the latest screenshots that match again and updates the latest
+ * report with them; label names them in the error when there are none
+ */
+async function reevaluateLatest(
+	matches: (scenario: ScenarioRef) => boolean,
+	label: string,
+	cache: EvaluationCache | undefined,
+	config?: PipelineConfig
+): Promise<EvaluationResult[]> {
+	const { screenshots, outputDir: screenshotDir } =
+		await loadExistingScreenshots(
+			config?.screenshotDir || DEFAULT_SCREENSHOT_DIR
+		);
+	const targets = screenshots.filter(matches);
+	if (targets.length === 0) {
+		throw new Error(`No screenshots of ${label}`);
+	}
+
+	const agents = await createAgentFactory(config);
+	const evaluator = new Evaluator(agents.createAgent, {
+		criteria: config?.evaluationCriteria,
+		retries: config?.retries,
+		timeoutMs: config?.timeoutMs,
+		consensus: config?.consensus,
+		cache,
+	});
+	const results: EvaluationResult[] = [];
+	for (const metadata of targets) {
+		results.push(
+			await evaluator.evaluateScreenshot(
+				metadata,
+				path.join(screenshotDir, path.basename(metadata.filePath))
+			)
+		);
+	}
+	await agents.flush();
+
+	// A review stays with its screenshot for as long as that is unchanged
+	const outputDir = config?.outputDir || DEFAULT_OUTPUT_DIR;
+	const reviewed = await carryForwardReviews(
+		results,
+		await new ReviewStore(outputDir).load(),
+		screenshotDir
+	);
+	await updateReport(outputDir, reviewed, matches, config);
+	return reviewed;
+}
+
+/**
+ * Rewrites a report directory - the latest one or a run's - with new
+ * verdicts for some scenarios, where their old ones were; the run's
+ * duration is kept
+ */
+async function updateReport(
+	dir: string,
+	results: EvaluationResult[],
+	replaces: (result: EvaluationResult) => boolean,
+	config?: PipelineConfig
+): Promise<void> {
+	const latest = await new ReportManager().loadResults(dir);
+
+	const previous = latest.components.flatMap((component) => component.results);
+	const at = previous.findIndex(replaces);
+	const kept = previous.filter((result) => !replaces(result));
+	kept.splice(at === -1 ? kept.length : at, 0, ...results);
+
+	const collector = new Collector();
+	for (const result of kept) collector.addResult(result);
+	const summary: TestSummary = {
+		...collector.getSummary(),
+		duration: latest.summary.duration,
+	};
+	const componentResults = collector.getAllResults();
+
+	const html = await new ReportGenerator(config?.reportConfig).generateReport({
+		summary,
+		componentResults,
+		screenshotDir: path.join(dir, DIRS.screenshots),
+		config: config?.reportConfig,
+		screenshotBasePath: "screenshots/",
+	});
+	await writeFile(path.join(dir, FILES.reportIndex), html, "utf-8");
+	await new ReviewStore(dir).save(kept);
+	await writeFile(
+		path.join(dir, FILES.reportResults),
+		JSON.stringify(
+			{ summary, components: [...componentResults.values()] },
+			null,
+			2
+		),
+		"utf-8"
+	);
+}
+
+/**
+ * The newest run's verdicts, reviews and all, on the scenarios a selection
+ * left out, so a filtered run still covers every scenario
+ */
+async function loadUnselectedResults(
+	reportManager: ReportManager,
+	unselected: ScreenshotMetadata[]
+): Promise<EvaluationResult[]> {
+	const [previous] = await reportManager.getRunHistory();
+	if (!previous || unselected.length === 0) return [];
+
+	const keys = new Set(unselected.map(baselineKey));
+	const { components } = await reportManager.loadResults(
+		reportManager.getRunDir(previous.runId)
+	);
+	return components
+		.flatMap((component) => component.results)
+		.filter((result) => keys.has(baselineKey(result)));
+}
+
+/**
+ * Reviews of the newest run, to carry into the next
+ */
+async function loadPreviousReviews(
+	reportManager: ReportManager
+): Promise<Map<string, Review>> {
+	const [previous] = await reportManager.getRunHistory();
+	return previous
+		? new ReviewStore(reportManager.getRunDir(previous.runId)).load()
+		: new Map();
+}
+
+/**
+ * Records a person's call on one scenario's verdict in a run (by default
+ * the newest), tied to the screenshot they saw; the latest report gets it
+ * too while it still shows that screenshot
+ */
+export async function reviewScenario(
+	scenario: ScenarioRef,
+	call: ReviewCall,
+	run?: string,
+	config?: PipelineConfig
+): Promise<Review> {
+	const outputDir = config?.outputDir || DEFAULT_OUTPUT_DIR;
+	const reportManager = new ReportManager({ baseDir: outputDir });
+	const [newest] = await reportManager.getRunHistory();
+	const target = run ? await reportManager.findRun(run) : newest;
+	if (!target) {
+		throw new Error("No runs in the runs manifest to review");
+	}
+
+	const runDir = reportManager.getRunDir(target.runId);
+	const isScenario = ({ componentName, scenarioName }: ScenarioRef) =>
+		componentName === scenario.componentName &&
+		scenarioName === scenario.scenarioName;
+	const { components } = await reportManager.loadResults(runDir);
+	const result = components
+		.flatMap((component) => component.results)
+		.find(isScenario);
+	if (!result) {
+		throw new Error(
+			`No result for ${scenario.componentName} / ${scenario.scenarioName} in ${target.runId}`
+		);
+	}
+
+	const screenshot = path.basename(result.filePath);
+	const review: Review = {
+		...call,
+		reviewedAt: Date.now(),
+		runId: target.runId,
+		screenshotHash: await hashScreenshot(
+			path.join(runDir, DIRS.screenshots, screenshot)
+		),
+	};
+	await updateReport(runDir, [{ ...result, review }], isScenario, config);
+
+	const latest = await reportManager.loadResults();
+	const latestResult = latest.components
+		.flatMap((component) => component.results)
+		.find(isScenario);
+	const latestHash = await hashScreenshot(
+		path.join(config?.screenshotDir || DEFAULT_SCREENSHOT_DIR, screenshot)
+	).catch(() => null);
+	if (
+		target.runId === newest?.runId &&
+		latestResult &&
+		latestHash === review.screenshotHash
+	) {
+		await updateReport(
+			outputDir,
+			[{ ...latestResult, review }],
+			isScenario,
+			config
+		);
+	}
+	return review;
+}
+
+/**
+ * Promotes one scenario of the latest report to baselines, if it passed
+ */
+export async function promoteScenario(
+	scenario: ScenarioRef,
+	config?: PipelineConfig
+): Promise<BaselineEntry[]> {
+	const matches = belongsTo(scenario);
+	const reportManager = new ReportManager({
+		baseDir: config?.outputDir || DEFAULT_OUTPUT_DIR,
+	});
+	const { screenshots, outputDir: screenshotDir } =
+		await loadExistingScreenshots(
+			config?.screenshotDir || DEFAULT_SCREENSHOT_DIR
+		);
+	const { components } = await reportManager.loadResults();
+	const [latestRun] = await reportManager.getRunHistory();
+
+	return reportManager
+		.getBaselineStore()
+		.promote(
+			latestRun?.runId ?? "latest",
+			screenshotDir,
+			screenshots.filter(matches),
+			components.flatMap((component) => component.results).filter(matches)
+		);
+}
+
+/**
+ * Agents the evaluator talks to, one per evaluation attempt: a replayed
+ * transcript when one is given, otherwise the SDK (optionally recorded)
+ * flush() resolves once every recorded turn is on disk
+ */
+async function createAgentFactory(
+	config?: PipelineConfig
+): Promise<{ createAgent: AgentFactory; flush: () => Promise<void> }> {
+	if (config?.replayTranscript) {
+		logger.step(`Replaying evaluations from ${config.replayTranscript}`);
+		// Forks share the transcript, so no turn is played twice
+		const replay = await ReplayAgentService.fromFile(config.replayTranscript);
+		return {
+			createAgent: () => replay.fork(),
+			flush: () => Promise.resolve(),
+		};
+	}
+
+	if (!config?.recordTranscript) {
+		return {
+			createAgent: () => new AgentService(),
+			flush: () => Promise.resolve(),
+		};
+	}
+
+	logger.step(`Recording evaluations to ${config.recordTranscript}`);
+	const recorder = new RecordingAgentService(new AgentService(), {
+		transcriptPath: config.recordTranscript,
+	});
+	return {
+		createAgent: () => recorder.fork(new AgentService()),
+		flush: () => recorder.flush(),
+	};
+}
+
+/**
+ * Cache of verdicts on identical screenshots and prompts; unused while
+ * recording or replaying, which must see every evaluation
+ */
+async function createEvaluationCache(
+	config?: PipelineConfig
+): Promise<EvaluationCache | undefined> {
+	const cache = new EvaluationCache();
+	if (config?.clearCache) {
+		await cache.clear();
+		logger.step("Evaluation cache cleared");
+	}
+
+	if (config?.skipCache) {
+		logger.step("Skipping the evaluation cache");
+		return;
+	}
+	if (config?.replayTranscript || config?.recordTranscript) return;
+	return cache;
+}
+
+/**
+ * Diffs every scenario against its baseline, so the evaluator can reuse
+ * verdicts of unchanged ones and show it what changed in the others
  */
-function handleScreenshotPhase(
+async function handleBaselinePhase(
+	captureResult: CaptureResult,
+	reportManager: ReportManager,
 	config?: PipelineConfig
+): Promise<Map<string, BaselineComparison>> {
+	if (config?.skipBaselines) {
+		logger.step("Skipping baselines, evaluating every scenario");
+		return new Map();
+	}
+
+	const comparisons = await compareWithBaselines(
+		captureResult.screenshots,
+		captureResult.outputDir,
+		reportManager.getBaselineStore()
+	);
+	const unchanged = [...comparisons.values()].filter(
+		(comparison) => comparison.unchanged
+	).length;
+	logger.step(
+		`${unchanged} unchanged, ${comparisons.size - unchanged} changed, ${captureResult.screenshots.length - comparisons.size} without a baseline`,
+		{ completed: true }
+	);
+	return comparisons;
+}
+
+/**
+ * Writes each requested machine-readable format to every output directory
+ */
+async function saveOutputFormats(
+	formats: OutputFormat[],
+	input: FormatInput,
+	dirs: string[]
+): Promise<void> {
+	for (const format of new Set(formats)) {
+		const { fileName, format: render } = OUTPUT_FORMATS[format];
+		const content = render(input);
+		for (const dir of dirs) {
+			await writeFile(path.join(dir, fileName), content, "utf-8");
+		}
+		logger.step(`${fileName} saved`, { completed: true });
+	}
+}
+
+/**
+ * Handles screenshot capture or loading existing screenshots, of only the
+ * selected scenarios when there is a selection; unselected is the metadata
+ * of the scenarios it left out
+ */
+async function handleScreenshotPhase(
+	config?: PipelineConfig,
+	selection?: ScenarioSelection
+): Promise<{
+	captureResult: CaptureResult;
+	unselected: ScreenshotMetadata[];
+}> {
+	if (!selection) {
+		return { captureResult: await captureOrLoad(config), unselected: [] };
+	}
+
+	logger.step(`Selected: ${selection.description}`);
+	const captured = await captureOrLoad(config, selection.select);
+	return {
+		captureResult: applySelection(captured, selection),
+		unselected: captured.screenshots.filter(
+			(metadata) => !selectsScreenshot(selection.select, metadata)
+		),
+	};
+}
+
+/**
+ * Captures screenshots, or loads the existing ones with --skip-capture
+ */
+function captureOrLoad(
+	config?: PipelineConfig,
+	select?: ScenarioSelector
 ): Promise<CaptureResult> {
 	if (config?.skipScreenshots) {
 		logger.step("Skipping capture, loading existing screenshots...");
@@ -235,7 +823,29 @@ function handleScreenshotPhase(
 	}
 
 	logger.step("Capturing new screenshots...");
-	return runCapture();
+	return runCapture({ select });
+}
+
+/**
+ * Only the selected screenshots, from a capture that kept the others'
+ * metadata or from every existing screenshot
+ */
+function applySelection(
+	captureResult: CaptureResult,
+	selection: ScenarioSelection
+): CaptureResult {
+	const screenshots = captureResult.screenshots.filter((metadata) =>
+		selectsScreenshot(selection.select, metadata)
+	);
+	if (screenshots.length === 0) {
+		throw new Error(`No scenarios selected: ${selection.description}`);
+	}
+	return {
+		...captureResult,
+		screenshots,
+		totalComponents: new Set(screenshots.map((m) => m.componentName)).size,
+		totalScenarios: screenshots.length,
+	};
 }
 
 /**
@@ -290,34 +900,3 @@ async function copyDirectory(
 		await copyFile(sourcePath, targetPath);
 	}
 }
-
-/**
- * Opens the HTML report in the default browser
- */
-async function openReportInBrowser(reportPath: string): Promise<void> {
-	const { exec } = await import("node:child_process");
-	const { promisify } = await import("node:util");
-	const execAsync = promisify(exec);
-
-	const platform = process.platform;
-	let command: string;
-
-	if (platform === "darwin") {
-		// macOS
-		command = `open "${reportPath}"`;
-	} else if (platform === "win32") {
-		// Windows
-		command = `start "" "${reportPath}"`;
-	} else {
-		// Linux
-		command = `xdg-open "${reportPath}"`;
-	}
-
-	try {
-		await execAsync(command);
-	} catch (error) {
-		logger.warn(
-			`Could not open browser automatically: ${error instanceof Error ? error.message : String(error)}`
-		);
-	}
-}
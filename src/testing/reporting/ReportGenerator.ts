@@ -4,8 +4,20 @@
 
 import { mkdir, writeFile } from "node:fs/promises";
 import path from "node:path";
-import type { ComponentSummary, TestSummary } from "../evaluation/Collector";
-import type { EvaluationResult } from "../evaluation/types";
+import {
+	type ComponentSummary,
+	type ResultStatus,
+	resultStatus,
+	type TestSummary,
+} from "../evaluation/Collector";
+import type { EvaluationResult, ReviewDecision } from "../evaluation/types";
+import type {
+	RunComparison,
+	ScenarioChange,
+	ScenarioComparison,
+	TrendPoint,
+} from "./comparison";
+import type { RunMetadata } from "./ReportManager";
 
 export type ReportConfig = {
 	title: string;
@@ -13,6 +25,8 @@ export type ReportConfig = {
 	includeMetadata: boolean;
 	includeAICommentary: boolean;
 	theme: "light" | "dark";
+	// How animated scenarios are shown: the animated PNG, or every frame side by side
+	frameDisplay: "animation" | "contact-sheet";
 };
 
 export type GenerateReportOptions = {
@@ -23,12 +37,25 @@ export type GenerateReportOptions = {
 	screenshotBasePath?: string;
 };
 
+export type GenerateComparisonOptions = {
+	comparison: RunComparison;
+	trend: TrendPoint[]; // Oldest first
+	config?: Partial<ReportConfig>;
+	// Where each run's screenshots are, relative to the page
+	screenshotBasePaths: { before: string; after: string };
+};
+
 export type IReportGenerator = {
 	/**
 	 * Generates HTML report from test results
 	 */
 	generateReport(options: GenerateReportOptions): Promise<string>;
 
+	/**
+	 * Generates HTML comparing two runs, with the history's trend
+	 */
+	generateComparisonReport(options: GenerateComparisonOptions): string;
+
 	/**
 	 * Saves report to file
 	 */
@@ -46,12 +73,47 @@ const DEFAULT_CONFIG: ReportConfig = {
 	includeMetadata: true,
 	includeAICommentary: true,
 	theme: "dark",
+	frameDisplay: "animation",
 };
 
 const PERCENTAGE_MULTIPLIER = 100;
 const MILLISECONDS_TO_SECONDS = 1000;
 const PASS_RATE_EXCELLENT = 0.9;
 const PASS_RATE_GOOD = 0.7;
+const CHART_WIDTH = 800;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = 24;
+const CHART_GRIDLINE_STEPS = 4; // Gridlines at 0%, 25%, ... 100%
+const CHART_DOT_RADIUS = 3;
+const CHART_RING_RADIUS = 6; // The compared runs
+
+/**
+ * Status badge of a scenario; errored ones never reached a verdict, and
+ * uncertain ones had samples that disagreed too much to call it
+ */
+const STATUS_BADGES: Record<
+	ResultStatus,
+	{ statusColor: string; statusText: string; statusIcon: string }
+> = {
+	passed: { statusColor: "success", statusText: "PASSED", statusIcon: "✓" },
+	failed: { statusColor: "error", statusText: "FAILED", statusIcon: "✗" },
+	errored: { statusColor: "warning", statusText: "ERRORED", statusIcon: "!" },
+	uncertain: { statusColor: "info", statusText: "UNCERTAIN", statusIcon: "?" },
+};
+
+const REVIEW_LABELS: Record<ReviewDecision, string> = {
+	accepted: "Accepted",
+	"overridden-pass": "Overridden: pass",
+	"overridden-fail": "Overridden: fail",
+};
+
+const CHANGE_BADGES: Record<ScenarioChange, { color: string; text: string }> = {
+	regressed: { color: "error", text: "Regressed" },
+	fixed: { color: "success", text: "Fixed" },
+	added: { color: "info", text: "Added" },
+	removed: { color: "neutral", text: "Removed" },
+	unchanged: { color: "ghost", text: "Unchanged" },
+};
 
 export class ReportGenerator implements IReportGenerator {
 	private readonly config: ReportConfig;
@@ -105,6 +167,23 @@ export class ReportGenerator implements IReportGenerator {
 			)
 			.join("\n");
 
+		return this.buildPage(
+			config,
+			summary.timestamp,
+			`${summarySection}
+
+    ${componentSections}`
+		);
+	}
+
+	/**
+	 * The document around a page's content: title bar, footer and scripts
+	 */
+	private buildPage(
+		config: ReportConfig,
+		generatedAt: number,
+		content: string
+	): string {
 		const dataTheme = config.theme === "dark" ? "dark" : "light";
 
 		return `<!DOCTYPE html>
@@ -123,13 +202,11 @@ export class ReportGenerator implements IReportGenerator {
         <span class="text-xl font-semibold">${this.escapeHtml(config.title)}</span>
       </div>
       <div class="flex-none">
-        <span class="badge badge-neutral">Generated ${new Date(summary.timestamp).toLocaleString()}</span>
+        <span class="badge badge-neutral">Generated ${new Date(generatedAt).toLocaleString()}</span>
       </div>
     </div>
 
-    ${summarySection}
-
-    ${componentSections}
+    ${content}
 
     <footer class="footer footer-center text-base-content/70 mt-8">
       <aside>
@@ -143,6 +220,254 @@ export class ReportGenerator implements IReportGenerator {
 </html>`;
 	}
 
+	generateComparisonReport(options: GenerateComparisonOptions): string {
+		const config = { ...this.config, ...options.config };
+		const { comparison, trend, screenshotBasePaths } = options;
+		const flips = comparison.scenarios.filter(
+			(scenario) =>
+				scenario.change === "regressed" || scenario.change === "fixed"
+		);
+
+		const flipsHtml =
+			flips.length > 0
+				? flips
+						.map((scenario) =>
+							this.buildFlipCard(scenario, screenshotBasePaths)
+						)
+						.join("\n")
+				: `
+    <div class="alert">No scenario flipped between passing and failing.</div>`;
+
+		return this.buildPage(
+			{
+				...config,
+				title: `${config.title}: ${this.runLabel(comparison.before)} → ${this.runLabel(comparison.after)}`,
+			},
+			Date.now(),
+			`${this.buildComparisonStats(comparison, flips)}
+
+    ${this.buildTrendSection(trend, comparison)}
+
+    <h2 class="text-lg font-semibold">Flipped scenarios</h2>
+    ${flipsHtml}
+
+    ${this.buildComparisonTable(comparison.scenarios)}`
+		);
+	}
+
+	private runLabel(run: RunMetadata): string {
+		return run.name ? `${run.name} (${run.runId})` : run.runId;
+	}
+
+	private formatDelta(delta: number): string {
+		const points = (delta * PERCENTAGE_MULTIPLIER).toFixed(1);
+		return delta > 0 ? `+${points}` : points;
+	}
+
+	private buildComparisonStats(
+		comparison: RunComparison,
+		flips: ScenarioComparison[]
+	): string {
+		const { before, after } = comparison;
+		const passRate = (run: RunMetadata) =>
+			(run.passRate * PERCENTAGE_MULTIPLIER).toFixed(1);
+		const regressed = flips.filter(
+			(scenario) => scenario.change === "regressed"
+		).length;
+		const fixed = flips.length - regressed;
+
+		return `
+    <div class="stats stats-vertical lg:stats-horizontal w-full shadow bg-base-200 rounded-box">
+      <div class="stat">
+        <div class="stat-title">Pass Rate</div>
+        <div class="stat-value">${passRate(after)}%</div>
+        <div class="stat-desc">${this.formatDelta(after.passRate - before.passRate)} points from ${passRate(before)}%</div>
+      </div>
+
+      <div class="stat">
+        <div class="stat-title">Regressed</div>
+        <div class="stat-value ${regressed > 0 ? "text-error" : ""}">${regressed}</div>
+        <div class="stat-desc">Passed before, not now</div>
+      </div>
+
+      <div class="stat">
+        <div class="stat-title">Fixed</div>
+        <div class="stat-value ${fixed > 0 ? "text-success" : ""}">${fixed}</div>
+        <div class="stat-desc">Passing now, not before</div>
+      </div>
+    </div>`;
+	}
+
+	/**
+	 * Pass rate and average confidence of every kept run as a line chart;
+	 * the two compared runs are ringed
+	 */
+	private buildTrendSection(
+		trend: TrendPoint[],
+		comparison: RunComparison
+	): string {
+		if (trend.length === 0) return "";
+
+		const plotWidth = CHART_WIDTH - 2 * CHART_PADDING;
+		const plotHeight = CHART_HEIGHT - 2 * CHART_PADDING;
+		const x = (index: number) =>
+			CHART_PADDING +
+			(trend.length > 1
+				? (index / (trend.length - 1)) * plotWidth
+				: plotWidth / 2);
+		const y = (ratio: number) => CHART_PADDING + (1 - ratio) * plotHeight;
+
+		const series = (
+			value: (point: TrendPoint) => number | undefined,
+			color: string,
+			label: string
+		): string => {
+			const plotted = trend.flatMap((point, index) => {
+				const ratio = value(point);
+				return ratio === undefined ? [] : [{ point, index, ratio }];
+			});
+			const line = plotted
+				.map(({ index, ratio }) => `${x(index)},${y(ratio)}`)
+				.join(" ");
+			const dots = plotted
+				.map(({ point, index, ratio }) => {
+					const compared =
+						point.runId === comparison.before.runId ||
+						point.runId === comparison.after.runId;
+					return `<circle cx="${x(index)}" cy="${y(ratio)}" r="${compared ? CHART_RING_RADIUS : CHART_DOT_RADIUS}" style="stroke: ${color}; fill: ${compared ? "none" : color}" stroke-width="2"><title>${this.escapeHtml(point.name ?? point.runId)}: ${label} ${(ratio * PERCENTAGE_MULTIPLIER).toFixed(1)}%</title></circle>`;
+				})
+				.join("");
+			return `<polyline points="${line}" fill="none" style="stroke: ${color}" stroke-width="2" />${dots}`;
+		};
+
+		const gridlines = Array.from(
+			{ length: CHART_GRIDLINE_STEPS + 1 },
+			(_, step) => step / CHART_GRIDLINE_STEPS
+		)
+			.map(
+				(ratio) =>
+					`<line x1="${CHART_PADDING}" x2="${CHART_WIDTH - CHART_PADDING}" y1="${y(ratio)}" y2="${y(ratio)}" stroke="currentColor" stroke-opacity="0.15" /><text x="0" y="${y(ratio)}" font-size="10" fill="currentColor" dominant-baseline="middle">${ratio * PERCENTAGE_MULTIPLIER}%</text>`
+			)
+			.join("");
+
+		return `
+    <section class="card bg-base-200 border border-base-300">
+      <div class="card-body">
+        <h2 class="card-title">History</h2>
+        <p class="text-sm opacity-70">
+          <span class="text-success">●</span> Pass rate
+          <span class="text-info ml-4">●</span> Average confidence
+          · ${trend.length} kept runs, oldest first; compared runs are ringed
+        </p>
+        <svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" class="w-full h-auto" role="img" aria-label="Pass rate and average confidence per run">
+          ${gridlines}
+          ${series((point) => point.passRate, "var(--color-success)", "pass rate")}
+          ${series((point) => point.averageConfidence, "var(--color-info)", "average confidence")}
+        </svg>
+      </div>
+    </section>`;
+	}
+
+	/**
+	 * A flipped scenario: both verdicts, and both screenshots side by side
+	 */
+	private buildFlipCard(
+		scenario: ScenarioComparison,
+		screenshotBasePaths: { before: string; after: string }
+	): string {
+		const { color, text } = CHANGE_BADGES[scenario.change];
+		const side = (
+			label: string,
+			result: EvaluationResult | undefined,
+			basePath: string
+		): string => {
+			if (!result) return "";
+			const { statusColor, statusText } = STATUS_BADGES[resultStatus(result)];
+			const image =
+				(result.frames?.length ?? 0) > 1 && result.animation
+					? result.animation
+					: result.filePath;
+			return `
+          <figure class="bg-base-100 p-3 rounded-box border border-base-300 space-y-2">
+            <figcaption class="flex items-center gap-2">
+              <strong>${label}</strong>
+              <span class="badge badge-${statusColor} badge-sm">${statusText}</span>
+              <span class="opacity-70">${(result.confidence * PERCENTAGE_MULTIPLIER).toFixed(0)}%</span>
+            </figcaption>
+            <img src="${this.escapeHtml(`${basePath}${path.basename(image)}`)}" alt="${this.escapeHtml(`${result.scenarioName} ${label.toLowerCase()}`)}" class="rounded border border-base-300 max-w-full h-auto" loading="lazy" />
+            <p class="text-sm opacity-80">${this.escapeHtml(result.reasoning)}</p>
+          </figure>`;
+		};
+		const delta =
+			scenario.confidenceDelta === undefined
+				? ""
+				: `<span class="opacity-70">${this.formatDelta(scenario.confidenceDelta)} confidence</span>`;
+
+		return `
+    <section class="card bg-base-200 border border-base-300">
+      <div class="card-body">
+        <div class="flex flex-wrap items-center gap-3">
+          <h3 class="card-title">${this.escapeHtml(scenario.componentName)} / ${this.escapeHtml(scenario.scenarioName)}</h3>
+          <span class="badge badge-${color}">${text}</span>
+          ${delta}
+        </div>
+        <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
+          ${side("Before", scenario.before, screenshotBasePaths.before)}
+          ${side("After", scenario.after, screenshotBasePaths.after)}
+        </div>
+      </div>
+    </section>`;
+	}
+
+	private buildComparisonTable(scenarios: ScenarioComparison[]): string {
+		const status = (result: EvaluationResult | undefined): string => {
+			if (!result) return "—";
+			const { statusColor, statusText } = STATUS_BADGES[resultStatus(result)];
+			return `<span class="badge badge-${statusColor} badge-sm">${statusText}</span> ${(result.confidence * PERCENTAGE_MULTIPLIER).toFixed(0)}%`;
+		};
+		const rows = scenarios
+			.map((scenario) => {
+				const { color, text } = CHANGE_BADGES[scenario.change];
+				const delta =
+					scenario.confidenceDelta === undefined
+						? "—"
+						: this.formatDelta(scenario.confidenceDelta);
+				return `
+              <tr>
+                <td>${this.escapeHtml(scenario.componentName)}</td>
+                <td>${this.escapeHtml(scenario.scenarioName)}</td>
+                <td><span class="badge badge-${color} badge-sm">${text}</span></td>
+                <td class="whitespace-nowrap">${status(scenario.before)}</td>
+                <td class="whitespace-nowrap">${status(scenario.after)}</td>
+                <td class="text-right">${delta}</td>
+              </tr>`;
+			})
+			.join("");
+
+		return `
+    <section class="card bg-base-200 border border-base-300">
+      <div class="card-body">
+        <h2 class="card-title">All scenarios</h2>
+        <div class="overflow-x-auto">
+          <table class="table table-zebra">
+            <thead>
+              <tr>
+                <th>Component</th>
+                <th>Scenario</th>
+                <th>Change</th>
+                <th>Before</th>
+                <th>After</th>
+                <th class="text-right">Confidence Δ (points)</th>
+              </tr>
+            </thead>
+            <tbody>${rows}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </section>`;
+	}
+
 	private buildSummarySection(summary: TestSummary): string {
 		const passRate = (summary.passRate * PERCENTAGE_MULTIPLIER).toFixed(1);
 		const avgConfidence = (
@@ -181,10 +506,50 @@ export class ReportGenerator implements IReportGenerator {
         <div class="stat-title">Failed Tests</div>
         <div class="stat-value ${summary.failed > 0 ? "text-error" : ""}">${summary.failed}</div>
         <div class="stat-desc">${summary.failed > 0 ? "Requires attention" : "All tests passed"}</div>
-      </div>
+      </div>${this.buildUnresolvedStats(summary)}
     </div>`;
 	}
 
+	/**
+	 * Evaluations without a verdict, shown apart from failures: errored
+	 * ones may only need a re-run, uncertain ones a closer look
+	 */
+	private buildUnresolvedStats(summary: TestSummary): string {
+		const stats = [
+			{
+				title: "Errored",
+				count: summary.errored,
+				color: "text-warning",
+				desc: "No verdict reached - re-run to evaluate",
+			},
+			{
+				title: "Uncertain",
+				count: summary.uncertain,
+				color: "text-info",
+				desc: "Samples disagreed - review by hand",
+			},
+			{
+				title: "Overridden",
+				count: summary.overridden,
+				color: "",
+				desc: `By a reviewer; ${summary.accepted} more accepted as is`,
+			},
+		];
+
+		return stats
+			.filter((stat) => stat.count > 0)
+			.map(
+				(stat) => `
+
+      <div class="stat">
+        <div class="stat-title">${stat.title}</div>
+        <div class="stat-value ${stat.color}">${stat.count}</div>
+        <div class="stat-desc">${stat.desc}</div>
+      </div>`
+			)
+			.join("");
+	}
+
 	private buildComponentSection(
 		component: ComponentSummary,
 		_screenshotDir: string,
@@ -196,7 +561,13 @@ export class ReportGenerator implements IReportGenerator {
 			PERCENTAGE_MULTIPLIER
 		).toFixed(0);
 
-		const badgeClass = component.failed === 0 ? "badge-success" : "badge-error";
+		let badgeClass = "badge-error";
+		if (component.failed === 0) {
+			badgeClass =
+				component.errored || component.uncertain
+					? "badge-warning"
+					: "badge-success";
+		}
 
 		const rows = this.buildScenarioTableRows(
 			component.componentName,
@@ -266,9 +637,14 @@ export class ReportGenerator implements IReportGenerator {
 		rowId: string,
 		slug: string
 	): string {
-		const statusColor = result.passed ? "success" : "error";
-		const statusText = result.passed ? "PASSED" : "FAILED";
-		const statusIcon = result.passed ? "✓" : "✗";
+		const { statusColor, statusText, statusIcon } =
+			STATUS_BADGES[resultStatus(result)];
+		const cached = result.cachedAt
+			? ` <span class="badge badge-ghost badge-sm" title="Cached ${new Date(result.cachedAt).toLocaleString()}">Cached</span>`
+			: "";
+		const reviewed = result.review
+			? ` <span class="badge badge-outline badge-sm" title="${this.escapeHtml(result.review.reviewer)}">${REVIEW_LABELS[result.review.decision]}</span>`
+			: "";
 		const confidence = (result.confidence * PERCENTAGE_MULTIPLIER).toFixed(0);
 
 		return `
@@ -282,7 +658,7 @@ export class ReportGenerator implements IReportGenerator {
                 tabindex="0"
               >
                 <td class="whitespace-nowrap">${this.escapeHtml(result.scenarioName)}</td>
-                <td class="whitespace-nowrap"><span class="badge badge-${statusColor}">${statusIcon} ${statusText}</span></td>
+                <td class="whitespace-nowrap"><span class="badge badge-${statusColor}">${statusIcon} ${statusText}</span>${reviewed}${cached}</td>
                 <td class="whitespace-nowrap">${confidence}%</td>
                 <td class="text-right">
                   <button class="btn btn-sm btn-ghost" data-toggle-target="${rowId}" data-accordion-group="${slug}">Details</button>
@@ -297,23 +673,26 @@ export class ReportGenerator implements IReportGenerator {
 		config: ReportConfig,
 		screenshotBasePath: string
 	): string {
-		const screenshotFilename = path.basename(result.filePath);
-		const relativeScreenshotPath = `${screenshotBasePath}${screenshotFilename}`;
-
 		const screenshotHtml = config.includeScreenshots
-			? `
-                        <figure class="bg-base-100 p-3 rounded-box border border-base-300">
-                          <img src="${this.escapeHtml(relativeScreenshotPath)}" alt="${this.escapeHtml(
-														result.scenarioName
-													)}" class="rounded border border-base-300 max-w-full h-auto" loading="lazy" />
-                        </figure>
-                        `
+			? this.buildScreenshotHtml(result, config, screenshotBasePath)
 			: "";
 
 		const observationsHtml = this.buildObservationsHtml(result);
+		const baselineHtml = this.buildBaselineHtml(result, screenshotBasePath);
+		const consensusHtml = this.buildConsensusHtml(result);
+		const reviewHtml = this.buildReviewHtml(result);
+		// What the model actually said, when no verdict could be read from it
+		const rawResponseHtml =
+			result.error && result.rawResponse
+				? `
+                          <details>
+                            <summary class="cursor-pointer"><strong>Raw response</strong></summary>
+                            <pre class="text-xs whitespace-pre-wrap opacity-80 mt-1">${this.escapeHtml(result.rawResponse)}</pre>
+                          </details>`
+				: "";
 
 		return `
-              <tr id="${rowId}" class="hidden details-row" data-accordion-group="${slug}">
+              <tr id="${rowId}" class="hidden details-row" data-accordion-group="${slug}" data-component="${this.escapeHtml(result.componentName)}" data-scenario="${this.escapeHtml(result.scenarioName)}">
                 <td colspan="4" class="bg-base-100">
                   <div class="collapse collapse-open bg-base-200 border border-base-300 rounded-box">
                     <div class="collapse-title text-md font-medium">Detailed Result</div>
@@ -325,7 +704,11 @@ export class ReportGenerator implements IReportGenerator {
                             <strong>AI Analysis</strong>
                             <p class="opacity-80 mt-1">${this.escapeHtml(result.reasoning)}</p>
                           </div>
+                          ${reviewHtml}
+                          ${baselineHtml}
+                          ${consensusHtml}
                           ${observationsHtml}
+                          ${rawResponseHtml}
                         </div>
                       </div>
                     </div>
@@ -334,6 +717,139 @@ export class ReportGenerator implements IReportGenerator {
               </tr>`;
 	}
 
+	private buildScreenshotHtml(
+		result: EvaluationResult,
+		config: ReportConfig,
+		screenshotBasePath: string
+	): string {
+		const src = (filePath: string) =>
+			this.escapeHtml(`${screenshotBasePath}${path.basename(filePath)}`);
+		const alt = this.escapeHtml(result.scenarioName);
+		const frames = result.frames ?? [];
+
+		if (
+			frames.length > 1 &&
+			!(config.frameDisplay === "animation" && result.animation)
+		) {
+			return `
+                        <figure class="bg-base-100 p-3 rounded-box border border-base-300">
+                          <div class="grid grid-cols-2 lg:grid-cols-3 gap-2">
+                            ${frames
+															.map(
+																(frame, index) => `
+                            <div>
+                              <img src="${src(frame.filePath)}" alt="${alt} frame ${index + 1}" class="rounded border border-base-300 max-w-full h-auto" loading="lazy" />
+                              <figcaption class="text-xs opacity-70 mt-1">Frame ${index + 1} · +${frame.offsetMs}ms</figcaption>
+                            </div>`
+															)
+															.join("")}
+                          </div>
+                        </figure>
+                        `;
+		}
+
+		// Animated scenarios show their animated PNG; browsers play it in an <img>
+		const imagePath =
+			frames.length > 1 && result.animation
+				? result.animation
+				: result.filePath;
+		const caption =
+			frames.length > 1
+				? `<figcaption class="text-xs opacity-70 mt-1">${frames.length} frames over ${frames.at(-1)?.offsetMs ?? 0}ms</figcaption>`
+				: "";
+		return `
+                        <figure class="bg-base-100 p-3 rounded-box border border-base-300">
+                          <img src="${src(imagePath)}" alt="${alt}" class="rounded border border-base-300 max-w-full h-auto" loading="lazy" />
+                          ${caption}
+                        </figure>
+                        `;
+	}
+
+	private buildReviewHtml(result: EvaluationResult): string {
+		const { review } = result;
+		if (!review) return "";
+
+		let aiCall = result.passed ? "the AI said pass" : "the AI said fail";
+		if (result.error) aiCall = "the AI reached no verdict";
+		const note = review.note
+			? `<p class="opacity-80 mt-1">${this.escapeHtml(review.note)}</p>`
+			: "";
+		return `
+                          <div>
+                            <strong>Review</strong>
+                            <span class="badge badge-outline badge-sm ml-2">${REVIEW_LABELS[review.decision]}</span>
+                            <p class="opacity-80 mt-1">By ${this.escapeHtml(review.reviewer)} in ${this.escapeHtml(review.runId)}, ${new Date(review.reviewedAt).toLocaleString()}; ${aiCall}.</p>
+                            ${note}
+                          </div>`;
+	}
+
+	private buildConsensusHtml(result: EvaluationResult): string {
+		const { consensus } = result;
+		if (!consensus) return "";
+
+		const agreement = (consensus.agreement * PERCENTAGE_MULTIPLIER).toFixed(0);
+		const samples = consensus.samples
+			.map((sample) => {
+				const model = sample.model ? `${this.escapeHtml(sample.model)}: ` : "";
+				if (sample.error) {
+					return `<li>${model}<span class="text-warning">errored</span> - ${this.escapeHtml(sample.error)}</li>`;
+				}
+				const confidence = (
+					(sample.confidence ?? 0) * PERCENTAGE_MULTIPLIER
+				).toFixed(0);
+				return `<li>${model}${sample.passed ? "pass" : "fail"} (${confidence}%) - ${this.escapeHtml(sample.reasoning ?? "")}</li>`;
+			})
+			.join("");
+
+		return `
+                          <div>
+                            <strong>Consensus</strong>
+                            <span class="badge badge-${consensus.uncertain ? "info" : "ghost"} badge-sm ml-2">${agreement}% agreement</span>
+                            <p class="opacity-80 mt-1">${consensus.samples.length} samples, ${consensus.vote === "weighted" ? "confidence-weighted" : "majority"} vote</p>
+                            <ul class="list-disc list-inside opacity-80">${samples}</ul>
+                          </div>`;
+	}
+
+	private buildBaselineHtml(
+		result: EvaluationResult,
+		screenshotBasePath: string
+	): string {
+		const { baseline } = result;
+		if (!baseline) return "";
+
+		const runId = this.escapeHtml(baseline.runId);
+		if (baseline.unchanged) {
+			return `
+                          <div>
+                            <strong>Baseline</strong>
+                            <p class="opacity-80 mt-1">Unchanged since baseline ${runId}; its verdict was reused without an AI call.</p>
+                          </div>`;
+		}
+
+		const changes = [`${baseline.changedPixels} pixels`];
+		if (baseline.changedCells !== undefined) {
+			changes.push(`${baseline.changedCells} cells`);
+		}
+		const regression =
+			baseline.isRegression === undefined
+				? ""
+				: `<span class="badge badge-${baseline.isRegression ? "error" : "success"} badge-sm ml-2">${baseline.isRegression ? "Regression" : "Accepted change"}</span>`;
+		const differences = (baseline.differences ?? [])
+			.map((difference) => `<li>${this.escapeHtml(difference)}</li>`)
+			.join("");
+		const diffMask = baseline.diffPath
+			? `<img src="${this.escapeHtml(`${screenshotBasePath}${path.basename(baseline.diffPath)}`)}" alt="${this.escapeHtml(result.scenarioName)} changes since baseline" class="rounded border border-base-300 max-w-full h-auto mt-2" loading="lazy" />`
+			: "";
+
+		return `
+                          <div>
+                            <strong>Baseline</strong>${regression}
+                            <p class="opacity-80 mt-1">Changed since baseline ${runId}: ${changes.join(", ")}.</p>
+                            ${differences ? `<ul class="list-disc ml-5 mt-1">${differences}</ul>` : ""}
+                            ${diffMask}
+                          </div>`;
+	}
+
 	private buildObservationsHtml(result: EvaluationResult): string {
 		const parts: string[] = [];
 
@@ -6,18 +6,34 @@ import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
 import path from "node:path";
 import { DIRS, FILES, PATHS } from "@/testing/config/paths";
 import { logger } from "@/testing/logger";
+import { type BaselineEntry, BaselineStore } from "../baseline";
+import type { ComponentSummary, TestSummary } from "../evaluation/Collector";
+import type { ScreenshotMetadata } from "../types";
+import type { RunResults, TrendPoint } from "./comparison";
 
 export type RunMetadata = {
 	runId: string; // Timestamp-based ID: YYYY-MM-DD_HHMMSS
 	timestamp: number;
 	name?: string; // Optional named run
+	selection?: string; // Scenarios the run was limited to, e.g. "tag smoke"
 	totalTests: number;
 	passed: number;
 	failed: number;
+	errored?: number; // Absent from runs saved before errors were counted
+	uncertain?: number; // Absent from runs saved before consensus voting
 	passRate: number;
+	averageConfidence?: number; // Absent from runs saved before trends were charted
 	duration: number;
 };
 
+/**
+ * Contents of a results.json
+ */
+export type RunResultsFile = {
+	summary: TestSummary;
+	components: ComponentSummary[];
+};
+
 export type ReportManagerConfig = {
 	baseDir: string; // Base reports directory (default: "reports")
 	keepHistory: number; // Number of runs to keep (default: 10)
@@ -230,6 +246,108 @@ export class ReportManager {
 		return null;
 	}
 
+	/**
+	 * Baselines kept alongside the reports
+	 */
+	getBaselineStore(): BaselineStore {
+		return new BaselineStore(path.join(this.config.baseDir, DIRS.baselines));
+	}
+
+	/**
+	 * A run from the manifest by name or ID; the newest run of that name wins
+	 */
+	async findRun(run: string): Promise<RunMetadata> {
+		const history = await this.getRunHistory();
+		const match = history.find(
+			(entry) => entry.name === run || entry.runId === run
+		);
+		if (!match) {
+			throw new Error(`No run named "${run}" in the runs manifest`);
+		}
+		return match;
+	}
+
+	/**
+	 * A run's archived results, by name or ID
+	 */
+	async loadRun(run: string): Promise<RunResults> {
+		const metadata = await this.findRun(run);
+		const { components } = await this.readRunResults(metadata.runId);
+		return { metadata, components };
+	}
+
+	private readRunResults(runId: string): Promise<RunResultsFile> {
+		return this.loadResults(this.getRunDir(runId));
+	}
+
+	/**
+	 * The results in a report directory; by default the latest report's,
+	 * as re-evaluated and reviewed since its run
+	 */
+	async loadResults(
+		dir: string = this.config.baseDir
+	): Promise<RunResultsFile> {
+		return JSON.parse(
+			await readFile(path.join(dir, FILES.reportResults), "utf-8")
+		);
+	}
+
+	/**
+	 * Pass rate and average confidence of every kept run, oldest first
+	 * Runs saved before confidence was in the manifest read it from their
+	 * archived results, when those are still there
+	 */
+	async getTrend(): Promise<TrendPoint[]> {
+		const history = await this.getRunHistory();
+		const points: TrendPoint[] = [];
+		for (const run of history.toReversed()) {
+			let { averageConfidence } = run;
+			if (averageConfidence === undefined) {
+				try {
+					({ averageConfidence } = (
+						await this.readRunResults(run.runId)
+					).summary);
+				} catch {
+					// Results deleted or never archived: chart the pass rate only
+				}
+			}
+			points.push({
+				runId: run.runId,
+				name: run.name,
+				timestamp: run.timestamp,
+				passRate: run.passRate,
+				averageConfidence,
+			});
+		}
+		return points;
+	}
+
+	/**
+	 * Promotes a run's passing scenarios to baselines, so later runs only
+	 * evaluate what changed since
+	 * Takes the run's name or ID; the newest run of that name wins
+	 */
+	async promoteBaseline(run: string): Promise<BaselineEntry[]> {
+		const match = await this.findRun(run);
+		const runDir = this.getRunDir(match.runId);
+		const screenshotDir = path.join(runDir, DIRS.screenshots);
+		const screenshots: ScreenshotMetadata[] = JSON.parse(
+			await readFile(path.join(screenshotDir, FILES.metadata), "utf-8")
+		);
+		const { components } = await this.readRunResults(match.runId);
+
+		const promoted = await this.getBaselineStore().promote(
+			match.runId,
+			screenshotDir,
+			screenshots,
+			components.flatMap((component) => component.results)
+		);
+		logger.indent(
+			`Promoted ${promoted.length} of ${screenshots.length} scenarios from ${match.runId} to baselines`
+		);
+		return promoted;
+	}
+
 	/**
 	 * Copies latest report to versioned run directory
 	 */
@@ -0,0 +1,108 @@
+import { describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { DIRS, FILES } from "@/testing/config/paths";
+import { Collector } from "../evaluation/Collector";
+import type { EvaluationResult } from "../evaluation/types";
+import { evaluationResult } from "../fixtures";
+import { compareRuns } from "./comparison";
+import { ReportGenerator } from "./ReportGenerator";
+import { ReportManager, type RunMetadata } from "./ReportManager";
+
+const HIGH = 0.9;
+const LOW = 0.6;
+const HALF = 0.5;
+
+const result = (
+	scenarioName: string,
+	passed: boolean,
+	confidence = HIGH
+): EvaluationResult => evaluationResult(scenarioName, { passed, confidence });
+
+/**
+ * Archives a run's results and adds it to the manifest, as the pipeline does
+ */
+const archive = async (
+	manager: ReportManager,
+	runId: string,
+	timestamp: number,
+	results: EvaluationResult[]
+): Promise<void> => {
+	const collector = new Collector();
+	for (const item of results) collector.addResult(item);
+	const summary = collector.getSummary();
+
+	await mkdir(manager.getRunDir(runId), { recursive: true });
+	await writeFile(
+		path.join(manager.getRunDir(runId), FILES.reportResults),
+		collector.exportToJSON()
+	);
+	// Saved before the manifest carried confidence, so the trend reads it back
+	const metadata: RunMetadata = {
+		runId,
+		timestamp,
+		totalTests: summary.totalTests,
+		passed: summary.passed,
+		failed: summary.failed,
+		passRate: summary.passRate,
+		duration: 0,
+	};
+	await manager.saveRunMetadata(metadata);
+};
+
+describe("run comparison", () => {
+	test("lists flips first, with confidence deltas and the trend", async () => {
+		const baseDir = await mkdtemp(path.join(tmpdir(), "comparison-"));
+		const manager = new ReportManager({ baseDir });
+		await archive(manager, "run-a", 1, [
+			result("default", true),
+			result("long-title", true),
+			result("narrow", false),
+			result("empty", true),
+		]);
+		await archive(manager, "run-b", 2, [
+			result("default", true, LOW),
+			result("long-title", false),
+			result("narrow", true),
+			result("dark", true),
+		]);
+
+		const comparison = compareRuns(
+			await manager.loadRun("run-a"),
+			await manager.loadRun("run-b")
+		);
+		expect(
+			comparison.scenarios.map(({ scenarioName, change }) => [
+				scenarioName,
+				change,
+			])
+		).toEqual([
+			["long-title", "regressed"],
+			["narrow", "fixed"],
+			["dark", "added"],
+			["empty", "removed"],
+			["default", "unchanged"],
+		]);
+		expect(comparison.scenarios.at(-1)?.confidenceDelta).toBeCloseTo(
+			LOW - HIGH
+		);
+
+		const trend = await manager.getTrend();
+		expect(trend.map((point) => point.runId)).toEqual(["run-a", "run-b"]);
+		expect(trend[1]?.passRate).toBe(HALF + HALF / 2);
+		expect(trend[1]?.averageConfidence).toBeGreaterThan(0);
+
+		const html = new ReportGenerator().generateComparisonReport({
+			comparison,
+			trend,
+			screenshotBasePaths: {
+				before: `${DIRS.runs}/run-a/${DIRS.screenshots}/`,
+				after: `${DIRS.runs}/run-b/${DIRS.screenshots}/`,
+			},
+		});
+		expect(html).toContain('src="runs/run-a/screenshots/long-title.png"');
+		expect(html).toContain('src="runs/run-b/screenshots/long-title.png"');
+		expect(html).toContain("<polyline");
+	});
+});
@@ -0,0 +1,138 @@
+/**
+ * Run comparison
+ * Single Responsibility: Line up two archived runs scenario by scenario, and
+ * say which verdicts flipped and how confidence moved between them
+ */
+
+import {
+	type ComponentSummary,
+	type ResultStatus,
+	resultStatus,
+} from "../evaluation/Collector";
+import type { EvaluationResult } from "../evaluation/types";
+import type { RunMetadata } from "./ReportManager";
+
+/**
+ * An archived run, as read back from its directory
+ */
+export type RunResults = {
+	metadata: RunMetadata;
+	components: ComponentSummary[];
+};
+
+/**
+ * How a scenario changed: regressed and fixed are flips between passing and
+ * anything else; a scenario in only one of the runs was added or removed
+ */
+export type ScenarioChange =
+	| "regressed"
+	| "fixed"
+	| "unchanged"
+	| "added"
+	| "removed";
+
+export type ScenarioComparison = {
+	componentName: string;
+	scenarioName: string;
+	change: ScenarioChange;
+	before?: EvaluationResult;
+	after?: EvaluationResult;
+	beforeStatus?: ResultStatus;
+	afterStatus?: ResultStatus;
+	confidenceDelta?: number; // after - before, when both runs have the scenario
+};
+
+export type RunComparison = {
+	before: RunMetadata;
+	after: RunMetadata;
+	scenarios: ScenarioComparison[]; // Flips first, then by component and scenario
+};
+
+/**
+ * One run on the history chart
+ */
+export type TrendPoint = {
+	runId: string;
+	name?: string;
+	timestamp: number;
+	passRate: number;
+	averageConfidence?: number; // Absent for runs whose results are gone
+};
+
+const CHANGE_ORDER: ScenarioChange[] = [
+	"regressed",
+	"fixed",
+	"added",
+	"removed",
+	"unchanged",
+];
+
+const scenarioKey = ({ componentName, scenarioName }: EvaluationResult) =>
+	`${componentName}\u0000${scenarioName}`;
+
+const resultsByScenario = (
+	components: ComponentSummary[]
+): Map<string, EvaluationResult> =>
+	new Map(
+		components
+			.flatMap((component) => component.results)
+			.map((result) => [scenarioKey(result), result])
+	);
+
+const changeOf = (
+	beforeStatus: ResultStatus | undefined,
+	afterStatus: ResultStatus | undefined
+): ScenarioChange => {
+	if (!beforeStatus) return "added";
+	if (!afterStatus) return "removed";
+	const passedBefore = beforeStatus === "passed";
+	const passedAfter = afterStatus === "passed";
+	if (passedBefore === passedAfter) return "unchanged";
+	return passedAfter ? "fixed" : "regressed";
+};
+
+const compareScenario = (
+	before: EvaluationResult | undefined,
+	after: EvaluationResult | undefined
+): ScenarioComparison => {
+	const { componentName, scenarioName } = (after ?? before) as EvaluationResult;
+	const beforeStatus = before && resultStatus(before);
+	const afterStatus = after && resultStatus(after);
+
+	return {
+		componentName,
+		scenarioName,
+		change: changeOf(beforeStatus, afterStatus),
+		before,
+		after,
+		beforeStatus,
+		afterStatus,
+		confidenceDelta:
+			before && after ? after.confidence - before.confidence : undefined,
+	};
+};
+
+/**
+ * Every scenario of either run, paired with itself in the other
+ */
+export function compareRuns(
+	before: RunResults,
+	after: RunResults
+): RunComparison {
+	const beforeResults = resultsByScenario(before.components);
+	const afterResults = resultsByScenario(after.components);
+	const keys = new Set([...beforeResults.keys(), ...afterResults.keys()]);
+
+	const scenarios = [...keys]
+		.map((key) =>
+			compareScenario(beforeResults.get(key), afterResults.get(key))
+		)
+		.sort(
+			(a, b) =>
+				CHANGE_ORDER.indexOf(a.change) - CHANGE_ORDER.indexOf(b.change) ||
+				a.componentName.localeCompare(b.componentName) ||
+				a.scenarioName.localeCompare(b.scenarioName)
+		);
+
+	return { before: before.metadata, after: after.metadata, scenarios };
+}
@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test";
+import { Collector } from "../evaluation/Collector";
+import type { EvaluationResult } from "../evaluation/types";
+import { evaluationResult } from "../fixtures";
+import {
+	type FormatInput,
+	formatJUnit,
+	formatMarkdown,
+	formatTap,
+} from "./formats";
+
+const LOW_AGREEMENT = 0.5;
+
+const result = (
+	scenarioName: string,
+	overrides: Partial<EvaluationResult> = {}
+): EvaluationResult =>
+	evaluationResult(scenarioName, {
+		componentName: "Input <field>",
+		reasoning: "Caret is visible",
+		...overrides,
+	});
+
+const input = (): FormatInput => {
+	const collector = new Collector();
+	collector.addResult(result("idle"));
+	collector.addResult(
+		result("typing", { passed: false, reasoning: 'Shows "a & b" | clipped' })
+	);
+	collector.addResult(
+		result("hung", { passed: false, error: "Timed out after 50ms" })
+	);
+	collector.addResult(
+		result("focused", {
+			consensus: {
+				vote: "majority",
+				agreement: LOW_AGREEMENT,
+				uncertain: true,
+				samples: [],
+			},
+		})
+	);
+	return {
+		summary: collector.getSummary(),
+		componentResults: collector.getAllResults(),
+	};
+};
+
+describe("output formats", () => {
+	test("JUnit maps components to suites and statuses to failures or errors", () => {
+		const xml = formatJUnit(input());
+
+		expect(xml).toContain(
+			'<testsuite name="Input &lt;field&gt;" tests="4" failures="2" errors="1"'
+		);
+		expect(xml).toContain(
+			'<failure message="Shows &quot;a &amp; b&quot; | clipped" type="failed">'
+		);
+		expect(xml).toContain(
+			'<error message="Timed out after 50ms" type="errored"/>'
+		);
+		expect(xml).toContain('type="uncertain"');
+		expect(xml).not.toContain("<field>");
+	});
+
+	test("Markdown lists only the scenarios that need attention", () => {
+		const markdown = formatMarkdown(input());
+		const attention = markdown.split("<details>")[0] ?? "";
+
+		expect(markdown).toStartWith("## ❌ Visual Tests: 1/4 passed");
+		expect(attention).toContain('Shows "a & b" \\| clipped');
+		expect(attention).toContain("Samples disagreed (50.0% agreement)");
+		expect(attention).not.toContain("| idle |");
+		expect(markdown).toContain("| idle |");
+	});
+
+	test("TAP has a test point per scenario with YAML for the ones that didn't pass", () => {
+		const lines = formatTap(input()).split("\n");
+
+		expect(lines).toContain("TAP version 13");
+		expect(lines).toContain("1..4");
+		expect(lines).toContain("ok 1 - Input <field> / idle");
+		expect(lines).toContain("not ok 2 - Input <field> / typing");
+		expect(lines).toContain("  status: errored");
+		expect(lines).toContain('  message: "Timed out after 50ms"');
+	});
+});
@@ -0,0 +1,229 @@
+/**
+ * Output formats - Machine-readable renderings of a run's results
+ * Single Responsibility: Turn the summary and per-component results into
+ * JUnit XML for CI dashboards, a Markdown summary for PR comments, and TAP
+ */
+
+import { FILES } from "@/testing/config/paths";
+import {
+	type ComponentSummary,
+	type ResultStatus,
+	resultStatus,
+	type TestSummary,
+} from "../evaluation/Collector";
+import type { EvaluationResult } from "../evaluation/types";
+
+export type OutputFormat = "junit" | "markdown" | "tap";
+
+export type FormatInput = {
+	summary: TestSummary;
+	componentResults: Map<string, ComponentSummary>;
+};
+
+const SUITE_NAME = "Visual Tests";
+const PERCENTAGE_MULTIPLIER = 100;
+const MILLISECONDS_TO_SECONDS = 1000;
+// Reasoning is cut to this in Markdown tables, to keep PR comments short
+const MARKDOWN_REASONING_LENGTH = 200;
+
+const STATUS_ICONS: Record<ResultStatus, string> = {
+	passed: "✅",
+	failed: "❌",
+	errored: "⚠️",
+	uncertain: "❔",
+};
+
+const XML_ESCAPES: Record<string, string> = {
+	"&": "&amp;",
+	"<": "&lt;",
+	">": "&gt;",
+	'"': "&quot;",
+	"'": "&apos;",
+};
+const XML_SPECIAL_CHARACTERS = /[&<>"']/g;
+// Control characters XML 1.0 can't carry at all, even escaped
+// biome-ignore lint/suspicious/noControlCharactersInRegex: matching them is the point
+const XML_INVALID_CHARACTERS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g;
+const LINE_BREAKS = /\r?\n/g;
+const TABLE_PIPES = /\|/g;
+
+const escapeXml = (text: string): string =>
+	text
+		.replace(XML_INVALID_CHARACTERS, "")
+		.replace(XML_SPECIAL_CHARACTERS, (char) => XML_ESCAPES[char] ?? char);
+
+const escapeTableCell = (text: string): string =>
+	text.replace(TABLE_PIPES, "\\|").replace(LINE_BREAKS, " ");
+
+const percent = (ratio: number): string =>
+	`${(ratio * PERCENTAGE_MULTIPLIER).toFixed(1)}%`;
+
+const seconds = (ms: number): string =>
+	(ms / MILLISECONDS_TO_SECONDS).toFixed(2);
+
+/**
+ * Why a result didn't pass, in one message
+ */
+const verdictMessage = (result: EvaluationResult): string => {
+	switch (resultStatus(result)) {
+		case "errored":
+			return result.error ?? result.reasoning;
+		case "uncertain":
+			return `Samples disagreed (${percent(result.consensus?.agreement ?? 0)} agreement): ${result.reasoning}`;
+		default:
+			return result.reasoning;
+	}
+};
+
+const allResults = ({ componentResults }: FormatInput): EvaluationResult[] =>
+	[...componentResults.values()].flatMap((component) => component.results);
+
+const junitTestcase = (result: EvaluationResult): string => {
+	const status = resultStatus(result);
+	const attributes = `classname="${escapeXml(result.componentName)}" name="${escapeXml(result.scenarioName)}"`;
+	const details = [result.reasoning, ...(result.suggestions ?? [])].join("\n");
+
+	let outcome = "";
+	if (status === "errored") {
+		outcome = `\n      <error message="${escapeXml(verdictMessage(result))}" type="errored"/>`;
+	} else if (status !== "passed") {
+		outcome = `\n      <failure message="${escapeXml(verdictMessage(result))}" type="${status}">${escapeXml(details)}</failure>`;
+	}
+
+	return `    <testcase ${attributes}>${outcome}
+      <system-out>${escapeXml(`Confidence: ${percent(result.confidence)}\n${details}`)}</system-out>
+    </testcase>`;
+};
+
+/**
+ * JUnit XML: each component is a testsuite and each scenario a testcase;
+ * failed and uncertain scenarios are failures, errored ones errors
+ */
+export function formatJUnit({
+	summary,
+	componentResults,
+}: FormatInput): string {
+	const suites = [...componentResults.values()].map(
+		(
+			component
+		) => `  <testsuite name="${escapeXml(component.componentName)}" tests="${component.scenarios}" failures="${component.failed + component.uncertain}" errors="${component.errored}" skipped="0">
+${component.results.map(junitTestcase).join("\n")}
+  </testsuite>`
+	);
+
+	return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="${SUITE_NAME}" tests="${summary.totalTests}" failures="${summary.failed + summary.uncertain}" errors="${summary.errored}" time="${seconds(summary.duration)}" timestamp="${new Date(summary.timestamp).toISOString()}">
+${suites.join("\n")}
+</testsuites>
+`;
+}
+
+/**
+ * Markdown summary for PR comments: totals, then only the scenarios that
+ * need attention, with every scenario folded away below
+ */
+export function formatMarkdown(input: FormatInput): string {
+	const { summary } = input;
+	const results = allResults(input);
+	const unresolved = summary.errored + summary.uncertain;
+	let icon = STATUS_ICONS.passed;
+	if (summary.failed > 0) {
+		icon = STATUS_ICONS.failed;
+	} else if (unresolved > 0) {
+		icon = STATUS_ICONS.errored;
+	}
+
+	const row = (result: EvaluationResult, detail: string): string =>
+		`| ${escapeTableCell(result.componentName)} | ${escapeTableCell(result.scenarioName)} | ${STATUS_ICONS[resultStatus(result)]} ${resultStatus(result)} | ${detail} |`;
+
+	const attention = results
+		.filter((result) => resultStatus(result) !== "passed")
+		.map((result) => {
+			const message = verdictMessage(result);
+			const cut =
+				message.length > MARKDOWN_REASONING_LENGTH
+					? `${message.slice(0, MARKDOWN_REASONING_LENGTH)}…`
+					: message;
+			return row(result, escapeTableCell(cut));
+		});
+
+	const lines = [
+		`## ${icon} ${SUITE_NAME}: ${summary.passed}/${summary.totalTests} passed (${percent(summary.passRate)})`,
+		"",
+		"| Passed | Failed | Errored | Uncertain | Avg confidence | Duration |",
+		"| ---: | ---: | ---: | ---: | ---: | ---: |",
+		`| ${summary.passed} | ${summary.failed} | ${summary.errored} | ${summary.uncertain} | ${percent(summary.averageConfidence)} | ${seconds(summary.duration)}s |`,
+	];
+	if (attention.length > 0) {
+		lines.push(
+			"",
+			"### Needs attention",
+			"",
+			"| Component | Scenario | Status | Reasoning |",
+			"| --- | --- | --- | --- |",
+			...attention
+		);
+	}
+	lines.push(
+		"",
+		"<details>",
+		"<summary>All scenarios</summary>",
+		"",
+		"| Component | Scenario | Status | Confidence |",
+		"| --- | --- | --- | ---: |",
+		...results.map((result) => row(result, percent(result.confidence))),
+		"",
+		"</details>",
+		""
+	);
+	return lines.join("\n");
+}
+
+/**
+ * TAP version 13: one test point per scenario, with a YAML block
+ * explaining each one that didn't pass
+ */
+export function formatTap(input: FormatInput): string {
+	const results = allResults(input);
+	const points = results.map((result, index) => {
+		const status = resultStatus(result);
+		const point = `${status === "passed" ? "ok" : "not ok"} ${index + 1} - ${result.componentName} / ${result.scenarioName}`;
+		if (status === "passed") return point;
+
+		return [
+			point,
+			"  ---",
+			`  status: ${status}`,
+			`  message: ${JSON.stringify(verdictMessage(result))}`,
+			`  confidence: ${result.confidence}`,
+			"  ...",
+		].join("\n");
+	});
+
+	const { summary } = input;
+	return [
+		"TAP version 13",
+		`1..${results.length}`,
+		...points,
+		`# pass ${summary.passed}`,
+		`# fail ${summary.failed}`,
+		`# errored ${summary.errored}`,
+		`# uncertain ${summary.uncertain}`,
+		"",
+	].join("\n");
+}
+
+/**
+ * Every output format, with the file it is written to next to the report
+ */
+export const OUTPUT_FORMATS: Record<
+	OutputFormat,
+	{ fileName: string; format: (input: FormatInput) => string }
+> = {
+	junit: { fileName: FILES.junitReport, format: formatJUnit },
+	markdown: { fileName: FILES.markdownSummary, format: formatMarkdown },
+	tap: { fileName: FILES.tapReport, format: formatTap },
+};
+
+export const isOutputFormat = (value: string): value is OutputFormat =>
+	Object.hasOwn(OUTPUT_FORMATS, value);
@@ -2,7 +2,31 @@
  * Reporting module - HTML report generation and management
  */
 
-export type { IReportGenerator, ReportConfig } from "./ReportGenerator";
+export type {
+	RunComparison,
+	RunResults,
+	ScenarioChange,
+	ScenarioComparison,
+	TrendPoint,
+} from "./comparison";
+export { compareRuns } from "./comparison";
+export type { FormatInput, OutputFormat } from "./formats";
+export {
+	formatJUnit,
+	formatMarkdown,
+	formatTap,
+	isOutputFormat,
+	OUTPUT_FORMATS,
+} from "./formats";
+export type {
+	GenerateComparisonOptions,
+	IReportGenerator,
+	ReportConfig,
+} from "./ReportGenerator";
 export { ReportGenerator } from "./ReportGenerator";
-export type { ReportManagerConfig, RunMetadata } from "./ReportManager";
+export type {
+	ReportManagerConfig,
+	RunMetadata,
+	RunResultsFile,
+} from "./ReportManager";
 export { ReportManager } from "./ReportManager";
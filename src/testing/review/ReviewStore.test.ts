@@ -0,0 +1,75 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { Collector } from "../evaluation/Collector";
+import type { Review } from "../evaluation/types";
+import { evaluationResult } from "../fixtures";
+import {
+	carryForwardReviews,
+	hashScreenshot,
+	ReviewStore,
+} from "./ReviewStore";
+
+const result = (scenarioName: string, passed: boolean) =>
+	evaluationResult(scenarioName, { passed });
+
+const review = (
+	decision: Review["decision"],
+	screenshotHash: string
+): Review => ({
+	decision,
+	reviewer: "sam",
+	note: "Truncation is intended",
+	reviewedAt: 0,
+	runId: "run-a",
+	screenshotHash,
+});
+
+describe("reviews", () => {
+	test("carry forward while the screenshot is unchanged", async () => {
+		const dir = await mkdtemp(path.join(tmpdir(), "reviews-"));
+		await writeFile(path.join(dir, "same.png"), "same pixels");
+		await writeFile(path.join(dir, "changed.png"), "new pixels");
+		const sameHash = await hashScreenshot(path.join(dir, "same.png"));
+
+		const store = new ReviewStore(dir);
+		await store.save([
+			{ ...result("same", false), review: review("overridden-pass", sameHash) },
+			{ ...result("changed", true), review: review("accepted", "old-hash") },
+		]);
+
+		const carried = await carryForwardReviews(
+			[result("same", false), result("changed", true), result("missing", true)],
+			await store.load(),
+			dir
+		);
+		expect(carried.map((item) => item.review?.decision)).toEqual([
+			"overridden-pass",
+			undefined,
+			undefined,
+		]);
+	});
+
+	test("count overrides and acceptances separately", () => {
+		const collector = new Collector();
+		collector.addResult({
+			...result("cut-off", false),
+			review: review("overridden-pass", "hash"),
+		});
+		collector.addResult({
+			...result("centered", true),
+			review: review("overridden-fail", "hash"),
+		});
+		collector.addResult({
+			...result("wrapped", true),
+			review: review("accepted", "hash"),
+		});
+
+		const summary = collector.getSummary();
+		expect(summary.overridden).toBe(2);
+		expect(summary.accepted).toBe(1);
+		expect(summary.passed).toBe(2);
+		expect(summary.failed).toBe(1);
+	});
+});
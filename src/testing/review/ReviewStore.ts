@@ -0,0 +1,83 @@
+/**
+ * Review Store - People's calls on verdicts, per run
+ * Single Responsibility: Keep each run's reviews next to its results, and
+ * carry them into a later run for as long as the screenshot is unchanged
+ */
+
+import { createHash } from "node:crypto";
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { FILES } from "@/testing/config/paths";
+import { baselineKey } from "../baseline";
+import type { EvaluationResult, Review } from "../evaluation/types";
+
+/**
+ * Content hash a review is tied to
+ */
+export async function hashScreenshot(file: string): Promise<string> {
+	return createHash("sha256")
+		.update(await readFile(file))
+		.digest("hex");
+}
+
+export class ReviewStore {
+	private readonly dir: string;
+
+	/**
+	 * dir: a run's directory, or the latest report's
+	 */
+	constructor(dir: string) {
+		this.dir = dir;
+	}
+
+	/**
+	 * Every review by component/scenario key; empty if none were made
+	 */
+	async load(): Promise<Map<string, Review>> {
+		try {
+			const content = await readFile(
+				path.join(this.dir, FILES.reviews),
+				"utf-8"
+			);
+			return new Map(Object.entries(JSON.parse(content)));
+		} catch {
+			return new Map();
+		}
+	}
+
+	/**
+	 * Stores the reviews on these results, replacing what was there
+	 */
+	async save(results: EvaluationResult[]): Promise<void> {
+		const reviews = results.flatMap((result) =>
+			result.review ? [[baselineKey(result), result.review] as const] : []
+		);
+		await writeFile(
+			path.join(this.dir, FILES.reviews),
+			JSON.stringify(Object.fromEntries(reviews), null, 2),
+			"utf-8"
+		);
+	}
+}
+
+/**
+ * Results with the earlier run's reviews on every screenshot that hasn't
+ * changed since it was reviewed; any other review is dropped
+ */
+export function carryForwardReviews(
+	results: EvaluationResult[],
+	previous: Map<string, Review>,
+	screenshotDir: string
+): Promise<EvaluationResult[]> {
+	return Promise.all(
+		results.map(async ({ review: _stale, ...result }) => {
+			const review = previous.get(baselineKey(result));
+			if (!review) return result;
+
+			const hash = await hashScreenshot(
+				path.join(screenshotDir, path.basename(result.filePath))
+			).catch(() => null);
+			return hash === review.screenshotHash ? { ...result, review } : result;
+		})
+	);
+}
@@ -0,0 +1,9 @@
+/**
+ * Review module - People's overrides and acceptances of AI verdicts
+ */
+
+export {
+	carryForwardReviews,
+	hashScreenshot,
+	ReviewStore,
+} from "./ReviewStore";
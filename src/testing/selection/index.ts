@@ -0,0 +1,6 @@
+/**
+ * Selection module - Which scenarios a run covers
+ */
+
+export type { ScenarioFilter, ScenarioSelection } from "./select";
+export { resolveSelection, selectsScreenshot } from "./select";
@@ -0,0 +1,114 @@
+import { describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { FILES } from "@/testing/config/paths";
+import { CHECKPOINT_SEPARATOR } from "../capture";
+import { Collector } from "../evaluation/Collector";
+import { evaluationResult } from "../fixtures";
+import { ReportManager } from "../reporting";
+import type { ScreenshotMetadata } from "../types";
+import { resolveSelection, selectsScreenshot } from "./select";
+
+const result = (componentName: string, scenarioName: string, passed: boolean) =>
+	evaluationResult(scenarioName, { componentName, passed });
+
+const screenshot = (
+	componentName: string,
+	scenarioName: string,
+	tags?: string[]
+): ScreenshotMetadata => ({
+	componentName,
+	scenarioName,
+	description: "",
+	expectation: "",
+	params: {},
+	filePath: `${scenarioName}.png`,
+	timestamp: 0,
+	dimensions: { width: 0, height: 0 },
+	tags,
+});
+
+const managerIn = async (): Promise<ReportManager> =>
+	new ReportManager({
+		baseDir: await mkdtemp(path.join(tmpdir(), "selection-")),
+	});
+
+describe("scenario selection", () => {
+	test("selects every scenario without a filter", async () => {
+		expect(await resolveSelection({}, await managerIn())).toBeUndefined();
+	});
+
+	test("needs every criterion: any component, name or regex, any tag", async () => {
+		const selection = await resolveSelection(
+			{ components: ["banner", "chat"], scenario: "^Long", tags: ["smoke"] },
+			await managerIn()
+		);
+		if (!selection) throw new Error("Expected a selection");
+		const { select } = selection;
+
+		expect(selection.description).toBe(
+			"component banner or chat, scenario ^Long, tag smoke"
+		);
+		expect(select("banner", "Long title", ["smoke", "text"])).toBe(true);
+		expect(select("chat", "Long thread", ["smoke"])).toBe(true);
+		expect(select("banner", "Long title", ["text"])).toBe(false);
+		expect(select("banner", "Short title", ["smoke"])).toBe(false);
+		expect(select("status-bar", "Long path", ["smoke"])).toBe(false);
+
+		// Not a valid regex, so only that name
+		const named = await resolveSelection(
+			{ scenario: "Count (" },
+			await managerIn()
+		);
+		expect(named?.select("counter", "Count (", [])).toBe(true);
+		expect(named?.select("counter", "Count (0)", [])).toBe(false);
+	});
+
+	test("re-runs whatever didn't pass in the newest run", async () => {
+		const manager = await managerIn();
+		await expect(
+			resolveSelection({ onlyFailed: true }, manager)
+		).rejects.toThrow("No runs");
+
+		const collector = new Collector();
+		collector.addResult(result("banner", "Default", true));
+		collector.addResult(result("banner", "Long title", false));
+		collector.addResult(
+			result("chat", `Typing${CHECKPOINT_SEPARATOR}submitted`, false)
+		);
+		await mkdir(manager.getRunDir("run-a"), { recursive: true });
+		await writeFile(
+			path.join(manager.getRunDir("run-a"), FILES.reportResults),
+			collector.exportToJSON()
+		);
+		await manager.saveRunMetadata({
+			runId: "run-a",
+			timestamp: 0,
+			totalTests: 3,
+			passed: 1,
+			failed: 2,
+			passRate: 0,
+			duration: 0,
+		});
+
+		const selection = await resolveSelection({ onlyFailed: true }, manager);
+		if (!selection) throw new Error("Expected a selection");
+		expect(selection.description).toBe("failed in run-a");
+		expect(
+			[
+				screenshot("banner", "Default"),
+				screenshot("banner", "Long title"),
+				// Every checkpoint of a scripted scenario goes with it
+				screenshot("chat", `Typing${CHECKPOINT_SEPARATOR}empty`),
+				screenshot("chat", `Typing${CHECKPOINT_SEPARATOR}submitted`),
+			]
+				.filter((metadata) => selectsScreenshot(selection.select, metadata))
+				.map(({ scenarioName }) => scenarioName)
+		).toEqual([
+			"Long title",
+			`Typing${CHECKPOINT_SEPARATOR}empty`,
+			`Typing${CHECKPOINT_SEPARATOR}submitted`,
+		]);
+	});
+});
@@ -0,0 +1,127 @@
+/**
+ * Scenario Selection - Which scenarios a run covers
+ * Single Responsibility: Turn the selection flags into one selector, which
+ * capture, evaluation and the report all apply
+ */
+
+import { CHECKPOINT_SEPARATOR, type ScenarioSelector } from "../capture";
+import { resultStatus } from "../evaluation";
+import type { ReportManager } from "../reporting";
+import type { ScenarioRef, ScreenshotMetadata } from "../types";
+
+/**
+ * Scenarios to run; a scenario has to meet every criterion given
+ */
+export type ScenarioFilter = {
+	components?: string[]; // Any of these components
+	scenario?: string; // A scenario name, or a regex one has to match
+	tags?: string[]; // Scenarios with any of these tags
+	onlyFailed?: boolean; // Scenarios that didn't pass in the newest run
+};
+
+export type ScenarioSelection = {
+	select: ScenarioSelector;
+	description: string; // e.g. "component banner, tag smoke"
+};
+
+/**
+ * Exact name, or else a regex match; an invalid regex matches by name only
+ */
+const scenarioMatcher = (scenario: string): ((name: string) => boolean) => {
+	let pattern: RegExp | null = null;
+	try {
+		pattern = new RegExp(scenario);
+	} catch {
+		// A name with brackets or the like, not meant as a regex
+	}
+	return (name) => name === scenario || (pattern?.test(name) ?? false);
+};
+
+/**
+ * A scripted scenario's name without its checkpoint
+ */
+const baseScenarioName = (scenarioName: string): string =>
+	scenarioName.split(CHECKPOINT_SEPARATOR)[0] ?? scenarioName;
+
+/**
+ * Scenarios that didn't pass in the newest run, with the run's ID
+ */
+async function newestFailures(
+	reportManager: ReportManager
+): Promise<{ runId: string; failures: ScenarioRef[] }> {
+	const [newest] = await reportManager.getRunHistory();
+	if (!newest) {
+		throw new Error("No runs in the runs manifest to take failures from");
+	}
+
+	const { components } = await reportManager.loadResults(
+		reportManager.getRunDir(newest.runId)
+	);
+	const failures = components
+		.flatMap((component) => component.results)
+		.filter((result) => resultStatus(result) !== "passed")
+		.map(({ componentName, scenarioName }) => ({
+			componentName,
+			scenarioName: baseScenarioName(scenarioName),
+		}));
+	return { runId: newest.runId, failures };
+}
+
+/**
+ * The selector for a filter, and what it selects in words; undefined when
+ * the filter selects every scenario
+ */
+export async function resolveSelection(
+	filter: ScenarioFilter | undefined,
+	reportManager: ReportManager
+): Promise<ScenarioSelection | undefined> {
+	const criteria: ScenarioSelector[] = [];
+	const described: string[] = [];
+
+	const components = new Set(filter?.components ?? []);
+	if (components.size > 0) {
+		criteria.push((componentName) => components.has(componentName));
+		described.push(`component ${[...components].join(" or ")}`);
+	}
+	if (filter?.scenario) {
+		const matches = scenarioMatcher(filter.scenario);
+		criteria.push((_componentName, scenarioName) => matches(scenarioName));
+		described.push(`scenario ${filter.scenario}`);
+	}
+	const tags = new Set(filter?.tags ?? []);
+	if (tags.size > 0) {
+		criteria.push((_componentName, _scenarioName, scenarioTags) =>
+			scenarioTags.some((tag) => tags.has(tag))
+		);
+		described.push(`tag ${[...tags].join(" or ")}`);
+	}
+	if (filter?.onlyFailed) {
+		const { runId, failures } = await newestFailures(reportManager);
+		criteria.push((componentName, scenarioName) =>
+			failures.some(
+				(failure) =>
+					failure.componentName === componentName &&
+					failure.scenarioName === scenarioName
+			)
+		);
+		described.push(`failed in ${runId}`);
+	}
+
+	if (criteria.length === 0) return;
+	return {
+		select: (componentName, scenarioName, scenarioTags) =>
+			criteria.every((criterion) =>
+				criterion(componentName, scenarioName, scenarioTags)
+			),
+		description: described.join(", "),
+	};
+}
+
+/**
+ * Whether a selection covers a screenshot; every checkpoint of a scripted
+ * scenario goes with it
+ */
+export const selectsScreenshot = (
+	select: ScenarioSelector,
+	{ componentName, scenarioName, tags }: ScreenshotMetadata
+): boolean => select(componentName, baseScenarioName(scenarioName), tags ?? []);
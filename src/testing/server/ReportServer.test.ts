@@ -0,0 +1,128 @@
+import { describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { DIRS, FILES } from "@/testing/config/paths";
+import type { ScenarioRef } from "../types";
+import { findReportServer, ReportServer } from "./ReportServer";
+
+const HTTP_OK = 200;
+const HTTP_BAD_REQUEST = 400;
+const HTTP_FORBIDDEN = 403;
+const HTTP_NOT_FOUND = 404;
+const HTTP_CONFLICT = 409;
+const HTTP_UNSUPPORTED_MEDIA_TYPE = 415;
+const POLL_MS = 5;
+const PAGE = "<html><body><h1>Report</h1></body></html>";
+
+describe("ReportServer", () => {
+	test("serves reports with live reload, and actions on the latest one", async () => {
+		const baseDir = await mkdtemp(path.join(tmpdir(), "report-server-"));
+		const archived = path.join(baseDir, DIRS.runs, "run-a");
+		await mkdir(archived, { recursive: true });
+		await writeFile(path.join(baseDir, FILES.reportIndex), PAGE);
+		await writeFile(path.join(archived, FILES.reportIndex), PAGE);
+
+		const reevaluated: ScenarioRef[] = [];
+		let finish = () => {
+			// Replaced by the pending action
+		};
+		const server = new ReportServer({
+			baseDir,
+			port: 0,
+			actions: {
+				recapture: () => Promise.resolve("recaptured"),
+				reevaluate: (scenario) => {
+					reevaluated.push(scenario);
+					return new Promise((resolve) => {
+						finish = () => resolve("reevaluated");
+					});
+				},
+				promote: () => Promise.resolve("promoted"),
+				review: () => Promise.resolve("reviewed"),
+			},
+		});
+		const url = await server.start();
+
+		try {
+			expect(await findReportServer(baseDir)).toBe(url);
+
+			const latest = await (await fetch(url)).text();
+			expect(latest).toContain("EventSource");
+			expect(latest).toContain("/api/scenarios/");
+			const run = await (await fetch(new URL("runs/run-a/", url))).text();
+			expect(run).toContain("EventSource");
+			expect(run).not.toContain("/api/scenarios/");
+
+			const outside = await fetch(new URL("/..%2F..%2Fetc%2Fpasswd", url));
+			expect(outside.status).toBe(HTTP_NOT_FOUND);
+			const malformed = await fetch(new URL("/%E0%A4%A", url));
+			expect(malformed.status).toBe(HTTP_BAD_REQUEST);
+
+			const serverOrigin = new URL(url).origin;
+			const scenario = JSON.stringify({
+				componentName: "banner",
+				scenarioName: "default",
+			});
+			const promote = (requestHeaders: Record<string, string>) =>
+				fetch(new URL("/api/scenarios/promote", url), {
+					method: "POST",
+					headers: requestHeaders,
+					body: scenario,
+				});
+			// Another site's page, and a form post that skips the preflight
+			const crossSite = await promote({
+				Origin: "https://example.com",
+				"Content-Type": "application/json",
+			});
+			expect(crossSite.status).toBe(HTTP_FORBIDDEN);
+			const plainText = await promote({
+				Origin: serverOrigin,
+				"Content-Type": "text/plain",
+			});
+			expect(plainText.status).toBe(HTTP_UNSUPPORTED_MEDIA_TYPE);
+			const headers = {
+				Origin: serverOrigin,
+				"Content-Type": "application/json",
+			};
+
+			const review = await fetch(new URL("/api/scenarios/review", url), {
+				method: "POST",
+				headers,
+				body: JSON.stringify({
+					componentName: "banner",
+					scenarioName: "default",
+					decision: "ignored",
+				}),
+			});
+			expect(review.status).toBe(HTTP_BAD_REQUEST);
+
+			const post = () =>
+				fetch(new URL("/api/scenarios/reevaluate", url), {
+					method: "POST",
+					headers,
+					body: JSON.stringify({
+						componentName: "banner",
+						scenarioName: "default",
+					}),
+				});
+			const first = post();
+			while (reevaluated.length === 0) {
+				await new Promise((resolve) => setTimeout(resolve, POLL_MS));
+			}
+			// Actions run one at a time
+			const second = await post();
+			expect(second.status).toBe(HTTP_CONFLICT);
+			finish();
+			const response = await first;
+			expect(response.status).toBe(HTTP_OK);
+			expect(await response.json()).toEqual({ message: "reevaluated" });
+			expect(reevaluated).toEqual([
+				{ componentName: "banner", scenarioName: "default" },
+			]);
+		} finally {
+			await server.stop();
+		}
+		expect(await findReportServer(baseDir)).toBeNull();
+	});
+});
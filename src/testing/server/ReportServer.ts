@@ -0,0 +1,341 @@
+/**
+ * Report Server - Serves reports locally, live, with scenario actions
+ * Single Responsibility: Serve the latest and archived reports over HTTP,
+ * tell open pages to reload when the results change, and hand scenario actions
+ * from the latest report to whoever implements them
+ */
+
+import { type FSWatcher, watch } from "node:fs";
+import { mkdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { file, type Server, serve } from "bun";
+import { FILES, PATHS } from "@/testing/config/paths";
+import { logger } from "@/testing/logger";
+import type { ReviewCall, ReviewDecision } from "../evaluation/types";
+import type { ScenarioRef } from "../types";
+import { LIVE_RELOAD_SCRIPT, SCENARIO_ACTIONS_SCRIPT } from "./client";
+
+export type ScenarioAction = "recapture" | "reevaluate" | "promote" | "review";
+
+/**
+ * What each action button does; resolves to a message for the page
+ */
+export type ScenarioActions = Record<
+	Exclude<ScenarioAction, "review">,
+	(scenario: ScenarioRef) => Promise<string>
+> & {
+	review: (scenario: ScenarioRef, call: ReviewCall) => Promise<string>;
+};
+
+export type ReportServerConfig = {
+	baseDir: string; // Reports directory to serve (default: .dev/reports)
+	port: number; // 0 picks a free port
+	hostname: string;
+	actions?: ScenarioActions; // Without them, the latest report has no buttons
+};
+
+/**
+ * Written to the reports directory while a server runs, so a pipeline run
+ * elsewhere knows the open page will reload
+ */
+type ServerLock = {
+	url: string;
+	pid: number;
+};
+
+const DEFAULT_CONFIG: ReportServerConfig = {
+	baseDir: PATHS.reports,
+	port: 4173,
+	hostname: "localhost",
+};
+
+const HTTP_OK = 200;
+const HTTP_BAD_REQUEST = 400;
+const HTTP_FORBIDDEN = 403;
+const HTTP_NOT_FOUND = 404;
+const HTTP_CONFLICT = 409;
+const HTTP_UNSUPPORTED_MEDIA_TYPE = 415;
+const HTTP_SERVER_ERROR = 500;
+// runs.json is written more than once at the end of a run
+const RELOAD_DEBOUNCE_MS = 250;
+// A run ends by writing the manifest; a scenario re-run, the latest results
+const RELOAD_ON: string[] = [FILES.runsManifest, FILES.reportResults];
+const PROBE_TIMEOUT_MS = 500;
+const ACTION_PATH = /^\/api\/scenarios\/(recapture|reevaluate|promote|review)$/;
+const REVIEW_DECISIONS: ReviewDecision[] = [
+	"accepted",
+	"overridden-pass",
+	"overridden-fail",
+];
+const BODY_END = /<\/body>/i;
+const JSON_CONTENT_TYPE = /^application\/json\s*(;|$)/i;
+
+const json = (body: unknown, status = HTTP_OK): Response =>
+	Response.json(body, { status });
+
+const isScenarioRef = (value: unknown): value is ScenarioRef =>
+	typeof value === "object" &&
+	value !== null &&
+	typeof (value as ScenarioRef).componentName === "string" &&
+	typeof (value as ScenarioRef).scenarioName === "string";
+
+const isReviewCall = (value: Record<string, unknown>): boolean =>
+	REVIEW_DECISIONS.includes(value.decision as ReviewDecision) &&
+	typeof value.reviewer === "string" &&
+	value.reviewer.trim() !== "" &&
+	(value.note === undefined || typeof value.note === "string");
+
+export class ReportServer {
+	private readonly config: ReportServerConfig;
+	private readonly root: string;
+	private readonly clients = new Set<ReadableStreamDefaultController>();
+	private server: Server<undefined> | null = null;
+	private watcher: FSWatcher | null = null;
+	private reloadTimer: ReturnType<typeof setTimeout> | null = null;
+	private busy = false; // One action at a time: they all rewrite the report
+
+	constructor(config?: Partial<ReportServerConfig>) {
+		this.config = {
+			...DEFAULT_CONFIG,
+			...config,
+			// An unset --port comes through as undefined
+			port: config?.port ?? DEFAULT_CONFIG.port,
+		};
+		this.root = path.resolve(this.config.baseDir);
+	}
+
+	/**
+	 * Starts serving and watching for finished runs; resolves to the URL
+	 */
+	async start(): Promise<string> {
+		await mkdir(this.root, { recursive: true });
+
+		this.server = serve({
+			port: this.config.port,
+			hostname: this.config.hostname,
+			idleTimeout: 0, // Reload streams stay open as long as the page
+			fetch: (request) => this.handle(request),
+		});
+		const url = this.server.url.toString();
+
+		// Wherever the run or re-run came from
+		this.watcher = watch(this.root, (_event, fileName) => {
+			if (fileName && RELOAD_ON.includes(fileName)) this.scheduleReload();
+		});
+
+		const lock: ServerLock = { url, pid: process.pid };
+		await writeFile(
+			path.join(this.root, FILES.serverLock),
+			JSON.stringify(lock),
+			"utf-8"
+		);
+		logger.info(`Report server listening at ${url}`);
+		return url;
+	}
+
+	async stop(): Promise<void> {
+		this.watcher?.close();
+		if (this.reloadTimer) clearTimeout(this.reloadTimer);
+		for (const client of this.clients) client.close();
+		this.clients.clear();
+		await this.server?.stop(true);
+		this.server = null;
+		await rm(path.join(this.root, FILES.serverLock), { force: true });
+	}
+
+	/**
+	 * Tells every open page to reload
+	 */
+	reload(): void {
+		for (const client of this.clients) {
+			try {
+				client.enqueue("event: reload\ndata: \n\n");
+			} catch {
+				// The page went away without the request aborting
+				this.clients.delete(client);
+			}
+		}
+	}
+
+	private scheduleReload(): void {
+		if (this.reloadTimer) clearTimeout(this.reloadTimer);
+		this.reloadTimer = setTimeout(() => this.reload(), RELOAD_DEBOUNCE_MS);
+	}
+
+	private handle(request: Request): Promise<Response> | Response {
+		const { pathname } = new URL(request.url);
+
+		if (pathname === "/events") return this.events(request);
+		if (pathname === "/api/health") return json({ ok: true });
+
+		const action = pathname.match(ACTION_PATH)?.[1] as
+			| ScenarioAction
+			| undefined;
+		if (action && request.method === "POST") {
+			return this.runAction(action, request);
+		}
+		return this.serveFile(pathname);
+	}
+
+	/**
+	 * Server-sent events stream; closes with the page
+	 */
+	private events(request: Request): Response {
+		let controller: ReadableStreamDefaultController | null = null;
+		const stream = new ReadableStream({
+			start: (streamController) => {
+				controller = streamController;
+				this.clients.add(streamController);
+			},
+		});
+		request.signal.addEventListener("abort", () => {
+			if (controller) this.clients.delete(controller);
+		});
+
+		return new Response(stream, {
+			headers: {
+				"Content-Type": "text/event-stream",
+				"Cache-Control": "no-cache",
+			},
+		});
+	}
+
+	/**
+	 * Why a request may not run an action, if it may not: only the served
+	 * pages may, and a form or another site's page can't send JSON with
+	 * this server's origin
+	 */
+	private refuseAction(request: Request): Response | null {
+		const origin = request.headers.get("origin");
+		if (origin !== this.server?.url.origin) {
+			return json(
+				{ message: "Actions are only accepted from the served pages" },
+				HTTP_FORBIDDEN
+			);
+		}
+		if (!JSON_CONTENT_TYPE.test(request.headers.get("content-type") ?? "")) {
+			return json(
+				{ message: "Expected Content-Type: application/json" },
+				HTTP_UNSUPPORTED_MEDIA_TYPE
+			);
+		}
+		return null;
+	}
+
+	private async runAction(
+		action: ScenarioAction,
+		request: Request
+	): Promise<Response> {
+		const { actions } = this.config;
+		if (!actions) {
+			return json({ message: "This server has no actions" }, HTTP_NOT_FOUND);
+		}
+		const refused = this.refuseAction(request);
+		if (refused) return refused;
+
+		const body: unknown = await request.json().catch(() => null);
+		if (!isScenarioRef(body)) {
+			return json(
+				{ message: "Expected { componentName, scenarioName }" },
+				HTTP_BAD_REQUEST
+			);
+		}
+		const { componentName, scenarioName, ...call } = body as ScenarioRef &
+			Record<string, unknown>;
+		const scenario = { componentName, scenarioName };
+		if (action === "review" && !isReviewCall(call)) {
+			return json(
+				{ message: "Expected a decision and a reviewer" },
+				HTTP_BAD_REQUEST
+			);
+		}
+		if (this.busy) {
+			return json(
+				{ message: "Another action is still running" },
+				HTTP_CONFLICT
+			);
+		}
+
+		this.busy = true;
+		logger.info(
+			`${action}: ${scenario.componentName} / ${scenario.scenarioName}`
+		);
+		try {
+			const message =
+				action === "review"
+					? await actions.review(scenario, call as ReviewCall)
+					: await actions[action](scenario);
+			this.scheduleReload(); // Along with the results it wrote
+			return json({ message });
+		} catch (error) {
+			logger.error(`${action} failed:`, error);
+			const message = error instanceof Error ? error.message : String(error);
+			return json({ message }, HTTP_SERVER_ERROR);
+		} finally {
+			this.busy = false;
+		}
+	}
+
+	/**
+	 * A file under the reports directory; pages get the live reload script,
+	 * and the latest report its action buttons
+	 */
+	private async serveFile(pathname: string): Promise<Response> {
+		let decoded: string;
+		try {
+			decoded = decodeURIComponent(pathname);
+		} catch {
+			return new Response("Malformed path", { status: HTTP_BAD_REQUEST });
+		}
+		const filePath = path.join(this.root, decoded);
+		const relative = path.relative(this.root, filePath);
+		if (relative.startsWith("..") || path.isAbsolute(relative)) {
+			return new Response("Not found", { status: HTTP_NOT_FOUND });
+		}
+
+		const isDirectory = await stat(filePath)
+			.then((stats) => stats.isDirectory())
+			.catch(() => false);
+		const target = isDirectory
+			? path.join(filePath, FILES.reportIndex)
+			: filePath;
+		const served = file(target);
+		if (!(await served.exists())) {
+			return new Response("Not found", { status: HTTP_NOT_FOUND });
+		}
+		if (path.extname(target) !== ".html") return new Response(served);
+
+		const isLatest = path.relative(this.root, target) === FILES.reportIndex;
+		const scripts = [
+			LIVE_RELOAD_SCRIPT,
+			...(isLatest && this.config.actions ? [SCENARIO_ACTIONS_SCRIPT] : []),
+		];
+		const html = (await served.text()).replace(
+			BODY_END,
+			`<script>${scripts.join("\n")}</script>\n</body>`
+		);
+		return new Response(html, {
+			headers: { "Content-Type": "text/html; charset=utf-8" },
+		});
+	}
+}
+
+/**
+ * URL of a report server running on the reports directory, if one answers
+ */
+export async function findReportServer(
+	baseDir: string = PATHS.reports
+): Promise<string | null> {
+	try {
+		const lock: ServerLock = JSON.parse(
+			await readFile(path.join(baseDir, FILES.serverLock), "utf-8")
+		);
+		const response = await fetch(new URL("/api/health", lock.url), {
+			signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+		});
+		return response.ok ? lock.url : null;
+	} catch {
+		// No lock, or a stale one from a server that is gone
+		return null;
+	}
+}
@@ -0,0 +1,38 @@
+/**
+ * Browser launcher
+ * Single Responsibility: Open a report file or URL in the default browser
+ */
+
+import { exec } from "node:child_process";
+import { promisify } from "node:util";
+import { logger } from "@/testing/logger";
+
+const execAsync = promisify(exec);
+
+/**
+ * Opens a file path or URL in the default browser; failing to is only a
+ * warning, as on a headless CI machine
+ */
+export async function openInBrowser(target: string): Promise<void> {
+	const platform = process.platform;
+	let command: string;
+
+	if (platform === "darwin") {
+		// macOS
+		command = `open "${target}"`;
+	} else if (platform === "win32") {
+		// Windows
+		command = `start "" "${target}"`;
+	} else {
+		// Linux
+		command = `xdg-open "${target}"`;
+	}
+
+	try {
+		await execAsync(command);
+	} catch (error) {
+		logger.warn(
+			`Could not open browser automatically: ${error instanceof Error ? error.message : String(error)}`
+		);
+	}
+}
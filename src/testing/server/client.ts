@@ -0,0 +1,105 @@
+/**
+ * Report server client scripts
+ * Single Responsibility: The browser side of the report server - reloading
+ * when told to, and the per-scenario action buttons of the latest report
+ */
+
+/**
+ * Reloads the page whenever the server sends a reload event
+ */
+export const LIVE_RELOAD_SCRIPT = `
+(() => {
+  const events = new EventSource('/events');
+  events.addEventListener('reload', () => location.reload());
+})();`;
+
+/**
+ * Adds re-capture, re-evaluate and promote buttons, and a review form, to
+ * every scenario's details; the page reloads by itself once an action has
+ * updated the report
+ */
+export const SCENARIO_ACTIONS_SCRIPT = `
+(() => {
+  const actions = [
+    ['recapture', 'Re-capture'],
+    ['reevaluate', 'Re-evaluate'],
+    ['promote', 'Promote to baseline'],
+  ];
+  const buttons = [];
+
+  function notify(row, text, kind) {
+    let note = row.querySelector('[data-action-note]');
+    if (!note) {
+      note = document.createElement('div');
+      note.setAttribute('data-action-note', '');
+      row.querySelector('.collapse-content').prepend(note);
+    }
+    note.className = 'alert alert-' + kind + ' mb-4';
+    note.textContent = text;
+  }
+
+  async function run(row, action, button, extra) {
+    buttons.forEach((b) => { b.disabled = true; });
+    button.classList.add('loading');
+    notify(row, button.textContent + '…', 'info');
+    try {
+      const response = await fetch('/api/scenarios/' + action, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          componentName: row.dataset.component,
+          scenarioName: row.dataset.scenario,
+          ...extra,
+        }),
+      });
+      const body = await response.json();
+      notify(row, body.message, response.ok ? 'success' : 'error');
+    } catch (error) {
+      notify(row, String(error), 'error');
+    } finally {
+      buttons.forEach((b) => { b.disabled = false; });
+      button.classList.remove('loading');
+    }
+  }
+
+  function reviewForm(row) {
+    const form = document.createElement('form');
+    form.className = 'join mb-4 w-full';
+    form.innerHTML =
+      '<select name="decision" class="select select-sm join-item">' +
+      '<option value="accepted">Accept verdict</option>' +
+      '<option value="overridden-pass">Override: pass</option>' +
+      '<option value="overridden-fail">Override: fail</option>' +
+      '</select>' +
+      '<input name="note" class="input input-sm join-item flex-1" placeholder="Note" />' +
+      '<input name="reviewer" class="input input-sm join-item" placeholder="Reviewer" required />' +
+      '<button class="btn btn-sm join-item">Save review</button>';
+    form.reviewer.value = localStorage.getItem('reviewer') || '';
+    const button = form.querySelector('button');
+    buttons.push(button);
+    form.addEventListener('submit', (event) => {
+      event.preventDefault();
+      localStorage.setItem('reviewer', form.reviewer.value);
+      run(row, 'review', button, {
+        decision: form.decision.value,
+        reviewer: form.reviewer.value,
+        note: form.note.value || undefined,
+      });
+    });
+    return form;
+  }
+
+  document.querySelectorAll('tr.details-row[data-component]').forEach((row) => {
+    const toolbar = document.createElement('div');
+    toolbar.className = 'flex flex-wrap gap-2 mb-4';
+    actions.forEach(([action, label]) => {
+      const button = document.createElement('button');
+      button.className = 'btn btn-sm';
+      button.textContent = label;
+      button.addEventListener('click', () => run(row, action, button));
+      buttons.push(button);
+      toolbar.append(button);
+    });
+    row.querySelector('.collapse-content').prepend(toolbar, reviewForm(row));
+  });
+})();`;
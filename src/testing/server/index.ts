@@ -0,0 +1,11 @@
+/**
+ * Server module - Local report server and browser launching
+ */
+
+export { openInBrowser } from "./browser";
+export type {
+	ReportServerConfig,
+	ScenarioAction,
+	ScenarioActions,
+} from "./ReportServer";
+export { findReportServer, ReportServer } from "./ReportServer";
@@ -2,6 +2,65 @@
  * Core types for the Visual Test AI Evaluation System
  */
 
+/**
+ * Snapshots written next to a screenshot by adapters that can read the
+ * terminal's cells back (see capture/snapshot.ts)
+ */
+export type SnapshotPaths = {
+	/** Plain-text grid, one line per row */
+	text?: string;
+	/** JSON cells with char, fg/bg and attributes */
+	cells?: string;
+};
+
+/**
+ * One frame of a multi-frame capture, or one checkpoint of a scripted one
+ */
+export type FrameMetadata = {
+	/** PNG of this frame */
+	filePath: string;
+	/** Milliseconds after the first frame this one was taken */
+	offsetMs: number;
+	snapshots?: SnapshotPaths;
+	/** Name of the "capture" step that took this frame, if scripted */
+	checkpoint?: string;
+};
+
+/**
+ * One step of a scenario's scripted interaction, replayed in order against
+ * the running component
+ */
+export type InteractionStep =
+	/**
+	 * Press a key: "enter", "tab", "escape", "up", "backspace", "ctrl+c", a
+	 * single character, or any OpenTUI KeyCodes name
+	 */
+	| { action: "press"; key: string }
+	/** Type text one character at a time */
+	| { action: "type"; text: string }
+	| { action: "wait"; ms: number }
+	/** Resize the terminal, in cells */
+	| { action: "resize"; cols: number; rows: number }
+	/**
+	 * Screenshot the terminal as it is now, as a checkpoint of its own,
+	 * judged against `expectation` (the scenario's, if not given)
+	 */
+	| { action: "capture"; name: string; expectation?: string };
+
+/**
+ * How a component's scenarios are captured, set in its setup file
+ * Environment variables (SCREENSHOT_DELAY, SCREENSHOT_FRAMES,
+ * SCREENSHOT_FRAME_INTERVAL) take precedence
+ */
+export type CaptureSettings = {
+	/** Time to wait before the first frame, in milliseconds */
+	settleMs?: number;
+	/** Number of frames to take (1 = a single screenshot) */
+	frames?: number;
+	/** Time between frames, in milliseconds */
+	frameIntervalMs?: number;
+};
+
 export type ScreenshotMetadata = {
 	componentName: string;
 	scenarioName: string;
@@ -14,6 +73,25 @@ export type ScreenshotMetadata = {
 		width: number;
 		height: number;
 	};
+	snapshots?: SnapshotPaths;
+	/** Every frame in order, when more than one was captured */
+	frames?: FrameMetadata[];
+	/** Animated PNG of the frames, when more than one was captured */
+	animation?: string;
+	/** Checkpoint this screenshot was taken at, for scripted scenarios */
+	checkpoint?: string;
+	/** Steps replayed before this checkpoint */
+	interactions?: InteractionStep[];
+	/** Tags from the setup file, for --tag */
+	tags?: string[];
+};
+
+/**
+ * A scenario by name; a scripted scenario's name covers all its checkpoints
+ */
+export type ScenarioRef = {
+	componentName: string;
+	scenarioName: string;
 };
 
 export type CaptureResult = {
@@ -0,0 +1,50 @@
+import { describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { ComponentWatcher } from "./ComponentWatcher";
+
+const SETUP = "export default { scenarios: [] };\n";
+
+describe("ComponentWatcher", () => {
+	test("finds the components a change reaches through their imports", async () => {
+		const root = await mkdtemp(path.join(tmpdir(), "component-watcher-"));
+		const write = async (file: string, content: string) => {
+			await mkdir(path.dirname(path.join(root, file)), { recursive: true });
+			await writeFile(path.join(root, file), content);
+		};
+		await write("ui/button.tsx", "export const Button = () => null;\n");
+		await write("theme.ts", "export const accent = 'cyan';\n");
+		await write("banner/banner.setup.ts", SETUP);
+		await write(
+			"banner/banner.spec.tsx",
+			'import config from "./banner.setup";\nimport { Button } from "../ui/button";\n'
+		);
+		await write("chat/chat.setup.ts", SETUP);
+		await write("chat/chat.spec.tsx", 'import { Title } from "./title";\n');
+		await write("chat/title.tsx", 'import { accent } from "../theme";\n');
+		// No spec to render it, so not a component
+		await write("draft/draft.setup.ts", SETUP);
+
+		const watcher = new ComponentWatcher({
+			root,
+			onChange: () => Promise.resolve(),
+		});
+		const affected = (file: string) =>
+			watcher.affectedComponents([path.join(root, file)]);
+
+		expect(await affected("ui/button.tsx")).toEqual(["banner"]);
+		expect(await affected("theme.ts")).toEqual(["chat"]);
+		expect(await affected("banner/banner.setup.ts")).toEqual(["banner"]);
+		expect(await affected("draft/draft.setup.ts")).toEqual([]);
+
+		// A changed file is read again, so new imports count straight away
+		await write(
+			"banner/banner.spec.tsx",
+			'import config from "./banner.setup";\nimport { accent } from "../theme";\n'
+		);
+		expect(await affected("banner/banner.spec.tsx")).toEqual(["banner"]);
+		expect((await affected("theme.ts")).toSorted()).toEqual(["banner", "chat"]);
+		expect(await affected("ui/button.tsx")).toEqual([]);
+	});
+});
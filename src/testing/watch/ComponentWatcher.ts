@@ -0,0 +1,153 @@
+/**
+ * Component Watcher - Re-runs the components a change affects
+ * Single Responsibility: Watch the components directory, and work out from
+ * the import graph which components' setup or spec files a change reaches
+ */
+
+import { type FSWatcher, watch } from "node:fs";
+import path from "node:path";
+import { glob } from "glob";
+import { logger } from "@/testing/logger";
+import { ImportGraph } from "./ImportGraph";
+
+export type ComponentWatcherConfig = {
+	root: string; // Directory to watch (default: src/components)
+	debounceMs: number; // Quiet time before changes are acted on
+	onChange: (componentNames: string[]) => Promise<void>;
+};
+
+/**
+ * A component's setup file and the spec that renders its scenarios
+ */
+type ComponentFiles = {
+	componentName: string;
+	setupFile: string;
+	specFile: string;
+};
+
+const DEFAULT_CONFIG: Omit<ComponentWatcherConfig, "onChange"> = {
+	root: "src/components",
+	// Editors save in more than one write
+	debounceMs: 200,
+};
+
+export class ComponentWatcher {
+	private readonly config: ComponentWatcherConfig;
+	private readonly root: string;
+	private readonly graph = new ImportGraph();
+	private readonly changed = new Set<string>();
+	private watcher: FSWatcher | null = null;
+	private timer: ReturnType<typeof setTimeout> | null = null;
+	private busy = false; // One re-run at a time; changes meanwhile wait for it
+
+	constructor(
+		config: Pick<ComponentWatcherConfig, "onChange"> &
+			Partial<ComponentWatcherConfig>
+	) {
+		this.config = { ...DEFAULT_CONFIG, ...config };
+		this.root = path.resolve(this.config.root);
+	}
+
+	/**
+	 * Reads the import graph, then watches for changes
+	 */
+	async start(): Promise<void> {
+		const components = await this.findComponents();
+		await this.graph.build(
+			components.flatMap(({ setupFile, specFile }) => [setupFile, specFile])
+		);
+
+		this.watcher = watch(this.root, { recursive: true }, (_event, fileName) => {
+			if (!fileName) return;
+			this.changed.add(path.join(this.root, fileName));
+			this.schedule();
+		});
+		logger.info(
+			`Watching ${components.length} components in ${this.config.root}`
+		);
+	}
+
+	stop(): void {
+		this.watcher?.close();
+		this.watcher = null;
+		if (this.timer) clearTimeout(this.timer);
+	}
+
+	/**
+	 * Components whose setup or spec file is one of the changed files, or
+	 * imports one of them, however indirectly
+	 */
+	async affectedComponents(files: string[]): Promise<string[]> {
+		const changed = new Set(files.map((file) => path.resolve(file)));
+		// Their imports may have changed too
+		this.graph.invalidate(changed);
+
+		const components = await this.findComponents();
+		await this.graph.build(
+			components.flatMap(({ setupFile, specFile }) => [setupFile, specFile])
+		);
+		const affected = components.filter(
+			({ setupFile, specFile }) =>
+				this.graph.dependsOn(setupFile, changed) ||
+				this.graph.dependsOn(specFile, changed)
+		);
+		return [...new Set(affected.map(({ componentName }) => componentName))];
+	}
+
+	/**
+	 * Every setup file with a spec next to it, found again on each change so
+	 * new components are picked up
+	 */
+	private async findComponents(): Promise<ComponentFiles[]> {
+		const setupFiles = await glob("**/*.setup.ts", {
+			cwd: this.root,
+			absolute: true,
+		});
+		const specFiles = new Set(
+			await glob("**/*.spec.tsx", { cwd: this.root, absolute: true })
+		);
+		return setupFiles.flatMap((setupFile) => {
+			const specFile = setupFile.replace(".setup.ts", ".spec.tsx");
+			return specFiles.has(specFile)
+				? [
+						{
+							componentName: path.basename(path.dirname(setupFile)),
+							setupFile,
+							specFile,
+						},
+					]
+				: [];
+		});
+	}
+
+	private schedule(): void {
+		if (this.timer) clearTimeout(this.timer);
+		this.timer = setTimeout(() => this.flush(), this.config.debounceMs);
+	}
+
+	/**
+	 * Re-runs the components the changes affect, then any changed meanwhile
+	 */
+	private async flush(): Promise<void> {
+		if (this.busy) return;
+		this.busy = true;
+		try {
+			while (this.changed.size > 0) {
+				const files = [...this.changed];
+				this.changed.clear();
+				const componentNames = await this.affectedComponents(files);
+				if (componentNames.length === 0) continue;
+
+				logger.info(`Changed: ${componentNames.join(", ")}`);
+				try {
+					await this.config.onChange(componentNames);
+				} catch (error) {
+					// Keep watching: the next save may fix it
+					logger.error("Re-run failed:", error);
+				}
+			}
+		} finally {
+			this.busy = false;
+		}
+	}
+}
@@ -0,0 +1,95 @@
+/**
+ * Import Graph - Which source files import which
+ * Single Responsibility: Read the imports of every file reachable from some
+ * entry points, and answer whether one file depends on others
+ */
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { resolveSync, Transpiler } from "bun";
+
+// One transpiler per loader: a .ts file can't be read as TSX
+const TRANSPILERS = {
+	".ts": new Transpiler({ loader: "ts" }),
+	".tsx": new Transpiler({ loader: "tsx" }),
+	".js": new Transpiler({ loader: "js" }),
+	".jsx": new Transpiler({ loader: "jsx" }),
+} as const;
+
+const NODE_MODULES = `${path.sep}node_modules${path.sep}`;
+
+/**
+ * The source file a specifier imports, or null for packages, builtins and
+ * anything that doesn't resolve
+ */
+const resolveImport = (specifier: string, dir: string): string | null => {
+	try {
+		const resolved = resolveSync(specifier, dir);
+		return path.isAbsolute(resolved) && !resolved.includes(NODE_MODULES)
+			? resolved
+			: null;
+	} catch {
+		return null;
+	}
+};
+
+export class ImportGraph {
+	// Absolute path to the source files it imports
+	private readonly imports = new Map<string, string[]>();
+
+	/**
+	 * Forgets what these files import, so the next build reads them again
+	 */
+	invalidate(files: Iterable<string>): void {
+		for (const file of files) this.imports.delete(file);
+	}
+
+	/**
+	 * Reads the imports of every file reachable from the entries that hasn't
+	 * been read, or was invalidated since
+	 */
+	async build(entries: string[]): Promise<void> {
+		const pending = [...entries];
+		for (let file = pending.pop(); file; file = pending.pop()) {
+			if (this.imports.has(file)) continue;
+			const imported = await this.scan(file);
+			this.imports.set(file, imported);
+			pending.push(...imported);
+		}
+	}
+
+	/**
+	 * Whether a file is one of the targets, or imports one directly or
+	 * through other files
+	 */
+	dependsOn(file: string, targets: Set<string>): boolean {
+		const seen = new Set<string>();
+		const pending = [file];
+		for (let next = pending.pop(); next; next = pending.pop()) {
+			if (targets.has(next)) return true;
+			if (seen.has(next)) continue;
+			seen.add(next);
+			pending.push(...(this.imports.get(next) ?? []));
+		}
+		return false;
+	}
+
+	private async scan(file: string): Promise<string[]> {
+		const transpiler =
+			TRANSPILERS[path.extname(file) as keyof typeof TRANSPILERS];
+		if (!transpiler) return []; // Styles, JSON and the like import nothing
+
+		try {
+			const code = await readFile(file, "utf-8");
+			return transpiler
+				.scanImports(code)
+				.flatMap(
+					({ path: specifier }) =>
+						resolveImport(specifier, path.dirname(file)) ?? []
+				);
+		} catch {
+			// Deleted, or half-written; a change to the file itself still counts
+			return [];
+		}
+	}
+}
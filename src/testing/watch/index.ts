@@ -0,0 +1,7 @@
+/**
+ * Watch module - Re-running the components a source change affects
+ */
+
+export type { ComponentWatcherConfig } from "./ComponentWatcher";
+export { ComponentWatcher } from "./ComponentWatcher";
+export { ImportGraph } from "./ImportGraph";
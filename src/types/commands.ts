@@ -0,0 +1,56 @@
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import type { IAgentService } from "./services";
+
+/**
+ * What running a slash command produced
+ * - output: text shown locally in the message list, nothing is sent
+ * - prompt: text queued to the agent as if the user had typed it
+ * - none: the command acted on the UI and has nothing to show
+ */
+export type SlashCommandResult =
+	| { type: "output"; text: string }
+	| { type: "prompt"; prompt: string }
+	| { type: "none" };
+
+/**
+ * Everything a command can read or act on while it runs
+ * UI actions are callbacks so commands stay independent of React
+ */
+export type SlashCommandContext = {
+	// Text typed after the command name, trimmed
+	args: string;
+	messages: SDKMessage[];
+	// When the session started (null before it has), for its duration
+	sessionStartedAt: number | null;
+	agent: IAgentService;
+	// All registered commands (for /help)
+	commands: SlashCommand[];
+	// Start a fresh conversation
+	clearConversation: () => void;
+	openSessionPicker: () => void;
+	resumeSession: (sessionId: string) => void;
+};
+
+export type SlashCommandSource = "builtin" | "project";
+
+/**
+ * A command typed as "/name args" in the input field
+ */
+export type SlashCommand = {
+	name: string;
+	description: string;
+	// Shown after the name in autocomplete, e.g. "[model]"
+	argumentHint?: string;
+	source: SlashCommandSource;
+	run(
+		context: SlashCommandContext
+	): SlashCommandResult | Promise<SlashCommandResult>;
+};
+
+/**
+ * Name and description of a command, as listed in the autocomplete popup
+ */
+export type CommandSuggestion = Pick<
+	SlashCommand,
+	"name" | "description" | "argumentHint"
+>;
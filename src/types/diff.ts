@@ -0,0 +1,28 @@
+/**
+ * A single line in a unified diff
+ * oldLine/newLine are 1-based and only set on the side the line exists on
+ */
+export type DiffLine = {
+	type: "context" | "add" | "remove";
+	text: string;
+	oldLine?: number;
+	newLine?: number;
+};
+
+/**
+ * A contiguous group of changes with surrounding context
+ * Matches the "@@ -oldStart,oldLines +newStart,newLines @@" header
+ */
+export type DiffHunk = {
+	oldStart: number;
+	oldLines: number;
+	newStart: number;
+	newLines: number;
+	lines: DiffLine[];
+};
+
+export type UnifiedDiff = {
+	hunks: DiffHunk[];
+	additions: number;
+	deletions: number;
+};
@@ -24,7 +24,7 @@ export type SessionInfo = {
 export type Stats = {
 	tokens: number;
 	cost: number;
-	duration: number;
+	duration: number; // Wall-clock ms since the session started
 	turns: number;
 };
 
@@ -0,0 +1,63 @@
+/**
+ * Styling that applies to a run of inline text
+ */
+export type InlineStyle = {
+	bold?: boolean;
+	italic?: boolean;
+	strikethrough?: boolean;
+	code?: boolean;
+	href?: string;
+};
+
+/**
+ * A run of inline text sharing one style
+ */
+export type InlineToken = InlineStyle & {
+	text: string;
+};
+
+export type ListItem = {
+	// "•", "◦", "1." etc. - already resolved for display
+	marker: string;
+	// Nesting level, 0 for top-level items
+	depth: number;
+	content: InlineToken[];
+	// Set for task list items ("- [ ]" / "- [x]")
+	checked?: boolean;
+};
+
+export type TableAlign = "left" | "center" | "right";
+
+/**
+ * Block-level markdown node
+ */
+export type MarkdownBlock =
+	| { type: "heading"; level: number; content: InlineToken[] }
+	| { type: "paragraph"; content: InlineToken[] }
+	| { type: "list"; items: ListItem[] }
+	| { type: "blockquote"; children: MarkdownBlock[] }
+	| { type: "code"; language: string; code: string }
+	| {
+			type: "table";
+			align: TableAlign[];
+			header: InlineToken[][];
+			rows: InlineToken[][][];
+	  }
+	| { type: "rule" };
+
+export type SyntaxTokenKind =
+	| "plain"
+	| "keyword"
+	| "string"
+	| "number"
+	| "comment"
+	| "function"
+	| "type";
+
+/**
+ * A run of source code sharing one highlight kind
+ */
+export type SyntaxToken = {
+	kind: SyntaxTokenKind;
+	text: string;
+};
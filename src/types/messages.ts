@@ -8,6 +8,7 @@ import type { ReactNode } from "react";
 export const MESSAGE_TYPE = {
 	TEXT: "text",
 	TOOL_CALL: "tool_call",
+	TOOL_RESULT: "tool_result",
 	SYSTEM: "system",
 	RESULT: "result",
 } as const;
@@ -49,10 +50,42 @@ export type ToolCallContent = {
 	input: unknown;
 };
 
+/**
+ * Tool result content extracted from user messages
+ * Paired with its ToolCallContent through toolUseId
+ */
+export type ToolResultContent = {
+	type: "tool_result";
+	toolUseId: string;
+	output: string;
+	isError: boolean;
+};
+
 /**
  * Union type for content we extract from messages
  */
-export type MessageContent = TextContent | ToolCallContent;
+export type MessageContent = TextContent | ToolCallContent | ToolResultContent;
+
+/**
+ * Lifecycle of a single tool call
+ * interrupted: its turn ended (result or interrupt) without a tool_result
+ */
+export type ToolCallStatus =
+	| "running"
+	| "succeeded"
+	| "errored"
+	| "interrupted";
+
+/**
+ * A tool call paired with its result (if one has arrived)
+ */
+export type ToolCallState = {
+	toolUseId: string;
+	status: ToolCallStatus;
+	output?: string;
+	startedAt: number;
+	finishedAt?: number;
+};
 
 /**
  * Parsed message with type and content
@@ -65,3 +98,22 @@ export type ParsedMessage = {
 	timestamp: number;
 	rawMessage: SDKMessage;
 };
+
+/**
+ * A content block of the assistant message currently being streamed
+ * Only text is accumulated; other blocks keep their slot so indexes line up
+ */
+export type StreamingBlock = {
+	type: string;
+	text: string;
+};
+
+/**
+ * Assistant message assembled from partial stream events
+ * The SDK emits a complete assistant message per finished block, so the
+ * first completedBlocks blocks are already shown as regular messages
+ */
+export type StreamingDraft = {
+	blocks: StreamingBlock[];
+	completedBlocks: number;
+};
@@ -0,0 +1,28 @@
+/**
+ * A tool call waiting for the user to approve or deny it
+ */
+export type PermissionRequest = {
+	id: string;
+	toolName: string;
+	input: Record<string, unknown>;
+};
+
+/**
+ * How long an approval stays valid
+ * - once: only this tool call
+ * - session: every later call of the same tool in this session
+ */
+export type PermissionScope = "once" | "session";
+
+/**
+ * The user's answer to a permission request
+ */
+export type PermissionDecision =
+	| {
+			behavior: "allow";
+			scope: PermissionScope;
+	  }
+	| {
+			behavior: "deny";
+			reason: string;
+	  };
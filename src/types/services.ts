@@ -1,7 +1,10 @@
 import type {
+	CanUseTool,
+	PermissionMode,
 	SDKMessage,
 	SDKUserMessage,
 } from "@anthropic-ai/claude-agent-sdk";
+import type { ISessionStore } from "./sessions";
 
 /**
  * Type for agent service following Dependency Inversion Principle
@@ -22,6 +25,24 @@ export type IAgentService = {
 	 */
 	stop(): void;
 
+	/**
+	 * Interrupt the current agent turn without ending the query
+	 * Unlike stop(), the streaming input stays open, so the next user
+	 * message continues the same session
+	 */
+	interrupt(): Promise<void>;
+
+	/**
+	 * Model used for the next turn
+	 */
+	getModel(): string | undefined;
+
+	/**
+	 * Switch model; applies to the running query from its next turn
+	 * @param model - Model name or alias, e.g. "claude-opus-4-1" or "opus"
+	 */
+	setModel(model: string): Promise<void>;
+
 	/**
 	 * Get the current session ID if one exists
 	 * @returns Session ID or null if no active session
@@ -43,4 +64,32 @@ export type AgentServiceConfig = {
 	maxTurns?: number;
 	allowedTools?: string[];
 	cwd?: string;
+	/**
+	 * How tool use is gated: "default" asks through canUseTool, "acceptEdits"
+	 * auto-approves file edits, "plan" disallows execution, and
+	 * "bypassPermissions" runs everything without asking
+	 */
+	permissionMode?: PermissionMode;
+	/**
+	 * Callback consulted before a tool runs when the mode requires approval
+	 */
+	canUseTool?: CanUseTool;
+	/**
+	 * Emit "stream_event" messages with token deltas while the assistant is
+	 * still writing, ahead of each complete assistant message
+	 */
+	includePartialMessages?: boolean;
+	/**
+	 * Session to resume on the first query (e.g. from --resume)
+	 */
+	resumeSessionId?: string;
+	/**
+	 * Where prompts and SDK messages are persisted for later resumption
+	 */
+	sessionStore?: ISessionStore;
+	/**
+	 * Called with a file's content (null if it doesn't exist) just before a
+	 * file-editing tool call changes it, so its diff can be shown
+	 */
+	onFileSnapshot?: (toolUseId: string, content: string | null) => void;
 };
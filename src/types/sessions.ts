@@ -0,0 +1,50 @@
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+
+/**
+ * Summary of one agent session, kept in the session index
+ */
+export type SessionRecord = {
+	sessionId: string;
+	cwd: string;
+	model: string;
+	// First prompt the user typed, used as the session title
+	firstPrompt: string;
+	createdAt: number;
+	updatedAt: number;
+	// Total cost across every query that ran in this session
+	costUsd: number;
+};
+
+/**
+ * How the TUI should start, resolved from --resume / --continue
+ */
+export type SessionLaunch =
+	| { mode: "new" }
+	| { mode: "resume"; sessionId: string }
+	| { mode: "picker" };
+
+/**
+ * Storage for session summaries and transcripts
+ * Dependency Inversion: AgentService and the UI depend on this abstraction
+ */
+export type ISessionStore = {
+	/**
+	 * Record one SDK message against its session
+	 */
+	record(message: SDKMessage): Promise<void>;
+
+	/**
+	 * All sessions, most recently used first
+	 */
+	list(): Promise<SessionRecord[]>;
+
+	/**
+	 * Most recently used session started in a directory
+	 */
+	latest(cwd: string): Promise<SessionRecord | null>;
+
+	/**
+	 * Messages recorded for a session, in order
+	 */
+	loadTranscript(sessionId: string): Promise<SDKMessage[]>;
+};
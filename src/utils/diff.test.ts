@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+import {
+	buildHunks,
+	createUnifiedDiff,
+	diffLines,
+	formatHunkHeader,
+	splitLines,
+} from "./diff";
+
+const LONG_FILE_LINES = 20;
+const SNIPPET_OFFSET = 41;
+
+const numbered = (count: number): string =>
+	Array.from({ length: count }, (_, i) => `line ${i + 1}`).join("\n");
+
+describe("splitLines", () => {
+	test("ignores the trailing newline", () => {
+		expect(splitLines("a\nb\n")).toEqual(["a", "b"]);
+	});
+
+	test("returns no lines for empty text", () => {
+		expect(splitLines("")).toEqual([]);
+	});
+});
+
+describe("diffLines", () => {
+	test("marks identical text as context only", () => {
+		const lines = diffLines("a\nb", "a\nb");
+		expect(lines.every((line) => line.type === "context")).toBe(true);
+	});
+
+	test("finds a changed line between unchanged ones", () => {
+		const lines = diffLines("a\nb\nc", "a\nB\nc");
+		expect(lines.map((line) => `${line.type}:${line.text}`)).toEqual([
+			"context:a",
+			"remove:b",
+			"add:B",
+			"context:c",
+		]);
+	});
+
+	test("numbers lines on each side", () => {
+		const lines = diffLines("a\nc", "a\nb\nc");
+		const added = lines.find((line) => line.type === "add");
+		expect(added).toEqual({ type: "add", text: "b", newLine: 2 });
+		expect(lines.at(-1)).toEqual({
+			type: "context",
+			text: "c",
+			oldLine: 2,
+			newLine: 3,
+		});
+	});
+
+	test("handles a new file", () => {
+		const lines = diffLines("", "x\ny");
+		expect(lines.map((line) => line.type)).toEqual(["add", "add"]);
+	});
+});
+
+describe("buildHunks", () => {
+	test("keeps distant changes in separate hunks", () => {
+		const before = numbered(LONG_FILE_LINES);
+		const after = before
+			.replace("line 2\n", "LINE 2\n")
+			.replace("line 18\n", "LINE 18\n");
+		const hunks = buildHunks(diffLines(before, after));
+		expect(hunks.map(formatHunkHeader)).toEqual([
+			"@@ -1,5 +1,5 @@",
+			"@@ -15,6 +15,6 @@",
+		]);
+	});
+
+	test("merges changes whose context overlaps", () => {
+		const before = numbered(10);
+		const after = before
+			.replace("line 3\n", "LINE 3\n")
+			.replace("line 6\n", "LINE 6\n");
+		expect(buildHunks(diffLines(before, after))).toHaveLength(1);
+	});
+});
+
+describe("createUnifiedDiff", () => {
+	test("counts additions and deletions", () => {
+		const diff = createUnifiedDiff("a\nb\nc", "a\nx\ny\nc");
+		expect(diff.additions).toBe(2);
+		expect(diff.deletions).toBe(1);
+	});
+
+	test("shifts line numbers by the offset", () => {
+		const diff = createUnifiedDiff("old", "new", {
+			lineOffset: SNIPPET_OFFSET,
+		});
+		expect(diff.hunks[0]?.oldStart).toBe(SNIPPET_OFFSET + 1);
+		expect(diff.hunks[0]?.newStart).toBe(SNIPPET_OFFSET + 1);
+	});
+});
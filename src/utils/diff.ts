@@ -0,0 +1,218 @@
+import type { DiffHunk, DiffLine, UnifiedDiff } from "@/types/diff";
+
+const DEFAULT_CONTEXT_LINES = 3;
+
+// Beyond this many edits the diff degrades to "remove all, add all"
+// to keep memory bounded on huge rewrites
+const MAX_EDIT_DISTANCE = 1000;
+
+type EditOp = {
+	type: DiffLine["type"];
+	text: string;
+};
+
+/**
+ * Split text into lines, ignoring the empty line after a trailing newline
+ */
+export function splitLines(text: string): string[] {
+	if (!text) return [];
+	const lines = text.split("\n");
+	if (lines.at(-1) === "") lines.pop();
+	return lines;
+}
+
+/**
+ * Choose whether the path on diagonal k came from k+1 (insertion)
+ * or k-1 (deletion). getX reads the furthest x reached on a diagonal.
+ */
+const comesFromAbove = (
+	k: number,
+	d: number,
+	getX: (diagonal: number) => number
+): boolean => k === -d || (k !== d && getX(k - 1) < getX(k + 1));
+
+/**
+ * Walk the recorded frontiers backwards to rebuild the edit script
+ */
+function backtrack(a: string[], b: string[], trace: number[][]): EditOp[] {
+	const ops: EditOp[] = [];
+	let x = a.length;
+	let y = b.length;
+
+	for (let d = trace.length - 1; d >= 0; d--) {
+		const frontier = trace[d] ?? [];
+		const getX = (diagonal: number) => frontier[diagonal + d + 1] ?? 0;
+		const k = x - y;
+		const prevK = comesFromAbove(k, d, getX) ? k + 1 : k - 1;
+		const prevX = getX(prevK);
+		const prevY = prevX - prevK;
+
+		while (x > prevX && y > prevY) {
+			ops.push({ type: "context", text: a[x - 1] ?? "" });
+			x--;
+			y--;
+		}
+
+		if (d === 0) break;
+
+		if (x === prevX) {
+			ops.push({ type: "add", text: b[y - 1] ?? "" });
+			y--;
+		} else {
+			ops.push({ type: "remove", text: a[x - 1] ?? "" });
+			x--;
+		}
+	}
+
+	return ops.reverse();
+}
+
+/**
+ * Myers O(ND) shortest edit script between two line arrays
+ * Only the [-d, d] slice of each frontier is kept, so memory is O(D²)
+ */
+function myersDiff(a: string[], b: string[]): EditOp[] | null {
+	const max = Math.min(a.length + b.length, MAX_EDIT_DISTANCE);
+	const offset = max + 1;
+	const v = new Array<number>(2 * offset + 1).fill(0);
+	const trace: number[][] = [];
+
+	for (let d = 0; d <= max; d++) {
+		trace.push(v.slice(offset - d - 1, offset + d + 2));
+		const getX = (diagonal: number) => v[diagonal + offset] ?? 0;
+
+		for (let k = -d; k <= d; k += 2) {
+			let x = comesFromAbove(k, d, getX) ? getX(k + 1) : getX(k - 1) + 1;
+			let y = x - k;
+
+			while (x < a.length && y < b.length && a[x] === b[y]) {
+				x++;
+				y++;
+			}
+
+			v[k + offset] = x;
+
+			if (x >= a.length && y >= b.length) {
+				return backtrack(a, b, trace);
+			}
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Line-level edit script between two texts
+ * Common prefix/suffix are trimmed before running Myers
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+	const a = splitLines(before);
+	const b = splitLines(after);
+
+	let prefix = 0;
+	while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+		prefix++;
+	}
+
+	let suffix = 0;
+	while (
+		suffix < a.length - prefix &&
+		suffix < b.length - prefix &&
+		a.at(-1 - suffix) === b.at(-1 - suffix)
+	) {
+		suffix++;
+	}
+
+	const middleA = a.slice(prefix, a.length - suffix);
+	const middleB = b.slice(prefix, b.length - suffix);
+	const middle = myersDiff(middleA, middleB) ?? [
+		...middleA.map((text) => ({ type: "remove" as const, text })),
+		...middleB.map((text) => ({ type: "add" as const, text })),
+	];
+
+	const ops: EditOp[] = [
+		...a.slice(0, prefix).map((text) => ({ type: "context" as const, text })),
+		...middle,
+		...a
+			.slice(a.length - suffix)
+			.map((text) => ({ type: "context" as const, text })),
+	];
+
+	// Number each line on the side(s) it exists on
+	let oldLine = 1;
+	let newLine = 1;
+	return ops.map((op) => {
+		if (op.type === "add") return { ...op, newLine: newLine++ };
+		if (op.type === "remove") return { ...op, oldLine: oldLine++ };
+		return { ...op, oldLine: oldLine++, newLine: newLine++ };
+	});
+}
+
+/**
+ * Group changed lines into hunks with surrounding context
+ */
+export function buildHunks(
+	lines: DiffLine[],
+	contextLines = DEFAULT_CONTEXT_LINES
+): DiffHunk[] {
+	const ranges: Array<{ start: number; end: number }> = [];
+
+	for (const [index, line] of lines.entries()) {
+		if (line.type === "context") continue;
+
+		const start = Math.max(0, index - contextLines);
+		const end = Math.min(lines.length - 1, index + contextLines);
+		const last = ranges.at(-1);
+
+		if (last && start <= last.end + 1) {
+			last.end = end;
+		} else {
+			ranges.push({ start, end });
+		}
+	}
+
+	return ranges.map(({ start, end }) => {
+		const hunkLines = lines.slice(start, end + 1);
+		const oldSide = hunkLines.filter((line) => line.type !== "add");
+		const newSide = hunkLines.filter((line) => line.type !== "remove");
+
+		return {
+			oldStart: oldSide[0]?.oldLine ?? 0,
+			oldLines: oldSide.length,
+			newStart: newSide[0]?.newLine ?? 0,
+			newLines: newSide.length,
+			lines: hunkLines,
+		};
+	});
+}
+
+/**
+ * Unified diff between two texts
+ * @param lineOffset - Added to every line number, for snippets taken from inside a file
+ */
+export function createUnifiedDiff(
+	before: string,
+	after: string,
+	options: { contextLines?: number; lineOffset?: number } = {}
+): UnifiedDiff {
+	const { contextLines = DEFAULT_CONTEXT_LINES, lineOffset = 0 } = options;
+
+	const lines = diffLines(before, after).map((line) => ({
+		...line,
+		oldLine: line.oldLine === undefined ? undefined : line.oldLine + lineOffset,
+		newLine: line.newLine === undefined ? undefined : line.newLine + lineOffset,
+	}));
+
+	return {
+		hunks: buildHunks(lines, contextLines),
+		additions: lines.filter((line) => line.type === "add").length,
+		deletions: lines.filter((line) => line.type === "remove").length,
+	};
+}
+
+/**
+ * Header line for a hunk, e.g. "@@ -12,4 +12,6 @@"
+ */
+export function formatHunkHeader(hunk: DiffHunk): string {
+	return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
@@ -0,0 +1,150 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import type { DiffHunk, UnifiedDiff } from "@/types/diff";
+import { createUnifiedDiff } from "./diff";
+
+/**
+ * Tools whose input describes a change to a file
+ */
+export const FILE_EDIT_TOOLS = ["Edit", "MultiEdit", "Write"] as const;
+
+export type FileEditToolName = (typeof FILE_EDIT_TOOLS)[number];
+
+type EditSpec = {
+	old_string: string;
+	new_string: string;
+	replace_all?: boolean;
+};
+
+export type FileEditPreview = {
+	filePath: string;
+	diff: UnifiedDiff;
+	isNewFile: boolean;
+};
+
+export function isFileEditTool(name: string): name is FileEditToolName {
+	return (FILE_EDIT_TOOLS as readonly string[]).includes(name);
+}
+
+/**
+ * Read the current content of a file, or null if it doesn't exist
+ * @param cwd - Directory a relative path is resolved against (the agent's)
+ */
+export async function readFileSnapshot(
+	filePath: string,
+	cwd: string
+): Promise<string | null> {
+	try {
+		return await readFile(path.resolve(cwd, filePath), "utf-8");
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Apply a single edit, returning null if old_string is not present
+ * Uses split/join instead of String.replace so "$" in new_string stays literal
+ */
+function applyEdit(content: string, edit: EditSpec): string | null {
+	if (!content.includes(edit.old_string)) return null;
+
+	if (edit.replace_all) {
+		return content.split(edit.old_string).join(edit.new_string);
+	}
+
+	const index = content.indexOf(edit.old_string);
+	return (
+		content.slice(0, index) +
+		edit.new_string +
+		content.slice(index + edit.old_string.length)
+	);
+}
+
+/**
+ * Zero-based line on which a snippet starts inside content (0 if absent)
+ */
+function lineOffsetOf(content: string | null, snippet: string): number {
+	if (!(content && snippet)) return 0;
+	const index = content.indexOf(snippet);
+	if (index < 0) return 0;
+	return content.slice(0, index).split("\n").length - 1;
+}
+
+function getEdits(
+	toolName: FileEditToolName,
+	input: Record<string, unknown>
+): EditSpec[] {
+	if (toolName === "MultiEdit") {
+		return Array.isArray(input.edits) ? (input.edits as EditSpec[]) : [];
+	}
+	if (toolName === "Edit") {
+		return [
+			{
+				old_string: String(input.old_string ?? ""),
+				new_string: String(input.new_string ?? ""),
+				replace_all: input.replace_all === true,
+			},
+		];
+	}
+	return [];
+}
+
+/**
+ * Diff each edit's snippets on their own when the edits can't be replayed
+ * against the file (e.g. they were already applied)
+ */
+function diffSnippets(edits: EditSpec[], original: string | null): UnifiedDiff {
+	const hunks: DiffHunk[] = [];
+	let additions = 0;
+	let deletions = 0;
+
+	for (const edit of edits) {
+		const lineOffset =
+			lineOffsetOf(original, edit.old_string) ||
+			lineOffsetOf(original, edit.new_string);
+		const diff = createUnifiedDiff(edit.old_string, edit.new_string, {
+			lineOffset,
+		});
+		hunks.push(...diff.hunks);
+		additions += diff.additions;
+		deletions += diff.deletions;
+	}
+
+	return { hunks, additions, deletions };
+}
+
+/**
+ * Build the diff a file-editing tool call will produce
+ * @param original - File content captured before the tool ran (null if missing)
+ */
+export function buildFileEditDiff(
+	toolName: FileEditToolName,
+	input: Record<string, unknown>,
+	original: string | null
+): FileEditPreview {
+	const filePath = String(input.file_path ?? "");
+
+	if (toolName === "Write") {
+		return {
+			filePath,
+			diff: createUnifiedDiff(original ?? "", String(input.content ?? "")),
+			isNewFile: original === null,
+		};
+	}
+
+	const edits = getEdits(toolName, input);
+
+	// Replay the edits against the snapshot to get real file line numbers
+	let updated: string | null = original;
+	for (const edit of edits) {
+		if (updated === null) break;
+		updated = applyEdit(updated, edit);
+	}
+
+	const diff =
+		original !== null && updated !== null
+			? createUnifiedDiff(original, updated)
+			: diffSnippets(edits, original);
+
+	return { filePath, diff, isNewFile: false };
+}
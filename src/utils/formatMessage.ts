@@ -7,6 +7,11 @@ const TOKEN_DECIMAL_PLACES = 1;
 const MS_PER_SECOND = 1000;
 const DURATION_DECIMAL_PLACES = 1;
 const ELLIPSIS_LENGTH = 3;
+const MS_PER_MINUTE = 60_000;
+const SECONDS_PER_MINUTE = 60;
+const MINUTES_PER_HOUR = 60;
+const CLOCK_DIGITS = 2;
+const HOURS_PER_DAY = 24;
 
 export function getMessageTypeLabel(message: SDKMessage): string {
 	switch (message.type) {
@@ -41,6 +46,38 @@ export function formatDuration(ms: number): string {
 	return `${(ms / MS_PER_SECOND).toFixed(DURATION_DECIMAL_PLACES)}s`;
 }
 
+/**
+ * Wall-clock time to the second, e.g. "48s", "12m 05s", "1h 02m"
+ */
+export function formatElapsed(ms: number): string {
+	const seconds = Math.floor(ms / MS_PER_SECOND);
+	const minutes = Math.floor(seconds / SECONDS_PER_MINUTE);
+	const pad = (value: number) => String(value).padStart(CLOCK_DIGITS, "0");
+
+	if (minutes < 1) return `${seconds}s`;
+	if (minutes < MINUTES_PER_HOUR) {
+		return `${minutes}m ${pad(seconds % SECONDS_PER_MINUTE)}s`;
+	}
+	return `${Math.floor(minutes / MINUTES_PER_HOUR)}h ${pad(minutes % MINUTES_PER_HOUR)}m`;
+}
+
+/**
+ * Coarse "time ago" label, e.g. "just now", "5m ago", "3h ago", "2d ago"
+ */
+export function formatRelativeTime(
+	timestamp: number,
+	now = Date.now()
+): string {
+	const minutes = Math.floor((now - timestamp) / MS_PER_MINUTE);
+	if (minutes < 1) return "just now";
+	if (minutes < MINUTES_PER_HOUR) return `${minutes}m ago`;
+
+	const hours = Math.floor(minutes / MINUTES_PER_HOUR);
+	if (hours < HOURS_PER_DAY) return `${hours}h ago`;
+
+	return `${Math.floor(hours / HOURS_PER_DAY)}d ago`;
+}
+
 export function truncate(text: string, maxLength: number): string {
 	if (text.length <= maxLength) return text;
 	return `${text.slice(0, maxLength - ELLIPSIS_LENGTH)}...`;
@@ -53,3 +90,43 @@ export function formatToolInput(input: unknown): string {
 		return String(input);
 	}
 }
+
+// Input fields that best describe what a tool call will do, in priority order
+const TOOL_INPUT_SUMMARY_KEYS = [
+	"command",
+	"file_path",
+	"notebook_path",
+	"path",
+	"pattern",
+	"url",
+	"query",
+	"description",
+] as const;
+const DEFAULT_SUMMARY_LENGTH = 80;
+
+/**
+ * One-line description of a tool call's input, e.g. the Bash command or
+ * the file being edited. Falls back to compact JSON.
+ */
+export function summarizeToolInput(
+	input: unknown,
+	maxLength = DEFAULT_SUMMARY_LENGTH
+): string {
+	if (input && typeof input === "object") {
+		const record = input as Record<string, unknown>;
+		for (const key of TOOL_INPUT_SUMMARY_KEYS) {
+			const value = record[key];
+			if (typeof value === "string" && value.trim()) {
+				return truncate(value.trim().replace(/\s+/g, " "), maxLength);
+			}
+		}
+	}
+
+	let text: string;
+	try {
+		text = JSON.stringify(input) ?? String(input);
+	} catch {
+		text = String(input);
+	}
+	return truncate(text, maxLength);
+}
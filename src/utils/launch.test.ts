@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import type { ISessionStore, SessionRecord } from "@/types/sessions";
+import { parseLaunchArgs, resolveLaunch } from "./launch";
+
+const session = (sessionId: string, cwd: string): SessionRecord => ({
+	sessionId,
+	cwd,
+	model: "claude-sonnet-4-5",
+	firstPrompt: "hello",
+	createdAt: 0,
+	updatedAt: 0,
+	costUsd: 0,
+});
+
+const storeWith = (sessions: SessionRecord[]): ISessionStore => ({
+	record: () => Promise.resolve(),
+	list: () => Promise.resolve(sessions),
+	latest: (cwd) => Promise.resolve(sessions.find((s) => s.cwd === cwd) ?? null),
+	loadTranscript: () => Promise.resolve([]),
+});
+
+describe("parseLaunchArgs", () => {
+	test("reads a session id after --resume", () => {
+		expect(parseLaunchArgs(["--resume", "abc"])).toEqual({
+			resume: "abc",
+			continue: false,
+		});
+	});
+
+	test("reads the permission mode, rejecting unknown ones", () => {
+		expect(
+			parseLaunchArgs(["--permission-mode", "acceptEdits"]).permissionMode
+		).toBe("acceptEdits");
+		expect(() => parseLaunchArgs(["--permission-mode", "yolo"])).toThrow(
+			"Unknown permission mode"
+		);
+	});
+
+	test("reports a flag given without its value", () => {
+		expect(() => parseLaunchArgs(["--permission-mode"])).toThrow(
+			"--permission-mode requires a value"
+		);
+		expect(() => parseLaunchArgs(["--record", "-c"])).toThrow(
+			"--record requires a value"
+		);
+	});
+
+	test("treats a bare --resume as a request for the picker", () => {
+		expect(parseLaunchArgs(["-r", "--continue"])).toEqual({
+			resume: true,
+			continue: true,
+		});
+	});
+});
+
+describe("resolveLaunch", () => {
+	const store = storeWith([session("s1", "/work")]);
+
+	test("continues the latest session in the directory", async () => {
+		expect(await resolveLaunch({ continue: true }, store, "/work")).toEqual({
+			mode: "resume",
+			sessionId: "s1",
+		});
+	});
+
+	test("starts fresh when the directory has no session", async () => {
+		expect(await resolveLaunch({ continue: true }, store, "/other")).toEqual({
+			mode: "new",
+		});
+	});
+});
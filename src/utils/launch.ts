@@ -0,0 +1,115 @@
+import type { PermissionMode } from "@anthropic-ai/claude-agent-sdk";
+import type { ISessionStore, SessionLaunch } from "@/types/sessions";
+
+const PERMISSION_MODES: PermissionMode[] = [
+	"default",
+	"acceptEdits",
+	"plan",
+	"bypassPermissions",
+];
+
+export type LaunchArgs = {
+	// Session id to resume, or true to choose one in the picker
+	resume?: string | true;
+	// Resume the most recent session in the current directory
+	continue: boolean;
+	// Answer prompts from this JSONL transcript instead of the SDK
+	replay?: string;
+	// Record prompts and SDK messages to this JSONL transcript
+	record?: string;
+	// How tool use is approved (default: ask for every mutating tool)
+	permissionMode?: PermissionMode;
+};
+
+export const LAUNCH_USAGE = `Usage: bun run src/index.tsx [options]
+
+Options:
+  -r, --resume [id]         Reopen a session (picker when no id is given)
+  -c, --continue            Reopen the latest session in this directory
+  --replay <file>           Play back a recorded transcript, fully offline
+  --record <file>           Record the conversation for later --replay
+  --permission-mode <mode>  ${PERMISSION_MODES.join(", ")}`;
+
+/**
+ * Value of the flag at index i, throwing when it is missing
+ */
+const requireValue = (args: string[], i: number): string => {
+	const value = args[i + 1];
+	if (value === undefined || value.startsWith("-")) {
+		throw new Error(`${args[i]} requires a value`);
+	}
+	return value;
+};
+
+/**
+ * Parse the TUI's command-line flags (see LAUNCH_USAGE)
+ * Throws on a missing or invalid flag value
+ */
+export function parseLaunchArgs(args: string[]): LaunchArgs {
+	const parsed: LaunchArgs = { continue: false };
+
+	for (const [i, arg] of args.entries()) {
+		switch (arg) {
+			case "--resume":
+			case "-r": {
+				const next = args[i + 1];
+				parsed.resume = next && !next.startsWith("-") ? next : true;
+				break;
+			}
+
+			case "--continue":
+			case "-c":
+				parsed.continue = true;
+				break;
+
+			case "--replay":
+				parsed.replay = requireValue(args, i);
+				break;
+
+			case "--record":
+				parsed.record = requireValue(args, i);
+				break;
+
+			case "--permission-mode": {
+				const mode = requireValue(args, i) as PermissionMode;
+				if (PERMISSION_MODES.includes(mode)) {
+					parsed.permissionMode = mode;
+				} else {
+					throw new Error(
+						`Unknown permission mode: ${mode} (expected ${PERMISSION_MODES.join(", ")})`
+					);
+				}
+				break;
+			}
+
+			default:
+				break;
+		}
+	}
+
+	return parsed;
+}
+
+/**
+ * Decide how the TUI starts from its flags and the saved sessions
+ * --continue falls back to a new session when this directory has none
+ */
+export async function resolveLaunch(
+	args: LaunchArgs,
+	store: ISessionStore,
+	cwd: string
+): Promise<SessionLaunch> {
+	if (typeof args.resume === "string") {
+		return { mode: "resume", sessionId: args.resume };
+	}
+	if (args.resume) {
+		return { mode: "picker" };
+	}
+	if (args.continue) {
+		const latest = await store.latest(cwd);
+		return latest
+			? { mode: "resume", sessionId: latest.sessionId }
+			: { mode: "new" };
+	}
+	return { mode: "new" };
+}
@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+import { inlineText, parseInline, parseMarkdown } from "./markdown";
+
+describe("parseInline", () => {
+	test("splits styled runs", () => {
+		expect(parseInline("a **b** `c` *d*")).toEqual([
+			{ text: "a " },
+			{ text: "b", bold: true },
+			{ text: " " },
+			{ text: "c", code: true },
+			{ text: " " },
+			{ text: "d", italic: true },
+		]);
+	});
+
+	test("nests emphasis and keeps link targets", () => {
+		expect(parseInline("**[docs](https://x.dev) _now_**")).toEqual([
+			{ text: "docs", bold: true, href: "https://x.dev" },
+			{ text: " ", bold: true },
+			{ text: "now", bold: true, italic: true },
+		]);
+	});
+
+	test("leaves snake_case identifiers alone", () => {
+		expect(parseInline("use snake_case_name")).toEqual([
+			{ text: "use snake_case_name" },
+		]);
+	});
+});
+
+describe("parseMarkdown", () => {
+	test("recognizes block types", () => {
+		const blocks = parseMarkdown(
+			["# Title", "", "Intro", "", "- a", "- b", "", "> quote", "", "---"].join(
+				"\n"
+			)
+		);
+		expect(blocks.map((block) => block.type)).toEqual([
+			"heading",
+			"paragraph",
+			"list",
+			"blockquote",
+			"rule",
+		]);
+	});
+
+	test("keeps code fences verbatim, even unclosed", () => {
+		const [block] = parseMarkdown(
+			"```ts\nconst a = `**x**`;\n\n# not a heading"
+		);
+		expect(block).toEqual({
+			type: "code",
+			language: "ts",
+			code: "const a = `**x**`;\n\n# not a heading",
+		});
+	});
+
+	test("nests list items and resolves markers", () => {
+		const [block] = parseMarkdown("- a\n  - b\n1. c\n- [x] d");
+		if (block?.type !== "list") throw new Error("expected a list");
+		expect(
+			block.items.map(({ marker, depth, checked }) => [marker, depth, checked])
+		).toEqual([
+			["•", 0, undefined],
+			["◦", 1, undefined],
+			["1.", 0, undefined],
+			["•", 0, true],
+		]);
+	});
+
+	test("parses tables with alignment", () => {
+		const [block] = parseMarkdown("| a | b |\n|:--|--:|\n| 1 | 2 |\n| 3 |");
+		if (block?.type !== "table") throw new Error("expected a table");
+		expect(block.align).toEqual(["left", "right"]);
+		expect(block.header.map(inlineText)).toEqual(["a", "b"]);
+		expect(block.rows.map((row) => row.map(inlineText))).toEqual([
+			["1", "2"],
+			["3", ""],
+		]);
+	});
+});
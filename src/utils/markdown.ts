@@ -0,0 +1,328 @@
+import type {
+	InlineStyle,
+	InlineToken,
+	ListItem,
+	MarkdownBlock,
+	TableAlign,
+} from "@/types/markdown";
+
+// Inline code | **bold** | __bold__ | ~~strike~~ | *italic* | _italic_ | [text](url)
+const INLINE_REGEX =
+	/`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|~~(.+?)~~|\*(?!\s)(.+?)\*|\b_(?!\s)(.+?)_\b|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+const FENCE_REGEX = /^\s{0,3}(`{3,}|~{3,})\s*([^\s`]*)/;
+const HEADING_REGEX = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE_REGEX = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE_REGEX = /^\s{0,3}>\s?(.*)$/;
+const LIST_ITEM_REGEX = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TASK_REGEX = /^\[([ xX])\]\s+/;
+const TABLE_SEPARATOR_REGEX = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const TABLE_EDGE_PIPES_REGEX = /^\s*\|?|\|?\s*$/g;
+const TABLE_CELL_SPLIT_REGEX = /\s*\|\s*/;
+const ORDERED_MARKER_REGEX = /^\d/;
+
+// Spaces of indentation per list nesting level
+const LIST_INDENT = 2;
+const BULLETS = ["•", "◦", "▪"];
+
+type BlockMatch = { block: MarkdownBlock; next: number };
+
+/**
+ * Tries to read one block starting at lines[start]
+ * Returns null when the line doesn't start this kind of block
+ */
+type BlockParser = (lines: string[], start: number) => BlockMatch | null;
+
+const isBlank = (line: string | undefined): boolean => !line?.trim();
+
+/**
+ * Turn one INLINE_REGEX match into tokens, recursing into emphasis
+ */
+function inlineMatchTokens(
+	match: RegExpMatchArray,
+	style: InlineStyle
+): InlineToken[] {
+	const [, code, bold, boldAlt, strike, italic, italicAlt, linkText, href] =
+		match;
+
+	if (code !== undefined) return [{ ...style, code: true, text: code }];
+
+	const boldText = bold ?? boldAlt;
+	if (boldText !== undefined) {
+		return parseInline(boldText, { ...style, bold: true });
+	}
+
+	if (strike !== undefined) {
+		return parseInline(strike, { ...style, strikethrough: true });
+	}
+
+	const italicText = italic ?? italicAlt;
+	if (italicText !== undefined) {
+		return parseInline(italicText, { ...style, italic: true });
+	}
+
+	return parseInline(linkText ?? "", { ...style, href });
+}
+
+/**
+ * Split a line of markdown into styled runs
+ */
+export function parseInline(
+	text: string,
+	style: InlineStyle = {}
+): InlineToken[] {
+	const tokens: InlineToken[] = [];
+	let last = 0;
+
+	for (const match of text.matchAll(INLINE_REGEX)) {
+		const index = match.index ?? 0;
+		if (index > last) tokens.push({ ...style, text: text.slice(last, index) });
+		tokens.push(...inlineMatchTokens(match, style));
+		last = index + match[0].length;
+	}
+
+	if (last < text.length) tokens.push({ ...style, text: text.slice(last) });
+	return tokens;
+}
+
+const parseFence: BlockParser = (lines, start) => {
+	const match = lines[start]?.match(FENCE_REGEX);
+	if (!match) return null;
+
+	const fence = match[1] ?? "```";
+	const body: string[] = [];
+	let index = start + 1;
+
+	// An unclosed fence runs to the end, which keeps streamed code readable
+	while (index < lines.length) {
+		const line = (lines[index] ?? "").trim();
+		if (line.startsWith(fence) && line.replaceAll(fence[0] ?? "", "") === "") {
+			index++;
+			break;
+		}
+		body.push(lines[index] ?? "");
+		index++;
+	}
+
+	return {
+		block: { type: "code", language: match[2] ?? "", code: body.join("\n") },
+		next: index,
+	};
+};
+
+const parseHeading: BlockParser = (lines, start) => {
+	const match = lines[start]?.match(HEADING_REGEX);
+	if (!match) return null;
+
+	return {
+		block: {
+			type: "heading",
+			level: match[1]?.length ?? 1,
+			content: parseInline(match[2] ?? ""),
+		},
+		next: start + 1,
+	};
+};
+
+const parseRule: BlockParser = (lines, start) =>
+	RULE_REGEX.test(lines[start] ?? "")
+		? { block: { type: "rule" }, next: start + 1 }
+		: null;
+
+const parseBlockquote: BlockParser = (lines, start) => {
+	const quoted: string[] = [];
+	let index = start;
+
+	while (index < lines.length) {
+		const match = lines[index]?.match(QUOTE_REGEX);
+		if (!match) break;
+		quoted.push(match[1] ?? "");
+		index++;
+	}
+
+	if (quoted.length === 0) return null;
+
+	return {
+		block: { type: "blockquote", children: parseMarkdown(quoted.join("\n")) },
+		next: index,
+	};
+};
+
+const splitTableRow = (line: string): string[] =>
+	line
+		.replace(TABLE_EDGE_PIPES_REGEX, "")
+		.split(TABLE_CELL_SPLIT_REGEX)
+		.map((cell) => cell.trim());
+
+const cellAlign = (separator: string): TableAlign => {
+	const cell = separator.trim();
+	if (cell.startsWith(":") && cell.endsWith(":")) return "center";
+	if (cell.endsWith(":")) return "right";
+	return "left";
+};
+
+const parseTable: BlockParser = (lines, start) => {
+	const headerLine = lines[start] ?? "";
+	const separatorLine = lines[start + 1] ?? "";
+	if (
+		!(headerLine.includes("|") && TABLE_SEPARATOR_REGEX.test(separatorLine))
+	) {
+		return null;
+	}
+
+	const header = splitTableRow(headerLine);
+	const rows: InlineToken[][][] = [];
+	let index = start + 2;
+
+	while (index < lines.length && lines[index]?.includes("|")) {
+		const cells = splitTableRow(lines[index] ?? "");
+		// Pad or trim every row to the header's column count
+		rows.push(header.map((_, column) => parseInline(cells[column] ?? "")));
+		index++;
+	}
+
+	return {
+		block: {
+			type: "table",
+			align: splitTableRow(separatorLine).map(cellAlign),
+			header: header.map((cell) => parseInline(cell)),
+			rows,
+		},
+		next: index,
+	};
+};
+
+/**
+ * Build a list item from a LIST_ITEM_REGEX match
+ */
+function toListItem(match: RegExpMatchArray): ListItem {
+	const depth = Math.floor((match[1]?.length ?? 0) / LIST_INDENT);
+	const rawMarker = match[2] ?? "-";
+	let text = match[3] ?? "";
+
+	const task = text.match(TASK_REGEX);
+	const checked = task ? task[1] !== " " : undefined;
+	if (task) text = text.slice(task[0].length);
+
+	const marker = ORDERED_MARKER_REGEX.test(rawMarker)
+		? rawMarker
+		: (BULLETS[Math.min(depth, BULLETS.length - 1)] ?? "•");
+
+	return { marker, depth, content: parseInline(text), checked };
+}
+
+/**
+ * Whether a line starts some block other than a paragraph continuation
+ */
+const startsBlock = (lines: string[], index: number): boolean => {
+	const line = lines[index] ?? "";
+	return (
+		FENCE_REGEX.test(line) ||
+		HEADING_REGEX.test(line) ||
+		RULE_REGEX.test(line) ||
+		QUOTE_REGEX.test(line) ||
+		LIST_ITEM_REGEX.test(line)
+	);
+};
+
+const parseList: BlockParser = (lines, start) => {
+	const items: ListItem[] = [];
+	let index = start;
+
+	while (index < lines.length) {
+		const line = lines[index] ?? "";
+		const match = line.match(LIST_ITEM_REGEX);
+		const previous = items.at(-1);
+
+		if (match) {
+			items.push(toListItem(match));
+		} else if (previous && !isBlank(line) && !startsBlock(lines, index)) {
+			// Lazy continuation of the previous item
+			previous.content.push(...parseInline(` ${line.trim()}`));
+		} else if (
+			!(isBlank(line) && LIST_ITEM_REGEX.test(lines[index + 1] ?? ""))
+		) {
+			// Blank lines only continue a list when another item follows
+			break;
+		}
+		index++;
+	}
+
+	return items.length > 0
+		? { block: { type: "list", items }, next: index }
+		: null;
+};
+
+/**
+ * Fallback: consecutive lines up to a blank line or another block
+ * Line breaks are kept as written, terminals don't reflow prose
+ */
+const parseParagraph: BlockParser = (lines, start) => {
+	const paragraph: string[] = [lines[start] ?? ""];
+	let index = start + 1;
+
+	while (
+		index < lines.length &&
+		!isBlank(lines[index]) &&
+		!startsBlock(lines, index)
+	) {
+		paragraph.push(lines[index] ?? "");
+		index++;
+	}
+
+	return {
+		block: {
+			type: "paragraph",
+			content: paragraph.flatMap((line, lineIndex) =>
+				parseInline(lineIndex === 0 ? line : `\n${line}`)
+			),
+		},
+		next: index,
+	};
+};
+
+// Order matters: rules before lists ("* * *"), tables before paragraphs
+const BLOCK_PARSERS: BlockParser[] = [
+	parseFence,
+	parseHeading,
+	parseRule,
+	parseTable,
+	parseBlockquote,
+	parseList,
+	parseParagraph,
+];
+
+/**
+ * Parse markdown into blocks for terminal rendering
+ * Covers the CommonMark/GFM subset assistants actually produce; unclosed
+ * constructs (e.g. while streaming) degrade to plain text or open code blocks
+ */
+export function parseMarkdown(markdown: string): MarkdownBlock[] {
+	const lines = markdown.replaceAll("\r\n", "\n").split("\n");
+	const blocks: MarkdownBlock[] = [];
+	let index = 0;
+
+	while (index < lines.length) {
+		if (isBlank(lines[index])) {
+			index++;
+			continue;
+		}
+
+		for (const parser of BLOCK_PARSERS) {
+			const match = parser(lines, index);
+			if (match) {
+				blocks.push(match.block);
+				index = match.next;
+				break;
+			}
+		}
+	}
+
+	return blocks;
+}
+
+/**
+ * Plain text of a run of inline tokens
+ */
+export const inlineText = (tokens: InlineToken[]): string =>
+	tokens.map((token) => token.text).join("");
@@ -0,0 +1,63 @@
+import { describe, expect, test } from "bun:test";
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import { extractToolResults } from "./messageParser";
+
+const userMessage = (content: unknown) =>
+	({
+		type: "user",
+		session_id: "s1",
+		parent_tool_use_id: null,
+		message: { role: "user", content },
+	}) as unknown as SDKMessage;
+
+describe("extractToolResults", () => {
+	test("reads every tool_result block of a user message", () => {
+		const message = userMessage([
+			{ type: "tool_result", tool_use_id: "t1", content: "ok" },
+			{
+				type: "tool_result",
+				tool_use_id: "t2",
+				content: "No such file",
+				is_error: true,
+			},
+			{ type: "text", text: "typed by the user" },
+		]);
+
+		expect(extractToolResults(message)).toEqual([
+			{ type: "tool_result", toolUseId: "t1", output: "ok", isError: false },
+			{
+				type: "tool_result",
+				toolUseId: "t2",
+				output: "No such file",
+				isError: true,
+			},
+		]);
+	});
+
+	test("flattens content blocks, naming the ones without text", () => {
+		const message = userMessage([
+			{
+				type: "tool_result",
+				tool_use_id: "t1",
+				content: [
+					{ type: "text", text: "Screenshot taken" },
+					{ type: "image" },
+				],
+			},
+		]);
+
+		expect(extractToolResults(message)[0]?.output).toBe(
+			"Screenshot taken\n[image]"
+		);
+	});
+
+	test("finds nothing in prompts or other messages", () => {
+		expect(extractToolResults(userMessage("hello"))).toEqual([]);
+		expect(
+			extractToolResults({
+				type: "assistant",
+				message: { role: "assistant", content: [] },
+			} as unknown as SDKMessage)
+		).toEqual([]);
+	});
+});
@@ -3,6 +3,7 @@ import type {
 	MessageContent,
 	MessageType,
 	ParsedMessage,
+	ToolResultContent,
 } from "../types/messages";
 
 /**
@@ -10,6 +11,169 @@ import type {
  */
 let messageCounter = 0;
 
+/**
+ * Shape of a tool_result block inside a user message
+ */
+type ToolResultBlock = {
+	type: "tool_result";
+	tool_use_id: string;
+	content?: string | Array<{ type: string; text?: string }>;
+	is_error?: boolean;
+};
+
+/**
+ * Flatten tool_result content (string or content blocks) to plain text
+ */
+function toolResultText(content: ToolResultBlock["content"]): string {
+	if (typeof content === "string") return content;
+	if (!Array.isArray(content)) return "";
+
+	return content
+		.map((block) => {
+			if (block.type === "text") return block.text ?? "";
+			return `[${block.type}]`;
+		})
+		.join("\n");
+}
+
+/**
+ * Convert a raw tool_result block into our content format
+ */
+function toToolResultContent(block: ToolResultBlock): ToolResultContent {
+	return {
+		type: "tool_result",
+		toolUseId: block.tool_use_id,
+		output: toolResultText(block.content),
+		isError: block.is_error === true,
+	};
+}
+
+/**
+ * Extract tool results from a user message
+ * Tool results arrive as user-role messages that answer earlier tool_use blocks
+ */
+export function extractToolResults(message: SDKMessage): ToolResultContent[] {
+	if (message.type !== "user") return [];
+	if (!Array.isArray(message.message.content)) return [];
+
+	return message.message.content
+		.filter((block: { type: string }) => block.type === "tool_result")
+		.map(toToolResultContent);
+}
+
+/**
+ * Check if a user message only carries tool results (no typed text)
+ */
+export function isToolResultMessage(message: SDKMessage): boolean {
+	if (message.type !== "user") return false;
+	if (!Array.isArray(message.message.content)) return false;
+
+	return (
+		message.message.content.length > 0 &&
+		message.message.content.every(
+			(block: { type: string }) => block.type === "tool_result"
+		)
+	);
+}
+
+/**
+ * Text the CLI records as a user message when a turn is interrupted
+ * ("[Request interrupted by user]" or "... for tool use]")
+ */
+export const INTERRUPT_MARKER_PREFIX = "[Request interrupted by user";
+
+/**
+ * Check if a user message marks an interrupted turn
+ */
+export function isInterruptMarker(message: SDKMessage): boolean {
+	if (message.type !== "user") return false;
+
+	const { content } = message.message;
+	if (typeof content === "string") {
+		return content.startsWith(INTERRUPT_MARKER_PREFIX);
+	}
+
+	return (
+		Array.isArray(content) &&
+		content.some(
+			(block: { type: string; text?: string }) =>
+				block.type === "text" &&
+				block.text?.startsWith(INTERRUPT_MARKER_PREFIX) === true
+		)
+	);
+}
+
+/**
+ * Text the user typed in a prompt message, or null for anything else
+ * (tool results, interrupt markers, local command output, assistant output)
+ */
+export function extractPromptText(message: SDKMessage): string | null {
+	if (message.type !== "user" || message.parent_tool_use_id !== null) {
+		return null;
+	}
+	if (
+		isToolResultMessage(message) ||
+		isInterruptMarker(message) ||
+		parseLocalCommandOutput(message)
+	) {
+		return null;
+	}
+
+	const { content } = message.message;
+	if (typeof content === "string") return content;
+
+	const text = content
+		.filter((block: { type: string }) => block.type === "text")
+		.map((block: { text: string }) => block.text)
+		.join("\n");
+	return text || null;
+}
+
+/**
+ * Tags wrapping the output of a slash command that ran locally, as the CLI
+ * records it in transcripts
+ */
+const LOCAL_COMMAND_NAME_REGEX = /<command-name>([\s\S]*?)<\/command-name>/;
+const LOCAL_COMMAND_OUTPUT_REGEX =
+	/<local-command-stdout>([\s\S]*?)<\/local-command-stdout>/;
+
+/**
+ * Text of a user message recording a local slash command and its output
+ */
+export function formatLocalCommandOutput(
+	commandLine: string,
+	output: string
+): string {
+	return `<command-name>${commandLine}</command-name>\n<local-command-stdout>${output}</local-command-stdout>`;
+}
+
+/**
+ * Command line and output of a local slash command message, or null for
+ * any other message
+ */
+export function parseLocalCommandOutput(
+	message: SDKMessage
+): { commandLine: string; output: string } | null {
+	if (message.type !== "user") return null;
+
+	const { content } = message.message;
+	const text =
+		typeof content === "string"
+			? content
+			: content
+					.filter((block: { type: string }) => block.type === "text")
+					.map((block: { text: string }) => block.text)
+					.join("\n");
+
+	const output = text.match(LOCAL_COMMAND_OUTPUT_REGEX);
+	if (!output) return null;
+
+	return {
+		commandLine: text.match(LOCAL_COMMAND_NAME_REGEX)?.[1] ?? "",
+		output: output[1] ?? "",
+	};
+}
+
 /**
  * Extract content from assistant messages
  */
@@ -52,6 +216,8 @@ function extractUserContent(message: SDKMessage): MessageContent[] {
 					type: "text",
 					text: block.text,
 				});
+			} else if (block.type === "tool_result") {
+				content.push(toToolResultContent(block));
 			}
 		}
 	} else if (typeof message.message.content === "string") {
@@ -115,7 +281,7 @@ function parseUserMessage(
 ): ParsedMessage {
 	return {
 		id,
-		type: "text",
+		type: isToolResultMessage(message) ? "tool_result" : "text",
 		role: "user",
 		content: extractUserContent(message),
 		timestamp,
@@ -0,0 +1,56 @@
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import { extractPromptText } from "./messageParser";
+
+/**
+ * What the agent produced in answer to one user prompt
+ */
+export type ReplayTurn = {
+	// Prompt the turn answered, as recorded
+	prompt: string;
+	// Everything the SDK emitted for it, in order (prompt excluded)
+	messages: SDKMessage[];
+};
+
+/**
+ * Split a recorded transcript into one turn per user prompt
+ * Messages recorded before the first prompt (e.g. the init message, which
+ * SessionStore writes ahead of the prompt) open the first turn
+ */
+export function splitTurns(transcript: SDKMessage[]): ReplayTurn[] {
+	const turns: ReplayTurn[] = [];
+	let prelude: SDKMessage[] = [];
+
+	for (const message of transcript) {
+		const prompt = extractPromptText(message);
+		const current = turns.at(-1);
+
+		if (prompt !== null) {
+			turns.push({ prompt, messages: prelude });
+			prelude = [];
+		} else if (current) {
+			current.messages.push(message);
+		} else {
+			prelude.push(message);
+		}
+	}
+
+	return turns;
+}
+
+/**
+ * Index of the turn to replay for a prompt: the first unplayed turn
+ * recorded with the same prompt, else the first unplayed turn
+ * Returns -1 when every turn has been played
+ */
+export function findTurn(
+	turns: ReplayTurn[],
+	played: ReadonlySet<number>,
+	prompt: string | null
+): number {
+	const unplayed = turns
+		.map((_, index) => index)
+		.filter((index) => !played.has(index));
+
+	const exact = unplayed.find((index) => turns[index]?.prompt === prompt);
+	return exact ?? unplayed[0] ?? -1;
+}
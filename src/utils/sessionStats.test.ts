@@ -0,0 +1,75 @@
+import { describe, expect, test } from "bun:test";
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import { computeStats, extractSessionInfo } from "./sessionStats";
+
+const init = (sessionId: string, model: string) =>
+	({
+		type: "system",
+		subtype: "init",
+		session_id: sessionId,
+		model,
+		cwd: "/work",
+		tools: ["Read"],
+		permissionMode: "default",
+	}) as unknown as SDKMessage;
+
+const result = (costUsd: number, durationMs: number, turns: number) =>
+	({
+		type: "result",
+		subtype: "success",
+		total_cost_usd: costUsd,
+		duration_ms: durationMs,
+		num_turns: turns,
+		usage: { input_tokens: 100, output_tokens: 20 },
+	}) as unknown as SDKMessage;
+
+// Per-result token usage: 100 in + 20 out
+const TOKENS_PER_RESULT = 120;
+const FIRST_COST = 0.01;
+const SECOND_COST = 0.03;
+const RESUMED_COST = 0.02;
+const DURATION_MS = 500;
+const RESULT_COUNT = 3;
+const TOTAL_TURNS = 4;
+const STARTED_AT = 1_000_000;
+// Wall-clock time, longer than the results' summed duration_ms
+const ELAPSED_MS = 90_000;
+
+describe("computeStats", () => {
+	test("adds the last cumulative cost of each query", () => {
+		const stats = computeStats(
+			[
+				init("s1", "sonnet"),
+				result(FIRST_COST, DURATION_MS, 2),
+				result(SECOND_COST, DURATION_MS, 1),
+				// Resumed query: cost starts over
+				init("s1", "sonnet"),
+				result(RESUMED_COST, DURATION_MS, 1),
+			],
+			STARTED_AT,
+			STARTED_AT + ELAPSED_MS
+		);
+
+		expect(stats.cost).toBeCloseTo(SECOND_COST + RESUMED_COST);
+		expect(stats.turns).toBe(TOTAL_TURNS);
+		expect(stats.tokens).toBe(TOKENS_PER_RESULT * RESULT_COUNT);
+	});
+
+	test("times the session by the clock from its start", () => {
+		const messages = [init("s1", "sonnet"), result(FIRST_COST, DURATION_MS, 1)];
+
+		expect(
+			computeStats(messages, STARTED_AT, STARTED_AT + ELAPSED_MS).duration
+		).toBe(ELAPSED_MS);
+		expect(computeStats([], null, STARTED_AT).duration).toBe(0);
+	});
+});
+
+describe("extractSessionInfo", () => {
+	test("reads the latest init message", () => {
+		expect(
+			extractSessionInfo([init("s1", "sonnet"), init("s2", "opus")])
+		).toMatchObject({ sessionId: "s2", model: "opus", cwd: "/work" });
+		expect(extractSessionInfo([])).toBeNull();
+	});
+});
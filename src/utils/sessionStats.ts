@@ -0,0 +1,57 @@
+import type {
+	SDKMessage,
+	SDKSystemMessage,
+} from "@anthropic-ai/claude-agent-sdk";
+import type { SessionInfo, Stats } from "@/types";
+
+const isInit = (message: SDKMessage): message is SDKSystemMessage =>
+	message.type === "system" && message.subtype === "init";
+
+/**
+ * Session details from the most recent init message, or null before the
+ * session has started
+ */
+export function extractSessionInfo(messages: SDKMessage[]): SessionInfo | null {
+	const init = messages.findLast(isInit);
+	if (!init) return null;
+
+	return {
+		sessionId: init.session_id,
+		model: init.model,
+		permissionMode: init.permissionMode,
+		cwd: init.cwd,
+		tools: init.tools,
+	};
+}
+
+/**
+ * Totals across every result in the conversation
+ * Turns and tokens are reported per prompt and add up; cost is cumulative
+ * per query, so each query (started by an init message) contributes the
+ * cost of its last result. Duration is wall-clock time since startedAt,
+ * when the session started (0 before it has)
+ */
+export function computeStats(
+	messages: SDKMessage[],
+	startedAt: number | null,
+	now = Date.now()
+): Stats {
+	const stats: Stats = { tokens: 0, cost: 0, duration: 0, turns: 0 };
+	let queryCost = 0;
+
+	for (const message of messages) {
+		if (isInit(message)) {
+			stats.cost += queryCost;
+			queryCost = 0;
+		}
+		if (message.type === "result") {
+			queryCost = message.total_cost_usd;
+			stats.turns += message.num_turns;
+			stats.tokens += message.usage.input_tokens + message.usage.output_tokens;
+		}
+	}
+
+	stats.cost += queryCost;
+	stats.duration = startedAt === null ? 0 : Math.max(0, now - startedAt);
+	return stats;
+}
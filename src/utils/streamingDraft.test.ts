@@ -0,0 +1,55 @@
+import { describe, expect, test } from "bun:test";
+import {
+	applyStreamEvent,
+	completeBlocks,
+	draftText,
+	EMPTY_DRAFT,
+} from "./streamingDraft";
+
+const textDelta = (index: number, text: string) => ({
+	type: "content_block_delta",
+	index,
+	delta: { type: "text_delta", text },
+});
+
+const events = [
+	{ type: "message_start" },
+	{ type: "content_block_start", index: 0, content_block: { type: "text" } },
+	textDelta(0, "Hel"),
+	textDelta(0, "lo"),
+	{
+		type: "content_block_start",
+		index: 1,
+		content_block: { type: "tool_use" },
+	},
+	{
+		type: "content_block_delta",
+		index: 1,
+		delta: { type: "input_json_delta", partial_json: "{" },
+	},
+];
+
+describe("streaming draft", () => {
+	test("accumulates text deltas and ignores other blocks", () => {
+		const draft = events.reduce(applyStreamEvent, EMPTY_DRAFT);
+		expect(draftText(draft)).toBe("Hello");
+		expect(draft.blocks.map((block) => block.type)).toEqual([
+			"text",
+			"tool_use",
+		]);
+	});
+
+	test("hides blocks already delivered as complete messages", () => {
+		const draft = events.reduce(applyStreamEvent, EMPTY_DRAFT);
+		expect(draftText(completeBlocks(draft, 1))).toBe("");
+	});
+
+	test("starts over on a new message", () => {
+		const draft = applyStreamEvent(
+			events.reduce(applyStreamEvent, EMPTY_DRAFT),
+			{ type: "message_start" }
+		);
+		expect(draft).toEqual(EMPTY_DRAFT);
+		expect(draftText(null)).toBe("");
+	});
+});
@@ -0,0 +1,74 @@
+import type { StreamingBlock, StreamingDraft } from "@/types/messages";
+
+/**
+ * Subset of the Anthropic stream events we fold into a draft
+ * (the SDK types them through @anthropic-ai/sdk, which isn't a dependency)
+ */
+type StreamEvent = {
+	type: string;
+	index?: number;
+	content_block?: { type: string; text?: string };
+	delta?: { type: string; text?: string };
+};
+
+export const EMPTY_DRAFT: StreamingDraft = { blocks: [], completedBlocks: 0 };
+
+const replaceBlock = (
+	draft: StreamingDraft,
+	index: number,
+	update: (block: StreamingBlock | undefined) => StreamingBlock
+): StreamingDraft => {
+	const blocks = [...draft.blocks];
+	blocks[index] = update(blocks[index]);
+	return { ...draft, blocks };
+};
+
+/**
+ * Fold one stream event into the draft
+ * A message_start begins a fresh draft; text deltas grow their block
+ */
+export function applyStreamEvent(
+	draft: StreamingDraft,
+	event: StreamEvent
+): StreamingDraft {
+	const index = event.index ?? 0;
+
+	switch (event.type) {
+		case "message_start":
+			return EMPTY_DRAFT;
+		case "content_block_start":
+			return replaceBlock(draft, index, () => ({
+				type: event.content_block?.type ?? "unknown",
+				text: event.content_block?.text ?? "",
+			}));
+		case "content_block_delta":
+			if (event.delta?.type !== "text_delta") return draft;
+			return replaceBlock(draft, index, (block) => ({
+				type: block?.type ?? "text",
+				text: (block?.text ?? "") + (event.delta?.text ?? ""),
+			}));
+		default:
+			return draft;
+	}
+}
+
+/**
+ * Mark blocks as delivered by a complete assistant message
+ */
+export const completeBlocks = (
+	draft: StreamingDraft,
+	count: number
+): StreamingDraft => ({
+	...draft,
+	completedBlocks: draft.completedBlocks + count,
+});
+
+/**
+ * Text still streaming, i.e. not yet covered by a complete message
+ */
+export const draftText = (draft: StreamingDraft | null): string =>
+	(draft?.blocks ?? [])
+		.slice(draft?.completedBlocks ?? 0)
+		.filter((block) => block?.type === "text")
+		.map((block) => block.text)
+		.join("\n");
@@ -0,0 +1,45 @@
+import { describe, expect, test } from "bun:test";
+import { highlightCode } from "./syntaxHighlight";
+
+const kinds = (code: string, language: string) =>
+	highlightCode(code, language).map((line) =>
+		line
+			.filter((token) => token.text.trim())
+			.map((token) => `${token.kind}:${token.text.trim()}`)
+	);
+
+describe("highlightCode", () => {
+	test("classifies keywords, strings, numbers and calls", () => {
+		expect(kinds('const x = load("a", 42);', "ts")).toEqual([
+			[
+				"keyword:const",
+				"plain:x =",
+				"function:load",
+				"plain:(",
+				'string:"a"',
+				"plain:,",
+				"number:42",
+				"plain:);",
+			],
+		]);
+	});
+
+	test("carries block comments across lines", () => {
+		expect(kinds("/* a\nb */ x", "js")).toEqual([
+			["comment:/* a"],
+			["comment:b */", "plain:x"],
+		]);
+	});
+
+	test("uses the language's comment syntax", () => {
+		expect(kinds("x = 1  # note", "python")).toEqual([
+			["plain:x =", "number:1", "comment:# note"],
+		]);
+	});
+
+	test("returns unknown languages unstyled", () => {
+		expect(highlightCode("let x = 1", "brainfuck")).toEqual([
+			[{ kind: "plain", text: "let x = 1" }],
+		]);
+	});
+});
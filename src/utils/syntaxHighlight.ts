@@ -0,0 +1,241 @@
+import type { SyntaxToken, SyntaxTokenKind } from "@/types/markdown";
+
+/**
+ * Lexical rules for one language family
+ */
+type Grammar = {
+	keywords: Set<string>;
+	// Literals highlighted like numbers (true, null, None...)
+	constants: Set<string>;
+	lineComment?: string;
+	blockComment?: [open: string, close: string];
+	quotes: string[];
+};
+
+type ScanState = {
+	inBlockComment: boolean;
+};
+
+/**
+ * Tries to read one token at line[position]
+ * Returns null when the text there isn't this kind of token
+ */
+type TokenReader = (
+	line: string,
+	position: number,
+	grammar: Grammar,
+	state: ScanState
+) => SyntaxToken | null;
+
+const NUMBER_REGEX = /0x[\da-f]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?/iy;
+const WORD_REGEX = /[A-Za-z_$][\w$]*/y;
+const WORD_CHAR_REGEX = /[\w$]/;
+const CALL_REGEX = /^\s*\(/;
+const TYPE_NAME_REGEX = /^[A-Z][a-z]/;
+
+const words = (list: string): Set<string> => new Set(list.split(" "));
+
+const C_STYLE = {
+	lineComment: "//",
+	blockComment: ["/*", "*/"] as [string, string],
+};
+
+const JS_GRAMMAR: Grammar = {
+	...C_STYLE,
+	keywords: words(
+		"as async await break case catch class const continue default delete do else enum export extends finally for from function if implements import in instanceof interface let new of private protected public readonly return static super switch this throw try type typeof var void while with yield"
+	),
+	constants: words("true false null undefined NaN Infinity"),
+	quotes: ['"', "'", "`"],
+};
+
+const PYTHON_GRAMMAR: Grammar = {
+	lineComment: "#",
+	keywords: words(
+		"and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield self"
+	),
+	constants: words("True False None"),
+	quotes: ['"', "'"],
+};
+
+const SHELL_GRAMMAR: Grammar = {
+	lineComment: "#",
+	keywords: words(
+		"if then else elif fi for while until do done case esac in function return export local set unset source echo cd exit"
+	),
+	constants: words("true false"),
+	quotes: ['"', "'"],
+};
+
+const JSON_GRAMMAR: Grammar = {
+	keywords: new Set(),
+	constants: words("true false null"),
+	quotes: ['"'],
+};
+
+const GO_GRAMMAR: Grammar = {
+	...C_STYLE,
+	keywords: words(
+		"break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var"
+	),
+	constants: words("true false nil iota"),
+	quotes: ['"', "'", "`"],
+};
+
+const RUST_GRAMMAR: Grammar = {
+	...C_STYLE,
+	keywords: words(
+		"as async await break const continue crate dyn else enum extern fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait type unsafe use where while"
+	),
+	constants: words("true false None Some Ok Err"),
+	quotes: ['"'],
+};
+
+const GRAMMARS: Record<string, Grammar> = {
+	js: JS_GRAMMAR,
+	jsx: JS_GRAMMAR,
+	ts: JS_GRAMMAR,
+	tsx: JS_GRAMMAR,
+	javascript: JS_GRAMMAR,
+	typescript: JS_GRAMMAR,
+	py: PYTHON_GRAMMAR,
+	python: PYTHON_GRAMMAR,
+	sh: SHELL_GRAMMAR,
+	bash: SHELL_GRAMMAR,
+	shell: SHELL_GRAMMAR,
+	zsh: SHELL_GRAMMAR,
+	json: JSON_GRAMMAR,
+	jsonc: { ...JSON_GRAMMAR, ...C_STYLE },
+	go: GO_GRAMMAR,
+	rs: RUST_GRAMMAR,
+	rust: RUST_GRAMMAR,
+};
+
+const readBlockComment: TokenReader = (line, position, grammar, state) => {
+	const [open, close] = grammar.blockComment ?? [];
+	if (!(open && close)) return null;
+	if (!(state.inBlockComment || line.startsWith(open, position))) return null;
+
+	const searchFrom = state.inBlockComment ? position : position + open.length;
+	const end = line.indexOf(close, searchFrom);
+	state.inBlockComment = end < 0;
+
+	return {
+		kind: "comment",
+		text: line.slice(position, end < 0 ? line.length : end + close.length),
+	};
+};
+
+const readLineComment: TokenReader = (line, position, grammar) =>
+	grammar.lineComment && line.startsWith(grammar.lineComment, position)
+		? { kind: "comment", text: line.slice(position) }
+		: null;
+
+const readString: TokenReader = (line, position, grammar) => {
+	const quote = line[position] ?? "";
+	if (!grammar.quotes.includes(quote)) return null;
+
+	let end = position + 1;
+	while (end < line.length && line[end] !== quote) {
+		// Skip escaped characters, including escaped quotes
+		end += line[end] === "\\" ? 2 : 1;
+	}
+
+	return { kind: "string", text: line.slice(position, end + 1) };
+};
+
+const readNumber: TokenReader = (line, position) => {
+	// Digits inside identifiers (e.g. "utf8") are not numbers
+	if (position > 0 && WORD_CHAR_REGEX.test(line[position - 1] ?? "")) {
+		return null;
+	}
+
+	NUMBER_REGEX.lastIndex = position;
+	const match = NUMBER_REGEX.exec(line);
+	return match ? { kind: "number", text: match[0] } : null;
+};
+
+const wordKind = (
+	word: string,
+	rest: string,
+	grammar: Grammar
+): SyntaxTokenKind => {
+	if (grammar.keywords.has(word)) return "keyword";
+	if (grammar.constants.has(word)) return "number";
+	if (CALL_REGEX.test(rest)) return "function";
+	if (TYPE_NAME_REGEX.test(word)) return "type";
+	return "plain";
+};
+
+const readWord: TokenReader = (line, position, grammar) => {
+	WORD_REGEX.lastIndex = position;
+	const match = WORD_REGEX.exec(line);
+	if (!match) return null;
+
+	const word = match[0];
+	return {
+		kind: wordKind(word, line.slice(position + word.length), grammar),
+		text: word,
+	};
+};
+
+// Comments first so quotes and keywords inside them stay dim
+const TOKEN_READERS: TokenReader[] = [
+	readBlockComment,
+	readLineComment,
+	readString,
+	readNumber,
+	readWord,
+];
+
+/**
+ * Append a token, merging it into the previous one when the kind matches
+ */
+const pushToken = (tokens: SyntaxToken[], token: SyntaxToken): void => {
+	const last = tokens.at(-1);
+	if (last && last.kind === token.kind) {
+		last.text += token.text;
+	} else {
+		tokens.push({ ...token });
+	}
+};
+
+function highlightLine(
+	line: string,
+	grammar: Grammar,
+	state: ScanState
+): SyntaxToken[] {
+	const tokens: SyntaxToken[] = [];
+	let position = 0;
+
+	while (position < line.length) {
+		let token: SyntaxToken | null = null;
+		for (const read of TOKEN_READERS) {
+			token = read(line, position, grammar, state);
+			if (token) break;
+		}
+
+		const next = token ?? { kind: "plain", text: line[position] ?? "" };
+		pushToken(tokens, next);
+		position += Math.max(next.text.length, 1);
+	}
+
+	return tokens;
+}
+
+/**
+ * Tokenize source code line by line for syntax highlighting
+ * A small keyword/literal lexer rather than a real parser: good enough
+ * for readable code blocks in the terminal
+ */
+export function highlightCode(code: string, language: string): SyntaxToken[][] {
+	const lines = code.split("\n");
+	const grammar = GRAMMARS[language.toLowerCase()];
+
+	if (!grammar) {
+		return lines.map((line) => [{ kind: "plain", text: line }]);
+	}
+
+	const state: ScanState = { inBlockComment: false };
+	return lines.map((line) => highlightLine(line, grammar, state));
+}
@@ -0,0 +1,174 @@
+import { describe, expect, test } from "bun:test";
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import { INTERRUPT_MARKER_PREFIX } from "./messageParser";
+import { type FirstSeenTimes, pairToolCalls } from "./toolCallStates";
+
+const CALLED_AT = 1000;
+const ANSWERED_AT = 2500;
+const LATER = 4000;
+
+const calls = (...ids: string[]) =>
+	({
+		type: "assistant",
+		session_id: "s1",
+		parent_tool_use_id: null,
+		message: {
+			role: "assistant",
+			content: ids.map((id) => ({
+				type: "tool_use",
+				id,
+				name: "Bash",
+				input: {},
+			})),
+		},
+	}) as unknown as SDKMessage;
+
+const results = (
+	...answers: Array<{ id: string; output: string; isError?: boolean }>
+) =>
+	({
+		type: "user",
+		session_id: "s1",
+		parent_tool_use_id: null,
+		message: {
+			role: "user",
+			content: answers.map(({ id, output, isError }) => ({
+				type: "tool_result",
+				tool_use_id: id,
+				content: output,
+				is_error: isError,
+			})),
+		},
+	}) as unknown as SDKMessage;
+
+const turnEnd = {
+	type: "result",
+	subtype: "error_during_execution",
+	session_id: "s1",
+} as unknown as SDKMessage;
+
+const interruptMarker = {
+	type: "user",
+	session_id: "s1",
+	parent_tool_use_id: null,
+	message: {
+		role: "user",
+		content: [{ type: "text", text: `${INTERRUPT_MARKER_PREFIX}]` }],
+	},
+} as unknown as SDKMessage;
+
+const freshTimes = (): FirstSeenTimes => ({
+	startedAt: new Map(),
+	finishedAt: new Map(),
+});
+
+describe("pairToolCalls", () => {
+	test("completes a call when its result arrives in a later message", () => {
+		const times = freshTimes();
+		const call = calls("t1");
+
+		expect(pairToolCalls([call], times, CALLED_AT).get("t1")).toEqual({
+			toolUseId: "t1",
+			status: "running",
+			startedAt: CALLED_AT,
+		});
+
+		const answered = [call, results({ id: "t1", output: "ok" })];
+		expect(pairToolCalls(answered, times, ANSWERED_AT).get("t1")).toEqual({
+			toolUseId: "t1",
+			status: "succeeded",
+			output: "ok",
+			startedAt: CALLED_AT,
+			finishedAt: ANSWERED_AT,
+		});
+
+		// Recomputing later keeps the times first seen
+		expect(pairToolCalls(answered, times, LATER).get("t1")).toMatchObject({
+			startedAt: CALLED_AT,
+			finishedAt: ANSWERED_AT,
+		});
+	});
+
+	test("marks a call errored when its result is an error", () => {
+		const states = pairToolCalls(
+			[
+				calls("t1"),
+				results({ id: "t1", output: "command not found", isError: true }),
+			],
+			freshTimes(),
+			CALLED_AT
+		);
+
+		expect(states.get("t1")).toMatchObject({
+			status: "errored",
+			output: "command not found",
+		});
+	});
+
+	test("leaves a call that never gets a result running", () => {
+		const states = pairToolCalls(
+			[calls("t1", "t2"), results({ id: "t1", output: "ok" })],
+			freshTimes(),
+			CALLED_AT
+		);
+
+		expect(states.get("t1")?.status).toBe("succeeded");
+		expect(states.get("t2")).toEqual({
+			toolUseId: "t2",
+			status: "running",
+			startedAt: CALLED_AT,
+		});
+	});
+
+	test("pairs several calls in one message by id, in any result order", () => {
+		const states = pairToolCalls(
+			[
+				calls("t1", "t2", "t3"),
+				results(
+					{ id: "t3", output: "third" },
+					{ id: "t1", output: "first", isError: true }
+				),
+				results({ id: "t2", output: "second" }),
+				// No call with this id: ignored
+				results({ id: "t9", output: "stray" }),
+			],
+			freshTimes(),
+			CALLED_AT
+		);
+
+		expect([...states.keys()]).toEqual(["t1", "t2", "t3"]);
+		expect(states.get("t1")).toMatchObject({
+			status: "errored",
+			output: "first",
+		});
+		expect(states.get("t2")).toMatchObject({
+			status: "succeeded",
+			output: "second",
+		});
+		expect(states.get("t3")).toMatchObject({
+			status: "succeeded",
+			output: "third",
+		});
+	});
+
+	test("ends calls left without a result when their turn is over", () => {
+		for (const end of [turnEnd, interruptMarker]) {
+			const times = freshTimes();
+			const call = calls("t1", "t2");
+			pairToolCalls([call], times, CALLED_AT);
+
+			const states = pairToolCalls(
+				[call, results({ id: "t1", output: "ok" }), end],
+				times,
+				ANSWERED_AT
+			);
+			expect(states.get("t1")?.status).toBe("succeeded");
+			expect(states.get("t2")).toEqual({
+				toolUseId: "t2",
+				status: "interrupted",
+				startedAt: CALLED_AT,
+				finishedAt: ANSWERED_AT,
+			});
+		}
+	});
+});
@@ -0,0 +1,103 @@
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import type { ToolCallState } from "@/types/messages";
+import { extractToolResults, isInterruptMarker } from "./messageParser";
+
+/**
+ * When each tool call was first seen running and finished, by tool_use_id
+ * Kept across recomputations so times don't move as messages arrive
+ */
+export type FirstSeenTimes = {
+	startedAt: Map<string, number>;
+	finishedAt: Map<string, number>;
+};
+
+const firstSeen = (times: Map<string, number>, id: string, now: number) => {
+	if (!times.has(id)) times.set(id, now);
+	return times.get(id) ?? now;
+};
+
+/**
+ * Record every tool_use block of an assistant message as running
+ */
+const addToolCalls = (
+	states: Map<string, ToolCallState>,
+	message: SDKMessage,
+	times: FirstSeenTimes,
+	now: number
+): void => {
+	if (message.type !== "assistant") return;
+
+	for (const block of message.message.content) {
+		if (block.type !== "tool_use") continue;
+		states.set(block.id, {
+			toolUseId: block.id,
+			status: "running",
+			startedAt: firstSeen(times.startedAt, block.id, now),
+		});
+	}
+};
+
+/**
+ * Complete tool calls answered by the tool_result blocks of a user message
+ */
+const applyToolResults = (
+	states: Map<string, ToolCallState>,
+	message: SDKMessage,
+	times: FirstSeenTimes,
+	now: number
+): void => {
+	for (const result of extractToolResults(message)) {
+		const state = states.get(result.toolUseId);
+		if (!state) continue;
+
+		states.set(result.toolUseId, {
+			...state,
+			status: result.isError ? "errored" : "succeeded",
+			output: result.output,
+			finishedAt: firstSeen(times.finishedAt, result.toolUseId, now),
+		});
+	}
+};
+
+/**
+ * End the calls still running once their turn is over (its result or an
+ * interrupt marker): no tool_result will come for them any more
+ */
+const interruptRunningCalls = (
+	states: Map<string, ToolCallState>,
+	message: SDKMessage,
+	times: FirstSeenTimes,
+	now: number
+): void => {
+	if (message.type !== "result" && !isInterruptMarker(message)) return;
+
+	for (const [id, state] of states) {
+		if (state.status !== "running") continue;
+		states.set(id, {
+			...state,
+			status: "interrupted",
+			finishedAt: firstSeen(times.finishedAt, id, now),
+		});
+	}
+};
+
+/**
+ * Pair every tool_use block with its tool_result by tool_use_id
+ * A call without a result yet stays running until its turn ends; a result
+ * for a call that isn't in the messages is ignored
+ */
+export function pairToolCalls(
+	messages: SDKMessage[],
+	times: FirstSeenTimes,
+	now: number
+): Map<string, ToolCallState> {
+	const states = new Map<string, ToolCallState>();
+
+	for (const message of messages) {
+		addToolCalls(states, message, times, now);
+		applyToolResults(states, message, times, now);
+		interruptRunningCalls(states, message, times, now);
+	}
+
+	return states;
+}
@@ -0,0 +1,121 @@
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import { formatCost, summarizeToolInput } from "./formatMessage";
+import {
+	extractToolResults,
+	isInterruptMarker,
+	parseLocalCommandOutput,
+} from "./messageParser";
+
+// Tool output longer than this is cut in exports
+const MAX_TOOL_OUTPUT_LINES = 20;
+
+type TextBlock = { type: string; text?: string };
+
+const textOf = (content: string | TextBlock[]): string =>
+	typeof content === "string"
+		? content
+		: content
+				.filter((block) => block.type === "text")
+				.map((block) => block.text ?? "")
+				.join("\n");
+
+const quoteOutput = (output: string): string => {
+	const lines = output.split("\n");
+	const shown = lines.slice(0, MAX_TOOL_OUTPUT_LINES);
+	if (lines.length > shown.length) {
+		shown.push(`… ${lines.length - shown.length} more lines`);
+	}
+	return shown.map((line) => `> ${line}`).join("\n");
+};
+
+function userSection(message: SDKMessage & { type: "user" }): string | null {
+	if (isInterruptMarker(message)) return "_Interrupted by user_";
+
+	const local = parseLocalCommandOutput(message);
+	if (local) return `## You\n\n\`${local.commandLine}\`\n\n${local.output}`;
+
+	const results = extractToolResults(message);
+	if (results.length > 0) {
+		return results
+			.map((result) =>
+				quoteOutput(result.isError ? `Error: ${result.output}` : result.output)
+			)
+			.join("\n\n");
+	}
+
+	const text = textOf(message.message.content);
+	return text ? `## You\n\n${text}` : null;
+}
+
+function assistantSection(
+	message: SDKMessage & { type: "assistant" }
+): string | null {
+	const parts = message.message.content.flatMap(
+		(block: TextBlock & { name?: string; input?: unknown }) => {
+			if (block.type === "text" && block.text) return [block.text];
+			if (block.type === "tool_use") {
+				return [`**${block.name}** \`${summarizeToolInput(block.input)}\``];
+			}
+			return [];
+		}
+	);
+	return parts.length > 0 ? `## Assistant\n\n${parts.join("\n\n")}` : null;
+}
+
+function messageSection(message: SDKMessage): string | null {
+	switch (message.type) {
+		case "user":
+			return userSection(message);
+		case "assistant":
+			return assistantSection(message);
+		case "result":
+			return `_Turn finished in ${message.num_turns} turns · ${formatCost(message.total_cost_usd)}_`;
+		default:
+			return null;
+	}
+}
+
+/**
+ * Render a conversation as markdown for /export
+ * Prompts and replies become sections, tool calls are summarized on one
+ * line and their output is quoted (long output is cut)
+ */
+export function formatTranscript(
+	messages: SDKMessage[],
+	title = "Conversation"
+): string {
+	const sections = messages.flatMap((message) => {
+		const section = messageSection(message);
+		return section ? [section] : [];
+	});
+	return `# ${title}\n\n${sections.join("\n\n")}\n`;
+}
+
+/**
+ * One line of a JSONL transcript (SessionStore and replay fixtures)
+ */
+export const toTranscriptLine = (message: SDKMessage): string =>
+	`${JSON.stringify(message)}\n`;
+
+/**
+ * Parse a JSONL transcript, one SDKMessage per line
+ * Unreadable lines (e.g. a write cut short) are skipped and counted
+ */
+export function parseTranscriptLines(content: string): {
+	messages: SDKMessage[];
+	skipped: number;
+} {
+	const messages: SDKMessage[] = [];
+	let skipped = 0;
+
+	for (const line of content.split("\n")) {
+		if (!line.trim()) continue;
+		try {
+			messages.push(JSON.parse(line) as SDKMessage);
+		} catch {
+			skipped++;
+		}
+	}
+
+	return { messages, skipped };
+}